@@ -0,0 +1,130 @@
+/**
+ * 🗓️ BUSINESS CALENDARS
+ *
+ * When the support team is working, for SLA clocks. Times are Indian
+ * Standard Time, which has no daylight saving, so a fixed UTC offset is enough.
+ *
+ * Public holidays are the central government's gazetted holidays. The three
+ * national holidays fall on the same date every year; festival dates move,
+ * so they are listed per year in festivalHolidays.json. Add a year the list
+ * doesn't have yet with SUPPORT_HOLIDAYS_FILE (same format), and one-off or
+ * state holidays with SUPPORT_EXTRA_HOLIDAYS. Startup warns when the
+ * current year has no festival dates.
+ *
+ * @author GharBazaar Backend Team
+ */
+
+import fs from 'fs';
+import config from './index';
+import bundledFestivalHolidays from './festivalHolidays.json';
+
+export type CalendarId = 'business-hours' | '24x7';
+
+export interface BusinessCalendar {
+    id: CalendarId;
+    name: string;
+    utcOffsetMinutes: number;
+    // 0 = Sunday ... 6 = Saturday
+    workingDays: number[];
+    // Local "HH:MM"; closesAt "24:00" means midnight at the end of the day
+    opensAt: string;
+    closesAt: string;
+    observesHolidays: boolean;
+}
+
+const IST_OFFSET_MINUTES = 330;
+
+export const BUSINESS_CALENDARS: Record<CalendarId, BusinessCalendar> = {
+    'business-hours': {
+        id: 'business-hours',
+        name: 'Mon-Sat 9:00-18:00 IST, closed on public holidays',
+        utcOffsetMinutes: IST_OFFSET_MINUTES,
+        workingDays: [1, 2, 3, 4, 5, 6],
+        opensAt: '09:00',
+        closesAt: '18:00',
+        observesHolidays: true,
+    },
+    '24x7': {
+        id: '24x7',
+        name: 'Around the clock',
+        utcOffsetMinutes: IST_OFFSET_MINUTES,
+        workingDays: [0, 1, 2, 3, 4, 5, 6],
+        opensAt: '00:00',
+        closesAt: '24:00',
+        observesHolidays: false,
+    },
+};
+
+// Same date every year ("MM-DD")
+const NATIONAL_HOLIDAYS: Record<string, string> = {
+    '01-26': 'Republic Day',
+    '08-15': 'Independence Day',
+    '10-02': 'Gandhi Jayanti',
+};
+
+export type FestivalHolidays = Record<string, Record<string, string>>;
+
+const isFestivalHolidays = (value: unknown): value is FestivalHolidays =>
+    !!value && typeof value === 'object' && !Array.isArray(value) &&
+    Object.entries(value).every(([year, days]) =>
+        /^\d{4}$/.test(year) && !!days && typeof days === 'object' && !Array.isArray(days) &&
+        Object.entries(days).every(([day, name]) => /^\d{2}-\d{2}$/.test(day) && typeof name === 'string')
+    );
+
+/**
+ * Festival holidays by year, then "MM-DD": the bundled list merged with
+ * SUPPORT_HOLIDAYS_FILE, if set. A file that can't be read or has the wrong
+ * shape stops the server instead of silently dropping holidays.
+ */
+const loadFestivalHolidays = (): FestivalHolidays => {
+    const file = config.support.holidaysFile;
+    if (!file) return bundledFestivalHolidays;
+
+    let extra: unknown;
+    try {
+        extra = JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (error: any) {
+        throw new Error(`SUPPORT_HOLIDAYS_FILE ${file} could not be read: ${error.message}`);
+    }
+    if (!isFestivalHolidays(extra)) {
+        throw new Error(`SUPPORT_HOLIDAYS_FILE ${file} must look like { "2027": { "MM-DD": "Name", ... } }`);
+    }
+
+    const merged: FestivalHolidays = { ...bundledFestivalHolidays };
+    for (const [year, days] of Object.entries(extra)) {
+        merged[year] = { ...merged[year], ...days };
+    }
+    return merged;
+};
+
+const FESTIVAL_HOLIDAYS = loadFestivalHolidays();
+
+const warnedYears = new Set<string>();
+
+/**
+ * Warn (once per year) when a year has no festival dates, since SLA clocks
+ * would then run through Holi, Diwali and the rest
+ */
+export const checkHolidayCoverage = (year: string | number = new Date().getUTCFullYear()): boolean => {
+    const key = String(year);
+    if (FESTIVAL_HOLIDAYS[key] && Object.keys(FESTIVAL_HOLIDAYS[key]).length) return true;
+
+    if (!warnedYears.has(key)) {
+        warnedYears.add(key);
+        console.warn(`⚠️  No festival holidays listed for ${key} - business-hours SLAs will count them as working days`);
+        console.warn('💡 Add them to src/config/festivalHolidays.json or SUPPORT_HOLIDAYS_FILE');
+    }
+    return false;
+};
+
+/**
+ * Name of the public holiday on a date ("YYYY-MM-DD"), or null on a normal day
+ */
+export const getPublicHoliday = (date: string): string | null => {
+    const year = date.substring(0, 4);
+    checkHolidayCoverage(year);
+
+    return NATIONAL_HOLIDAYS[date.substring(5)] ||
+        FESTIVAL_HOLIDAYS[year]?.[date.substring(5)] ||
+        (config.support.extraHolidays.includes(date) ? 'Holiday' : null);
+};
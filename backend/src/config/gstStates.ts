@@ -0,0 +1,68 @@
+/**
+ * 🗺️ GST STATE CODES
+ *
+ * States and union territories by their two-digit GST code (the first two
+ * digits of a GSTIN). Tax on an invoice is CGST + SGST when the buyer is in
+ * the seller's state, IGST otherwise. Keep in step with GST_STATES in the
+ * frontend (frontend/src/lib/gst.ts).
+ *
+ * @author GharBazaar Backend Team
+ */
+
+export const GST_STATES: Record<string, string> = {
+    '01': 'Jammu and Kashmir',
+    '02': 'Himachal Pradesh',
+    '03': 'Punjab',
+    '04': 'Chandigarh',
+    '05': 'Uttarakhand',
+    '06': 'Haryana',
+    '07': 'Delhi',
+    '08': 'Rajasthan',
+    '09': 'Uttar Pradesh',
+    '10': 'Bihar',
+    '11': 'Sikkim',
+    '12': 'Arunachal Pradesh',
+    '13': 'Nagaland',
+    '14': 'Manipur',
+    '15': 'Mizoram',
+    '16': 'Tripura',
+    '17': 'Meghalaya',
+    '18': 'Assam',
+    '19': 'West Bengal',
+    '20': 'Jharkhand',
+    '21': 'Odisha',
+    '22': 'Chhattisgarh',
+    '23': 'Madhya Pradesh',
+    '24': 'Gujarat',
+    '26': 'Dadra and Nagar Haveli and Daman and Diu',
+    '27': 'Maharashtra',
+    '29': 'Karnataka',
+    '30': 'Goa',
+    '31': 'Lakshadweep',
+    '32': 'Kerala',
+    '33': 'Tamil Nadu',
+    '34': 'Puducherry',
+    '35': 'Andaman and Nicobar Islands',
+    '36': 'Telangana',
+    '37': 'Andhra Pradesh',
+    '38': 'Ladakh',
+};
+
+// 2 digits of state code, PAN (5 letters, 4 digits, 1 letter), entity number, 'Z', check character
+const GSTIN_PATTERN = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+export const isValidGstin = (gstin: string): boolean =>
+    GSTIN_PATTERN.test(gstin) && Object.prototype.hasOwnProperty.call(GST_STATES, gstin.substring(0, 2));
+
+/**
+ * Find a state by GST code ("27") or name ("maharashtra"). Returns its code,
+ * or null if there's no such state.
+ */
+export const findGstStateCode = (state: unknown): string | null => {
+    if (typeof state !== 'string') return null;
+    const value = state.trim();
+    if (Object.prototype.hasOwnProperty.call(GST_STATES, value)) return value;
+
+    const code = Object.keys(GST_STATES).find(key => GST_STATES[key].toLowerCase() === value.toLowerCase());
+    return code || null;
+};
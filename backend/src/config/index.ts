@@ -1,13 +1,24 @@
 import dotenv from 'dotenv';
 import path from 'path';
+import { isValidGstin } from './gstStates';
 
 dotenv.config();
 
+// Without Razorpay keys, orders go through the local stub gateway
+const paymentGateway = (process.env.PAYMENT_GATEWAY as 'razorpay' | 'stub') ||
+    (process.env.RAZORPAY_KEY_SECRET ? 'razorpay' : 'stub');
+
+// Signed file links work without a login, so they must not outlive a short browsing session
+const MAX_FILE_URL_TTL_MINUTES = 60;
+
 interface Config {
     port: number;
     nodeEnv: string;
     jwtSecret: string;
     jwtExpiresIn: string;
+    refreshTokenExpiresInDays: number;
+    refreshTokenReuseGraceSeconds: number;
+    passwordResetExpiresInMinutes: number;
     mongodbUri: string;
     frontendUrl: string;
     allowedOrigins: string[];
@@ -19,11 +30,63 @@ interface Config {
     upload: {
         maxFileSize: number;
         uploadDir: string;
+        storage: 'local';
+        publicUrl: string;
+        signedUrlTtlMinutes: number;
     };
     rateLimit: {
         max: number;
         windowMs: number;
     };
+    mail: {
+        transport: 'console' | 'file';
+        from: string;
+        outboxDir: string;
+    };
+    bids: {
+        expiryHours: number;
+        sweepIntervalSeconds: number;
+    };
+    notifications: {
+        defaultTimezone: string;
+        deliverySweepIntervalSeconds: number;
+    };
+    payments: {
+        gateway: 'razorpay' | 'stub';
+        keyId: string;
+        keySecret: string;
+        webhookSecret: string;
+        currency: string;
+        stuckOrderMinutes: number;
+        reconcileIntervalMinutes: number;
+    };
+    invoices: {
+        sellerName: string;
+        sellerAddress: string;
+        sellerGstin: string;
+        // Percent; split evenly into CGST + SGST within the seller's state
+        gstRate: number;
+        // Start of invoice and credit note numbers (GST allows 16 characters in all)
+        numberPrefix: string;
+    };
+    support: {
+        // Escalate to supervisors once this share of an SLA target has passed
+        slaWarningPercent: number;
+        slaSweepIntervalSeconds: number;
+        // More public holidays ("YYYY-MM-DD") for the business-hours calendar
+        extraHolidays: string[];
+        // JSON file of festival holidays by year ({ "2027": { "MM-DD": "Name" } }), merged with the bundled list
+        holidaysFile?: string;
+        // Hand new tickets to online agents automatically
+        autoAssign: boolean;
+        routingStrategy: 'round-robin' | 'least-loaded';
+        // Concurrent active tickets per agent, unless their routing profile says otherwise
+        maxConcurrentTickets: number;
+        // How long an agent can be offline before their active tickets move to someone else
+        offlineReassignSeconds: number;
+        // How long after closing a customer can reopen their ticket (0 = never)
+        reopenWindowHours: number;
+    };
     logLevel: string;
 }
 
@@ -31,7 +94,11 @@ const config: Config = {
     port: parseInt(process.env.PORT || '5000', 10),
     nodeEnv: process.env.NODE_ENV || 'development',
     jwtSecret: process.env.JWT_SECRET || 'change_this_secret_key_in_production',
-    jwtExpiresIn: process.env.JWT_EXPIRES_IN || '7d',
+    jwtExpiresIn: process.env.JWT_EXPIRES_IN || '15m',
+    refreshTokenExpiresInDays: parseInt(process.env.REFRESH_TOKEN_EXPIRES_DAYS || '30', 10),
+    // A token rotated this recently can be used one more time (tabs refreshing together)
+    refreshTokenReuseGraceSeconds: parseInt(process.env.REFRESH_TOKEN_REUSE_GRACE_SECONDS || '30', 10),
+    passwordResetExpiresInMinutes: parseInt(process.env.PASSWORD_RESET_EXPIRES_MINUTES || '60', 10),
     mongodbUri: process.env.MONGODB_URI || 'mongodb://localhost:27017/gharbazaar',
     frontendUrl: process.env.FRONTEND_URL || 'http://localhost:3000',
     allowedOrigins: (process.env.FRONTEND_URL || 'http://localhost:3000')
@@ -45,11 +112,58 @@ const config: Config = {
     upload: {
         maxFileSize: parseInt(process.env.MAX_FILE_SIZE || '5242880', 10),
         uploadDir: process.env.UPLOAD_DIR || path.join(__dirname, '../../uploads'),
+        storage: (process.env.UPLOAD_STORAGE as 'local') || 'local',
+        publicUrl: process.env.PUBLIC_API_URL || `http://localhost:${process.env.PORT || '5000'}`,
+        signedUrlTtlMinutes: parseInt(process.env.FILE_URL_TTL_MINUTES || '15', 10),
     },
     rateLimit: {
         max: parseInt(process.env.RATE_LIMIT_MAX || '100', 10),
         windowMs: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '15', 10) * 60 * 1000,
     },
+    mail: {
+        transport: (process.env.MAIL_TRANSPORT as 'console' | 'file') || 'console',
+        from: process.env.MAIL_FROM || 'GharBazaar <no-reply@gharbazaar.in>',
+        outboxDir: process.env.MAIL_OUTBOX_DIR || path.join(__dirname, '../../mail-outbox'),
+    },
+    bids: {
+        expiryHours: parseInt(process.env.BID_EXPIRY_HOURS || '72', 10),
+        sweepIntervalSeconds: parseInt(process.env.BID_SWEEP_INTERVAL_SECONDS || '60', 10),
+    },
+    notifications: {
+        defaultTimezone: process.env.NOTIFICATION_DEFAULT_TIMEZONE || 'Asia/Kolkata',
+        deliverySweepIntervalSeconds: parseInt(process.env.NOTIFICATION_SWEEP_INTERVAL_SECONDS || '60', 10),
+    },
+    payments: {
+        gateway: paymentGateway,
+        keyId: process.env.RAZORPAY_KEY_ID || 'rzp_test_stub',
+        keySecret: process.env.RAZORPAY_KEY_SECRET || 'stub_key_secret',
+        // No fallback for Razorpay: without the real secret every webhook is rejected
+        webhookSecret: process.env.RAZORPAY_WEBHOOK_SECRET || (paymentGateway === 'stub' ? 'stub_webhook_secret' : ''),
+        currency: 'INR',
+        stuckOrderMinutes: parseInt(process.env.PAYMENT_STUCK_ORDER_MINUTES || '30', 10),
+        reconcileIntervalMinutes: parseInt(process.env.PAYMENT_RECONCILE_INTERVAL_MINUTES || '15', 10),
+    },
+    invoices: {
+        sellerName: process.env.INVOICE_SELLER_NAME || 'GharBazaar Technologies Pvt Ltd',
+        sellerAddress: process.env.INVOICE_SELLER_ADDRESS || '123 Business Park, Sector 18, Gurugram, Haryana 122015',
+        sellerGstin: process.env.INVOICE_SELLER_GSTIN || '06AABCG1234M1Z5',
+        gstRate: parseFloat(process.env.INVOICE_GST_RATE || '18'),
+        numberPrefix: process.env.INVOICE_NUMBER_PREFIX || 'GB',
+    },
+    support: {
+        slaWarningPercent: parseInt(process.env.SUPPORT_SLA_WARNING_PERCENT || '80', 10),
+        slaSweepIntervalSeconds: parseInt(process.env.SUPPORT_SLA_SWEEP_INTERVAL_SECONDS || '60', 10),
+        extraHolidays: (process.env.SUPPORT_EXTRA_HOLIDAYS || '')
+            .split(',')
+            .map(date => date.trim())
+            .filter(Boolean),
+        holidaysFile: process.env.SUPPORT_HOLIDAYS_FILE || undefined,
+        autoAssign: process.env.SUPPORT_AUTO_ASSIGN !== 'false',
+        routingStrategy: (process.env.SUPPORT_ROUTING_STRATEGY as 'round-robin' | 'least-loaded') || 'least-loaded',
+        maxConcurrentTickets: parseInt(process.env.SUPPORT_MAX_CONCURRENT_TICKETS || '5', 10),
+        offlineReassignSeconds: parseInt(process.env.SUPPORT_OFFLINE_REASSIGN_SECONDS || '120', 10),
+        reopenWindowHours: parseInt(process.env.SUPPORT_REOPEN_WINDOW_HOURS || '72', 10),
+    },
     logLevel: process.env.LOG_LEVEL || 'info',
 };
 
@@ -69,6 +183,43 @@ export const validateConfig = (): void => {
         process.exit(1);
     }
 
+    if (config.payments.gateway === 'razorpay' && !process.env.RAZORPAY_KEY_SECRET) {
+        console.error('❌ PAYMENT_GATEWAY=razorpay needs RAZORPAY_KEY_ID and RAZORPAY_KEY_SECRET');
+        process.exit(1);
+    }
+
+    if (config.payments.gateway === 'razorpay' && !process.env.RAZORPAY_WEBHOOK_SECRET) {
+        console.warn('⚠️  RAZORPAY_WEBHOOK_SECRET is not set - payment webhooks will be rejected');
+    }
+
+    const { signedUrlTtlMinutes } = config.upload;
+    if (!Number.isInteger(signedUrlTtlMinutes) || signedUrlTtlMinutes < 1 || signedUrlTtlMinutes > MAX_FILE_URL_TTL_MINUTES) {
+        console.error(`❌ FILE_URL_TTL_MINUTES must be between 1 and ${MAX_FILE_URL_TTL_MINUTES}`);
+        process.exit(1);
+    }
+
+    if (!isValidGstin(config.invoices.sellerGstin)) {
+        console.error(`❌ INVOICE_SELLER_GSTIN "${config.invoices.sellerGstin}" is not a valid GSTIN`);
+        process.exit(1);
+    }
+
+    const badHoliday = config.support.extraHolidays.find(date => !/^\d{4}-\d{2}-\d{2}$/.test(date));
+    if (badHoliday) {
+        console.error(`❌ SUPPORT_EXTRA_HOLIDAYS entry "${badHoliday}" is not a YYYY-MM-DD date`);
+        process.exit(1);
+    }
+
+    if (!['round-robin', 'least-loaded'].includes(config.support.routingStrategy)) {
+        console.error('❌ SUPPORT_ROUTING_STRATEGY must be round-robin or least-loaded');
+        process.exit(1);
+    }
+
+    if (config.nodeEnv === 'production' && config.payments.gateway === 'stub') {
+        console.error('❌ The STUB payment gateway cannot be used in production (it lets anyone pay without money)');
+        console.error('💡 Set RAZORPAY_KEY_ID, RAZORPAY_KEY_SECRET and RAZORPAY_WEBHOOK_SECRET');
+        process.exit(1);
+    }
+
     console.log('✅ Configuration validated successfully');
 };
 
@@ -0,0 +1,34 @@
+/**
+ * 💳 PAYMENT SERVICES
+ *
+ * What users can pay for, and what it costs. Orders are always priced from
+ * here, never from an amount the client sends. Keep in step with
+ * PAYMENT_SERVICES in the frontend (frontend/src/lib/payment.ts).
+ *
+ * @author GharBazaar Backend Team
+ */
+
+export interface PaymentService {
+    id: string;
+    name: string;
+    // Price in rupees, including GST
+    amount: number;
+    // Services Accounting Code printed on tax invoices
+    sac: string;
+}
+
+export const PAYMENT_SERVICES: Record<string, PaymentService> = {
+    // 998365: sale of internet advertising space
+    'property-listing': { id: 'property-listing', name: 'Property Listing', amount: 1000, sac: '998365' },
+    // 998439: other on-line content
+    'premium-access': { id: 'premium-access', name: 'Premium Access', amount: 500, sac: '998439' },
+    'premium-access-quarterly': { id: 'premium-access-quarterly', name: 'Premium Access (3 Months)', amount: 900, sac: '998439' },
+    // 997222: real estate services on a fee or contract basis
+    'assisted-deal': { id: 'assisted-deal', name: 'Assisted Deal Support', amount: 199, sac: '997222' },
+    'verification-service': { id: 'verification-service', name: 'Property Verification', amount: 299, sac: '997222' },
+};
+
+export const getPaymentService = (serviceId: unknown): PaymentService | null =>
+    typeof serviceId === 'string' && Object.prototype.hasOwnProperty.call(PAYMENT_SERVICES, serviceId)
+        ? PAYMENT_SERVICES[serviceId]
+        : null;
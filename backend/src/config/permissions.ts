@@ -0,0 +1,103 @@
+/**
+ * 🛡️ PERMISSION MATRIX
+ *
+ * Single source of truth for what each role may do.
+ * Used by the Express RBAC middleware and the Socket.IO event guard,
+ * so REST routes and socket events always agree.
+ *
+ * @author GharBazaar Backend Team
+ */
+
+import { UserRole, USER_ROLES } from '../models/user.model';
+
+export const PERMISSIONS = [
+    'chat:participate',          // Use buyer-seller / direct chat
+    'tickets:create',            // Open a support ticket
+    'tickets:view-all',          // See every ticket, not just your own
+    'tickets:assign',            // Claim or assign tickets
+    'tickets:respond',           // Reply to tickets as support staff
+    'tickets:close',             // Close tickets
+    'tickets:supervise',         // Receive SLA escalations and see at-risk tickets
+    'canned-responses:manage',   // Create and edit the team's shared canned responses
+    'employee:console',          // Use the /employee agent console API
+    'employee-room:join',        // Receive the employee broadcast room events
+    'users:manage',              // Administer user accounts
+    'properties:create',         // Create and manage your own listings
+    'properties:moderate',       // Approve or reject listings, see unpublished ones
+    'bids:create',               // Make offers on other people's listings
+    'site-visits:create',        // Book visits to other people's listings
+    'reviews:create',            // Review listings you've dealt with
+    'reviews:moderate',          // Handle reported reviews
+    'payments:reconcile',        // Review payment reconciliation issues and import gateway reports
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+const CUSTOMER_PERMISSIONS: Permission[] = [
+    'chat:participate',
+    'tickets:create',
+    'bids:create',
+    'site-visits:create',
+    'reviews:create',
+];
+
+const SELLER_PERMISSIONS: Permission[] = [
+    ...CUSTOMER_PERMISSIONS,
+    'properties:create',
+];
+
+const STAFF_PERMISSIONS: Permission[] = [
+    'chat:participate',
+    'tickets:create',
+    'tickets:view-all',
+    'tickets:assign',
+    'tickets:respond',
+    'tickets:close',
+    'employee:console',
+    'employee-room:join',
+    'properties:moderate',
+    'reviews:moderate',
+];
+
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+    'buyer': CUSTOMER_PERMISSIONS,
+    'seller': SELLER_PERMISSIONS,
+    'partner': CUSTOMER_PERMISSIONS,
+    'ground-partner': CUSTOMER_PERMISSIONS,
+    'legal-partner': CUSTOMER_PERMISSIONS,
+    'employee': STAFF_PERMISSIONS,
+    'admin': [...PERMISSIONS],
+};
+
+const isUserRole = (role: unknown): role is UserRole =>
+    typeof role === 'string' && (USER_ROLES as readonly string[]).includes(role);
+
+/**
+ * True if the role is one of the given roles
+ */
+export const hasRole = (role: string | undefined, roles: UserRole[]): boolean =>
+    isUserRole(role) && roles.includes(role);
+
+/**
+ * True if the role grants ALL of the given permissions
+ */
+export const hasPermission = (role: string | undefined, ...permissions: Permission[]): boolean => {
+    if (!isUserRole(role)) return false;
+    const granted = ROLE_PERMISSIONS[role];
+    return permissions.every(permission => granted.includes(permission));
+};
+
+/**
+ * Body of a "forbidden" response, shared by REST 403s and socket `error` events
+ */
+export interface ForbiddenError {
+    code: 'FORBIDDEN';
+    message: string;
+    required: string[];
+}
+
+export const buildForbiddenError = (required: string[]): ForbiddenError => ({
+    code: 'FORBIDDEN',
+    message: 'You do not have permission to perform this action',
+    required,
+});
@@ -0,0 +1,82 @@
+/**
+ * ⏱️ SUPPORT SLA POLICIES
+ *
+ * How quickly support has to answer (first response) and close
+ * (resolution) a ticket, by ticket category and priority. Targets are in
+ * working minutes of the policy's business calendar, so a ticket raised on
+ * a Saturday evening under business hours starts its clock on Monday morning.
+ *
+ * Categories match the help centre categories in the frontend
+ * (frontend/src/lib/faqKnowledgeBase.ts); anything else gets the standard policy.
+ *
+ * @author GharBazaar Backend Team
+ */
+
+import { TicketPriority } from '../models/ticket.model';
+import { CalendarId } from './businessCalendars';
+
+export interface SlaTargets {
+    firstResponseMinutes: number;
+    resolutionMinutes: number;
+}
+
+export interface SlaPolicy {
+    id: string;
+    name: string;
+    calendar: CalendarId;
+    targets: Record<TicketPriority, SlaTargets>;
+}
+
+export const SLA_POLICIES: Record<string, SlaPolicy> = {
+    // Money and account security can't wait for office hours
+    'critical': {
+        id: 'critical',
+        name: 'Payments and account security',
+        calendar: '24x7',
+        targets: {
+            urgent: { firstResponseMinutes: 15, resolutionMinutes: 4 * 60 },
+            high: { firstResponseMinutes: 30, resolutionMinutes: 8 * 60 },
+            medium: { firstResponseMinutes: 60, resolutionMinutes: 24 * 60 },
+            low: { firstResponseMinutes: 4 * 60, resolutionMinutes: 72 * 60 },
+        },
+    },
+    // Live deals: offers, visits and paperwork
+    'deals': {
+        id: 'deals',
+        name: 'Offers, visits and documents',
+        calendar: 'business-hours',
+        targets: {
+            urgent: { firstResponseMinutes: 30, resolutionMinutes: 4 * 60 },
+            high: { firstResponseMinutes: 60, resolutionMinutes: 9 * 60 },
+            medium: { firstResponseMinutes: 2 * 60, resolutionMinutes: 18 * 60 },
+            low: { firstResponseMinutes: 4 * 60, resolutionMinutes: 36 * 60 },
+        },
+    },
+    'standard': {
+        id: 'standard',
+        name: 'Standard',
+        calendar: 'business-hours',
+        targets: {
+            urgent: { firstResponseMinutes: 60, resolutionMinutes: 9 * 60 },
+            high: { firstResponseMinutes: 2 * 60, resolutionMinutes: 18 * 60 },
+            medium: { firstResponseMinutes: 4 * 60, resolutionMinutes: 27 * 60 },
+            low: { firstResponseMinutes: 9 * 60, resolutionMinutes: 45 * 60 },
+        },
+    },
+};
+
+const CATEGORY_POLICIES: Record<string, string> = {
+    'Account & Authentication': 'critical',
+    'Payments & Pricing': 'critical',
+    'Bids & Offers': 'deals',
+    'Visits & Appointments': 'deals',
+    'Documents & Contracts': 'deals',
+};
+
+export const DEFAULT_SLA_POLICY = 'standard';
+
+/**
+ * The SLA policy for a ticket category
+ */
+export const getSlaPolicy = (categoryTitle: string): SlaPolicy =>
+    SLA_POLICIES[CATEGORY_POLICIES[categoryTitle] || DEFAULT_SLA_POLICY];
@@ -1,21 +1,72 @@
 /**
  * 🔐 AUTHENTICATION CONTROLLER
  * 
- * Handles user registration, login, and token verification.
+ * Handles user registration, login, token verification, sessions and password reset.
  * Includes support for in-memory mode when MongoDB is unavailable.
  * 
  * @author GharBazaar Backend Team
  */
 
 import { Request, Response } from 'express';
-import { generateToken, verifyToken as jwtVerifyToken } from '../utils/jwt';
-import { isMongoDBAvailable } from '../utils/memoryStore';
+import { v4 as uuidv4 } from 'uuid';
+import config from '../config';
+import {
+    verifyToken as jwtVerifyToken,
+    DecodedToken,
+    generatePasswordResetToken,
+    verifyPasswordResetToken,
+} from '../utils/jwt';
+import { isMongoDBAvailable, memoryPasswordResets } from '../utils/memoryStore';
+import { sendMail } from '../utils/mailer';
+import PasswordReset from '../models/passwordReset.model';
+import { hashPassword, verifyPassword, validatePasswordStrength } from '../utils/password';
+import {
+    createUser,
+    findUserByEmail,
+    findUserById,
+    toPublicUser,
+    updateUser,
+    DuplicateEmailError,
+} from '../utils/userStore';
+import {
+    issueSession,
+    rotateRefreshToken,
+    revokeSession,
+    revokeAllSessions,
+    revokeAccessToken,
+    isTokenRevoked,
+    getRefreshTokenSession,
+    InvalidRefreshTokenError,
+    SessionMeta,
+} from '../utils/tokenStore';
+import { disconnectUserSockets } from '../socket';
+import { SELF_REGISTER_ROLES, UserRole } from '../models/user.model';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const getSessionMeta = (req: Request): SessionMeta => ({
+    userAgent: req.get('user-agent'),
+    ipAddress: req.ip,
+});
+
+/**
+ * Read the bearer token if present and valid (used where auth is optional)
+ */
+const getOptionalBearerToken = (req: Request): DecodedToken | null => {
+    const authHeader = req.headers.authorization;
+    if (!authHeader || !authHeader.startsWith('Bearer ')) return null;
+    try {
+        return jwtVerifyToken(authHeader.substring(7));
+    } catch {
+        return null;
+    }
+};
 
 /**
  * 🔑 LOGIN
  * 
- * Authenticates a user and returns a token.
- * In memory mode, it accepts any email with 'password123'.
+ * Authenticates a user against their stored password hash and returns a token.
+ * In memory mode, demo accounts (e.g. buyer@demo.com / password123) are available.
  * 
  * POST /api/v1/auth/login
  */
@@ -27,44 +78,32 @@ export const login = async (req: Request, res: Response) => {
             return res.status(400).json({ success: false, error: 'Email and password are required' });
         }
 
-        let userData;
+        const user = await findUserByEmail(String(email));
 
-        if (isMongoDBAvailable()) {
-            // TODO: Regular MongoDB auth logic here
-            // For now, mirroring memory mode for testing
-            userData = {
-                uid: 'demo-buyer-id',
-                email,
-                displayName: email.split('@')[0],
-                role: email.includes('admin') ? 'admin' : email.includes('employee') ? 'employee' : 'buyer'
-            };
-        } else {
-            // Memory mode: Accept any demo login
-            if (password !== 'password123') {
-                return res.status(401).json({ success: false, error: 'Invalid credentials' });
-            }
-
-            userData = {
-                uid: email === 'buyer@demo.com' ? 'demo-buyer-id' : 'demo-user-id',
-                email,
-                displayName: email.split('@')[0],
-                role: email.includes('admin') ? 'admin' : email.includes('employee') ? 'employee' : 'buyer'
-            };
+        // Same response for unknown email and wrong password to avoid account enumeration
+        if (!user || !(await verifyPassword(String(password), user.passwordHash))) {
+            return res.status(401).json({ success: false, error: 'Invalid credentials' });
         }
 
-        // Generate JWT
-        const token = generateToken({
+        await updateUser(user._id.toString(), { lastLoginAt: new Date() });
+
+        const userData = toPublicUser(user);
+
+        // Start a new session (access + refresh token)
+        const tokens = await issueSession({
             userId: userData.uid,
             email: userData.email,
             role: userData.role
-        });
+        }, getSessionMeta(req));
 
-        console.log(`✅ Login successful for: ${email}${!isMongoDBAvailable() ? ' (Memory Mode)' : ''}`);
+        console.log(`✅ Login successful for: ${userData.email}${!isMongoDBAvailable() ? ' (Memory Mode)' : ''}`);
 
         res.json({
             success: true,
             data: {
-                token,
+                token: tokens.token,
+                refreshToken: tokens.refreshToken,
+                expiresIn: tokens.expiresIn,
                 user: userData
             }
         });
@@ -78,8 +117,8 @@ export const login = async (req: Request, res: Response) => {
 /**
  * 📝 REGISTER
  * 
- * Registers a new user.
- * In memory mode, it always succeeds but doesn't persist.
+ * Registers a new user with a hashed password.
+ * Only self-service roles can be chosen; employee/admin accounts are provisioned separately.
  * 
  * POST /api/v1/auth/register
  */
@@ -91,30 +130,50 @@ export const register = async (req: Request, res: Response) => {
             return res.status(400).json({ success: false, error: 'Missing required fields' });
         }
 
-        const userData = {
-            uid: `user-${Date.now()}`,
-            email,
-            displayName,
-            role
-        };
+        if (!EMAIL_PATTERN.test(String(email))) {
+            return res.status(400).json({ success: false, error: 'Invalid email address' });
+        }
 
-        const token = generateToken({
+        const passwordError = validatePasswordStrength(password);
+        if (passwordError) {
+            return res.status(400).json({ success: false, error: passwordError });
+        }
+
+        if (!SELF_REGISTER_ROLES.includes(role)) {
+            return res.status(403).json({ success: false, error: `Cannot register with role '${role}'` });
+        }
+
+        const user = await createUser({
+            email: String(email),
+            passwordHash: await hashPassword(password),
+            displayName: String(displayName).trim(),
+            role: role as UserRole,
+        });
+
+        const userData = toPublicUser(user);
+
+        const tokens = await issueSession({
             userId: userData.uid,
             email: userData.email,
             role: userData.role
-        });
+        }, getSessionMeta(req));
 
-        console.log(`✅ Registration successful for: ${email}${!isMongoDBAvailable() ? ' (Memory Mode)' : ''}`);
+        console.log(`✅ Registration successful for: ${userData.email}${!isMongoDBAvailable() ? ' (Memory Mode)' : ''}`);
 
         res.status(201).json({
             success: true,
             data: {
-                token,
+                token: tokens.token,
+                refreshToken: tokens.refreshToken,
+                expiresIn: tokens.expiresIn,
                 user: userData
             }
         });
 
     } catch (error) {
+        if (error instanceof DuplicateEmailError) {
+            return res.status(409).json({ success: false, error: 'An account with this email already exists' });
+        }
         console.error('❌ Registration error:', error);
         res.status(500).json({ success: false, error: 'Registration failed' });
     }
@@ -123,7 +182,7 @@ export const register = async (req: Request, res: Response) => {
 /**
  * 🔍 VERIFY TOKEN
  * 
- * Validates a JWT and returns user data.
+ * Validates a JWT and returns the current account data.
  * 
  * POST /api/v1/auth/verify-token
  */
@@ -137,16 +196,17 @@ export const verifyToken = async (req: Request, res: Response) => {
 
         const decoded = jwtVerifyToken(token);
 
-        if (!decoded) {
+        if (!decoded || await isTokenRevoked(decoded)) {
             return res.status(401).json({ success: false, error: 'Invalid or expired token' });
         }
 
-        const userData = {
-            uid: decoded.userId,
-            email: decoded.email,
-            displayName: decoded.email?.split('@')[0] || 'User',
-            role: decoded.role || 'buyer'
-        };
+        // Token must still belong to an existing account
+        const user = await findUserById(decoded.userId);
+        if (!user) {
+            return res.status(401).json({ success: false, error: 'Account no longer exists' });
+        }
+
+        const userData = toPublicUser(user);
 
         res.json({
             success: true,
@@ -161,13 +221,260 @@ export const verifyToken = async (req: Request, res: Response) => {
     }
 };
 
+/**
+ * 🔄 REFRESH TOKEN
+ * 
+ * Exchanges a refresh token for a new access token and a new refresh token.
+ * The old refresh token stops working immediately (rotation).
+ * 
+ * POST /api/v1/auth/refresh-token
+ * Body: { refreshToken }
+ */
+export const refreshToken = async (req: Request, res: Response) => {
+    try {
+        const { refreshToken: presentedToken } = req.body;
+
+        if (!presentedToken || typeof presentedToken !== 'string') {
+            return res.status(400).json({ success: false, error: 'Refresh token is required' });
+        }
+
+        const tokens = await rotateRefreshToken(presentedToken, getSessionMeta(req));
+
+        res.json({
+            success: true,
+            data: {
+                token: tokens.token,
+                refreshToken: tokens.refreshToken,
+                expiresIn: tokens.expiresIn,
+            }
+        });
+
+    } catch (error) {
+        if (error instanceof InvalidRefreshTokenError) {
+            return res.status(401).json({ success: false, error: error.message });
+        }
+        console.error('❌ Token refresh error:', error);
+        res.status(500).json({ success: false, error: 'Token refresh failed' });
+    }
+};
+
 /**
  * 🚪 LOGOUT
  * 
- * Handles user logout (client should discard token).
+ * Ends the current session: revokes its refresh tokens and access tokens
+ * and disconnects its sockets. The session is identified by the bearer
+ * token and/or the refresh token in the body, so logout still works after
+ * the access token has expired.
  * 
  * POST /api/v1/auth/logout
+ * Body: { refreshToken? }
  */
 export const logout = async (req: Request, res: Response) => {
-    res.json({ success: true, message: 'Logged out successfully' });
+    try {
+        const decoded = getOptionalBearerToken(req);
+        const { refreshToken: presentedToken } = req.body || {};
+
+        const sessions = new Map<string, string>();   // sessionId -> userId
+
+        if (decoded) {
+            await revokeAccessToken(decoded);
+            if (decoded.sid) sessions.set(decoded.sid, decoded.userId);
+        }
+
+        if (typeof presentedToken === 'string' && presentedToken) {
+            const session = await getRefreshTokenSession(presentedToken);
+            if (session) sessions.set(session.sessionId, session.userId);
+        }
+
+        const io = req.app.get('io');
+        for (const [sessionId, userId] of sessions) {
+            await revokeSession(userId, sessionId);
+            if (io) disconnectUserSockets(io, userId, sessionId);
+        }
+
+        res.json({ success: true, message: 'Logged out successfully' });
+
+    } catch (error) {
+        console.error('❌ Logout error:', error);
+        res.status(500).json({ success: false, error: 'Logout failed' });
+    }
+};
+
+/**
+ * 🚪🚪 LOGOUT ALL DEVICES
+ * 
+ * Revokes every session of the authenticated user and disconnects all their sockets.
+ * 
+ * POST /api/v1/auth/logout-all
+ */
+export const logoutAll = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user as DecodedToken;
+
+        const revokedSessions = await revokeAllSessions(user.userId);
+        await revokeAccessToken(user);
+
+        const io = req.app.get('io');
+        if (io) disconnectUserSockets(io, user.userId);
+
+        console.log(`🚪 Logged out ${revokedSessions} session(s) for ${user.email}`);
+
+        res.json({
+            success: true,
+            message: 'Logged out of all devices',
+            data: { revokedSessions }
+        });
+
+    } catch (error) {
+        console.error('❌ Logout-all error:', error);
+        res.status(500).json({ success: false, error: 'Logout failed' });
+    }
+};
+
+/**
+ * 📧 FORGOT PASSWORD
+ * 
+ * Emails a signed, single-use password reset link.
+ * Always responds the same way so the endpoint can't be used to discover accounts.
+ * Requesting a new link invalidates any earlier unused links.
+ * 
+ * POST /api/v1/auth/forgot-password
+ * Body: { email }
+ */
+export const forgotPassword = async (req: Request, res: Response) => {
+    try {
+        const { email } = req.body;
+
+        if (!email || typeof email !== 'string') {
+            return res.status(400).json({ success: false, error: 'Email is required' });
+        }
+
+        const user = await findUserByEmail(email);
+
+        if (user) {
+            const userId = user._id.toString();
+            const tokenId = uuidv4();
+            const now = new Date();
+            const expiresAt = new Date(now.getTime() + config.passwordResetExpiresInMinutes * 60 * 1000);
+
+            if (isMongoDBAvailable()) {
+                await PasswordReset.updateMany(
+                    { userId, usedAt: { $exists: false } },
+                    { usedAt: now }
+                );
+                await PasswordReset.create({ tokenId, userId, expiresAt, requestedIp: req.ip });
+            } else {
+                for (const reset of memoryPasswordResets.values()) {
+                    if (reset.userId === userId && !reset.usedAt) reset.usedAt = now;
+                }
+                memoryPasswordResets.set(tokenId, { tokenId, userId, expiresAt, requestedIp: req.ip, createdAt: now });
+            }
+
+            const token = generatePasswordResetToken(userId, tokenId);
+            const resetUrl = `${config.allowedOrigins[0]}/reset-password?token=${encodeURIComponent(token)}`;
+
+            try {
+                await sendMail({
+                    to: user.email,
+                    subject: 'Reset your GharBazaar password',
+                    text: [
+                        `Hi ${user.displayName},`,
+                        '',
+                        'We received a request to reset your GharBazaar password.',
+                        `Use the link below within ${config.passwordResetExpiresInMinutes} minutes to choose a new one:`,
+                        '',
+                        resetUrl,
+                        '',
+                        "If you didn't request this, you can ignore this email. Your password won't change.",
+                    ].join('\n'),
+                });
+            } catch (mailError) {
+                // Don't reveal delivery problems (or account existence) to the caller
+                console.error('❌ Failed to send password reset email:', mailError);
+            }
+        } else {
+            console.log(`📧 Password reset requested for unknown email: ${email}`);
+        }
+
+        res.json({
+            success: true,
+            message: 'If an account exists for this email, a reset link has been sent'
+        });
+
+    } catch (error) {
+        console.error('❌ Forgot password error:', error);
+        res.status(500).json({ success: false, error: 'Failed to process password reset request' });
+    }
+};
+
+/**
+ * 🔁 RESET PASSWORD
+ * 
+ * Sets a new password using a reset token from the email link.
+ * The token works once; afterwards every existing session is logged out.
+ * 
+ * POST /api/v1/auth/reset-password
+ * Body: { token, password }
+ */
+export const resetPassword = async (req: Request, res: Response) => {
+    try {
+        const { token, password } = req.body;
+
+        if (!token || !password) {
+            return res.status(400).json({ success: false, error: 'Token and new password are required' });
+        }
+
+        let payload;
+        try {
+            payload = verifyPasswordResetToken(String(token));
+        } catch (error) {
+            return res.status(400).json({
+                success: false,
+                error: error instanceof Error ? error.message : 'Invalid reset link.'
+            });
+        }
+
+        const passwordError = validatePasswordStrength(password);
+        if (passwordError) {
+            return res.status(400).json({ success: false, error: passwordError });
+        }
+
+        // Claim the token atomically so it can only ever be used once
+        let claimed;
+        const now = new Date();
+        if (isMongoDBAvailable()) {
+            claimed = await PasswordReset.findOneAndUpdate(
+                { tokenId: payload.jti, userId: payload.userId, usedAt: { $exists: false } },
+                { usedAt: now }
+            );
+        } else {
+            const reset = memoryPasswordResets.get(payload.jti);
+            if (reset && reset.userId === payload.userId && !reset.usedAt) {
+                reset.usedAt = now;
+                claimed = reset;
+            }
+        }
+
+        if (!claimed) {
+            return res.status(400).json({ success: false, error: 'This reset link has already been used or replaced.' });
+        }
+
+        const user = await updateUser(payload.userId, { passwordHash: await hashPassword(password) });
+        if (!user) {
+            return res.status(400).json({ success: false, error: 'Invalid reset link.' });
+        }
+
+        // Anyone holding an old session must login again with the new password
+        await revokeAllSessions(payload.userId);
+        const io = req.app.get('io');
+        if (io) disconnectUserSockets(io, payload.userId);
+
+        console.log(`🔁 Password reset for: ${user.email}${!isMongoDBAvailable() ? ' (Memory Mode)' : ''}`);
+
+        res.json({ success: true, message: 'Password has been reset. Please login with your new password.' });
+
+    } catch (error) {
+        console.error('❌ Reset password error:', error);
+        res.status(500).json({ success: false, error: 'Failed to reset password' });
+    }
 };
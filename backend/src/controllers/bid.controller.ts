@@ -0,0 +1,451 @@
+/**
+ * 💰 BID REST API CONTROLLER
+ *
+ * Offers and counter-offers on approved listings:
+ * open ⇄ countered → accepted | rejected | withdrawn | expired
+ *
+ * The buyer opens a bid and the seller responds (accept, reject or counter).
+ * A counter hands the turn back to the buyer, who can accept it, reject it or
+ * counter again. The buyer may withdraw at any time while the bid is active.
+ * Bids nobody responds to expire after BID_EXPIRY_HOURS.
+ *
+ * Only one bid per property can be accepted; accepting one rejects every
+ * other active bid on that property. Every change is recorded in the bid's
+ * history and pushed to both parties as a `bid:*` socket event.
+ *
+ * @author GharBazaar Backend Team
+ */
+
+import { Request, Response } from 'express';
+import { ACTIVE_BID_STATUSES, BidStatus, IBidHistoryEntry } from '../models/bid.model';
+import {
+    AcceptedBidExistsError,
+    BidFilter,
+    createBid as storeBid,
+    expireDueBids,
+    findBidById,
+    findBids,
+    hasAcceptedBid,
+    nextBidExpiry,
+    transitionBid,
+} from '../utils/bidStore';
+import { emitBidEvent } from '../utils/bidEvents';
+import { notify } from '../utils/notifications';
+import { findPropertyById } from '../utils/propertyStore';
+import { findUserById } from '../utils/userStore';
+import { hasPermission } from '../config/permissions';
+
+type BidParty = 'buyer' | 'seller';
+
+const MAX_MESSAGE_LENGTH = 1000;
+
+const isActive = (status: BidStatus) => (ACTIVE_BID_STATUSES as readonly BidStatus[]).includes(status);
+
+const partyOf = (bid: any, user: any): BidParty | null => {
+    if (bid.buyerId === user?.userId) return 'buyer';
+    if (bid.sellerId === user?.userId) return 'seller';
+    return null;
+};
+
+// Whose turn it is to respond: open bids wait on the seller, counters on the buyer
+const awaitingParty = (status: BidStatus): BidParty | null => {
+    if (status === 'open') return 'seller';
+    if (status === 'countered') return 'buyer';
+    return null;
+};
+
+const parseAmount = (value: unknown): number | null => {
+    const amount = Number(value);
+    return Number.isFinite(amount) && amount > 0 ? amount : null;
+};
+
+const parseMessage = (value: unknown): string | undefined =>
+    typeof value === 'string' && value.trim() ? value.trim().slice(0, MAX_MESSAGE_LENGTH) : undefined;
+
+const historyEntry = (
+    action: IBidHistoryEntry['action'],
+    user: any,
+    party: BidParty,
+    extra: { amount?: number; message?: string } = {}
+): IBidHistoryEntry => ({ action, actorId: user.userId, actorRole: party, ...extra, at: new Date() });
+
+/**
+ * Expire due bids matching the filter and notify both parties
+ */
+const expireBids = async (req: Request, filter: Omit<BidFilter, 'statuses' | 'expiresBefore'>) => {
+    const expired = await expireDueBids(filter);
+    expired.forEach(bid => emitBidEvent(req.app.get('io'), 'bid:expired', bid));
+};
+
+/**
+ * Return the bid as it stands now, expiring it first if its response window has passed
+ */
+const expireIfDue = async (req: Request, bid: any): Promise<any> => {
+    if (!isActive(bid.status) || new Date(bid.expiresAt) > new Date()) return bid;
+    await expireBids(req, { propertyId: bid.propertyId });
+    return findBidById(String(bid._id));
+};
+
+/**
+ * Load a bid the current user takes part in, expiring it first if it is due.
+ * Sends the error response and returns null if the bid can't be acted on.
+ */
+const loadActiveBid = async (req: Request, res: Response): Promise<{ bid: any; party: BidParty } | null> => {
+    const user = (req as any).user;
+    let bid = await findBidById(req.params.id);
+    const party = bid && partyOf(bid, user);
+
+    if (!bid || !party) {
+        res.status(404).json({ success: false, error: 'Bid not found' });
+        return null;
+    }
+
+    bid = await expireIfDue(req, bid);
+
+    if (!isActive(bid.status)) {
+        res.status(409).json({ success: false, error: `This bid is already ${bid.status}` });
+        return null;
+    }
+
+    return { bid, party };
+};
+
+/**
+ * Sends the error response and returns false unless it's this party's turn
+ */
+const ensureTurn = (res: Response, bid: any, party: BidParty): boolean => {
+    const awaiting = awaitingParty(bid.status);
+    if (awaiting !== party) {
+        res.status(409).json({ success: false, error: `Waiting for the ${awaiting} to respond` });
+        return false;
+    }
+    return true;
+};
+
+/**
+ * Sends the error response and returns false if the listing stopped taking offers
+ */
+const ensureListingOpen = async (res: Response, propertyId: string): Promise<boolean> => {
+    const property = await findPropertyById(propertyId);
+    if (!property || property.status !== 'approved') {
+        res.status(409).json({ success: false, error: 'This listing is no longer accepting offers' });
+        return false;
+    }
+    return true;
+};
+
+const respondWithConflict = (res: Response) =>
+    res.status(409).json({ success: false, error: 'This bid was updated by someone else. Please refresh.' });
+
+/**
+ * Reject every other active bid on the property once one is accepted
+ */
+const closeCompetingBids = async (req: Request, accepted: any) => {
+    const competing = await findBids({ propertyId: accepted.propertyId, statuses: ACTIVE_BID_STATUSES });
+    const now = new Date();
+
+    for (const bid of competing) {
+        if (String(bid._id) === String(accepted._id)) continue;
+
+        const rejected = await transitionBid(
+            bid,
+            ACTIVE_BID_STATUSES,
+            { status: 'rejected', rejectionReason: 'Another offer on this property was accepted', closedAt: now },
+            { action: 'rejected', actorId: 'system', actorRole: 'system', at: now }
+        );
+        if (rejected) emitBidEvent(req.app.get('io'), 'bid:rejected', rejected);
+    }
+};
+
+// CREATE bid on an approved listing
+export const createBid = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        const { propertyId } = req.body;
+        const amount = parseAmount(req.body.amount);
+        const message = parseMessage(req.body.message);
+
+        if (!propertyId || typeof propertyId !== 'string') {
+            return res.status(400).json({ success: false, error: 'propertyId is required' });
+        }
+
+        if (amount === null) {
+            return res.status(400).json({ success: false, error: 'amount must be a positive number' });
+        }
+
+        const property = await findPropertyById(propertyId);
+        if (!property || property.status !== 'approved') {
+            return res.status(404).json({ success: false, error: 'Property not found' });
+        }
+
+        if (property.ownerId === user.userId) {
+            return res.status(400).json({ success: false, error: 'You cannot bid on your own listing' });
+        }
+
+        if (await hasAcceptedBid(propertyId)) {
+            return res.status(409).json({ success: false, error: 'An offer has already been accepted for this property' });
+        }
+
+        await expireBids(req, { propertyId, buyerId: user.userId });
+        const [existing] = await findBids({ propertyId, buyerId: user.userId, statuses: ACTIVE_BID_STATUSES });
+        if (existing) {
+            return res.status(409).json({
+                success: false,
+                error: 'You already have an active bid on this property',
+                data: { bidId: existing._id },
+            });
+        }
+
+        const buyer = await findUserById(user.userId);
+        const bid = await storeBid(
+            {
+                propertyId,
+                propertyTitle: property.title,
+                sellerId: property.ownerId,
+                buyerId: user.userId,
+                buyerName: buyer?.displayName,
+                amount,
+                message,
+            },
+            historyEntry('created', user, 'buyer', { amount, message })
+        );
+
+        console.log(`💰 Bid ${bid._id} placed on ${propertyId} by ${user.email}: ₹${amount}`);
+
+        emitBidEvent(req.app.get('io'), 'bid:created', bid);
+        await notify(property.ownerId, {
+            type: 'offer',
+            title: `New offer on ${property.title}`,
+            message: `${buyer?.displayName || 'A buyer'} offered ₹${amount.toLocaleString('en-IN')}`,
+            link: `/listings/${propertyId}`,
+            metadata: { bidId: String(bid._id), propertyId, amount },
+        }, req.app.get('io'));
+
+        res.status(201).json({ success: true, data: { bid } });
+    } catch (error) {
+        console.error('Error creating bid:', error);
+        res.status(500).json({ success: false, error: 'Failed to place bid' });
+    }
+};
+
+/**
+ * Accept the other side's latest offer: the seller accepts the buyer's bid,
+ * the buyer accepts the seller's counter-offer
+ */
+const acceptLatestOffer = async (req: Request, res: Response, requiredParty: BidParty) => {
+    try {
+        const user = (req as any).user;
+        const loaded = await loadActiveBid(req, res);
+        if (!loaded) return;
+        const { bid, party } = loaded;
+
+        if (party !== requiredParty) {
+            const error = requiredParty === 'seller'
+                ? 'Only the seller can accept a bid'
+                : 'Only the buyer can accept a counter-offer';
+            return res.status(403).json({ success: false, error });
+        }
+
+        if (!ensureTurn(res, bid, party)) return;
+        if (!(await ensureListingOpen(res, bid.propertyId))) return;
+
+        const acceptedAmount = party === 'seller' ? bid.amount : bid.counterAmount;
+        const accepted = await transitionBid(
+            bid,
+            [bid.status],
+            { status: 'accepted', acceptedAmount, closedAt: new Date() },
+            historyEntry('accepted', user, party, { amount: acceptedAmount })
+        );
+
+        if (!accepted) return respondWithConflict(res);
+
+        console.log(`🤝 Bid ${bid._id} accepted by ${user.email} at ₹${acceptedAmount}`);
+
+        emitBidEvent(req.app.get('io'), 'bid:accepted', accepted);
+        await closeCompetingBids(req, accepted);
+
+        res.json({ success: true, data: { bid: accepted } });
+    } catch (error) {
+        if (error instanceof AcceptedBidExistsError) {
+            return res.status(409).json({ success: false, error: 'An offer has already been accepted for this property' });
+        }
+        console.error('Error accepting bid:', error);
+        res.status(500).json({ success: false, error: 'Failed to accept bid' });
+    }
+};
+
+// ACCEPT buyer's bid (seller)
+export const acceptBid = async (req: Request, res: Response) => acceptLatestOffer(req, res, 'seller');
+
+// ACCEPT seller's counter-offer (buyer)
+export const acceptCounterOffer = async (req: Request, res: Response) => acceptLatestOffer(req, res, 'buyer');
+
+// REJECT the other side's latest offer, ending the negotiation
+export const rejectBid = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        const loaded = await loadActiveBid(req, res);
+        if (!loaded) return;
+        const { bid, party } = loaded;
+
+        if (!ensureTurn(res, bid, party)) return;
+
+        const reason = parseMessage(req.body.reason);
+        const rejected = await transitionBid(
+            bid,
+            [bid.status],
+            { status: 'rejected', rejectionReason: reason, closedAt: new Date() },
+            historyEntry('rejected', user, party, { message: reason })
+        );
+
+        if (!rejected) return respondWithConflict(res);
+
+        console.log(`🚫 Bid ${bid._id} rejected by ${user.email}`);
+
+        emitBidEvent(req.app.get('io'), 'bid:rejected', rejected);
+
+        res.json({ success: true, data: { bid: rejected } });
+    } catch (error) {
+        console.error('Error rejecting bid:', error);
+        res.status(500).json({ success: false, error: 'Failed to reject bid' });
+    }
+};
+
+// COUNTER the other side's latest offer with a new amount
+export const counterBid = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        const amount = parseAmount(req.body.amount);
+        const message = parseMessage(req.body.message);
+
+        if (amount === null) {
+            return res.status(400).json({ success: false, error: 'amount must be a positive number' });
+        }
+
+        const loaded = await loadActiveBid(req, res);
+        if (!loaded) return;
+        const { bid, party } = loaded;
+
+        if (!ensureTurn(res, bid, party)) return;
+        if (!(await ensureListingOpen(res, bid.propertyId))) return;
+
+        const offerOnTable = party === 'seller' ? bid.amount : bid.counterAmount;
+        if (amount === offerOnTable) {
+            return res.status(400).json({ success: false, error: 'Accept the offer instead of countering with the same amount' });
+        }
+
+        // The seller's counter waits on the buyer; the buyer's re-offer waits on the seller
+        const updates = party === 'seller'
+            ? { status: 'countered', counterAmount: amount, message, expiresAt: nextBidExpiry() }
+            : { status: 'open', amount, message, expiresAt: nextBidExpiry() };
+
+        const countered = await transitionBid(
+            bid,
+            [bid.status],
+            updates,
+            historyEntry('countered', user, party, { amount, message })
+        );
+
+        if (!countered) return respondWithConflict(res);
+
+        console.log(`↩️  Bid ${bid._id} countered by ${user.email} (${party}): ₹${amount}`);
+
+        emitBidEvent(req.app.get('io'), 'bid:countered', countered);
+
+        res.json({ success: true, data: { bid: countered } });
+    } catch (error) {
+        console.error('Error countering bid:', error);
+        res.status(500).json({ success: false, error: 'Failed to counter bid' });
+    }
+};
+
+// WITHDRAW own bid (buyer)
+export const withdrawBid = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        const loaded = await loadActiveBid(req, res);
+        if (!loaded) return;
+        const { bid, party } = loaded;
+
+        if (party !== 'buyer') {
+            return res.status(403).json({ success: false, error: 'Only the buyer can withdraw a bid' });
+        }
+
+        const withdrawn = await transitionBid(
+            bid,
+            ACTIVE_BID_STATUSES,
+            { status: 'withdrawn', closedAt: new Date() },
+            historyEntry('withdrawn', user, party)
+        );
+
+        if (!withdrawn) return respondWithConflict(res);
+
+        console.log(`↪️  Bid ${bid._id} withdrawn by ${user.email}`);
+
+        emitBidEvent(req.app.get('io'), 'bid:withdrawn', withdrawn);
+
+        res.json({ success: true, data: { bid: withdrawn } });
+    } catch (error) {
+        console.error('Error withdrawing bid:', error);
+        res.status(500).json({ success: false, error: 'Failed to withdraw bid' });
+    }
+};
+
+// GET bids on a listing (all of them for the owner and moderators, otherwise your own)
+export const getPropertyBids = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        const { propertyId } = req.params;
+        const property = await findPropertyById(propertyId);
+
+        if (!property) {
+            return res.status(404).json({ success: false, error: 'Property not found' });
+        }
+
+        const seeAll = property.ownerId === user.userId || hasPermission(user.role, 'properties:moderate');
+
+        await expireBids(req, { propertyId });
+        const bids = await findBids({ propertyId, ...(seeAll ? {} : { buyerId: user.userId }) });
+
+        res.json({ success: true, data: { bids } });
+    } catch (error) {
+        res.status(500).json({ success: false, error: 'Failed to fetch bids' });
+    }
+};
+
+// GET bids you placed and bids on your listings
+export const getMyBids = async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).user.userId;
+
+        await expireBids(req, { buyerId: userId });
+        await expireBids(req, { sellerId: userId });
+
+        const [placed, received] = await Promise.all([
+            findBids({ buyerId: userId }),
+            findBids({ sellerId: userId }),
+        ]);
+
+        res.json({ success: true, data: { placed, received } });
+    } catch (error) {
+        res.status(500).json({ success: false, error: 'Failed to fetch bids' });
+    }
+};
+
+// GET single bid with its history (participants and moderators)
+export const getBidById = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        let bid = await findBidById(req.params.id);
+
+        if (!bid || (!partyOf(bid, user) && !hasPermission(user.role, 'properties:moderate'))) {
+            return res.status(404).json({ success: false, error: 'Bid not found' });
+        }
+
+        bid = await expireIfDue(req, bid);
+
+        res.json({ success: true, data: { bid } });
+    } catch (error) {
+        res.status(500).json({ success: false, error: 'Failed to fetch bid' });
+    }
+};
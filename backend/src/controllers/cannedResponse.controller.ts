@@ -0,0 +1,223 @@
+/**
+ * 💬 CANNED RESPONSE CONTROLLER
+ *
+ * The support agents' library of reusable replies: team responses shared
+ * by everyone (managed with 'canned-responses:manage') and each agent's
+ * personal ones. Sending a response fills in its placeholders for the
+ * ticket and posts it like any other agent reply.
+ *
+ * @author GharBazaar Backend Team
+ */
+
+import { Request, Response } from 'express';
+import { hasPermission } from '../config/permissions';
+import { CANNED_RESPONSE_SCOPES, CannedResponseScope } from '../models/cannedResponse.model';
+import {
+    createCannedResponse,
+    deleteCannedResponse,
+    findCannedResponse,
+    findCannedResponseByShortcut,
+    isCannedResponseVisibleTo,
+    isShortcutTaken,
+    listCannedResponses,
+    recordCannedResponseUse,
+    updateCannedResponse,
+} from '../utils/cannedResponseStore';
+import {
+    fillCannedResponse,
+    InvalidCannedResponseError,
+    PLACEHOLDERS,
+    validateCannedResponse,
+} from '../utils/cannedResponses';
+import { emitTicketMessage } from '../utils/ticketEvents';
+import { addTicketMessage, findTicketById } from '../utils/ticketStore';
+
+const canEdit = (response: any, user: { userId: string; role: string }): boolean =>
+    response.scope === 'team'
+        ? hasPermission(user.role, 'canned-responses:manage')
+        : response.ownerId === user.userId;
+
+const handleError = (res: Response, error: unknown, action: string) => {
+    if (error instanceof InvalidCannedResponseError) {
+        return res.status(400).json({ success: false, error: error.message });
+    }
+    console.error(`❌ Error ${action}:`, error);
+    res.status(500).json({ success: false, error: `Failed to ${action}` });
+};
+
+/**
+ * Fill in a response for a ticket and, unless previewing, post it as the
+ * agent's message and count the use
+ */
+const respondWith = async (req: Request, res: Response, response: any, preview: boolean) => {
+    const { ticketId, propertyId } = req.body;
+    const userId = (req as any).user.userId;
+
+    const ticket = await findTicketById(String(ticketId));
+    if (!ticket) {
+        return res.status(404).json({ success: false, error: 'Ticket not found' });
+    }
+
+    const text = await fillCannedResponse(response, {
+        ticket,
+        agentId: userId,
+        ...(propertyId ? { propertyId: String(propertyId) } : {}),
+    });
+
+    if (preview) {
+        return res.json({ success: true, data: { message: text } });
+    }
+
+    // Same path as an agent's ticket_message
+    const { message: ticketMessage, previousStatus } = await addTicketMessage(ticket, {
+        senderId: userId,
+        senderType: 'employee',
+        message: text,
+    });
+    emitTicketMessage(req.app.get('io'), ticket, ticketMessage, previousStatus);
+    await recordCannedResponseUse(response);
+
+    res.status(201).json({ success: true, data: { message: ticketMessage, usageCount: response.usageCount } });
+};
+
+// GET the team's and your own responses, most used first (?scope=team|personal&search=)
+export const getCannedResponses = async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).user.userId;
+        const scope = req.query.scope as CannedResponseScope | undefined;
+        const search = typeof req.query.search === 'string' ? req.query.search : undefined;
+
+        if (scope && !CANNED_RESPONSE_SCOPES.includes(scope)) {
+            return res.status(400).json({ success: false, error: `scope must be one of: ${CANNED_RESPONSE_SCOPES.join(', ')}` });
+        }
+
+        const responses = await listCannedResponses(userId, { scope, search });
+
+        res.json({ success: true, data: { responses, placeholders: PLACEHOLDERS } });
+    } catch (error) {
+        handleError(res, error, 'fetch canned responses');
+    }
+};
+
+// CREATE a response: { title, body, shortcut?, scope: 'personal' (default) | 'team' }
+export const addCannedResponse = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        const scope: CannedResponseScope = req.body.scope || 'personal';
+
+        if (!CANNED_RESPONSE_SCOPES.includes(scope)) {
+            return res.status(400).json({ success: false, error: `scope must be one of: ${CANNED_RESPONSE_SCOPES.join(', ')}` });
+        }
+        if (scope === 'team' && !hasPermission(user.role, 'canned-responses:manage')) {
+            return res.status(403).json({ success: false, error: 'Not allowed to manage team responses', code: 'FORBIDDEN' });
+        }
+
+        const fields = validateCannedResponse(req.body);
+        if (fields.shortcut && await isShortcutTaken(fields.shortcut, scope, user.userId)) {
+            return res.status(409).json({ success: false, error: `Shortcut '${fields.shortcut}' is already in use` });
+        }
+
+        const response = await createCannedResponse(
+            { title: fields.title!, body: fields.body!, ...(fields.shortcut ? { shortcut: fields.shortcut } : {}) },
+            scope,
+            user.userId
+        );
+
+        res.status(201).json({ success: true, data: { response } });
+    } catch (error) {
+        handleError(res, error, 'create canned response');
+    }
+};
+
+// UPDATE a response's title, body or shortcut
+export const editCannedResponse = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+
+        const response = await findCannedResponse(req.params.id);
+        if (!response || !isCannedResponseVisibleTo(response, user.userId)) {
+            return res.status(404).json({ success: false, error: 'Canned response not found' });
+        }
+        if (!canEdit(response, user)) {
+            return res.status(403).json({ success: false, error: 'Not allowed to manage team responses', code: 'FORBIDDEN' });
+        }
+
+        const fields = validateCannedResponse(req.body, true);
+        if (fields.shortcut && await isShortcutTaken(fields.shortcut, response.scope, user.userId, String(response._id))) {
+            return res.status(409).json({ success: false, error: `Shortcut '${fields.shortcut}' is already in use` });
+        }
+
+        await updateCannedResponse(response, fields);
+
+        res.json({ success: true, data: { response } });
+    } catch (error) {
+        handleError(res, error, 'update canned response');
+    }
+};
+
+// DELETE a response
+export const removeCannedResponse = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+
+        const response = await findCannedResponse(req.params.id);
+        if (!response || !isCannedResponseVisibleTo(response, user.userId)) {
+            return res.status(404).json({ success: false, error: 'Canned response not found' });
+        }
+        if (!canEdit(response, user)) {
+            return res.status(403).json({ success: false, error: 'Not allowed to manage team responses', code: 'FORBIDDEN' });
+        }
+
+        await deleteCannedResponse(response);
+
+        res.json({ success: true, data: { message: 'Canned response deleted' } });
+    } catch (error) {
+        handleError(res, error, 'delete canned response');
+    }
+};
+
+// PREVIEW a response filled in for a ticket: { ticketId, propertyId? }
+export const previewCannedResponse = async (req: Request, res: Response) => {
+    try {
+        const response = await findCannedResponse(req.params.id);
+        if (!response || !isCannedResponseVisibleTo(response, (req as any).user.userId)) {
+            return res.status(404).json({ success: false, error: 'Canned response not found' });
+        }
+
+        await respondWith(req, res, response, true);
+    } catch (error) {
+        handleError(res, error, 'preview canned response');
+    }
+};
+
+// SEND a response on a ticket: { ticketId, propertyId? }
+export const sendCannedResponse = async (req: Request, res: Response) => {
+    try {
+        const response = await findCannedResponse(req.params.id);
+        if (!response || !isCannedResponseVisibleTo(response, (req as any).user.userId)) {
+            return res.status(404).json({ success: false, error: 'Canned response not found' });
+        }
+
+        await respondWith(req, res, response, false);
+    } catch (error) {
+        handleError(res, error, 'send canned response');
+    }
+};
+
+// SEND a response by shortcut (or ID): { ticketId, templateId, propertyId? }
+export const sendQuickResponse = async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).user.userId;
+        const templateId = String(req.body.templateId || '');
+
+        const byShortcut = await findCannedResponseByShortcut(userId, templateId);
+        const response = byShortcut || await findCannedResponse(templateId);
+        if (!response || !isCannedResponseVisibleTo(response, userId)) {
+            return res.status(400).json({ success: false, error: 'Invalid template ID' });
+        }
+
+        await respondWith(req, res, response, false);
+    } catch (error) {
+        handleError(res, error, 'send quick response');
+    }
+};
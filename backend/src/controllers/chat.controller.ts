@@ -14,36 +14,82 @@
  */
 
 import { Request, Response } from 'express';
+import mongoose from 'mongoose';
 import Conversation from '../models/conversation.model';
-import Message from '../models/message.model';
-import { isMongoDBAvailable, memoryConversations, memoryMessages } from '../utils/memoryStore';
+import { isMongoDBAvailable, memoryConversations } from '../utils/memoryStore';
+import {
+    saveChatAttachment,
+    findChatAttachment,
+    signedAttachmentUrl,
+    verifyAttachmentSignature,
+    attachmentMessageFields,
+    InvalidUploadError,
+    AttachmentVariant,
+} from '../utils/chatAttachments';
+import { getFileStorage } from '../utils/fileStorage';
+import {
+    createChatMessage,
+    toClientMessage,
+    buildReplyQuote,
+    findChatMessage,
+    forwardChatMessage,
+    isValidReaction,
+    toggleReaction,
+    summarizeReactions,
+    notifyChatRecipients,
+} from '../utils/chatMessages';
+import { getMessagePage, searchMessages, MIN_SEARCH_LENGTH } from '../utils/messageHistory';
+import { InvalidCursorError } from '../utils/propertySearch';
+import { markConversationRead, withUnreadCounts } from '../utils/readReceipts';
+import {
+    CONVERSATION_FILTERS,
+    ConversationFilter,
+    conversationFilterQuery,
+    matchesConversationFilter,
+    getParticipantState,
+    updateParticipantState,
+    toConversationView,
+} from '../utils/conversationState';
+import { blockUser, unblockUser, hasBlocked, findBlockersAmong } from '../utils/blockStore';
+import { userRoom } from '../socket';
 import { v4 as uuidv4 } from 'uuid';
 
+// Longest timed mute (30 days); longer means "until unmuted"
+const MAX_MUTE_MINUTES = 30 * 24 * 60;
+
 /**
  * 📋 GET ALL CONVERSATIONS
  * 
  * Fetch all conversations for the authenticated user.
- * Returns list of conversations sorted by most recent activity.
+ * Returns list of conversations sorted by most recent activity, each with
+ * the user's unreadCount and their archived/muted settings.
  * 
- * GET /api/v1/chat/conversations
+ * GET /api/v1/chat/conversations?filter=inbox|archived|muted|all
+ * (default inbox: everything not archived; deleted threads never appear)
  */
 export const getConversations = async (req: Request, res: Response) => {
     try {
         // User ID comes from auth middleware
         const userId = (req as any).user.userId;
+        const filter = (req.query.filter as ConversationFilter) || 'inbox';
+
+        if (!CONVERSATION_FILTERS.includes(filter)) {
+            return res.status(400).json({
+                success: false,
+                error: `filter must be one of: ${CONVERSATION_FILTERS.join(', ')}`
+            });
+        }
 
         let conversations = [];
         if (isMongoDBAvailable()) {
             // Find all conversations where user is a participant
-            conversations = await Conversation.find({
-                participants: userId
-            })
+            conversations = await Conversation.find(conversationFilterQuery(userId, filter))
                 .sort({ lastMessageAt: -1 })  // Most recent first
                 .limit(50);  // Limit to last 50 conversations
         } else {
             // In-memory fetching
             conversations = Array.from(memoryConversations.values())
-                .filter((c: any) => c.participants.includes(userId))
+                .filter((c: any) => matchesConversationFilter(c, userId, filter))
                 .sort((a: any, b: any) => b.lastMessageAt - a.lastMessageAt)
                 .slice(0, 50);
         }
@@ -52,7 +98,7 @@ export const getConversations = async (req: Request, res: Response) => {
 
         res.json({
             success: true,
-            data: { conversations }
+            data: { conversations: await withUnreadCounts(conversations, userId) }
         });
 
     } catch (error) {
@@ -67,16 +113,17 @@ export const getConversations = async (req: Request, res: Response) => {
 /**
  * 💬 GET CONVERSATION MESSAGES
  * 
- * Fetch all messages in a specific conversation.
- * Supports pagination for long conversations.
+ * Fetch a page of messages in a specific conversation (oldest first).
+ * Without a cursor this is the latest page; pass the first message's id as
+ * `before` to scroll back, the last one's as `after` to scroll forward, or a
+ * search hit's messageId as `around` to jump to it.
+ * Includes every participant's read cursor for "seen by".
  * 
- * GET /api/v1/chat/conversations/:id/messages?limit=50&skip=0
+ * GET /api/v1/chat/conversations/:id/messages?limit=50&before=<messageId>
  */
 export const getMessages = async (req: Request, res: Response) => {
     try {
         const { id: conversationId } = req.params;
-        const limit = parseInt(req.query.limit as string) || 50;
-        const skip = parseInt(req.query.skip as string) || 0;
         const userId = (req as any).user.userId;
 
         // Verify user is part of this conversation
@@ -101,32 +148,28 @@ export const getMessages = async (req: Request, res: Response) => {
             });
         }
 
-        // Fetch messages with pagination
-        let messages = [];
-        if (isMongoDBAvailable()) {
-            messages = await Message.find({
-                conversationId,
-                deleted: false  // Don't include deleted messages
-            })
-                .sort({ createdAt: 1 })  // Oldest first (chronological order)
-                .skip(skip)
-                .limit(limit);
-        } else {
-            // In-memory fetching
-            messages = (memoryMessages.get(conversationId) || [])
-                .filter((m: any) => !m.deleted)
-                .sort((a: any, b: any) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
-                .slice(skip, skip + limit);
-        }
+        const page = await getMessagePage(String(conversation._id), {
+            limit: req.query.limit,
+            before: req.query.before as string | undefined,
+            after: req.query.after as string | undefined,
+            around: req.query.around as string | undefined,
+            since: getParticipantState(conversation, userId).clearedAt,
+        });
 
-        console.log(`💬 Fetched ${messages.length} messages from conversation ${conversationId}${!isMongoDBAvailable() ? ' (Memory Mode)' : ''}`);
+        console.log(`💬 Fetched ${page.messages.length} messages from conversation ${conversationId}${!isMongoDBAvailable() ? ' (Memory Mode)' : ''}`);
 
         res.json({
             success: true,
-            data: { messages }
+            data: { ...page, readReceipts: conversation.readReceipts || [] }
         });
 
     } catch (error) {
+        if (error instanceof InvalidCursorError) {
+            return res.status(400).json({
+                success: false,
+                error: 'Message cursor not found in this conversation'
+            });
+        }
         console.error('❌ Error fetching messages:', error);
         res.status(500).json({
             success: false,
@@ -135,10 +178,63 @@ export const getMessages = async (req: Request, res: Response) => {
     }
 };
 
+/**
+ * 🔍 SEARCH MESSAGES
+ * 
+ * Search the authenticated user's messages across all their conversations
+ * (or one, with conversationId). Each hit includes `context` messages either
+ * side and an anchor for GET .../messages?around=<messageId>.
+ * 
+ * GET /api/v1/chat/search?q=site+visit&limit=20&context=2&cursor=...
+ */
+export const searchChatMessages = async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).user.userId;
+        const q = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+
+        if (q.length < MIN_SEARCH_LENGTH) {
+            return res.status(400).json({
+                success: false,
+                error: `Search text must be at least ${MIN_SEARCH_LENGTH} characters`
+            });
+        }
+
+        const result = await searchMessages(userId, {
+            q,
+            limit: req.query.limit,
+            cursor: req.query.cursor as string | undefined,
+            context: req.query.context,
+            conversationId: req.query.conversationId as string | undefined,
+        });
+
+        console.log(`🔍 Chat search by ${userId} returned ${result.hits.length} hits${!isMongoDBAvailable() ? ' (Memory Mode)' : ''}`);
+
+        res.json({
+            success: true,
+            data: result
+        });
+
+    } catch (error) {
+        if (error instanceof InvalidCursorError) {
+            return res.status(400).json({
+                success: false,
+                error: error.message
+            });
+        }
+        console.error('❌ Error searching messages:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to search messages'
+        });
+    }
+};
+
 /**
  * ➕ CREATE CONVERSATION
  * 
  * Create a new conversation (e.g., buyer contacting seller about property).
+ * Returns the existing thread if there is one. Users who blocked the
+ * requester can't be contacted.
  * 
  * POST /api/v1/chat/conversations
  * Body: { otherUserId, propertyId, propertyTitle, initialMessage }
@@ -149,6 +245,28 @@ export const createConversation = async (req: Request, res: Response) => {
         const userId = (req as any).user.userId;
         const userEmail = (req as any).user.email;
 
+        if (!otherUserId || otherUserId === userId) {
+            return res.status(400).json({
+                success: false,
+                error: 'otherUserId is required'
+            });
+        }
+
+        // Blocked users can't reach the person who blocked them (don't reveal why)
+        if (await hasBlocked(otherUserId, userId)) {
+            return res.status(404).json({
+                success: false,
+                error: 'User not available'
+            });
+        }
+
+        if (await hasBlocked(userId, otherUserId)) {
+            return res.status(403).json({
+                success: false,
+                error: 'You have blocked this user. Unblock them to start a conversation.'
+            });
+        }
+
         // Check if conversation already exists between these users for this property
         let conversation;
         if (isMongoDBAvailable()) {
@@ -188,42 +306,25 @@ export const createConversation = async (req: Request, res: Response) => {
             }
 
             console.log(`✅ New conversation created: ${isMongoDBAvailable() ? conversation._id : conversation._id}${!isMongoDBAvailable() ? ' (Memory Mode)' : ''}`);
+        } else if (getParticipantState(conversation, userId).hidden) {
+            // Reopening a thread this user deleted brings it back (without the old history)
+            await updateParticipantState(conversation, userId, { hidden: false });
         }
 
-        // If there's an initial message, save it
+        // If there's an initial message, save it and let the other user know
         if (initialMessage) {
-            if (isMongoDBAvailable()) {
-                await Message.create({
-                    conversationId: conversation._id,
-                    senderId: userId,
-                    senderEmail: userEmail,
-                    content: initialMessage,
-                    type: 'text',
-                    read: false,
-                });
-            } else {
-                const messageId = uuidv4();
-                const createdAt = new Date();
-                const message = {
-                    _id: messageId,
-                    conversationId: conversation._id,
-                    senderId: userId,
-                    senderEmail: userEmail,
-                    content: initialMessage,
-                    type: 'text',
-                    read: false,
-                    createdAt: createdAt.toISOString()
-                };
-                if (!memoryMessages.has(conversation._id)) {
-                    memoryMessages.set(conversation._id, []);
-                }
-                memoryMessages.get(conversation._id).push(message);
-            }
+            const message = await createChatMessage(conversation, {
+                senderId: userId,
+                senderEmail: userEmail,
+                content: initialMessage,
+                type: 'text',
+            });
+            await notifyChatRecipients(conversation, message, req.app.get('io'));
         }
 
         res.status(201).json({
             success: true,
-            data: { conversation }
+            data: { conversation: toConversationView(conversation, userId) }
         });
 
     } catch (error) {
@@ -242,12 +343,13 @@ export const createConversation = async (req: Request, res: Response) => {
  * Useful when socket connection is unavailable.
  * 
  * POST /api/v1/chat/conversations/:id/messages
- * Body: { content, type }
+ * Body: { content, attachmentId?, replyToId? } - attachmentId comes from
+ * POST /chat/upload; replyToId quotes an earlier message in the conversation
  */
 export const sendMessage = async (req: Request, res: Response) => {
     try {
         const { id: conversationId } = req.params;
-        const { content, type = 'text' } = req.body;
+        const { content, attachmentId, replyToId } = req.body;
         const userId = (req as any).user.userId;
         const userEmail = (req as any).user.email;
 
@@ -273,58 +375,584 @@ export const sendMessage = async (req: Request, res: Response) => {
             });
         }
 
-        let message;
+        const others = conversation.participants.filter((p: string) => p !== userId);
+        if ((await findBlockersAmong(others, userId)).length > 0) {
+            return res.status(403).json({
+                success: false,
+                error: 'You can no longer send messages in this conversation'
+            });
+        }
+
+        // Attachment messages take their type and file details from the stored upload
+        let attachment = null;
+        if (attachmentId) {
+            attachment = await attachmentMessageFields(attachmentId, conversationId, userId);
+            if (!attachment) {
+                return res.status(400).json({
+                    success: false,
+                    error: 'Attachment not found in this conversation'
+                });
+            }
+        }
+        let replyTo = null;
+        if (replyToId) {
+            replyTo = await buildReplyQuote(replyToId, conversationId);
+            if (!replyTo) {
+                return res.status(400).json({
+                    success: false,
+                    error: 'Reply target not found'
+                });
+            }
+        }
+
+        // Saves the message and updates the conversation (bringing it back for anyone who deleted it)
+        const message = await createChatMessage(conversation, {
+            senderId: userId,
+            senderEmail: userEmail,
+            content,
+            type: attachment ? attachment.type : 'text',
+            ...attachment,
+            replyTo,
+        });
+        await notifyChatRecipients(conversation, message, req.app.get('io'));
+
+        res.status(201).json({
+            success: true,
+            data: { message: toClientMessage(message) }
+        });
+
+    } catch (error) {
+        console.error('❌ Error sending message:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to send message'
+        });
+    }
+};
+
+/**
+ * ✅ MARK CONVERSATION AS READ (AJAX Fallback)
+ * 
+ * Move the user's read cursor up to a message (default: the latest one)
+ * and notify the conversation with messages_read.
+ * 
+ * POST /api/v1/chat/conversations/:id/read
+ * Body: { messageId? }
+ */
+export const markConversationAsRead = async (req: Request, res: Response) => {
+    try {
+        const { id: conversationId } = req.params;
+        const { messageId } = req.body || {};
+        const userId = (req as any).user.userId;
+
+        let conversation;
         if (isMongoDBAvailable()) {
-            // Create the message
-            message = await Message.create({
+            conversation = await Conversation.findById(conversationId);
+        } else {
+            conversation = memoryConversations.get(conversationId);
+        }
+
+        if (!conversation || !conversation.participants.includes(userId)) {
+            return res.status(404).json({
+                success: false,
+                error: 'Conversation not found'
+            });
+        }
+
+        const receipt = await markConversationRead(conversation, userId, messageId);
+        const io = req.app.get('io');
+        if (receipt && io) {
+            io.to(conversationId).to(userRoom(userId)).emit('messages_read', {
                 conversationId,
-                senderId: userId,
-                senderEmail: userEmail,
-                content,
-                type,
-                read: false,
+                ...receipt,
+            });
+        }
+
+        res.json({
+            success: true,
+            data: { receipt }
+        });
+
+    } catch (error) {
+        console.error('❌ Error marking conversation as read:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to mark conversation as read'
+        });
+    }
+};
+
+// Conversation the user takes part in, or null
+const findParticipantConversation = async (conversationId: string, userId: string) => {
+    let conversation;
+    if (isMongoDBAvailable()) {
+        conversation = mongoose.isValidObjectId(conversationId) ? await Conversation.findById(conversationId) : null;
+    } else {
+        conversation = memoryConversations.get(conversationId);
+    }
+    return conversation && conversation.participants.includes(userId) ? conversation : null;
+};
+
+/**
+ * 🗄️ ARCHIVE / UNARCHIVE CONVERSATION
+ * 
+ * Move the conversation out of (or back into) the user's inbox.
+ * Only affects the requesting user.
+ * 
+ * POST   /api/v1/chat/conversations/:id/archive
+ * DELETE /api/v1/chat/conversations/:id/archive
+ */
+export const archiveConversation = async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).user.userId;
+        const conversation = await findParticipantConversation(req.params.id, userId);
+
+        if (!conversation) {
+            return res.status(404).json({
+                success: false,
+                error: 'Conversation not found'
+            });
+        }
+
+        const archived = req.method !== 'DELETE';
+        await updateParticipantState(conversation, userId, { archived });
+
+        console.log(`🗄️  ${userId} ${archived ? 'archived' : 'unarchived'} conversation ${req.params.id}`);
+
+        res.json({
+            success: true,
+            data: { conversationId: req.params.id, archived }
+        });
+
+    } catch (error) {
+        console.error('❌ Error archiving conversation:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to update conversation'
+        });
+    }
+};
+
+/**
+ * 🔕 MUTE / UNMUTE CONVERSATION
+ * 
+ * Silence notifications for this conversation, for the requesting user.
+ * Without durationMinutes the mute lasts until DELETE.
+ * 
+ * POST   /api/v1/chat/conversations/:id/mute   Body: { durationMinutes? }
+ * DELETE /api/v1/chat/conversations/:id/mute
+ */
+export const muteConversation = async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).user.userId;
+        const conversation = await findParticipantConversation(req.params.id, userId);
+
+        if (!conversation) {
+            return res.status(404).json({
+                success: false,
+                error: 'Conversation not found'
+            });
+        }
+
+        if (req.method === 'DELETE') {
+            await updateParticipantState(conversation, userId, { muted: false, mutedUntil: null });
+            return res.json({
+                success: true,
+                data: { conversationId: req.params.id, muted: false, mutedUntil: null }
+            });
+        }
+
+        const { durationMinutes } = req.body || {};
+        let mutedUntil: Date | null = null;
+        if (durationMinutes !== undefined && durationMinutes !== null) {
+            const minutes = Number(durationMinutes);
+            if (!Number.isFinite(minutes) || minutes <= 0 || minutes > MAX_MUTE_MINUTES) {
+                return res.status(400).json({
+                    success: false,
+                    error: `durationMinutes must be between 1 and ${MAX_MUTE_MINUTES}`
+                });
+            }
+            mutedUntil = new Date(Date.now() + minutes * 60 * 1000);
+        }
+
+        await updateParticipantState(conversation, userId, { muted: true, mutedUntil });
+
+        console.log(`🔕 ${userId} muted conversation ${req.params.id}${mutedUntil ? ` until ${mutedUntil.toISOString()}` : ''}`);
+
+        res.json({
+            success: true,
+            data: { conversationId: req.params.id, muted: true, mutedUntil }
+        });
+
+    } catch (error) {
+        console.error('❌ Error muting conversation:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to update conversation'
+        });
+    }
+};
+
+/**
+ * 🚫 BLOCK / UNBLOCK PARTICIPANT
+ * 
+ * Block the other participant: they can no longer send messages to you or
+ * start new conversations with you. In group conversations pass userId.
+ * 
+ * POST   /api/v1/chat/conversations/:id/block   Body: { userId? }
+ * DELETE /api/v1/chat/conversations/:id/block   Body: { userId? }
+ */
+export const blockParticipant = async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).user.userId;
+        const conversation = await findParticipantConversation(req.params.id, userId);
+
+        if (!conversation) {
+            return res.status(404).json({
+                success: false,
+                error: 'Conversation not found'
             });
+        }
+
+        const others: string[] = conversation.participants.filter((p: string) => p !== userId);
+        const targetId = req.body?.userId || (others.length === 1 ? others[0] : undefined);
 
-            // Update conversation
-            await Conversation.findByIdAndUpdate(conversationId, {
-                lastMessage: content.substring(0, 100),
-                lastMessageAt: new Date(),
+        if (!targetId || !others.includes(targetId)) {
+            return res.status(400).json({
+                success: false,
+                error: 'userId must be another participant of this conversation'
             });
+        }
+
+        const blocked = req.method !== 'DELETE';
+        if (blocked) {
+            await blockUser(userId, targetId, String(conversation._id));
         } else {
-            // In-memory message
-            const messageId = uuidv4();
-            const createdAt = new Date();
-            message = {
-                _id: messageId,
+            await unblockUser(userId, targetId);
+        }
+
+        console.log(`🚫 ${userId} ${blocked ? 'blocked' : 'unblocked'} ${targetId}${!isMongoDBAvailable() ? ' (Memory Mode)' : ''}`);
+
+        res.json({
+            success: true,
+            data: { userId: targetId, blocked }
+        });
+
+    } catch (error) {
+        console.error('❌ Error blocking user:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to update block'
+        });
+    }
+};
+
+/**
+ * 🗑️ DELETE CONVERSATION (for me)
+ * 
+ * Hide the thread and its history for the requesting user only. Other
+ * participants keep it; if a new message arrives the thread reappears,
+ * showing only messages after the delete.
+ * 
+ * DELETE /api/v1/chat/conversations/:id
+ */
+export const deleteConversation = async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).user.userId;
+        const conversation = await findParticipantConversation(req.params.id, userId);
+
+        if (!conversation) {
+            return res.status(404).json({
+                success: false,
+                error: 'Conversation not found'
+            });
+        }
+
+        await updateParticipantState(conversation, userId, {
+            hidden: true,
+            archived: false,
+            clearedAt: new Date(),
+        });
+
+        console.log(`🗑️  ${userId} deleted conversation ${req.params.id} for themselves`);
+
+        res.json({
+            success: true,
+            message: 'Conversation deleted'
+        });
+
+    } catch (error) {
+        console.error('❌ Error deleting conversation:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to delete conversation'
+        });
+    }
+};
+
+/**
+ * 😀 TOGGLE REACTION (AJAX Fallback)
+ * 
+ * Add the user's emoji to a message, or remove it if already there, and
+ * notify the conversation with message_reactions_updated.
+ * 
+ * POST /api/v1/chat/messages/:id/reactions
+ * Body: { emoji }
+ */
+export const toggleMessageReaction = async (req: Request, res: Response) => {
+    try {
+        const { emoji } = req.body || {};
+        const userId = (req as any).user.userId;
+
+        if (!isValidReaction(emoji)) {
+            return res.status(400).json({
+                success: false,
+                error: 'Reactions must be a single emoji'
+            });
+        }
+
+        const message = await findChatMessage(req.params.id);
+        const conversation = message && !message.deleted
+            ? await findParticipantConversation(String(message.conversationId), userId)
+            : null;
+
+        if (!conversation) {
+            return res.status(404).json({
+                success: false,
+                error: 'Message not found'
+            });
+        }
+
+        const others = conversation.participants.filter((p: string) => p !== userId);
+        if ((await findBlockersAmong(others, userId)).length > 0) {
+            return res.status(403).json({
+                success: false,
+                error: 'You can no longer react in this conversation'
+            });
+        }
+
+        const reactions = summarizeReactions(await toggleReaction(message, userId, emoji));
+        const conversationId = String(message.conversationId);
+
+        const io = req.app.get('io');
+        if (io) {
+            io.to(conversationId).emit('message_reactions_updated', {
+                id: String(message._id),
                 conversationId,
-                senderId: userId,
-                senderEmail: userEmail,
-                content,
-                type,
-                read: false,
-                createdAt: createdAt.toISOString()
-            };
-
-            if (!memoryMessages.has(conversationId)) {
-                memoryMessages.set(conversationId, []);
-            }
-            memoryMessages.get(conversationId).push(message);
+                reactions,
+            });
+        }
 
-            // Update conversation in memory
-            conversation.lastMessage = content.substring(0, 100);
-            conversation.lastMessageAt = createdAt;
+        res.json({
+            success: true,
+            data: { reactions }
+        });
+
+    } catch (error) {
+        console.error('❌ Error toggling reaction:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to update reaction'
+        });
+    }
+};
+
+/**
+ * ↪️ FORWARD MESSAGE (AJAX Fallback)
+ * 
+ * Copy a message (and its attachment) into another conversation the user
+ * belongs to, and deliver it there with new_message.
+ * 
+ * POST /api/v1/chat/messages/:id/forward
+ * Body: { conversationId }
+ */
+export const forwardMessage = async (req: Request, res: Response) => {
+    try {
+        const { conversationId } = req.body || {};
+        const userId = (req as any).user.userId;
+        const userEmail = (req as any).user.email;
+
+        const source = await findChatMessage(req.params.id);
+        const sourceConversation = source && !source.deleted
+            ? await findParticipantConversation(String(source.conversationId), userId)
+            : null;
+
+        if (!sourceConversation) {
+            return res.status(404).json({
+                success: false,
+                error: 'Message not found'
+            });
+        }
+
+        const target = await findParticipantConversation(String(conversationId || ''), userId);
+        if (!target) {
+            return res.status(404).json({
+                success: false,
+                error: 'Conversation not found'
+            });
         }
 
+        const others = target.participants.filter((p: string) => p !== userId);
+        if ((await findBlockersAmong(others, userId)).length > 0) {
+            return res.status(403).json({
+                success: false,
+                error: 'You can no longer send messages in this conversation'
+            });
+        }
+
+        const message = await forwardChatMessage(source, target, { userId, email: userEmail });
+        if (!message) {
+            return res.status(410).json({
+                success: false,
+                error: 'Attachment is no longer available'
+            });
+        }
+
+        const clientMessage = toClientMessage(message);
+        const io = req.app.get('io');
+        if (io) {
+            io.to(String(target._id)).emit('new_message', clientMessage);
+        }
+        await notifyChatRecipients(target, message, io);
+
         res.status(201).json({
             success: true,
-            data: { message }
+            data: { message: clientMessage }
         });
 
     } catch (error) {
-        console.error('❌ Error sending message:', error);
+        console.error('❌ Error forwarding message:', error);
         res.status(500).json({
             success: false,
-            error: 'Failed to send message'
+            error: 'Failed to forward message'
+        });
+    }
+};
+
+/**
+ * 📎 UPLOAD CHAT FILE
+ *
+ * Store an image or document for a conversation. Send it afterwards with
+ * send_message / POST .../messages and the returned attachmentId.
+ *
+ * POST /api/v1/chat/upload
+ * Multipart: file, conversationId
+ */
+export const uploadChatFile = async (req: Request, res: Response) => {
+    try {
+        const { conversationId } = req.body;
+        const userId = (req as any).user.userId;
+        const file = req.file!;
+
+        if (!conversationId) {
+            return res.status(400).json({
+                success: false,
+                error: 'conversationId is required'
+            });
+        }
+
+        const conversation = await findParticipantConversation(String(conversationId), userId);
+        if (!conversation) {
+            return res.status(404).json({
+                success: false,
+                error: 'Conversation not found'
+            });
+        }
+
+        const attachment = await saveChatAttachment({
+            buffer: file.buffer,
+            originalName: file.originalname,
+            conversationId: String(conversation._id),
+            uploaderId: userId,
+        });
+
+        console.log(`📎 ${attachment.kind} uploaded to ${conversationId}: ${attachment.fileName} (${attachment.mimeType}, ${attachment.fileSize} bytes)`);
+
+        res.status(201).json({
+            success: true,
+            data: {
+                attachmentId: String(attachment._id),
+                url: signedAttachmentUrl(String(attachment._id)),
+                thumbnailUrl: attachment.thumbnailKey ? signedAttachmentUrl(String(attachment._id), 'thumbnail') : undefined,
+                metadata: {
+                    fileName: attachment.fileName,
+                    fileType: attachment.kind,
+                    mimeType: attachment.mimeType,
+                    fileSize: attachment.fileSize,
+                    width: attachment.width,
+                    height: attachment.height,
+                },
+            }
+        });
+
+    } catch (error) {
+        if (error instanceof InvalidUploadError) {
+            return res.status(400).json({
+                success: false,
+                error: error.message
+            });
+        }
+        console.error('❌ Error uploading chat file:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to upload file'
+        });
+    }
+};
+
+/**
+ * 📥 DOWNLOAD CHAT FILE
+ *
+ * Serve an attachment through a signed link (no Authorization header, so
+ * it works in <img> and <a> tags). Links come from the upload response and
+ * from messages fetched by conversation participants, and only last
+ * FILE_URL_TTL_MINUTES (at most an hour), so a leaked link dies quickly.
+ *
+ * GET /api/v1/chat/files/:id?variant=thumbnail&expires=...&signature=...
+ */
+export const downloadChatFile = async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+        const variant: AttachmentVariant = req.query.variant === 'thumbnail' ? 'thumbnail' : 'original';
+        const expires = Number(req.query.expires);
+
+        if (!verifyAttachmentSignature(id, variant, expires, String(req.query.signature || ''))) {
+            return res.status(403).json({
+                success: false,
+                error: 'This link is invalid or has expired'
+            });
+        }
+
+        const attachment = await findChatAttachment(id);
+        const key = attachment && (variant === 'thumbnail' ? attachment.thumbnailKey : attachment.storageKey);
+        if (!key) {
+            return res.status(404).json({
+                success: false,
+                error: 'File not found'
+            });
+        }
+
+        const stream = await getFileStorage().get(key);
+        const maxAge = Math.max(Math.floor(expires - Date.now() / 1000), 0);
+        const inline = attachment.kind === 'image';
+
+        res.set({
+            'Content-Type': variant === 'thumbnail' ? 'image/webp' : attachment.mimeType,
+            'Content-Disposition': `${inline ? 'inline' : 'attachment'}; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`,
+            'Cache-Control': `private, max-age=${maxAge}`,
+            ...(variant === 'original' ? { 'Content-Length': String(attachment.fileSize) } : {}),
+            // Let the frontend (another origin) embed images
+            'Cross-Origin-Resource-Policy': 'cross-origin',
+        });
+
+        stream.on('error', () => res.destroy());
+        stream.pipe(res);
+
+    } catch (error) {
+        console.error('❌ Error downloading chat file:', error);
+        res.status(404).json({
+            success: false,
+            error: 'File not found'
         });
     }
 };
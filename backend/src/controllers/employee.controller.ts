@@ -1,41 +1,141 @@
 import { Request, Response } from 'express';
 import Ticket from '../models/ticket.model';
-import TicketMessage from '../models/ticketMessage.model';
 import Conversation from '../models/conversation.model';
 import Message from '../models/message.model';
 import { isMongoDBAvailable, memoryTickets, memoryConversations } from '../utils/memoryStore';
+import { findUserById, findUsersByRole } from '../utils/userStore';
+import config from '../config';
+import { hasPermission, ROLE_PERMISSIONS } from '../config/permissions';
+import { UserRole } from '../models/user.model';
+import { findAgentTickets, findEscalatedTickets, findTicketById } from '../utils/ticketStore';
+import { emitTicketAssigned, toTicketSummary } from '../utils/ticketEvents';
+import { summarizeAgentSla } from '../utils/ticketSla';
+import {
+    assignTicketManually,
+    InvalidRoutingProfileError,
+    listRoutingAgents,
+    routeWaitingTickets,
+    TicketAssignmentError,
+    updateRoutingProfile,
+} from '../utils/ticketRouting';
 
+const ACTIVE_STATUSES = ['assigned', 'in_progress'];
+
+// Filter values may be a single value or a comma-separated list
+const parseListParam = (value: unknown): string[] =>
+    typeof value === 'string' && value && value !== 'all'
+        ? value.split(',').map(v => v.trim()).filter(Boolean)
+        : [];
+
+// GET ticket queue with status/category/priority/assignee filters
 export const getTickets = async (req: Request, res: Response) => {
     try {
-        const status = req.query.status as string;
-        const limit = parseInt(req.query.limit as string) || 50;
+        const userId = (req as any).user.userId;
+        const statuses = parseListParam(req.query.status);
+        const categories = parseListParam(req.query.category);
+        const priorities = parseListParam(req.query.priority);
+        const assignedTo = req.query.assignedTo as string | undefined;
+        const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
         const skip = parseInt(req.query.skip as string) || 0;
 
-        let query: any = {};
-        if (status && status !== 'all') {
-            query.status = status;
-        }
+        // assignedTo=me → current agent, assignedTo=unassigned → nobody, otherwise an agent ID
+        const assigneeFilter = assignedTo === 'me' ? userId : assignedTo;
 
         let tickets = [];
+        let total = 0;
         if (isMongoDBAvailable()) {
+            const query: any = {};
+            if (statuses.length) query.status = { $in: statuses };
+            if (categories.length) query.categoryTitle = { $in: categories };
+            if (priorities.length) query.priority = { $in: priorities };
+            if (assigneeFilter === 'unassigned') {
+                query.assignedTo = { $in: [null, ''] };
+            } else if (assigneeFilter) {
+                query.assignedTo = assigneeFilter;
+            }
+
+            total = await Ticket.countDocuments(query);
             tickets = await Ticket.find(query)
                 .sort({ createdAt: -1 })
                 .skip(skip)
                 .limit(limit);
         } else {
-            tickets = Array.from(memoryTickets.values())
-                .filter((t: any) => !status || status === 'all' || t.status === status)
-                .sort((a: any, b: any) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
-                .slice(skip, skip + limit);
+            const matching = Array.from(memoryTickets.values())
+                .filter((t: any) =>
+                    (!statuses.length || statuses.includes(t.status)) &&
+                    (!categories.length || categories.includes(t.categoryTitle)) &&
+                    (!priorities.length || priorities.includes(t.priority || 'medium')) &&
+                    (!assigneeFilter ||
+                        (assigneeFilter === 'unassigned' ? !t.assignedTo : t.assignedTo === assigneeFilter))
+                )
+                .sort((a: any, b: any) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+
+            total = matching.length;
+            tickets = matching.slice(skip, skip + limit);
         }
 
-        res.json({ success: true, data: { tickets } });
+        res.json({ success: true, data: { tickets, total } });
     } catch (error) {
         console.error('Error fetching tickets:', error);
         res.status(500).json({ success: false, error: 'Failed to fetch tickets' });
     }
 };
 
+// POST assign or reassign several tickets to one agent (defaults to the current agent)
+export const bulkAssignTickets = async (req: Request, res: Response) => {
+    try {
+        const { ticketIds, assigneeId } = req.body;
+        const currentUser = (req as any).user;
+
+        if (!Array.isArray(ticketIds) || ticketIds.length === 0) {
+            return res.status(400).json({ success: false, error: 'ticketIds must be a non-empty array' });
+        }
+
+        if (ticketIds.length > 100) {
+            return res.status(400).json({ success: false, error: 'Cannot assign more than 100 tickets at once' });
+        }
+
+        const assignee = await findUserById(assigneeId || currentUser.userId);
+        if (!assignee || !hasPermission(assignee.role, 'tickets:respond')) {
+            return res.status(400).json({ success: false, error: 'Assignee must be a support agent' });
+        }
+
+        const agentId = assignee._id.toString();
+        const agentName = assignee.displayName;
+        const io = req.app.get('io');
+
+        const assigned: any[] = [];
+        const skipped: { ticketId: string; reason: string }[] = [];
+
+        for (const ticketId of ticketIds.map(String)) {
+            const ticket = await findTicketById(ticketId);
+            if (!ticket) {
+                skipped.push({ ticketId, reason: 'Ticket not found' });
+                continue;
+            }
+
+            let change;
+            try {
+                change = await assignTicketManually(ticket, { id: agentId, name: agentName });
+            } catch (error) {
+                if (!(error instanceof TicketAssignmentError)) throw error;
+                skipped.push({ ticketId, reason: error.message });
+                continue;
+            }
+            assigned.push(ticket);
+
+            emitTicketAssigned(io, ticket, { ...change, assignedBy: currentUser.userId });
+        }
+
+        console.log(`👔 ${currentUser.email} assigned ${assigned.length} ticket(s) to ${agentName}`);
+
+        res.json({ success: true, data: { tickets: assigned, skipped } });
+    } catch (error) {
+        console.error('Error bulk assigning tickets:', error);
+        res.status(500).json({ success: false, error: 'Failed to assign tickets' });
+    }
+};
+
 export const getActiveConversations = async (req: Request, res: Response) => {
     try {
         const userId = (req as any).user.userId;
@@ -70,41 +170,6 @@ export const getActiveConversations = async (req: Request, res: Response) => {
     }
 };
 
-export const sendQuickResponse = async (req: Request, res: Response) => {
-    try {
-        const { ticketId, templateId } = req.body;
-        const userId = (req as any).user.userId;
-
-        const templates: Record<string, string> = {
-            'greeting': 'Hello! Thank you for contacting GharBazaar support. I\'ll be happy to help you with your issue.',
-            'investigating': 'I\'m currently investigating this issue. I\'ll get back to you shortly with more information.',
-            'resolved': 'Great! I\'m glad we could resolve your issue. Is there anything else I can help you with?',
-            'followup': 'Just following up on your request. Do you need any additional assistance?',
-            'closing': 'Thank you for using GharBazaar! If you need any further help, feel free to reach out.'
-        };
-
-        const message = templates[templateId];
-        if (!message) {
-            return res.status(400).json({ success: false, error: 'Invalid template ID' });
-        }
-
-        if (isMongoDBAvailable()) {
-            await TicketMessage.create({
-                ticketId,
-                senderId: userId,
-                senderType: 'employee',
-                message,
-                timestamp: new Date(),
-            });
-        }
-
-        res.json({ success: true, data: { message: 'Quick response sent' } });
-    } catch (error) {
-        console.error('Error sending quick response:', error);
-        res.status(500).json({ success: false, error: 'Failed to send quick response' });
-    }
-};
-
 export const getUserHistory = async (req: Request, res: Response) => {
     try {
         const { userId } = req.params;
@@ -128,29 +193,48 @@ export const getUserHistory = async (req: Request, res: Response) => {
     }
 };
 
+// GET the current agent's ticket counts and SLA performance over the last `days` (default 30)
+// Customer ratings (CSAT) of an agent's tickets; 4 or 5 stars counts as satisfied
+const summarizeAgentFeedback = (tickets: any[], agentId: string) => {
+    const own = tickets.filter(ticket => ticket.assignedTo === agentId);
+    const rated = tickets.filter(ticket => ticket.feedback?.agentId === agentId);
+    const total = rated.reduce((sum, ticket) => sum + ticket.feedback.rating, 0);
+    const satisfied = rated.filter(ticket => ticket.feedback.rating >= 4).length;
+
+    return {
+        ratings: rated.length,
+        averageRating: rated.length ? Math.round(total * 10 / rated.length) / 10 : null,
+        satisfiedPercent: rated.length ? Math.round(satisfied * 1000 / rated.length) / 10 : null,
+        // Tickets the customer had to reopen
+        reopened: own.filter(ticket => ticket.reopenCount > 0).length,
+    };
+};
+
 export const getEmployeeStats = async (req: Request, res: Response) => {
     try {
         const userId = (req as any).user.userId;
+        const days = Math.min(Math.max(parseInt(req.query.days as string) || 30, 1), 365);
+
+        const today = new Date();
+        today.setHours(0, 0, 0, 0);
 
         let stats = {
             activeTickets: 0,
             resolvedToday: 0,
+            // Average first response in working minutes (same as sla.firstResponse.averageMinutes)
             averageResponseTime: 0,
             totalAssigned: 0
         };
 
         if (isMongoDBAvailable()) {
-            const today = new Date();
-            today.setHours(0, 0, 0, 0);
-
             stats.activeTickets = await Ticket.countDocuments({
                 assignedTo: userId,
-                status: { $in: ['assigned', 'in_progress'] }
+                status: { $in: ACTIVE_STATUSES }
             });
 
             stats.resolvedToday = await Ticket.countDocuments({
                 assignedTo: userId,
-                status: 'resolved',
+                status: { $in: ['resolved', 'closed'] },
                 updatedAt: { $gte: today }
             });
 
@@ -158,23 +242,210 @@ export const getEmployeeStats = async (req: Request, res: Response) => {
         } else {
             const tickets = Array.from(memoryTickets.values());
             stats.activeTickets = tickets.filter((t: any) =>
-                t.assignedTo === userId && ['assigned', 'in_progress'].includes(t.status)
+                t.assignedTo === userId && ACTIVE_STATUSES.includes(t.status)
             ).length;
 
-            const today = new Date();
-            today.setHours(0, 0, 0, 0);
             stats.resolvedToday = tickets.filter((t: any) =>
                 t.assignedTo === userId &&
-                t.status === 'resolved' &&
+                ['resolved', 'closed'].includes(t.status) &&
                 new Date(t.updatedAt) >= today
             ).length;
 
             stats.totalAssigned = tickets.filter((t: any) => t.assignedTo === userId).length;
         }
 
-        res.json({ success: true, data: { stats } });
+        const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+        const periodTickets = await findAgentTickets(userId, since);
+        const sla = summarizeAgentSla(periodTickets, userId, days);
+        const csat = summarizeAgentFeedback(periodTickets, userId);
+        stats.averageResponseTime = sla.firstResponse.averageMinutes;
+
+        res.json({ success: true, data: { stats: { ...stats, sla, csat } } });
     } catch (error) {
         console.error('Error fetching stats:', error);
         res.status(500).json({ success: false, error: 'Failed to fetch stats' });
     }
 };
+
+// GET active tickets escalated for SLA (about to breach or breached), most urgent first
+export const getSlaEscalations = async (req: Request, res: Response) => {
+    try {
+        const tickets = await findEscalatedTickets();
+        res.json({ success: true, data: { tickets: tickets.map(toTicketSummary) } });
+    } catch (error) {
+        console.error('Error fetching SLA escalations:', error);
+        res.status(500).json({ success: false, error: 'Failed to fetch SLA escalations' });
+    }
+};
+
+// GET routing settings with every agent's profile, presence and load
+export const getRouting = async (req: Request, res: Response) => {
+    try {
+        const agents = await listRoutingAgents();
+        res.json({
+            success: true,
+            data: {
+                autoAssign: config.support.autoAssign,
+                strategy: config.support.routingStrategy,
+                offlineReassignSeconds: config.support.offlineReassignSeconds,
+                agents,
+            },
+        });
+    } catch (error) {
+        console.error('Error fetching routing:', error);
+        res.status(500).json({ success: false, error: 'Failed to fetch routing' });
+    }
+};
+
+// UPDATE an agent's routing profile (skills, customer roles, ticket cap, auto-assign)
+export const updateAgentRouting = async (req: Request, res: Response) => {
+    try {
+        const { agentId } = req.params;
+
+        const profile = await updateRoutingProfile(agentId, req.body);
+        if (!profile) {
+            return res.status(404).json({ success: false, error: 'Agent not found' });
+        }
+
+        // A wider profile or higher cap may let the agent take waiting tickets
+        await routeWaitingTickets(req.app.get('io'));
+
+        res.json({ success: true, data: { agentId, profile } });
+    } catch (error) {
+        if (error instanceof InvalidRoutingProfileError) {
+            return res.status(400).json({ success: false, error: error.message });
+        }
+        console.error('Error updating routing profile:', error);
+        res.status(500).json({ success: false, error: 'Failed to update routing profile' });
+    }
+};
+
+interface AgentWorkload {
+    agentId: string;
+    agentName: string;
+    email?: string;
+    activeTickets: number;
+    assigned: number;
+    inProgress: number;
+    resolvedToday: number;
+    byPriority: Record<string, number>;
+}
+
+const emptyWorkload = (agentId: string, agentName: string, email?: string): AgentWorkload => ({
+    agentId,
+    agentName,
+    email,
+    activeTickets: 0,
+    assigned: 0,
+    inProgress: 0,
+    resolvedToday: 0,
+    byPriority: { low: 0, medium: 0, high: 0, urgent: 0 },
+});
+
+// Tickets relevant to workload: currently active, or finished today
+const fetchWorkloadTickets = async (agentId?: string): Promise<any[]> => {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+
+    if (isMongoDBAvailable()) {
+        const query: any = {
+            assignedTo: agentId || { $nin: [null, ''] },
+            $or: [
+                { status: { $in: ACTIVE_STATUSES } },
+                { status: { $in: ['resolved', 'closed'] }, updatedAt: { $gte: today } },
+            ],
+        };
+        return Ticket.find(query).lean();
+    }
+
+    return Array.from(memoryTickets.values()).filter((t: any) =>
+        t.assignedTo &&
+        (!agentId || t.assignedTo === agentId) &&
+        (ACTIVE_STATUSES.includes(t.status) ||
+            (['resolved', 'closed'].includes(t.status) &&
+                new Date(t.closedAt || t.updatedAt || t.createdAt) >= today))
+    );
+};
+
+const addTicketToWorkload = (workload: AgentWorkload, ticket: any) => {
+    if (ACTIVE_STATUSES.includes(ticket.status)) {
+        workload.activeTickets++;
+        if (ticket.status === 'assigned') workload.assigned++;
+        if (ticket.status === 'in_progress') workload.inProgress++;
+        const priority = ticket.priority || 'medium';
+        workload.byPriority[priority] = (workload.byPriority[priority] || 0) + 1;
+    } else {
+        workload.resolvedToday++;
+    }
+};
+
+// Roles that can work the support queue
+const AGENT_ROLES = (Object.keys(ROLE_PERMISSIONS) as UserRole[])
+    .filter(role => hasPermission(role, 'tickets:respond'));
+
+// GET workload of every support agent
+export const getAgentsWorkload = async (req: Request, res: Response) => {
+    try {
+        const agents = await findUsersByRole(AGENT_ROLES);
+        const workloads = new Map<string, AgentWorkload>();
+
+        for (const agent of agents) {
+            const agentId = agent._id.toString();
+            workloads.set(agentId, emptyWorkload(agentId, agent.displayName, agent.email));
+        }
+
+        for (const ticket of await fetchWorkloadTickets()) {
+            // Tickets may still be held by agents whose accounts were removed
+            if (!workloads.has(ticket.assignedTo)) {
+                workloads.set(ticket.assignedTo, emptyWorkload(ticket.assignedTo, ticket.assignedToName || ticket.assignedTo));
+            }
+            addTicketToWorkload(workloads.get(ticket.assignedTo)!, ticket);
+        }
+
+        let unassigned = 0;
+        if (isMongoDBAvailable()) {
+            unassigned = await Ticket.countDocuments({ status: 'open', assignedTo: { $in: [null, ''] } });
+        } else {
+            unassigned = Array.from(memoryTickets.values())
+                .filter((t: any) => t.status === 'open' && !t.assignedTo).length;
+        }
+
+        const agentsWorkload = Array.from(workloads.values())
+            .sort((a, b) => b.activeTickets - a.activeTickets);
+
+        res.json({ success: true, data: { agents: agentsWorkload, unassigned } });
+    } catch (error) {
+        console.error('Error fetching workload:', error);
+        res.status(500).json({ success: false, error: 'Failed to fetch workload' });
+    }
+};
+
+// GET workload and active tickets of one agent ('me' for the current agent)
+export const getAgentWorkload = async (req: Request, res: Response) => {
+    try {
+        const agentId = req.params.agentId === 'me' ? (req as any).user.userId : req.params.agentId;
+
+        const agent = await findUserById(agentId);
+        const tickets = await fetchWorkloadTickets(agentId);
+
+        if (!agent && tickets.length === 0) {
+            return res.status(404).json({ success: false, error: 'Agent not found' });
+        }
+
+        const workload = emptyWorkload(
+            agentId,
+            agent?.displayName || tickets[0]?.assignedToName || agentId,
+            agent?.email
+        );
+        tickets.forEach(ticket => addTicketToWorkload(workload, ticket));
+
+        const activeTickets = tickets
+            .filter((t: any) => ACTIVE_STATUSES.includes(t.status))
+            .sort((a: any, b: any) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+
+        res.json({ success: true, data: { workload, tickets: activeTickets } });
+    } catch (error) {
+        console.error('Error fetching agent workload:', error);
+        res.status(500).json({ success: false, error: 'Failed to fetch agent workload' });
+    }
+};
@@ -0,0 +1,143 @@
+/**
+ * 🔔 NOTIFICATION REST API CONTROLLER
+ *
+ * The signed-in user's notifications: list / poll, mark read, delete.
+ * Most notifications are created server-side with notify(); POST lets the
+ * frontend add one for the current user (e.g. a local reminder).
+ * Delivery preferences live under /users/preferences.
+ *
+ * Changes are echoed to the user's other sessions over their private room,
+ * so badges stay in sync across tabs.
+ *
+ * @author GharBazaar Backend Team
+ */
+
+import { Request, Response } from 'express';
+import { NOTIFICATION_TYPES, NotificationType } from '../models/notification.model';
+import { InvalidCursorError } from '../utils/propertySearch';
+import {
+    storeNotification,
+    listNotifications,
+    markNotificationRead,
+    markAllNotificationsRead,
+    deleteNotification as removeNotification,
+    countUnreadNotifications,
+    emitNotificationEvent,
+} from '../utils/notifications';
+
+const isNotificationType = (value: unknown): value is NotificationType =>
+    typeof value === 'string' && (NOTIFICATION_TYPES as readonly string[]).includes(value);
+
+// GET notifications (?limit, unreadOnly=true, after=<id> to poll for newer ones)
+export const getNotifications = async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).user.userId;
+        const { after } = req.query;
+
+        const result = await listNotifications(userId, {
+            limit: parseInt(req.query.limit as string) || undefined,
+            after: typeof after === 'string' && after ? after : undefined,
+            unreadOnly: req.query.unreadOnly === 'true',
+        });
+
+        res.json({ success: true, data: result });
+    } catch (error) {
+        if (error instanceof InvalidCursorError) {
+            return res.status(400).json({ success: false, error: 'Notification cursor not found' });
+        }
+        console.error('Error fetching notifications:', error);
+        res.status(500).json({ success: false, error: 'Failed to fetch notifications' });
+    }
+};
+
+// CREATE a notification for yourself
+export const createNotification = async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).user.userId;
+        const { type = 'system', title, message, link, metadata } = req.body || {};
+
+        if (!isNotificationType(type)) {
+            return res.status(400).json({ success: false, error: `type must be one of: ${NOTIFICATION_TYPES.join(', ')}` });
+        }
+
+        if (!title || typeof title !== 'string') {
+            return res.status(400).json({ success: false, error: 'title is required' });
+        }
+
+        // Only in-app links, so a notification can't send users off-site
+        if (link !== undefined && (typeof link !== 'string' || !link.startsWith('/') || link.startsWith('//'))) {
+            return res.status(400).json({ success: false, error: 'link must be an in-app path' });
+        }
+
+        // The user asked for this one, so it's stored in-app whatever their preferences
+        const notification = await storeNotification(userId, {
+            type,
+            title,
+            message: typeof message === 'string' ? message : '',
+            link,
+            metadata: metadata && typeof metadata === 'object' ? metadata : undefined,
+        }, req.app.get('io'));
+
+        res.status(201).json({ success: true, data: { notification } });
+    } catch (error) {
+        console.error('Error creating notification:', error);
+        res.status(500).json({ success: false, error: 'Failed to create notification' });
+    }
+};
+
+// MARK one notification as read
+export const markAsRead = async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).user.userId;
+        const notification = await markNotificationRead(userId, req.params.id);
+
+        if (!notification) {
+            return res.status(404).json({ success: false, error: 'Notification not found' });
+        }
+
+        emitNotificationEvent(req.app.get('io'), userId, 'notification:read', { id: notification.id });
+
+        res.json({
+            success: true,
+            data: { notification, unreadCount: await countUnreadNotifications(userId) },
+        });
+    } catch (error) {
+        console.error('Error marking notification as read:', error);
+        res.status(500).json({ success: false, error: 'Failed to mark notification as read' });
+    }
+};
+
+// MARK all notifications as read
+export const markAllAsRead = async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).user.userId;
+        const updated = await markAllNotificationsRead(userId);
+
+        if (updated > 0) {
+            emitNotificationEvent(req.app.get('io'), userId, 'notification:read', { all: true });
+        }
+
+        res.json({ success: true, data: { updated, unreadCount: 0 } });
+    } catch (error) {
+        console.error('Error marking notifications as read:', error);
+        res.status(500).json({ success: false, error: 'Failed to mark notifications as read' });
+    }
+};
+
+// DELETE a notification
+export const deleteNotification = async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).user.userId;
+
+        if (!(await removeNotification(userId, req.params.id))) {
+            return res.status(404).json({ success: false, error: 'Notification not found' });
+        }
+
+        emitNotificationEvent(req.app.get('io'), userId, 'notification:deleted', { id: req.params.id });
+
+        res.json({ success: true, data: { unreadCount: await countUnreadNotifications(userId) } });
+    } catch (error) {
+        console.error('Error deleting notification:', error);
+        res.status(500).json({ success: false, error: 'Failed to delete notification' });
+    }
+};
@@ -0,0 +1,388 @@
+/**
+ * 💳 PAYMENT REST API CONTROLLER
+ *
+ * Checkout for PAYMENT_SERVICES through Razorpay (or the local stub gateway):
+ * 1. POST /payments/create-order  - order priced by the server from the service id
+ * 2. Checkout                     - Razorpay Checkout, or POST /payments/stub/checkout
+ * 3. POST /payments/verify        - razorpay_signature checked with the key secret
+ *
+ * The gateway also reports outcomes to POST /payments/webhook, so a payment
+ * is credited even if the customer closes the tab before verifying. Both
+ * paths credit the ledger (GET /payments/transactions) once per payment, and
+ * any ledger entry can be given a GST invoice or credit note.
+ *
+ * The client never chooses the amount, and an order is only marked paid
+ * once its signature checks out.
+ *
+ * @author GharBazaar Backend Team
+ */
+
+import crypto from 'crypto';
+import { Request, Response } from 'express';
+import config from '../config';
+import { getPaymentService, PAYMENT_SERVICES } from '../config/paymentServices';
+import {
+    getPaymentGateway,
+    verifyPaymentSignature,
+    verifyWebhookSignature,
+    PaymentGatewayError,
+    StubGateway,
+} from '../utils/paymentGateway';
+import { createPaymentOrder, findPaymentOrder, toClientPaymentOrder } from '../utils/paymentStore';
+import {
+    findTransaction,
+    findTransactionByKey,
+    getPaymentStats,
+    listTransactions,
+    paymentKey,
+    toClientTransaction,
+} from '../utils/paymentLedger';
+import { capturePayment, hasHandledWebhookEvent, processWebhookEvent, recordWebhookEvent } from '../utils/paymentSettlement';
+import {
+    InvalidReportError,
+    listIssues,
+    reconcileGatewayReport,
+    resolveIssue,
+    toClientIssue,
+} from '../utils/paymentReconciliation';
+import { findInvoice, InvoiceError, issueInvoice, listInvoices, toClientInvoice } from '../utils/invoiceStore';
+import { renderInvoicePdf } from '../utils/invoicePdf';
+
+const MAX_NOTES = 10;
+const MAX_NOTE_LENGTH = 256;
+
+// Razorpay allows up to 15 short string notes; keep a few for our own use
+const sanitizeNotes = (notes: unknown): Record<string, string> => {
+    if (!notes || typeof notes !== 'object') return {};
+    return Object.fromEntries(
+        Object.entries(notes)
+            .filter(([, value]) => typeof value === 'string' || typeof value === 'number')
+            .slice(0, MAX_NOTES)
+            .map(([key, value]) => [key.substring(0, 40), String(value).substring(0, MAX_NOTE_LENGTH)])
+    );
+};
+
+// CREATE an order for a service, at the server's price
+export const createOrder = async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).user.userId;
+        const { serviceId, notes } = req.body || {};
+
+        const service = getPaymentService(serviceId);
+        if (!service) {
+            return res.status(400).json({
+                success: false,
+                error: `serviceId must be one of: ${Object.keys(PAYMENT_SERVICES).join(', ')}`,
+            });
+        }
+
+        const order = await createPaymentOrder(userId, service, sanitizeNotes(notes));
+
+        console.log(`🧾 Payment order ${order.gatewayOrderId} created for ${service.id} (₹${service.amount})`);
+
+        res.status(201).json({
+            success: true,
+            data: {
+                order: toClientPaymentOrder(order),
+                // Public key for Razorpay Checkout
+                keyId: config.payments.keyId,
+            },
+        });
+    } catch (error) {
+        if (error instanceof PaymentGatewayError) {
+            console.error('Payment gateway error:', error.message);
+            return res.status(502).json({ success: false, error: 'Payment gateway unavailable, please try again' });
+        }
+        console.error('Error creating payment order:', error);
+        res.status(500).json({ success: false, error: 'Failed to create payment order' });
+    }
+};
+
+// VERIFY a completed checkout and mark the order paid
+export const verifyPayment = async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).user.userId;
+        const { razorpay_order_id, razorpay_payment_id, razorpay_signature } = req.body || {};
+
+        if (
+            typeof razorpay_order_id !== 'string' || !razorpay_order_id ||
+            typeof razorpay_payment_id !== 'string' || !razorpay_payment_id ||
+            typeof razorpay_signature !== 'string' || !razorpay_signature
+        ) {
+            return res.status(400).json({
+                success: false,
+                error: 'razorpay_order_id, razorpay_payment_id and razorpay_signature are required',
+            });
+        }
+
+        const order = await findPaymentOrder(razorpay_order_id);
+        if (!order || order.userId !== userId) {
+            return res.status(404).json({ success: false, error: 'Order not found' });
+        }
+
+        if (!verifyPaymentSignature(razorpay_order_id, razorpay_payment_id, razorpay_signature)) {
+            console.warn(`⚠️  Invalid payment signature for order ${razorpay_order_id}`);
+            return res.status(400).json({ success: false, error: 'Invalid payment signature' });
+        }
+
+        // Verifying the same payment again is fine (e.g. a retried request, or the webhook got there first)
+        if (order.status === 'paid' && order.paymentId === razorpay_payment_id) {
+            const transaction = await findTransactionByKey(paymentKey(razorpay_payment_id));
+            return res.json({
+                success: true,
+                data: { order: toClientPaymentOrder(order), transaction: transaction && toClientTransaction(transaction) },
+            });
+        }
+
+        // A second payment for a paid order is recorded and flagged for a refund, not credited
+        const paid = await capturePayment(
+            order,
+            { paymentId: razorpay_payment_id, amount: order.amount },
+            'verify',
+            req.app.get('io')
+        );
+
+        if (paid.status !== 'paid' || paid.paymentId !== razorpay_payment_id) {
+            return res.status(409).json({ success: false, error: `Order is already ${paid.status}` });
+        }
+
+        // The ledger entry, which invoices are issued for
+        const transaction = await findTransactionByKey(paymentKey(razorpay_payment_id));
+
+        res.json({
+            success: true,
+            data: { order: toClientPaymentOrder(paid), transaction: transaction && toClientTransaction(transaction) },
+        });
+    } catch (error) {
+        console.error('Error verifying payment:', error);
+        res.status(500).json({ success: false, error: 'Failed to verify payment' });
+    }
+};
+
+// PAY an order through the stub gateway (what Razorpay Checkout does for real)
+export const stubCheckout = async (req: Request, res: Response) => {
+    try {
+        const gateway = getPaymentGateway();
+        if (!(gateway instanceof StubGateway) || config.nodeEnv === 'production') {
+            return res.status(404).json({ success: false, error: 'Stub checkout is not enabled' });
+        }
+
+        const userId = (req as any).user.userId;
+        const { orderId } = req.body || {};
+        const order = typeof orderId === 'string' ? await findPaymentOrder(orderId) : null;
+
+        if (!order || order.userId !== userId) {
+            return res.status(404).json({ success: false, error: 'Order not found' });
+        }
+
+        if (order.status !== 'created') {
+            return res.status(409).json({ success: false, error: `Order is already ${order.status}` });
+        }
+
+        res.json({ success: true, data: gateway.completePayment(orderId) });
+    } catch (error) {
+        console.error('Error in stub checkout:', error);
+        res.status(500).json({ success: false, error: 'Stub checkout failed' });
+    }
+};
+
+// RECEIVE a gateway event (payment.captured, payment.failed, refund.processed)
+export const handleWebhook = async (req: Request, res: Response) => {
+    try {
+        const rawBody: Buffer | undefined = (req as any).rawBody;
+        const signature = req.get('x-razorpay-signature');
+
+        if (!rawBody || !signature || !verifyWebhookSignature(rawBody, signature)) {
+            console.warn('⚠️  Rejected payment webhook with an invalid signature');
+            return res.status(400).json({ success: false, error: 'Invalid webhook signature' });
+        }
+
+        const { event, payload } = req.body || {};
+        if (typeof event !== 'string') {
+            return res.status(400).json({ success: false, error: 'event is required' });
+        }
+
+        // Razorpay sends the same event id on every retry of a delivery
+        const eventId = req.get('x-razorpay-event-id') || crypto.createHash('sha256').update(rawBody).digest('hex');
+
+        if (await hasHandledWebhookEvent(eventId)) {
+            return res.json({ success: true, data: { duplicate: true } });
+        }
+
+        await processWebhookEvent(event, payload, req.app.get('io'));
+        // Recorded after processing, so a delivery that fails part-way is retried in full
+        await recordWebhookEvent(eventId, event);
+
+        res.json({ success: true, data: { duplicate: false } });
+    } catch (error) {
+        console.error('Error handling payment webhook:', error);
+        // A non-2xx response makes the gateway retry later
+        res.status(500).json({ success: false, error: 'Failed to process webhook' });
+    }
+};
+
+// GET the current user's ledger entries
+export const getTransactions = async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).user.userId;
+        const transactions = await listTransactions({ userId });
+
+        res.json({ success: true, data: { transactions: transactions.map(toClientTransaction) } });
+    } catch (error) {
+        console.error('Error fetching transactions:', error);
+        res.status(500).json({ success: false, error: 'Failed to fetch transactions' });
+    }
+};
+
+// GET one of the current user's ledger entries
+export const getTransaction = async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).user.userId;
+        const transaction = await findTransaction(userId, req.params.id);
+
+        if (!transaction) {
+            return res.status(404).json({ success: false, error: 'Transaction not found' });
+        }
+
+        res.json({ success: true, data: { transaction: toClientTransaction(transaction) } });
+    } catch (error) {
+        console.error('Error fetching transaction:', error);
+        res.status(500).json({ success: false, error: 'Failed to fetch transaction' });
+    }
+};
+
+// GET totals for the current user's ledger
+export const getStats = async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).user.userId;
+        res.json({ success: true, data: { stats: await getPaymentStats(userId) } });
+    } catch (error) {
+        console.error('Error fetching payment stats:', error);
+        res.status(500).json({ success: false, error: 'Failed to fetch payment stats' });
+    }
+};
+
+// ISSUE the GST invoice (payment) or credit note (refund) for a ledger entry
+export const generateInvoice = async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).user.userId;
+        const transaction = await findTransaction(userId, req.params.id);
+
+        if (!transaction) {
+            return res.status(404).json({ success: false, error: 'Transaction not found' });
+        }
+
+        const { name, address, state, gstin } = req.body || {};
+        const { invoice, created } = await issueInvoice(transaction, { name, address, state, gstin });
+
+        res.status(created ? 201 : 200).json({ success: true, data: { invoice: toClientInvoice(invoice) } });
+    } catch (error) {
+        if (error instanceof InvoiceError) {
+            return res.status(400).json({ success: false, error: error.message });
+        }
+        console.error('Error generating invoice:', error);
+        res.status(500).json({ success: false, error: 'Failed to generate invoice' });
+    }
+};
+
+// GET the current user's invoices and credit notes
+export const getInvoices = async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).user.userId;
+        const invoices = await listInvoices(userId);
+
+        res.json({ success: true, data: { invoices: invoices.map(toClientInvoice) } });
+    } catch (error) {
+        console.error('Error fetching invoices:', error);
+        res.status(500).json({ success: false, error: 'Failed to fetch invoices' });
+    }
+};
+
+// GET one invoice as JSON, or as a PDF with ?format=pdf
+export const getInvoice = async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).user.userId;
+        const invoice = await findInvoice(userId, req.params.id);
+
+        if (!invoice) {
+            return res.status(404).json({ success: false, error: 'Invoice not found' });
+        }
+
+        if (req.query.format === 'pdf') {
+            const filename = `${invoice.number.replace(/\//g, '-')}.pdf`;
+            res.setHeader('Content-Type', 'application/pdf');
+            res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+            return res.send(renderInvoicePdf(invoice));
+        }
+
+        res.json({ success: true, data: { invoice: toClientInvoice(invoice) } });
+    } catch (error) {
+        console.error('Error fetching invoice:', error);
+        res.status(500).json({ success: false, error: 'Failed to fetch invoice' });
+    }
+};
+
+// GET reconciliation issues (?resolved=true|false)
+export const getReconciliationIssues = async (req: Request, res: Response) => {
+    try {
+        const { resolved } = req.query;
+        const issues = await listIssues({
+            resolved: resolved === 'true' ? true : resolved === 'false' ? false : undefined,
+        });
+
+        res.json({ success: true, data: { issues: issues.map(toClientIssue) } });
+    } catch (error) {
+        console.error('Error fetching reconciliation issues:', error);
+        res.status(500).json({ success: false, error: 'Failed to fetch reconciliation issues' });
+    }
+};
+
+// IMPORT a gateway report (CSV body) and flag anything that doesn't match the ledger
+export const importReconciliationReport = async (req: Request, res: Response) => {
+    try {
+        if (typeof req.body !== 'string' || !req.body.trim()) {
+            return res.status(400).json({ success: false, error: 'Send the gateway report as text/csv' });
+        }
+
+        // Optional window for spotting ledger payments missing from the report
+        const window: { from?: Date; to?: Date } = {};
+        for (const bound of ['from', 'to'] as const) {
+            const value = req.query[bound];
+            if (value === undefined) continue;
+            const date = new Date(String(value));
+            if (isNaN(date.getTime())) {
+                return res.status(400).json({ success: false, error: `${bound} must be a valid date` });
+            }
+            window[bound] = date;
+        }
+
+        const result = await reconcileGatewayReport(req.body, window);
+
+        console.log(`🔎 Gateway report reconciled: ${result.rows} rows, ${result.matched} matched, ${result.flagged} new issue(s)`);
+
+        res.json({ success: true, data: result });
+    } catch (error) {
+        if (error instanceof InvalidReportError) {
+            return res.status(400).json({ success: false, error: error.message });
+        }
+        console.error('Error importing gateway report:', error);
+        res.status(500).json({ success: false, error: 'Failed to import gateway report' });
+    }
+};
+
+// RESOLVE a reconciliation issue
+export const resolveReconciliationIssue = async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).user.userId;
+        const issue = await resolveIssue(req.params.id, userId);
+
+        if (!issue) {
+            return res.status(404).json({ success: false, error: 'Issue not found' });
+        }
+
+        res.json({ success: true, data: { issue: toClientIssue(issue) } });
+    } catch (error) {
+        console.error('Error resolving reconciliation issue:', error);
+        res.status(500).json({ success: false, error: 'Failed to resolve reconciliation issue' });
+    }
+};
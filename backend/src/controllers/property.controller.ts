@@ -0,0 +1,579 @@
+/**
+ * 🏠 PROPERTY REST API CONTROLLER
+ *
+ * Listing CRUD, public browsing and the moderation workflow:
+ * draft → pending-review → approved | rejected → sold | rented
+ *
+ * Owners edit their own listings; editing an approved or rejected listing
+ * sends it back to pending-review. Moderators (properties:moderate) approve
+ * or reject listings waiting for review.
+ *
+ * @author GharBazaar Backend Team
+ */
+
+import { Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import Property, {
+    LISTING_TYPES,
+    PROPERTY_TYPES,
+    PRICE_TYPES,
+    FURNISHING_TYPES,
+    OWNERSHIP_TYPES,
+    APPROVAL_AUTHORITIES,
+    TENANT_PREFERENCES,
+    PUBLIC_PROPERTY_STATUSES,
+    PropertyStatus,
+} from '../models/property.model';
+import { isMongoDBAvailable, memoryProperties } from '../utils/memoryStore';
+import { findUserById } from '../utils/userStore';
+import { findPropertyById } from '../utils/propertyStore';
+import { hasPermission } from '../config/permissions';
+import { searchProperties as runPropertySearch, InvalidCursorError } from '../utils/propertySearch';
+import { searchPropertiesOnMap, InvalidGeoQueryError } from '../utils/propertyGeo';
+
+// Statuses in which the owner may still change the listing
+const EDITABLE_STATUSES: PropertyStatus[] = ['draft', 'pending-review', 'approved', 'rejected'];
+
+const TEXT_FIELDS = [
+    'title', 'description', 'leasePeriod', 'address', 'locality', 'city', 'state',
+    'landmark', 'facing', 'availability', 'ageOfProperty',
+] as const;
+
+const NUMBER_FIELDS = [
+    'price', 'securityDeposit', 'maintenanceCharges', 'expectedPrice', 'bookingAmount',
+    'squareFeet', 'carpetArea', 'bedrooms', 'bathrooms', 'balconies', 'floor',
+    'totalFloors', 'parking',
+] as const;
+
+const ENUM_FIELDS: Record<string, readonly string[]> = {
+    listingType: LISTING_TYPES,
+    propertyType: PROPERTY_TYPES,
+    priceType: PRICE_TYPES,
+    furnishing: FURNISHING_TYPES,
+    ownershipType: OWNERSHIP_TYPES,
+    approvedBy: APPROVAL_AUTHORITIES,
+    tenantPreference: TENANT_PREFERENCES,
+};
+
+const REQUIRED_FIELDS = ['listingType', 'propertyType', 'title', 'price', 'locality', 'city', 'pincode'];
+
+const isBlank = (value: unknown) => value === undefined || value === null || value === '';
+
+const toStringList = (value: unknown): string[] | undefined =>
+    Array.isArray(value) ? value.filter(v => typeof v === 'string' && v.trim()).map(v => v.trim()) : undefined;
+
+/**
+ * Pick the editable listing fields out of a request body.
+ * Accepts the listing form's shape (string numbers, `floors`, flat contact fields).
+ */
+const parsePropertyFields = (body: any): { fields: Record<string, any>; error?: string } => {
+    const fields: Record<string, any> = {};
+
+    for (const key of TEXT_FIELDS) {
+        if (!isBlank(body[key])) fields[key] = String(body[key]).trim();
+    }
+
+    const numbers = { ...body, floor: body.floor ?? body.floors };
+    for (const key of NUMBER_FIELDS) {
+        if (isBlank(numbers[key])) continue;
+        const value = Number(numbers[key]);
+        if (!Number.isFinite(value) || (key !== 'floor' && value < 0)) {
+            return { fields, error: `${key} must be a non-negative number` };
+        }
+        fields[key] = value;
+    }
+
+    for (const [key, allowed] of Object.entries(ENUM_FIELDS)) {
+        if (isBlank(body[key])) continue;
+        if (!allowed.includes(body[key])) {
+            return { fields, error: `${key} must be one of: ${allowed.join(', ')}` };
+        }
+        fields[key] = body[key];
+    }
+
+    if (!isBlank(body.pincode)) {
+        const pincode = String(body.pincode).trim();
+        if (!/^\d{6}$/.test(pincode)) {
+            return { fields, error: 'pincode must be a 6-digit number' };
+        }
+        fields.pincode = pincode;
+    }
+
+    // Map pin: { latitude, longitude }, or { lat, lng } under `location`/`coordinates`
+    const pin = body.location || body.coordinates || body;
+    const latitude = pin.latitude ?? pin.lat;
+    const longitude = pin.longitude ?? pin.lng;
+    if (!isBlank(latitude) || !isBlank(longitude)) {
+        const lat = Number(latitude);
+        const lng = Number(longitude);
+        if (!Number.isFinite(lat) || !Number.isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+            return { fields, error: 'latitude and longitude must be valid coordinates' };
+        }
+        fields.location = { type: 'Point', coordinates: [lng, lat] };
+    }
+
+    for (const key of ['amenities', 'nearbyPlaces', 'images'] as const) {
+        const list = toStringList(body[key]);
+        if (list) fields[key] = list;
+    }
+
+    const contactSource = body.contact || {
+        name: body.contactName,
+        phone: body.contactPhone,
+        email: body.contactEmail,
+        alternatePhone: body.alternatePhone,
+        preferredCallTime: body.preferredCallTime,
+    };
+    const contact = Object.fromEntries(
+        Object.entries(contactSource).filter(([, value]) => !isBlank(value))
+    );
+    if (Object.keys(contact).length) fields.contact = contact;
+
+    return { fields };
+};
+
+const canModerate = (user: any) => hasPermission(user?.role, 'properties:moderate');
+
+const isOwner = (property: any, user: any) => !!user && property.ownerId === user.userId;
+
+const canViewProperty = (property: any, user: any) =>
+    PUBLIC_PROPERTY_STATUSES.includes(property.status) || isOwner(property, user) || canModerate(user);
+
+const saveProperty = async (property: any, updates: Record<string, any>) => {
+    if (isMongoDBAvailable()) {
+        property.set(updates);
+        return property.save();
+    }
+    Object.assign(property, updates, { updatedAt: new Date() });
+    return property;
+};
+
+const clampLimit = (value: unknown, fallback: number, max: number) =>
+    Math.min(Math.max(parseInt(value as string) || fallback, 1), max);
+
+// CREATE listing (as draft, or straight into review with submitForReview: true)
+export const createProperty = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        const { fields, error } = parsePropertyFields(req.body);
+
+        if (error) {
+            return res.status(400).json({ success: false, error });
+        }
+
+        const missing = REQUIRED_FIELDS.filter(key => isBlank(fields[key]));
+        if (missing.length) {
+            return res.status(400).json({ success: false, error: `Missing required fields: ${missing.join(', ')}` });
+        }
+
+        const owner = await findUserById(user.userId);
+        const submit = req.body.submitForReview === true;
+        const now = new Date();
+        const data = {
+            ...fields,
+            ownerId: user.userId,
+            ownerName: owner?.displayName,
+            status: (submit ? 'pending-review' : 'draft') as PropertyStatus,
+            submittedAt: submit ? now : undefined,
+        };
+
+        let property;
+        if (isMongoDBAvailable()) {
+            property = await Property.create(data);
+        } else {
+            property = {
+                _id: uuidv4(),
+                priceType: 'fixed',
+                amenities: [],
+                nearbyPlaces: [],
+                images: [],
+                verified: false,
+                views: 0,
+                reviewCount: 0,
+                ...data,
+                createdAt: now,
+                updatedAt: now,
+            };
+            memoryProperties.set(property._id, property);
+        }
+
+        console.log(`🏠 Listing created: ${property._id} by ${user.email} (${data.status})`);
+
+        res.status(201).json({ success: true, data: { property } });
+    } catch (error) {
+        console.error('Error creating property:', error);
+        res.status(500).json({ success: false, error: 'Failed to create property' });
+    }
+};
+
+// GET faceted search over approved listings (see utils/propertySearch for params)
+export const searchProperties = async (req: Request, res: Response) => {
+    try {
+        const result = await runPropertySearch(req.query);
+
+        res.json({ success: true, data: result });
+    } catch (error) {
+        if (error instanceof InvalidCursorError) {
+            return res.status(400).json({ success: false, error: error.message });
+        }
+        console.error('Error searching properties:', error);
+        res.status(500).json({ success: false, error: 'Failed to search properties' });
+    }
+};
+
+// GET approved listings (or clusters when zoomed out) inside a map area (see utils/propertyGeo for params)
+export const getMapProperties = async (req: Request, res: Response) => {
+    try {
+        const result = await searchPropertiesOnMap(req.query);
+
+        res.json({ success: true, data: result });
+    } catch (error) {
+        if (error instanceof InvalidGeoQueryError) {
+            return res.status(400).json({ success: false, error: error.message });
+        }
+        console.error('Error searching map:', error);
+        res.status(500).json({ success: false, error: 'Failed to search map' });
+    }
+};
+
+// GET most viewed approved listings
+export const getTrendingProperties = async (req: Request, res: Response) => {
+    try {
+        const limit = clampLimit(req.query.limit, 10, 50);
+
+        let properties = [];
+        if (isMongoDBAvailable()) {
+            properties = await Property.find({ status: 'approved' })
+                .sort({ views: -1, createdAt: -1 })
+                .limit(limit);
+        } else {
+            properties = Array.from(memoryProperties.values())
+                .filter((p: any) => p.status === 'approved')
+                .sort((a: any, b: any) => b.views - a.views || b.createdAt - a.createdAt)
+                .slice(0, limit);
+        }
+
+        res.json({ success: true, data: { properties } });
+    } catch (error) {
+        res.status(500).json({ success: false, error: 'Failed to fetch trending properties' });
+    }
+};
+
+// GET a user's listings (all statuses for the owner and moderators, public ones for everyone else)
+export const getUserProperties = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        const ownerId = req.params.userId === 'me' ? user?.userId : req.params.userId;
+
+        if (!ownerId) {
+            return res.status(401).json({ success: false, error: 'No token provided. Please login.' });
+        }
+
+        const seeAll = ownerId === user?.userId || canModerate(user);
+
+        let properties = [];
+        if (isMongoDBAvailable()) {
+            const query: any = { ownerId };
+            if (!seeAll) query.status = { $in: PUBLIC_PROPERTY_STATUSES };
+            properties = await Property.find(query).sort({ createdAt: -1 });
+        } else {
+            properties = Array.from(memoryProperties.values())
+                .filter((p: any) => p.ownerId === ownerId && (seeAll || PUBLIC_PROPERTY_STATUSES.includes(p.status)))
+                .sort((a: any, b: any) => b.createdAt - a.createdAt);
+        }
+
+        res.json({ success: true, data: { properties } });
+    } catch (error) {
+        res.status(500).json({ success: false, error: 'Failed to fetch properties' });
+    }
+};
+
+// GET single listing
+export const getPropertyById = async (req: Request, res: Response) => {
+    try {
+        const property = await findPropertyById(req.params.id);
+
+        // Unpublished listings look missing to everyone but the owner and moderators
+        if (!property || !canViewProperty(property, (req as any).user)) {
+            return res.status(404).json({ success: false, error: 'Property not found' });
+        }
+
+        res.json({ success: true, data: { property } });
+    } catch (error) {
+        res.status(500).json({ success: false, error: 'Failed to fetch property' });
+    }
+};
+
+// GET approved listings like this one (same city, listing and property type, closest price)
+export const getSimilarProperties = async (req: Request, res: Response) => {
+    try {
+        const limit = clampLimit(req.query.limit, 5, 20);
+        const property = await findPropertyById(req.params.id);
+
+        if (!property || !canViewProperty(property, (req as any).user)) {
+            return res.status(404).json({ success: false, error: 'Property not found' });
+        }
+
+        const criteria = {
+            status: 'approved',
+            city: property.city,
+            listingType: property.listingType,
+            propertyType: property.propertyType,
+        };
+
+        let candidates = [];
+        if (isMongoDBAvailable()) {
+            candidates = await Property.find({
+                ...criteria,
+                _id: { $ne: property._id },
+                price: { $gte: property.price * 0.5, $lte: property.price * 1.5 },
+            }).limit(limit * 4);
+        } else {
+            candidates = Array.from(memoryProperties.values())
+                .filter((p: any) =>
+                    p._id !== property._id &&
+                    Object.entries(criteria).every(([key, value]) => p[key] === value) &&
+                    p.price >= property.price * 0.5 &&
+                    p.price <= property.price * 1.5
+                );
+        }
+
+        const properties = candidates
+            .sort((a: any, b: any) => Math.abs(a.price - property.price) - Math.abs(b.price - property.price))
+            .slice(0, limit);
+
+        res.json({ success: true, data: { properties } });
+    } catch (error) {
+        res.status(500).json({ success: false, error: 'Failed to fetch similar properties' });
+    }
+};
+
+// POST record a view (owner views are not counted)
+export const trackPropertyView = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        const property = await findPropertyById(req.params.id);
+
+        if (!property || property.status !== 'approved') {
+            return res.status(404).json({ success: false, error: 'Property not found' });
+        }
+
+        if (!isOwner(property, user)) {
+            if (isMongoDBAvailable()) {
+                await Property.updateOne({ _id: property._id }, { $inc: { views: 1 } });
+                property.views += 1;
+            } else {
+                property.views = (property.views || 0) + 1;
+            }
+        }
+
+        res.json({ success: true, data: { views: property.views } });
+    } catch (error) {
+        res.status(500).json({ success: false, error: 'Failed to track view' });
+    }
+};
+
+// UPDATE listing (owner only)
+export const updateProperty = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        const property = await findPropertyById(req.params.id);
+
+        if (!property || !canViewProperty(property, user)) {
+            return res.status(404).json({ success: false, error: 'Property not found' });
+        }
+
+        if (!isOwner(property, user)) {
+            return res.status(403).json({ success: false, error: 'Only the owner can edit this listing', code: 'FORBIDDEN' });
+        }
+
+        if (!EDITABLE_STATUSES.includes(property.status)) {
+            return res.status(409).json({ success: false, error: `A ${property.status} listing can no longer be edited` });
+        }
+
+        const { fields, error } = parsePropertyFields(req.body);
+        if (error) {
+            return res.status(400).json({ success: false, error });
+        }
+
+        if (Object.keys(fields).length === 0) {
+            return res.status(400).json({ success: false, error: 'No editable fields provided' });
+        }
+
+        // Published or rejected listings go back through moderation after an edit
+        const updates: Record<string, any> = { ...fields };
+        if (property.status === 'approved' || property.status === 'rejected') {
+            updates.status = 'pending-review';
+            updates.submittedAt = new Date();
+            updates.rejectionReason = undefined;
+        }
+
+        const updated = await saveProperty(property, updates);
+
+        res.json({ success: true, data: { property: updated } });
+    } catch (error) {
+        console.error('Error updating property:', error);
+        res.status(500).json({ success: false, error: 'Failed to update property' });
+    }
+};
+
+// POST submit a draft or rejected listing for review (owner only)
+export const submitPropertyForReview = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        const property = await findPropertyById(req.params.id);
+
+        if (!property || !isOwner(property, user)) {
+            return res.status(404).json({ success: false, error: 'Property not found' });
+        }
+
+        if (property.status !== 'draft' && property.status !== 'rejected') {
+            return res.status(409).json({ success: false, error: `Cannot submit a ${property.status} listing for review` });
+        }
+
+        const updated = await saveProperty(property, {
+            status: 'pending-review',
+            submittedAt: new Date(),
+            rejectionReason: undefined,
+        });
+
+        console.log(`📝 Listing ${property._id} submitted for review`);
+
+        res.json({ success: true, data: { property: updated } });
+    } catch (error) {
+        res.status(500).json({ success: false, error: 'Failed to submit property' });
+    }
+};
+
+// POST mark an approved listing as sold (sale) or rented (rent) (owner only)
+export const closeProperty = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        const property = await findPropertyById(req.params.id);
+
+        if (!property || !isOwner(property, user)) {
+            return res.status(404).json({ success: false, error: 'Property not found' });
+        }
+
+        if (property.status !== 'approved') {
+            return res.status(409).json({ success: false, error: 'Only approved listings can be marked as sold or rented' });
+        }
+
+        const status: PropertyStatus = property.listingType === 'rent' ? 'rented' : 'sold';
+        const updated = await saveProperty(property, { status, closedAt: new Date() });
+
+        console.log(`🔑 Listing ${property._id} marked as ${status}`);
+
+        res.json({ success: true, data: { property: updated } });
+    } catch (error) {
+        res.status(500).json({ success: false, error: 'Failed to close property' });
+    }
+};
+
+// DELETE listing (owner or moderator)
+export const deleteProperty = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        const property = await findPropertyById(req.params.id);
+
+        if (!property || !canViewProperty(property, user)) {
+            return res.status(404).json({ success: false, error: 'Property not found' });
+        }
+
+        if (!isOwner(property, user) && !canModerate(user)) {
+            return res.status(403).json({ success: false, error: 'Only the owner can delete this listing', code: 'FORBIDDEN' });
+        }
+
+        if (isMongoDBAvailable()) {
+            await Property.deleteOne({ _id: property._id });
+        } else {
+            memoryProperties.delete(property._id);
+        }
+
+        console.log(`🗑️  Listing ${property._id} deleted by ${user.email}`);
+
+        res.json({ success: true, message: 'Property deleted' });
+    } catch (error) {
+        res.status(500).json({ success: false, error: 'Failed to delete property' });
+    }
+};
+
+// GET moderation queue (defaults to listings waiting for review)
+export const getModerationQueue = async (req: Request, res: Response) => {
+    try {
+        const status = (req.query.status as string) || 'pending-review';
+        const limit = clampLimit(req.query.limit, 50, 200);
+
+        let properties = [];
+        if (isMongoDBAvailable()) {
+            const query = status === 'all' ? {} : { status };
+            properties = await Property.find(query)
+                .sort({ submittedAt: 1, createdAt: 1 })
+                .limit(limit);
+        } else {
+            properties = Array.from(memoryProperties.values())
+                .filter((p: any) => status === 'all' || p.status === status)
+                .sort((a: any, b: any) =>
+                    (a.submittedAt || a.createdAt).getTime() - (b.submittedAt || b.createdAt).getTime())
+                .slice(0, limit);
+        }
+
+        res.json({ success: true, data: { properties } });
+    } catch (error) {
+        res.status(500).json({ success: false, error: 'Failed to fetch properties' });
+    }
+};
+
+const reviewProperty = async (req: Request, res: Response, decision: 'approved' | 'rejected') => {
+    const user = (req as any).user;
+    const reason = typeof req.body?.reason === 'string' ? req.body.reason.trim() : '';
+
+    if (decision === 'rejected' && !reason) {
+        return res.status(400).json({ success: false, error: 'A rejection reason is required' });
+    }
+
+    const property = await findPropertyById(req.params.id);
+    if (!property) {
+        return res.status(404).json({ success: false, error: 'Property not found' });
+    }
+
+    if (property.status !== 'pending-review') {
+        return res.status(409).json({ success: false, error: `Cannot review a ${property.status} listing` });
+    }
+
+    const updates: Record<string, any> = {
+        status: decision,
+        reviewedAt: new Date(),
+        reviewedBy: user.userId,
+        rejectionReason: decision === 'rejected' ? reason : undefined,
+    };
+
+    // Moderators mark a listing verified once its documents have been checked
+    if (decision === 'approved' && typeof req.body?.verified === 'boolean') {
+        updates.verified = req.body.verified;
+    }
+
+    const updated = await saveProperty(property, updates);
+
+    console.log(`${decision === 'approved' ? '✅' : '❌'} Listing ${property._id} ${decision} by ${user.email}`);
+
+    res.json({ success: true, data: { property: updated } });
+};
+
+// PUT approve a listing waiting for review ({ verified: true } also marks it verified)
+export const approveProperty = async (req: Request, res: Response) => {
+    try {
+        await reviewProperty(req, res, 'approved');
+    } catch (error) {
+        res.status(500).json({ success: false, error: 'Failed to approve property' });
+    }
+};
+
+// PUT reject a listing waiting for review (reason required)
+export const rejectProperty = async (req: Request, res: Response) => {
+    try {
+        await reviewProperty(req, res, 'rejected');
+    } catch (error) {
+        res.status(500).json({ success: false, error: 'Failed to reject property' });
+    }
+};
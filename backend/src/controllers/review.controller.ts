@@ -0,0 +1,449 @@
+/**
+ * ⭐ REVIEW REST API CONTROLLER
+ *
+ * Property reviews, helpful votes and abuse reports:
+ * published → reported → published (kept) | removed
+ *
+ * Only users who have dealt with a listing (a conversation about it in
+ * which the seller replied, or a completed site visit) can review it, once. Visible reviews are
+ * aggregated onto the listing's `rating` / `reviewCount`. Reported reviews
+ * wait in the employee moderation queue (reviews:moderate).
+ *
+ * @author GharBazaar Backend Team
+ */
+
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { v4 as uuidv4 } from 'uuid';
+import Review, { VISIBLE_REVIEW_STATUSES, ReviewStatus } from '../models/review.model';
+import Property, { PUBLIC_PROPERTY_STATUSES } from '../models/property.model';
+import Conversation from '../models/conversation.model';
+import Message from '../models/message.model';
+import { isMongoDBAvailable, memoryReviews, memoryConversations, memoryMessages, memoryProperties } from '../utils/memoryStore';
+import { findPropertyById } from '../utils/propertyStore';
+import { hasCompletedSiteVisit } from '../utils/siteVisitStore';
+import { findUserById } from '../utils/userStore';
+
+const MAX_COMMENT_LENGTH = 2000;
+const MAX_REASON_LENGTH = 500;
+
+const REVIEW_SORTS: Record<string, Record<string, 1 | -1>> = {
+    recent: { createdAt: -1 },
+    helpful: { helpfulCount: -1, createdAt: -1 },
+    rating_desc: { rating: -1, createdAt: -1 },
+    rating_asc: { rating: 1, createdAt: -1 },
+};
+
+const isVisible = (status: ReviewStatus) => (VISIBLE_REVIEW_STATUSES as readonly ReviewStatus[]).includes(status);
+
+const clampLimit = (value: unknown, fallback: number, max: number) =>
+    Math.min(Math.max(parseInt(value as string) || fallback, 1), max);
+
+/**
+ * Review as shown to other users: voter IDs and reports stay private
+ */
+const toPublicReview = (review: any, viewerId?: string) => {
+    const { helpfulVoters, reports, ...rest } = typeof review.toObject === 'function' ? review.toObject() : review;
+    return { ...rest, votedHelpful: !!viewerId && (helpfulVoters || []).includes(viewerId) };
+};
+
+const findReviewById = async (id: string): Promise<any | null> => {
+    if (isMongoDBAvailable()) {
+        if (!mongoose.isValidObjectId(id)) return null;
+        return Review.findById(id);
+    }
+    return memoryReviews.get(id) || null;
+};
+
+/**
+ * True if the seller replied in a conversation with the user about the listing.
+ * Opening a thread the seller never answered doesn't count.
+ */
+const hasConversationWithSeller = async (userId: string, sellerId: string, propertyId: string): Promise<boolean> => {
+    if (isMongoDBAvailable()) {
+        const conversations = await Conversation.find({
+            propertyId,
+            participants: { $all: [userId, sellerId] },
+            conversationType: 'buyer-seller',
+        }).select('_id');
+        if (!conversations.length) return false;
+
+        return !!(await Message.exists({
+            conversationId: { $in: conversations.map(c => c._id) },
+            senderId: sellerId,
+        }));
+    }
+
+    return Array.from(memoryConversations.values()).some((c: any) =>
+        c.propertyId === propertyId &&
+        c.participants.includes(userId) &&
+        c.participants.includes(sellerId) &&
+        (c.conversationType || 'buyer-seller') === 'buyer-seller' &&
+        (memoryMessages.get(String(c._id)) || []).some((m: any) => m.senderId === sellerId)
+    );
+};
+
+/**
+ * True if the user visited the listing, or talked to its seller about it
+ */
+const hasInteractedWithProperty = async (userId: string, propertyId: string, sellerId: string): Promise<boolean> =>
+    (await hasCompletedSiteVisit(userId, propertyId)) ||
+    hasConversationWithSeller(userId, sellerId, propertyId);
+
+/**
+ * Recompute the listing's average rating and review count from visible reviews
+ */
+const refreshPropertyRating = async (propertyId: string) => {
+    let count: number;
+    let sum: number;
+
+    if (isMongoDBAvailable()) {
+        const [totals] = await Review.aggregate([
+            { $match: { propertyId, status: { $in: VISIBLE_REVIEW_STATUSES } } },
+            { $group: { _id: null, count: { $sum: 1 }, sum: { $sum: '$rating' } } },
+        ]);
+        count = totals?.count || 0;
+        sum = totals?.sum || 0;
+    } else {
+        const visible = Array.from(memoryReviews.values())
+            .filter((r: any) => r.propertyId === propertyId && isVisible(r.status));
+        count = visible.length;
+        sum = visible.reduce((total: number, r: any) => total + r.rating, 0);
+    }
+
+    const rating = count ? Math.round((sum / count) * 10) / 10 : undefined;
+
+    if (isMongoDBAvailable()) {
+        if (!mongoose.isValidObjectId(propertyId)) return;
+        await Property.updateOne(
+            { _id: propertyId },
+            rating === undefined
+                ? { $set: { reviewCount: 0 }, $unset: { rating: 1 } }
+                : { $set: { rating, reviewCount: count } }
+        );
+    } else {
+        const property = memoryProperties.get(propertyId);
+        if (property) Object.assign(property, { rating, reviewCount: count });
+    }
+};
+
+// CREATE review (once per listing, after a conversation with the seller or a site visit)
+export const createReview = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        const { propertyId } = req.body;
+        const rating = Number(req.body.rating);
+        const comment = typeof req.body.comment === 'string' ? req.body.comment.trim() : '';
+
+        if (!propertyId || typeof propertyId !== 'string') {
+            return res.status(400).json({ success: false, error: 'propertyId is required' });
+        }
+
+        if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+            return res.status(400).json({ success: false, error: 'rating must be a whole number from 1 to 5' });
+        }
+
+        if (!comment || comment.length > MAX_COMMENT_LENGTH) {
+            return res.status(400).json({ success: false, error: `comment is required (max ${MAX_COMMENT_LENGTH} characters)` });
+        }
+
+        const property = await findPropertyById(propertyId);
+        if (!property || !PUBLIC_PROPERTY_STATUSES.includes(property.status)) {
+            return res.status(404).json({ success: false, error: 'Property not found' });
+        }
+
+        if (property.ownerId === user.userId) {
+            return res.status(400).json({ success: false, error: 'You cannot review your own listing' });
+        }
+
+        if (!(await hasInteractedWithProperty(user.userId, propertyId, property.ownerId))) {
+            return res.status(403).json({
+                success: false,
+                error: 'You can review a property after visiting it or hearing back from the seller',
+            });
+        }
+
+        const reviewer = await findUserById(user.userId);
+        const data = {
+            propertyId,
+            propertyTitle: property.title,
+            reviewerId: user.userId,
+            reviewerName: reviewer?.displayName,
+            rating,
+            comment,
+        };
+
+        let review;
+        if (isMongoDBAvailable()) {
+            try {
+                review = await Review.create(data);
+            } catch (error: any) {
+                if (error?.code !== 11000) throw error;
+                return res.status(409).json({ success: false, error: 'You have already reviewed this property' });
+            }
+        } else {
+            const duplicate = Array.from(memoryReviews.values())
+                .some((r: any) => r.propertyId === propertyId && r.reviewerId === user.userId);
+            if (duplicate) {
+                return res.status(409).json({ success: false, error: 'You have already reviewed this property' });
+            }
+
+            const now = new Date();
+            review = {
+                _id: uuidv4(),
+                ...data,
+                helpfulVoters: [],
+                helpfulCount: 0,
+                reports: [],
+                status: 'published' as ReviewStatus,
+                createdAt: now,
+                updatedAt: now,
+            };
+            memoryReviews.set(review._id, review);
+        }
+
+        await refreshPropertyRating(propertyId);
+
+        console.log(`⭐ Review ${review._id} (${rating}★) on ${propertyId} by ${user.email}`);
+
+        res.status(201).json({ success: true, data: { review: toPublicReview(review, user.userId) } });
+    } catch (error) {
+        console.error('Error creating review:', error);
+        res.status(500).json({ success: false, error: 'Failed to create review' });
+    }
+};
+
+// GET visible reviews for a listing with a rating summary (?sort=recent|helpful|rating_desc|rating_asc)
+export const getPropertyReviews = async (req: Request, res: Response) => {
+    try {
+        const viewerId = (req as any).user?.userId;
+        const { propertyId } = req.params;
+        const sort = REVIEW_SORTS[req.query.sort as string] ? (req.query.sort as string) : 'recent';
+        const limit = clampLimit(req.query.limit, 20, 100);
+        const skip = Math.max(parseInt(req.query.skip as string) || 0, 0);
+
+        let reviews: any[];
+        let visible: any[];
+        if (isMongoDBAvailable()) {
+            const query = { propertyId, status: { $in: VISIBLE_REVIEW_STATUSES } };
+            [reviews, visible] = await Promise.all([
+                Review.find(query).sort(REVIEW_SORTS[sort]).skip(skip).limit(limit),
+                Review.find(query).select('rating'),
+            ]);
+        } else {
+            visible = Array.from(memoryReviews.values())
+                .filter((r: any) => r.propertyId === propertyId && isVisible(r.status));
+            const order = Object.entries(REVIEW_SORTS[sort]);
+            reviews = [...visible]
+                .sort((a: any, b: any) => {
+                    for (const [key, direction] of order) {
+                        if (a[key] !== b[key]) return (a[key] > b[key] ? 1 : -1) * direction;
+                    }
+                    return 0;
+                })
+                .slice(skip, skip + limit);
+        }
+
+        // Star counts: { 5: n, 4: n, ... }
+        const breakdown: Record<number, number> = { 5: 0, 4: 0, 3: 0, 2: 0, 1: 0 };
+        visible.forEach((r: any) => { breakdown[r.rating] += 1; });
+        const total = visible.length;
+        const average = total
+            ? Math.round((visible.reduce((sum: number, r: any) => sum + r.rating, 0) / total) * 10) / 10
+            : null;
+
+        res.json({
+            success: true,
+            data: {
+                reviews: reviews.map(r => toPublicReview(r, viewerId)),
+                summary: { average, total, breakdown },
+            },
+        });
+    } catch (error) {
+        res.status(500).json({ success: false, error: 'Failed to fetch reviews' });
+    }
+};
+
+// GET reviews written by the current user
+export const getMyReviews = async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).user.userId;
+
+        let reviews = [];
+        if (isMongoDBAvailable()) {
+            reviews = await Review.find({ reviewerId: userId }).sort({ createdAt: -1 });
+        } else {
+            reviews = Array.from(memoryReviews.values())
+                .filter((r: any) => r.reviewerId === userId)
+                .sort((a: any, b: any) => b.createdAt - a.createdAt);
+        }
+
+        res.json({ success: true, data: { reviews: reviews.map(r => toPublicReview(r, userId)) } });
+    } catch (error) {
+        res.status(500).json({ success: false, error: 'Failed to fetch reviews' });
+    }
+};
+
+// MARK review as helpful (one vote per user; repeat votes are ignored)
+export const markReviewHelpful = async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).user.userId;
+        const review = await findReviewById(req.params.id);
+
+        if (!review || !isVisible(review.status)) {
+            return res.status(404).json({ success: false, error: 'Review not found' });
+        }
+
+        if (review.reviewerId === userId) {
+            return res.status(400).json({ success: false, error: 'You cannot vote on your own review' });
+        }
+
+        let helpfulCount: number;
+        if (isMongoDBAvailable()) {
+            // Matches only if this user hasn't voted yet, so concurrent repeats can't double count
+            const updated = await Review.findOneAndUpdate(
+                { _id: review._id, helpfulVoters: { $ne: userId } },
+                { $addToSet: { helpfulVoters: userId }, $inc: { helpfulCount: 1 } },
+                { new: true }
+            );
+            helpfulCount = updated ? updated.helpfulCount : review.helpfulCount;
+        } else {
+            if (!review.helpfulVoters.includes(userId)) {
+                review.helpfulVoters.push(userId);
+                review.helpfulCount = review.helpfulVoters.length;
+            }
+            helpfulCount = review.helpfulCount;
+        }
+
+        res.json({ success: true, data: { reviewId: review._id, helpfulCount, votedHelpful: true } });
+    } catch (error) {
+        res.status(500).json({ success: false, error: 'Failed to record vote' });
+    }
+};
+
+// REPORT review for moderation (once per user)
+export const reportReview = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        const reason = typeof req.body.reason === 'string' ? req.body.reason.trim() : '';
+
+        if (!reason) {
+            return res.status(400).json({ success: false, error: 'A reason is required to report a review' });
+        }
+
+        const review = await findReviewById(req.params.id);
+        if (!review || !isVisible(review.status)) {
+            return res.status(404).json({ success: false, error: 'Review not found' });
+        }
+
+        if (review.reviewerId === user.userId) {
+            return res.status(400).json({ success: false, error: 'You cannot report your own review' });
+        }
+
+        const report = { reporterId: user.userId, reason: reason.slice(0, MAX_REASON_LENGTH), at: new Date() };
+
+        let reported;
+        if (isMongoDBAvailable()) {
+            reported = await Review.findOneAndUpdate(
+                { _id: review._id, 'reports.reporterId': { $ne: user.userId } },
+                { $push: { reports: report }, $set: { status: 'reported' } },
+                { new: true }
+            );
+        } else if (!review.reports.some((r: any) => r.reporterId === user.userId)) {
+            review.reports.push(report);
+            review.status = 'reported';
+            review.updatedAt = new Date();
+            reported = review;
+        }
+
+        if (!reported) {
+            return res.status(409).json({ success: false, error: 'You have already reported this review' });
+        }
+
+        console.log(`🚩 Review ${review._id} reported by ${user.email}: ${report.reason}`);
+
+        const io = req.app.get('io');
+        if (io) {
+            io.to('employees').emit('review:reported', {
+                reviewId: review._id,
+                propertyId: review.propertyId,
+                reportCount: reported.reports.length,
+            });
+        }
+
+        res.json({ success: true, message: 'Thanks - our team will review this report' });
+    } catch (error) {
+        res.status(500).json({ success: false, error: 'Failed to report review' });
+    }
+};
+
+// GET moderation queue (reported reviews, oldest first; ?status=removed|published|all)
+export const getReviewModerationQueue = async (req: Request, res: Response) => {
+    try {
+        const status = (req.query.status as string) || 'reported';
+        const limit = clampLimit(req.query.limit, 50, 200);
+
+        let reviews = [];
+        if (isMongoDBAvailable()) {
+            const query: any = status === 'all' ? {} : { status };
+            reviews = await Review.find(query).select('-helpfulVoters').sort({ updatedAt: 1 }).limit(limit);
+        } else {
+            reviews = Array.from(memoryReviews.values())
+                .filter((r: any) => status === 'all' || r.status === status)
+                .sort((a: any, b: any) => a.updatedAt - b.updatedAt)
+                .slice(0, limit)
+                .map(({ helpfulVoters, ...rest }: any) => rest);
+        }
+
+        res.json({ success: true, data: { reviews } });
+    } catch (error) {
+        res.status(500).json({ success: false, error: 'Failed to fetch moderation queue' });
+    }
+};
+
+/**
+ * Resolve a reported review: keep it published, or remove it from the listing
+ */
+const moderateReview = async (req: Request, res: Response, decision: 'published' | 'removed') => {
+    try {
+        const user = (req as any).user;
+        const note = typeof req.body.note === 'string' ? req.body.note.trim() : undefined;
+        const review = await findReviewById(req.params.id);
+
+        if (!review) {
+            return res.status(404).json({ success: false, error: 'Review not found' });
+        }
+
+        if (review.status === decision) {
+            return res.status(409).json({ success: false, error: `Review is already ${decision}` });
+        }
+
+        const updates = {
+            status: decision,
+            moderatedBy: user.userId,
+            moderatedAt: new Date(),
+            moderationNote: note,
+        };
+
+        if (isMongoDBAvailable()) {
+            review.set(updates);
+            await review.save();
+        } else {
+            Object.assign(review, updates, { updatedAt: new Date() });
+        }
+
+        await refreshPropertyRating(review.propertyId);
+
+        console.log(`🛡️  Review ${review._id} ${decision === 'removed' ? 'removed' : 'kept'} by ${user.email}`);
+
+        res.json({ success: true, data: { review } });
+    } catch (error) {
+        res.status(500).json({ success: false, error: 'Failed to moderate review' });
+    }
+};
+
+// KEEP reported review (clears it from the queue)
+export const keepReview = async (req: Request, res: Response) => moderateReview(req, res, 'published');
+
+// REMOVE review from the listing
+export const removeReview = async (req: Request, res: Response) => moderateReview(req, res, 'removed');
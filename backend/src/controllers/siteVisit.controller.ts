@@ -0,0 +1,195 @@
+/**
+ * 🏠 SITE VISIT REST API CONTROLLER
+ *
+ * Buyers book visits to approved listings:
+ * requested → completed | cancelled
+ *
+ * The seller marks a visit completed once its time has come; a completed
+ * visit lets the buyer review the listing. Either party can cancel a visit
+ * that is still requested. Both sides get a notification for every change.
+ *
+ * @author GharBazaar Backend Team
+ */
+
+import { Request, Response } from 'express';
+import {
+    createSiteVisit,
+    findSiteVisitById,
+    findSiteVisits,
+    transitionSiteVisit,
+} from '../utils/siteVisitStore';
+import { notify } from '../utils/notifications';
+import { findPropertyById } from '../utils/propertyStore';
+import { findUserById } from '../utils/userStore';
+
+const MAX_NOTE_LENGTH = 1000;
+
+const formatWhen = (date: Date) =>
+    new Date(date).toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short', timeZone: 'Asia/Kolkata' });
+
+/**
+ * Load a visit the current user takes part in.
+ * Sends the error response and returns null if there is none or it is no longer requested.
+ */
+const loadRequestedVisit = async (req: Request, res: Response): Promise<any | null> => {
+    const userId = (req as any).user.userId;
+    const visit = await findSiteVisitById(req.params.id);
+
+    if (!visit || (visit.buyerId !== userId && visit.sellerId !== userId)) {
+        res.status(404).json({ success: false, error: 'Site visit not found' });
+        return null;
+    }
+
+    if (visit.status !== 'requested') {
+        res.status(409).json({ success: false, error: `This visit is already ${visit.status}` });
+        return null;
+    }
+
+    return visit;
+};
+
+const respondWithConflict = (res: Response) =>
+    res.status(409).json({ success: false, error: 'This visit was updated by someone else. Please refresh.' });
+
+// BOOK a site visit to an approved listing
+export const requestSiteVisit = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        const { propertyId } = req.body;
+        const scheduledAt = new Date(req.body.scheduledAt);
+        const note = typeof req.body.note === 'string' && req.body.note.trim()
+            ? req.body.note.trim().slice(0, MAX_NOTE_LENGTH)
+            : undefined;
+
+        if (!propertyId || typeof propertyId !== 'string') {
+            return res.status(400).json({ success: false, error: 'propertyId is required' });
+        }
+
+        if (!req.body.scheduledAt || isNaN(scheduledAt.getTime()) || scheduledAt <= new Date()) {
+            return res.status(400).json({ success: false, error: 'scheduledAt must be a future date and time' });
+        }
+
+        const property = await findPropertyById(propertyId);
+        if (!property || property.status !== 'approved') {
+            return res.status(404).json({ success: false, error: 'Property not found' });
+        }
+
+        if (property.ownerId === user.userId) {
+            return res.status(400).json({ success: false, error: 'You cannot book a visit to your own listing' });
+        }
+
+        const [existing] = await findSiteVisits({ propertyId, buyerId: user.userId, statuses: ['requested'] });
+        if (existing) {
+            return res.status(409).json({
+                success: false,
+                error: 'You already have a visit booked for this property',
+                data: { visitId: existing._id },
+            });
+        }
+
+        const buyer = await findUserById(user.userId);
+        const visit = await createSiteVisit({
+            propertyId,
+            propertyTitle: property.title,
+            sellerId: property.ownerId,
+            buyerId: user.userId,
+            buyerName: buyer?.displayName,
+            scheduledAt,
+            note,
+        });
+
+        console.log(`🏠 Site visit ${visit._id} booked for ${propertyId} by ${user.email}`);
+
+        await notify(property.ownerId, {
+            type: 'inquiry',
+            title: `Visit request for ${property.title}`,
+            message: `${buyer?.displayName || 'A buyer'} wants to visit on ${formatWhen(scheduledAt)}`,
+            link: `/listings/${propertyId}`,
+            metadata: { visitId: String(visit._id), propertyId },
+        }, req.app.get('io'));
+
+        res.status(201).json({ success: true, data: { visit } });
+    } catch (error) {
+        console.error('Error booking site visit:', error);
+        res.status(500).json({ success: false, error: 'Failed to book site visit' });
+    }
+};
+
+// COMPLETE a visit that took place (seller only)
+export const completeSiteVisit = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        const visit = await loadRequestedVisit(req, res);
+        if (!visit) return;
+
+        if (visit.sellerId !== user.userId) {
+            return res.status(403).json({ success: false, error: 'Only the seller can mark a visit as completed' });
+        }
+
+        if (new Date(visit.scheduledAt) > new Date()) {
+            return res.status(409).json({ success: false, error: 'This visit has not taken place yet' });
+        }
+
+        const completed = await transitionSiteVisit(visit, 'requested', { status: 'completed', completedAt: new Date() });
+        if (!completed) return respondWithConflict(res);
+
+        await notify(visit.buyerId, {
+            type: 'inquiry',
+            title: `Visit to ${visit.propertyTitle} completed`,
+            message: 'You can now leave a review for this property',
+            link: `/browse/${visit.propertyId}`,
+            metadata: { visitId: String(visit._id), propertyId: visit.propertyId },
+        }, req.app.get('io'));
+
+        res.json({ success: true, data: { visit: completed } });
+    } catch (error) {
+        console.error('Error completing site visit:', error);
+        res.status(500).json({ success: false, error: 'Failed to complete site visit' });
+    }
+};
+
+// CANCEL a requested visit (buyer or seller)
+export const cancelSiteVisit = async (req: Request, res: Response) => {
+    try {
+        const user = (req as any).user;
+        const visit = await loadRequestedVisit(req, res);
+        if (!visit) return;
+
+        const cancelled = await transitionSiteVisit(visit, 'requested', {
+            status: 'cancelled',
+            cancelledAt: new Date(),
+            cancelledBy: user.userId,
+        });
+        if (!cancelled) return respondWithConflict(res);
+
+        const otherParty = visit.buyerId === user.userId ? visit.sellerId : visit.buyerId;
+        await notify(otherParty, {
+            type: 'inquiry',
+            title: `Visit to ${visit.propertyTitle} cancelled`,
+            message: `The visit on ${formatWhen(visit.scheduledAt)} was cancelled`,
+            link: visit.buyerId === user.userId ? `/listings/${visit.propertyId}` : `/browse/${visit.propertyId}`,
+            metadata: { visitId: String(visit._id), propertyId: visit.propertyId },
+        }, req.app.get('io'));
+
+        res.json({ success: true, data: { visit: cancelled } });
+    } catch (error) {
+        console.error('Error cancelling site visit:', error);
+        res.status(500).json({ success: false, error: 'Failed to cancel site visit' });
+    }
+};
+
+// GET visits the user booked and visits booked on the user's listings
+export const getMySiteVisits = async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).user.userId;
+
+        const [booked, received] = await Promise.all([
+            findSiteVisits({ buyerId: userId }),
+            findSiteVisits({ sellerId: userId }),
+        ]);
+
+        res.json({ success: true, data: { booked, received } });
+    } catch (error) {
+        res.status(500).json({ success: false, error: 'Failed to fetch site visits' });
+    }
+};
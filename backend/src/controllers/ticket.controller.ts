@@ -8,10 +8,40 @@
  */
 
 import { Request, Response } from 'express';
-import Ticket from '../models/ticket.model';
+import Ticket, { TICKET_PRIORITIES } from '../models/ticket.model';
 import TicketMessage from '../models/ticketMessage.model';
 import { isMongoDBAvailable, memoryTickets, memoryTicketMessages } from '../utils/memoryStore';
-import { v4 as uuidv4 } from 'uuid';
+import config from '../config';
+import { hasPermission } from '../config/permissions';
+import { notify } from '../utils/notifications';
+import { InvalidUploadError } from '../utils/chatAttachments';
+import { getFileStorage } from '../utils/fileStorage';
+import { getPresenceStatuses } from '../utils/presenceStore';
+import {
+    addTicketMessage,
+    findTicketById,
+    findTicketMessage,
+    markTicketClosed,
+    openTicket,
+    recordTicketFeedback,
+    reopenClosedTicket,
+} from '../utils/ticketStore';
+import {
+    emitTicketAssigned,
+    emitTicketClosed,
+    emitTicketCreated,
+    emitTicketMessage,
+    emitTicketReopened,
+} from '../utils/ticketEvents';
+import { assignTicketManually, routeTicket, routeWaitingTickets, TicketAssignmentError } from '../utils/ticketRouting';
+import {
+    saveTicketAttachment,
+    ticketAttachmentType,
+    verifyTicketFileSignature,
+    withTicketFileUrl,
+} from '../utils/ticketAttachments';
+
+const MAX_FEEDBACK_COMMENT_LENGTH = 1000;
 
 // GET all tickets for user
 export const getUserTickets = async (req: Request, res: Response) => {
@@ -76,6 +106,12 @@ export const getTicketDetails = async (req: Request, res: Response) => {
             return res.status(404).json({ success: false, error: 'Ticket not found' });
         }
 
+        // Customers can only see their own tickets
+        const { userId, role } = (req as any).user;
+        if (ticket.userId !== userId && !hasPermission(role, 'tickets:view-all')) {
+            return res.status(403).json({ success: false, error: 'Not authorized to view this ticket', code: 'FORBIDDEN' });
+        }
+
         let messages = [];
         if (isMongoDBAvailable()) {
             messages = await TicketMessage.find({ ticketId: id })
@@ -85,7 +121,7 @@ export const getTicketDetails = async (req: Request, res: Response) => {
                 .sort((a: any, b: any) => a.timestamp.getTime() - b.timestamp.getTime());
         }
 
-        res.json({ success: true, data: { ticket, messages } });
+        res.json({ success: true, data: { ticket, messages: messages.map(withTicketFileUrl) } });
     } catch (error) {
         res.status(500).json({ success: false, error: 'Failed to fetch ticket' });
     }
@@ -97,52 +133,20 @@ export const createTicket = async (req: Request, res: Response) => {
         const { categoryTitle, subCategoryTitle, problem } = req.body;
         const userId = (req as any).user.userId;
         const userRole = (req as any).user.role || 'buyer';
+        const priority = TICKET_PRIORITIES.includes(req.body.priority) ? req.body.priority : 'medium';
 
-        let ticket;
-        if (isMongoDBAvailable()) {
-            ticket = await Ticket.create({
-                userId,
-                userRole,
-                categoryTitle,
-                subCategoryTitle,
-                problem,
-                status: 'open',
-            });
+        const { ticket } = await openTicket({
+            userId,
+            userRole,
+            categoryTitle,
+            subCategoryTitle,
+            problem,
+            priority,
+        });
 
-            // Create initial message
-            await TicketMessage.create({
-                ticketId: ticket._id,
-                senderId: userId,
-                senderType: 'customer',
-                message: problem,
-            });
-        } else {
-            const ticketId = uuidv4();
-            const createdAt = new Date();
-            ticket = {
-                _id: ticketId,
-                userId,
-                userRole,
-                categoryTitle,
-                subCategoryTitle,
-                problem,
-                status: 'open',
-                createdAt,
-            };
-            memoryTickets.set(ticketId, ticket);
-
-            // Create initial message
-            const messageId = uuidv4();
-            const ticketMessage = {
-                _id: messageId,
-                ticketId,
-                senderId: userId,
-                senderType: 'customer',
-                message: problem,
-                timestamp: createdAt,
-            };
-            memoryTicketMessages.set(ticketId, [ticketMessage]);
-        }
+        const io = req.app.get('io');
+        emitTicketCreated(io, ticket);
+        await routeTicket(ticket, io);
 
         res.status(201).json({ success: true, data: { ticket } });
     } catch (error) {
@@ -156,29 +160,29 @@ export const assignTicket = async (req: Request, res: Response) => {
         const { id } = req.params;
         const userId = (req as any).user.userId;
         const userEmail = (req as any).user.email;
+        const io = req.app.get('io');
 
-        let ticket;
-        if (isMongoDBAvailable()) {
-            ticket = await Ticket.findByIdAndUpdate(
-                id,
-                {
-                    assignedTo: userId,
-                    assignedToName: userEmail.split('@')[0],
-                    status: 'assigned',
-                },
-                { new: true }
-            );
-        } else {
-            ticket = memoryTickets.get(id);
-            if (ticket) {
-                ticket.assignedTo = userId;
-                ticket.assignedToName = userEmail.split('@')[0];
-                ticket.status = 'assigned';
-            }
+        const ticket = await findTicketById(id);
+        if (!ticket) {
+            return res.status(404).json({ success: false, error: 'Ticket not found' });
         }
 
+        const change = await assignTicketManually(ticket, { id: userId, name: userEmail.split('@')[0] });
+        emitTicketAssigned(io, ticket, { ...change, assignedBy: userId });
+
+        await notify(ticket.userId, {
+            type: 'system',
+            title: 'Your support ticket has been assigned',
+            message: `${ticket.assignedToName} is now handling "${ticket.subCategoryTitle}"`,
+            link: '/dashboard/help',
+            metadata: { ticketId: id },
+        }, io);
+
         res.json({ success: true, data: { ticket } });
     } catch (error) {
+        if (error instanceof TicketAssignmentError) {
+            return res.status(409).json({ success: false, error: error.message });
+        }
         res.status(500).json({ success: false, error: 'Failed to assign ticket' });
     }
 };
@@ -191,33 +195,24 @@ export const sendTicketMessage = async (req: Request, res: Response) => {
         const userId = (req as any).user.userId;
         const userRole = (req as any).user.role;
 
-        const senderType = userRole === 'employee' ? 'employee' : 'customer';
+        const ticket = await findTicketById(id);
+        if (!ticket) {
+            return res.status(404).json({ success: false, error: 'Ticket not found' });
+        }
 
-        let ticketMessage;
-        if (isMongoDBAvailable()) {
-            ticketMessage = await TicketMessage.create({
-                ticketId: id,
-                senderId: userId,
-                senderType,
-                message,
-            });
-        } else {
-            const messageId = uuidv4();
-            const timestamp = new Date();
-            ticketMessage = {
-                _id: messageId,
-                ticketId: id,
-                senderId: userId,
-                senderType,
-                message,
-                timestamp,
-            };
-            if (!memoryTicketMessages.has(id)) {
-                memoryTicketMessages.set(id, []);
-            }
-            memoryTicketMessages.get(id).push(ticketMessage);
+        // Support staff reply as employees; customers may only reply on their own tickets
+        const isEmployee = hasPermission(userRole, 'tickets:respond');
+        if (!isEmployee && ticket.userId !== userId) {
+            return res.status(403).json({ success: false, error: 'Not authorized for this ticket', code: 'FORBIDDEN' });
         }
 
+        const { message: ticketMessage, previousStatus } = await addTicketMessage(ticket, {
+            senderId: userId,
+            senderType: isEmployee ? 'employee' : 'customer',
+            message,
+        });
+        emitTicketMessage(req.app.get('io'), ticket, ticketMessage, previousStatus);
+
         res.status(201).json({ success: true, data: { message: ticketMessage } });
     } catch (error) {
         res.status(500).json({ success: false, error: 'Failed to send message' });
@@ -228,24 +223,213 @@ export const sendTicketMessage = async (req: Request, res: Response) => {
 export const closeTicket = async (req: Request, res: Response) => {
     try {
         const { id } = req.params;
+        const userId = (req as any).user.userId;
 
-        let ticket;
-        if (isMongoDBAvailable()) {
-            ticket = await Ticket.findByIdAndUpdate(
-                id,
-                { status: 'closed', closedAt: new Date() },
-                { new: true }
-            );
-        } else {
-            ticket = memoryTickets.get(id);
-            if (ticket) {
-                ticket.status = 'closed';
-                ticket.closedAt = new Date();
-            }
+        const ticket = await findTicketById(id);
+        if (!ticket) {
+            return res.status(404).json({ success: false, error: 'Ticket not found' });
         }
 
+        // Only assigned employee can close
+        if (ticket.assignedTo !== userId) {
+            return res.status(403).json({ success: false, error: 'Only assigned employee can close this ticket', code: 'FORBIDDEN' });
+        }
+
+        // Closing again would move closedAt and with it the customer's reopen window
+        if (ticket.status === 'closed') {
+            return res.status(409).json({ success: false, error: 'Ticket is already closed' });
+        }
+
+        const io = req.app.get('io');
+        const previousStatus = await markTicketClosed(ticket, userId);
+        emitTicketClosed(io, ticket, previousStatus, userId);
+
+        // The agent has room for a waiting ticket now
+        await routeWaitingTickets(io);
+
         res.json({ success: true, data: { ticket } });
     } catch (error) {
         res.status(500).json({ success: false, error: 'Failed to close ticket' });
     }
 };
+
+// UPLOAD a file to a ticket (sent as a message, with an optional caption in `message`)
+export const uploadTicketFile = async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+        const userId = (req as any).user.userId;
+        const userRole = (req as any).user.role;
+        const file = req.file!;
+
+        const ticket = await findTicketById(id);
+        if (!ticket) {
+            return res.status(404).json({ success: false, error: 'Ticket not found' });
+        }
+
+        const isEmployee = hasPermission(userRole, 'tickets:respond');
+        if (!isEmployee && ticket.userId !== userId) {
+            return res.status(403).json({ success: false, error: 'Not authorized for this ticket', code: 'FORBIDDEN' });
+        }
+
+        const caption = typeof req.body.message === 'string' ? req.body.message.trim().slice(0, 3000) : '';
+
+        const attachment = await saveTicketAttachment({
+            buffer: file.buffer,
+            originalName: file.originalname,
+            ticketId: String(ticket._id),
+        });
+        const { message: ticketMessage, previousStatus } = await addTicketMessage(ticket, {
+            senderId: userId,
+            senderType: isEmployee ? 'employee' : 'customer',
+            message: caption || `📎 ${attachment.fileName}`,
+            ...attachment,
+        });
+        emitTicketMessage(req.app.get('io'), ticket, ticketMessage, previousStatus);
+
+        console.log(`📎 File uploaded to ticket ${id}: ${attachment.fileName} (${file.size} bytes)`);
+
+        res.status(201).json({ success: true, data: { message: withTicketFileUrl(ticketMessage) } });
+    } catch (error) {
+        if (error instanceof InvalidUploadError) {
+            return res.status(400).json({ success: false, error: error.message });
+        }
+        console.error('❌ Error uploading ticket file:', error);
+        res.status(500).json({ success: false, error: 'Failed to upload file' });
+    }
+};
+
+// DOWNLOAD a ticket attachment (signed link, no Authorization header needed)
+export const downloadTicketFile = async (req: Request, res: Response) => {
+    try {
+        const { id, messageId } = req.params;
+        const expires = Number(req.query.expires);
+
+        if (!verifyTicketFileSignature(id, messageId, expires, String(req.query.signature || ''))) {
+            return res.status(403).json({ success: false, error: 'This link is invalid or has expired' });
+        }
+
+        const message = await findTicketMessage(id, messageId);
+        const type = message?.fileUrl && ticketAttachmentType(message.fileUrl);
+        if (!type) {
+            return res.status(404).json({ success: false, error: 'File not found' });
+        }
+
+        const stream = await getFileStorage().get(message.fileUrl);
+        const maxAge = Math.max(Math.floor(expires - Date.now() / 1000), 0);
+
+        res.set({
+            'Content-Type': type.mimeType,
+            'Content-Disposition': `${type.kind === 'image' ? 'inline' : 'attachment'}; filename*=UTF-8''${encodeURIComponent(message.fileName || `attachment.${type.extension}`)}`,
+            'Cache-Control': `private, max-age=${maxAge}`,
+            // Let the frontend (another origin) embed images
+            'Cross-Origin-Resource-Policy': 'cross-origin',
+        });
+
+        stream.on('error', () => res.destroy());
+        stream.pipe(res);
+    } catch (error) {
+        console.error('❌ Error downloading ticket file:', error);
+        res.status(404).json({ success: false, error: 'File not found' });
+    }
+};
+
+// RATE a closed ticket (customer): { rating: 1-5, comment? }. Rating again replaces it.
+export const submitTicketFeedback = async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+        const { rating, comment } = req.body;
+        const userId = (req as any).user.userId;
+
+        const ticket = await findTicketById(id);
+        if (!ticket) {
+            return res.status(404).json({ success: false, error: 'Ticket not found' });
+        }
+        if (ticket.userId !== userId) {
+            return res.status(403).json({ success: false, error: 'Only the customer who raised this ticket can rate it', code: 'FORBIDDEN' });
+        }
+        if (ticket.status !== 'closed') {
+            return res.status(400).json({ success: false, error: 'Only closed tickets can be rated' });
+        }
+
+        if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+            return res.status(400).json({ success: false, error: 'rating must be a whole number from 1 to 5' });
+        }
+        if (comment !== undefined && (typeof comment !== 'string' || comment.length > MAX_FEEDBACK_COMMENT_LENGTH)) {
+            return res.status(400).json({ success: false, error: `comment must be text of up to ${MAX_FEEDBACK_COMMENT_LENGTH} characters` });
+        }
+
+        await recordTicketFeedback(ticket, { rating, ...(comment?.trim() ? { comment: comment.trim() } : {}) });
+
+        console.log(`⭐ Ticket ${id} rated ${rating}/5`);
+
+        res.json({ success: true, data: { feedback: ticket.feedback } });
+    } catch (error) {
+        res.status(500).json({ success: false, error: 'Failed to submit feedback' });
+    }
+};
+
+// REOPEN a closed ticket (customer, within SUPPORT_REOPEN_WINDOW_HOURS of closing), with an optional `message`
+export const reopenTicket = async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+        const userId = (req as any).user.userId;
+        const io = req.app.get('io');
+        const message = typeof req.body.message === 'string' ? req.body.message.trim() : '';
+
+        const ticket = await findTicketById(id);
+        if (!ticket) {
+            return res.status(404).json({ success: false, error: 'Ticket not found' });
+        }
+        if (ticket.userId !== userId) {
+            return res.status(403).json({ success: false, error: 'Only the customer who raised this ticket can reopen it', code: 'FORBIDDEN' });
+        }
+        if (ticket.status !== 'closed') {
+            return res.status(400).json({ success: false, error: 'Only closed tickets can be reopened' });
+        }
+
+        const windowMs = config.support.reopenWindowHours * 60 * 60 * 1000;
+        if (!ticket.closedAt || Date.now() - new Date(ticket.closedAt).getTime() > windowMs) {
+            return res.status(400).json({
+                success: false,
+                error: config.support.reopenWindowHours > 0
+                    ? `Tickets can only be reopened within ${config.support.reopenWindowHours} hours of closing. Please raise a new ticket.`
+                    : 'Closed tickets cannot be reopened. Please raise a new ticket.',
+            });
+        }
+        if (message.length > 3000) {
+            return res.status(400).json({ success: false, error: 'message must be up to 3000 characters' });
+        }
+
+        // Back to the same agent if they're online, otherwise to the queue
+        const agentOnline = !!ticket.assignedTo &&
+            (await getPresenceStatuses([ticket.assignedTo])).get(ticket.assignedTo) === 'online';
+
+        const previousStatus = await reopenClosedTicket(ticket, agentOnline);
+        emitTicketReopened(io, ticket, previousStatus, userId, ticket.reopenedAt);
+
+        if (message) {
+            const { message: ticketMessage } = await addTicketMessage(ticket, {
+                senderId: userId,
+                senderType: 'customer',
+                message,
+            });
+            emitTicketMessage(io, ticket, ticketMessage);
+        }
+
+        if (agentOnline) {
+            await notify(ticket.assignedTo, {
+                type: 'system',
+                title: 'A support ticket was reopened',
+                message: `The customer reopened "${ticket.subCategoryTitle}"`,
+                link: '/employee/tickets',
+                metadata: { ticketId: id },
+            }, io);
+        } else {
+            await routeTicket(ticket, io);
+        }
+
+        res.json({ success: true, data: { ticket } });
+    } catch (error) {
+        res.status(500).json({ success: false, error: 'Failed to reopen ticket' });
+    }
+};
@@ -0,0 +1,54 @@
+/**
+ * 👤 USER REST API CONTROLLER
+ *
+ * Settings for the signed-in user. Notification preferences (channels,
+ * types, quiet hours, digest) are enforced by notify() on the server,
+ * so they apply whichever client or feature sends the notification.
+ *
+ * @author GharBazaar Backend Team
+ */
+
+import { Request, Response } from 'express';
+import {
+    getNotificationPreferences,
+    updateNotificationPreferences,
+    InvalidPreferencesError,
+} from '../utils/notificationPreferences';
+
+// GET notification preferences (defaults until the user saves their own)
+export const getPreferences = async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).user.userId;
+        const preferences = await getNotificationPreferences(userId);
+
+        if (!preferences) {
+            return res.status(404).json({ success: false, error: 'User not found' });
+        }
+
+        res.json({ success: true, data: { preferences } });
+    } catch (error) {
+        console.error('Error fetching preferences:', error);
+        res.status(500).json({ success: false, error: 'Failed to fetch preferences' });
+    }
+};
+
+// UPDATE notification preferences (any subset of fields)
+export const updatePreferences = async (req: Request, res: Response) => {
+    try {
+        const userId = (req as any).user.userId;
+        const preferences = await updateNotificationPreferences(userId, req.body);
+
+        if (!preferences) {
+            return res.status(404).json({ success: false, error: 'User not found' });
+        }
+
+        console.log(`🎚️ Notification preferences updated for ${userId}`);
+        res.json({ success: true, data: { preferences } });
+    } catch (error) {
+        if (error instanceof InvalidPreferencesError) {
+            return res.status(400).json({ success: false, error: error.message });
+        }
+        console.error('Error updating preferences:', error);
+        res.status(500).json({ success: false, error: 'Failed to update preferences' });
+    }
+};
@@ -9,12 +9,14 @@
 
 import { Request, Response, NextFunction } from 'express';
 import { verifyToken } from '../utils/jwt';
+import { isTokenRevoked } from '../utils/tokenStore';
 
 /**
  * 🔒 AUTHENTICATE API REQUEST
  * 
  * Middleware to verify JWT token in API requests.
  * Token should be in Authorization header: "Bearer <token>"
+ * Tokens on the revocation list (logged out sessions) are rejected.
  */
 export const authenticateRequest = async (
     req: Request,
@@ -38,6 +40,14 @@ export const authenticateRequest = async (
         // Verify token
         const decoded = verifyToken(token);
 
+        // Reject tokens from logged-out sessions
+        if (await isTokenRevoked(decoded)) {
+            return res.status(401).json({
+                success: false,
+                error: 'Token has been revoked. Please login again.'
+            });
+        }
+
         // Attach user to request object
         (req as any).user = decoded;
 
@@ -51,3 +61,31 @@ export const authenticateRequest = async (
         });
     }
 };
+
+/**
+ * 🔓 OPTIONAL AUTHENTICATION
+ * 
+ * For public endpoints that behave differently for signed-in users.
+ * Attaches req.user when a valid, non-revoked token is sent;
+ * otherwise the request continues anonymously.
+ */
+export const optionalAuthentication = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    const authHeader = req.headers.authorization;
+
+    if (authHeader && authHeader.startsWith('Bearer ')) {
+        try {
+            const decoded = verifyToken(authHeader.substring(7));
+            if (!(await isTokenRevoked(decoded))) {
+                (req as any).user = decoded;
+            }
+        } catch (error) {
+            // Invalid or expired token - treat as anonymous
+        }
+    }
+
+    next();
+};
@@ -0,0 +1,55 @@
+/**
+ * 🛡️ EXPRESS ROLE-BASED ACCESS CONTROL
+ *
+ * Declarative role and permission checks for REST routes.
+ * Must run after authenticateRequest (needs req.user).
+ *
+ * @example
+ * router.get('/employee/all', requirePermission('tickets:view-all'), getAllTickets);
+ * router.delete('/users/:id', requireRole('admin'), deleteUser);
+ *
+ * @author GharBazaar Backend Team
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { UserRole } from '../models/user.model';
+import { Permission, hasRole, hasPermission, buildForbiddenError } from '../config/permissions';
+
+const forbidden = (res: Response, required: string[]) => {
+    const { message, ...details } = buildForbiddenError(required);
+    return res.status(403).json({ success: false, error: message, ...details });
+};
+
+/**
+ * 🔒 REQUIRE ROLE
+ *
+ * Allows the request if the user has ANY of the given roles.
+ */
+export const requireRole = (...roles: UserRole[]) => {
+    return (req: Request, res: Response, next: NextFunction) => {
+        const role = (req as any).user?.role;
+
+        if (!hasRole(role, roles)) {
+            return forbidden(res, roles);
+        }
+
+        next();
+    };
+};
+
+/**
+ * 🔒 REQUIRE PERMISSION
+ *
+ * Allows the request if the user's role grants ALL of the given permissions.
+ */
+export const requirePermission = (...permissions: Permission[]) => {
+    return (req: Request, res: Response, next: NextFunction) => {
+        const role = (req as any).user?.role;
+
+        if (!hasPermission(role, ...permissions)) {
+            return forbidden(res, permissions);
+        }
+
+        next();
+    };
+};
@@ -0,0 +1,45 @@
+/**
+ * 📤 FILE UPLOAD MIDDLEWARE
+ *
+ * Parses a single multipart file into memory (req.file.buffer), capped at
+ * MAX_FILE_SIZE. Multer errors become JSON responses instead of HTML pages.
+ * Type checks happen later, on the file contents.
+ *
+ * @example
+ * router.post('/upload', acceptSingleFile('file'), uploadChatFile);
+ *
+ * @author GharBazaar Backend Team
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import config from '../config';
+
+export const acceptSingleFile = (fieldName: string) => {
+    const upload = multer({
+        storage: multer.memoryStorage(),
+        limits: { fileSize: config.upload.maxFileSize, files: 1 },
+    }).single(fieldName);
+
+    return (req: Request, res: Response, next: NextFunction) => {
+        upload(req, res, (error: any) => {
+            if (error instanceof multer.MulterError) {
+                if (error.code === 'LIMIT_FILE_SIZE') {
+                    const limitMb = Math.round((config.upload.maxFileSize / 1024 / 1024) * 10) / 10;
+                    return res.status(413).json({ success: false, error: `File is too large (max ${limitMb}MB)` });
+                }
+                return res.status(400).json({ success: false, error: error.message });
+            }
+
+            if (error) {
+                return res.status(400).json({ success: false, error: 'Invalid upload' });
+            }
+
+            if (!req.file) {
+                return res.status(400).json({ success: false, error: `No file uploaded (expected field '${fieldName}')` });
+            }
+
+            next();
+        });
+    };
+};
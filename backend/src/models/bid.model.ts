@@ -0,0 +1,150 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * Bid lifecycle:
+ * open ⇄ countered → accepted | rejected | withdrawn | expired
+ *
+ * `open` waits on the seller, `countered` waits on the buyer.
+ */
+export const BID_STATUSES = ['open', 'countered', 'accepted', 'rejected', 'withdrawn', 'expired'] as const;
+
+// Statuses in which the negotiation is still running
+export const ACTIVE_BID_STATUSES = ['open', 'countered'] as const;
+
+export const BID_ACTIONS = ['created', 'countered', 'accepted', 'rejected', 'withdrawn', 'expired'] as const;
+
+export type BidStatus = typeof BID_STATUSES[number];
+export type BidAction = typeof BID_ACTIONS[number];
+
+/**
+ * One entry in the bid's audit trail
+ */
+export interface IBidHistoryEntry {
+    action: BidAction;
+    // 'system' for automatic transitions (expiry, another bid accepted)
+    actorId: string;
+    actorRole: 'buyer' | 'seller' | 'system';
+    amount?: number;
+    message?: string;
+    at: Date;
+}
+
+export interface IBid extends Document {
+    propertyId: string;
+    propertyTitle: string;
+    sellerId: string;
+    buyerId: string;
+    buyerName?: string;
+
+    // Buyer's latest offer, and the seller's latest counter-offer
+    amount: number;
+    counterAmount?: number;
+    message?: string;
+
+    status: BidStatus;
+    acceptedAmount?: number;
+    rejectionReason?: string;
+    expiresAt: Date;
+    closedAt?: Date;
+
+    history: IBidHistoryEntry[];
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const BidHistorySchema = new Schema<IBidHistoryEntry>(
+    {
+        action: {
+            type: String,
+            enum: BID_ACTIONS,
+            required: true,
+        },
+        actorId: {
+            type: String,
+            required: true,
+        },
+        actorRole: {
+            type: String,
+            enum: ['buyer', 'seller', 'system'],
+            required: true,
+        },
+        amount: Number,
+        message: String,
+        at: {
+            type: Date,
+            default: Date.now,
+        },
+    },
+    { _id: false }
+);
+
+const BidSchema = new Schema<IBid>(
+    {
+        propertyId: {
+            type: String,
+            required: true,
+            index: true,
+        },
+        propertyTitle: {
+            type: String,
+            required: true,
+        },
+        sellerId: {
+            type: String,
+            required: true,
+            index: true,
+        },
+        buyerId: {
+            type: String,
+            required: true,
+            index: true,
+        },
+        buyerName: String,
+        amount: {
+            type: Number,
+            required: true,
+            min: 1,
+        },
+        counterAmount: {
+            type: Number,
+            min: 1,
+        },
+        message: {
+            type: String,
+            maxlength: 1000,
+        },
+        status: {
+            type: String,
+            enum: BID_STATUSES,
+            default: 'open',
+            index: true,
+        },
+        acceptedAmount: Number,
+        rejectionReason: String,
+        expiresAt: {
+            type: Date,
+            required: true,
+        },
+        closedAt: Date,
+        history: {
+            type: [BidHistorySchema],
+            default: [],
+        },
+    },
+    {
+        timestamps: true,
+    }
+);
+
+BidSchema.index({ propertyId: 1, status: 1, createdAt: -1 });
+BidSchema.index({ buyerId: 1, createdAt: -1 });
+BidSchema.index({ sellerId: 1, createdAt: -1 });
+BidSchema.index({ status: 1, expiresAt: 1 }); // Expiry sweep
+
+// Only one accepted bid per property
+BidSchema.index(
+    { propertyId: 1 },
+    { unique: true, partialFilterExpression: { status: 'accepted' }, name: 'one_accepted_bid_per_property' }
+);
+
+export default mongoose.model<IBid>('Bid', BidSchema);
@@ -0,0 +1,64 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * Canned responses are reusable support replies:
+ * - team: shared by every agent, managed with 'canned-responses:manage'
+ * - personal: visible to and managed by the agent who wrote them
+ *
+ * The body can use {{placeholders}} that are filled in per ticket when sent.
+ */
+export const CANNED_RESPONSE_SCOPES = ['team', 'personal'] as const;
+
+export type CannedResponseScope = typeof CANNED_RESPONSE_SCOPES[number];
+
+export interface ICannedResponse extends Document {
+    title: string;
+    body: string;
+    scope: CannedResponseScope;
+    // Who wrote it (and, for personal responses, who can see it)
+    ownerId: string;
+    // Short key to pick the response by, e.g. 'greeting'
+    shortcut?: string;
+    usageCount: number;
+    lastUsedAt?: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const CannedResponseSchema = new Schema<ICannedResponse>(
+    {
+        title: {
+            type: String,
+            required: true,
+            maxlength: 100,
+        },
+        body: {
+            type: String,
+            required: true,
+            maxlength: 3000,
+        },
+        scope: {
+            type: String,
+            enum: CANNED_RESPONSE_SCOPES,
+            required: true,
+        },
+        ownerId: {
+            type: String,
+            required: true,
+        },
+        shortcut: String,
+        usageCount: {
+            type: Number,
+            default: 0,
+        },
+        lastUsedAt: Date,
+    },
+    {
+        timestamps: true,
+    }
+);
+
+CannedResponseSchema.index({ scope: 1, ownerId: 1, usageCount: -1 });
+CannedResponseSchema.index({ scope: 1, shortcut: 1 });
+
+export default mongoose.model<ICannedResponse>('CannedResponse', CannedResponseSchema);
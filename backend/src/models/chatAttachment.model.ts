@@ -0,0 +1,60 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IChatAttachment extends Document {
+    conversationId: string;
+    uploaderId: string;
+    kind: 'image' | 'file';
+    fileName: string;
+    // Sniffed from the file contents, not the client's Content-Type
+    mimeType: string;
+    fileSize: number;
+    storageKey: string;
+    thumbnailKey?: string;
+    width?: number;
+    height?: number;
+    createdAt: Date;
+}
+
+const ChatAttachmentSchema = new Schema<IChatAttachment>(
+    {
+        conversationId: {
+            type: String,
+            required: true,
+            index: true,
+        },
+        uploaderId: {
+            type: String,
+            required: true,
+        },
+        kind: {
+            type: String,
+            enum: ['image', 'file'],
+            required: true,
+        },
+        fileName: {
+            type: String,
+            required: true,
+            maxlength: 255,
+        },
+        mimeType: {
+            type: String,
+            required: true,
+        },
+        fileSize: {
+            type: Number,
+            required: true,
+        },
+        storageKey: {
+            type: String,
+            required: true,
+        },
+        thumbnailKey: String,
+        width: Number,
+        height: Number,
+    },
+    {
+        timestamps: { createdAt: true, updatedAt: false },
+    }
+);
+
+export default mongoose.model<IChatAttachment>('ChatAttachment', ChatAttachmentSchema);
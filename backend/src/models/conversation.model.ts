@@ -1,5 +1,27 @@
 import mongoose, { Schema, Document } from 'mongoose';
 
+// A participant's read cursor: the last message they have seen
+export interface IReadReceipt {
+    userId: string;
+    lastReadMessageId: string;
+    // createdAt of that message, so cursors compare without a lookup
+    lastReadAt: Date;
+    readAt: Date;
+}
+
+// How the conversation looks to one participant; other participants are unaffected
+export interface IParticipantState {
+    userId: string;
+    archived: boolean;
+    muted: boolean;
+    // End of a timed mute; unset means muted until unmuted
+    mutedUntil?: Date | null;
+    // Deleted from this user's list; the next message brings it back
+    hidden: boolean;
+    // Messages up to here were deleted for this user and stay hidden
+    clearedAt?: Date;
+}
+
 export interface IConversation extends Document {
     participants: string[];
     conversationType: 'buyer-seller' | 'support-ticket' | 'employee-direct';
@@ -10,10 +32,34 @@ export interface IConversation extends Document {
     assignedEmployee?: string;
     assignedEmployeeName?: string;
     priority?: 'low' | 'medium' | 'high' | 'urgent';
+    readReceipts: IReadReceipt[];
+    participantStates: IParticipantState[];
     createdAt: Date;
     updatedAt: Date;
 }
 
+const ReadReceiptSchema = new Schema<IReadReceipt>(
+    {
+        userId: { type: String, required: true },
+        lastReadMessageId: { type: String, required: true },
+        lastReadAt: { type: Date, required: true },
+        readAt: { type: Date, required: true },
+    },
+    { _id: false }
+);
+
+const ParticipantStateSchema = new Schema<IParticipantState>(
+    {
+        userId: { type: String, required: true },
+        archived: { type: Boolean, default: false },
+        muted: { type: Boolean, default: false },
+        mutedUntil: Date,
+        hidden: { type: Boolean, default: false },
+        clearedAt: Date,
+    },
+    { _id: false }
+);
+
 const ConversationSchema = new Schema<IConversation>(
     {
         participants: {
@@ -55,6 +101,14 @@ const ConversationSchema = new Schema<IConversation>(
             enum: ['low', 'medium', 'high', 'urgent'],
             default: 'medium',
         },
+        readReceipts: {
+            type: [ReadReceiptSchema],
+            default: [],
+        },
+        participantStates: {
+            type: [ParticipantStateSchema],
+            default: [],
+        },
     },
     {
         timestamps: true,
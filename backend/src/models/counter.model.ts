@@ -0,0 +1,25 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// A named sequence (e.g. invoice numbers for one financial year), incremented atomically
+export interface ICounter extends Omit<Document, '_id'> {
+    _id: string;
+    seq: number;
+}
+
+const CounterSchema = new Schema<ICounter>(
+    {
+        _id: {
+            type: String,
+            required: true,
+        },
+        seq: {
+            type: Number,
+            default: 0,
+        },
+    },
+    {
+        versionKey: false,
+    }
+);
+
+export default mongoose.model<ICounter>('Counter', CounterSchema);
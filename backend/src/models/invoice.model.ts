@@ -0,0 +1,192 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export const INVOICE_KINDS = ['invoice', 'credit-note'] as const;
+
+export type InvoiceKind = typeof INVOICE_KINDS[number];
+
+export interface IInvoiceParty {
+    name: string;
+    address?: string;
+    email?: string;
+    gstin?: string;
+    stateCode: string;
+    state: string;
+}
+
+// One service line. Amounts in paise; rates in percent.
+export interface IInvoiceLine {
+    description: string;
+    sac: string;
+    quantity: number;
+    taxableValue: number;
+    cgstRate: number;
+    cgst: number;
+    sgstRate: number;
+    sgst: number;
+    igstRate: number;
+    igst: number;
+    total: number;
+}
+
+// A GST tax invoice for a payment, or a credit note for a refund.
+// Issued once per ledger transaction and never changed afterwards.
+export interface IInvoice extends Document {
+    // Sequential per financial year, e.g. GB/2627/000001 (credit notes GBCN/2627/000001)
+    number: string;
+    kind: InvoiceKind;
+    userId: string;
+    transactionId: string;
+    orderId: string;
+    paymentId: string;
+    refundId?: string;
+    // Credit notes: the invoice being credited
+    originalInvoiceNumber?: string;
+    seller: IInvoiceParty;
+    buyer: IInvoiceParty;
+    // Buyer's state; intra-state supplies pay CGST + SGST, inter-state IGST
+    placeOfSupply: string;
+    interState: boolean;
+    lines: IInvoiceLine[];
+    currency: string;
+    taxableValue: number;
+    cgst: number;
+    sgst: number;
+    igst: number;
+    totalTax: number;
+    total: number;
+    issuedAt: Date;
+}
+
+const PartySchema = new Schema<IInvoiceParty>(
+    {
+        name: { type: String, required: true },
+        address: String,
+        email: String,
+        gstin: String,
+        stateCode: { type: String, required: true },
+        state: { type: String, required: true },
+    },
+    { _id: false }
+);
+
+const LineSchema = new Schema<IInvoiceLine>(
+    {
+        description: { type: String, required: true },
+        sac: { type: String, required: true },
+        quantity: { type: Number, required: true },
+        taxableValue: { type: Number, required: true },
+        cgstRate: { type: Number, default: 0 },
+        cgst: { type: Number, default: 0 },
+        sgstRate: { type: Number, default: 0 },
+        sgst: { type: Number, default: 0 },
+        igstRate: { type: Number, default: 0 },
+        igst: { type: Number, default: 0 },
+        total: { type: Number, required: true },
+    },
+    { _id: false }
+);
+
+const InvoiceSchema = new Schema<IInvoice>(
+    {
+        number: {
+            type: String,
+            required: true,
+            unique: true,
+        },
+        kind: {
+            type: String,
+            enum: INVOICE_KINDS,
+            required: true,
+        },
+        userId: {
+            type: String,
+            required: true,
+        },
+        transactionId: {
+            type: String,
+            required: true,
+            unique: true,
+        },
+        orderId: {
+            type: String,
+            required: true,
+        },
+        paymentId: {
+            type: String,
+            required: true,
+            index: true,
+        },
+        refundId: String,
+        originalInvoiceNumber: String,
+        seller: {
+            type: PartySchema,
+            required: true,
+        },
+        buyer: {
+            type: PartySchema,
+            required: true,
+        },
+        placeOfSupply: {
+            type: String,
+            required: true,
+        },
+        interState: {
+            type: Boolean,
+            required: true,
+        },
+        lines: {
+            type: [LineSchema],
+            required: true,
+        },
+        currency: {
+            type: String,
+            default: 'INR',
+        },
+        taxableValue: { type: Number, required: true },
+        cgst: { type: Number, default: 0 },
+        sgst: { type: Number, default: 0 },
+        igst: { type: Number, default: 0 },
+        totalTax: { type: Number, required: true },
+        total: { type: Number, required: true },
+        issuedAt: {
+            type: Date,
+            default: Date.now,
+        },
+    },
+    {
+        versionKey: false,
+    }
+);
+
+InvoiceSchema.index({ userId: 1, issuedAt: -1 });
+
+// Invoices are saved under a provisional number, then numbered (see invoiceStore)
+export const PROVISIONAL_INVOICE_PREFIX = 'PENDING/';
+
+// Issued invoices are final: corrections and refunds get a credit note instead
+const rejectChange = () => {
+    throw new Error('Invoices cannot be changed once issued');
+};
+
+// The one change allowed: replacing a provisional number, and nothing else
+const isNumbering = (query: mongoose.Query<unknown, unknown>): boolean => {
+    const filter = query.getFilter();
+    const update: any = query.getUpdate();
+    return typeof filter.number === 'string' &&
+        filter.number.startsWith(PROVISIONAL_INVOICE_PREFIX) &&
+        Object.keys(update || {}).length === 1 &&
+        Object.keys(update.$set || {}).length === 1 &&
+        typeof update.$set.number === 'string';
+};
+
+InvoiceSchema.pre('save', function (next) {
+    if (!this.isNew) return next(new Error('Invoices cannot be changed once issued'));
+    next();
+});
+InvoiceSchema.pre(['updateOne', 'findOneAndUpdate'], function () {
+    if (!isNumbering(this)) rejectChange();
+});
+InvoiceSchema.pre(['updateMany', 'replaceOne', 'findOneAndReplace'], rejectChange);
+InvoiceSchema.pre(['deleteOne', 'deleteMany', 'findOneAndDelete'], rejectChange);
+
+export default mongoose.model<IInvoice>('Invoice', InvoiceSchema);
@@ -1,22 +1,66 @@
 import mongoose, { Schema, Document } from 'mongoose';
 
+// One user's emoji on a message; a user can add several different emojis
+export interface IMessageReaction {
+    userId: string;
+    emoji: string;
+    at: Date;
+}
+
+// Snapshot of the message being replied to, so the quote survives later edits
+export interface IReplyQuote {
+    messageId: string;
+    senderId: string;
+    senderEmail: string;
+    content: string;
+    type: 'text' | 'image' | 'file';
+    fileName?: string;
+}
+
 export interface IMessage extends Document {
     conversationId: mongoose.Types.ObjectId;
     senderId: string;
     senderEmail: string;
     content: string;
     type: 'text' | 'image' | 'file';
+    // Uploaded attachment; download links are signed per request, not stored
+    attachmentId?: string;
+    mimeType?: string;
     fileUrl?: string;
     thumbnailUrl?: string;
     fileName?: string;
     fileSize?: number;
-    read: boolean;
+    reactions: IMessageReaction[];
+    replyTo?: IReplyQuote;
+    // Original message this was forwarded from (not shown to clients)
+    forwardedFromId?: string;
     edited: boolean;
     deleted: boolean;
     createdAt: Date;
     updatedAt: Date;
 }
 
+const ReactionSchema = new Schema<IMessageReaction>(
+    {
+        userId: { type: String, required: true },
+        emoji: { type: String, required: true, maxlength: 16 },
+        at: { type: Date, default: Date.now },
+    },
+    { _id: false }
+);
+
+const ReplyQuoteSchema = new Schema<IReplyQuote>(
+    {
+        messageId: { type: String, required: true },
+        senderId: { type: String, required: true },
+        senderEmail: String,
+        content: String,
+        type: { type: String, enum: ['text', 'image', 'file'] },
+        fileName: String,
+    },
+    { _id: false }
+);
+
 const MessageSchema = new Schema<IMessage>(
     {
         conversationId: {
@@ -44,15 +88,21 @@ const MessageSchema = new Schema<IMessage>(
             enum: ['text', 'image', 'file'],
             default: 'text',
         },
+        attachmentId: String,
+        mimeType: String,
         fileUrl: String,
         thumbnailUrl: String,
         fileName: String,
         fileSize: Number,
-        read: {
-            type: Boolean,
-            default: false,
-            index: true,
+        reactions: {
+            type: [ReactionSchema],
+            default: [],
+        },
+        replyTo: {
+            type: ReplyQuoteSchema,
+            default: undefined,
         },
+        forwardedFromId: String,
         edited: {
             type: Boolean,
             default: false,
@@ -68,6 +118,7 @@ const MessageSchema = new Schema<IMessage>(
 );
 
 MessageSchema.index({ conversationId: 1, createdAt: -1 });
-MessageSchema.index({ conversationId: 1, read: 1 });
+// Full-text chat search (GET /chat/search)
+MessageSchema.index({ content: 'text', fileName: 'text' });
 
 export default mongoose.model<IMessage>('Message', MessageSchema);
@@ -0,0 +1,67 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// Same types the frontend NotificationContext knows how to display
+export const NOTIFICATION_TYPES = ['message', 'offer', 'inquiry', 'payment', 'system', 'alert'] as const;
+
+export type NotificationType = typeof NOTIFICATION_TYPES[number];
+
+// Where a notification can be delivered; inApp is the stored notification itself
+export const NOTIFICATION_CHANNELS = ['inApp', 'email', 'sms', 'whatsapp'] as const;
+
+export type NotificationChannel = typeof NOTIFICATION_CHANNELS[number];
+
+// Channels delivered outside the app, which quiet hours and digests hold back
+export type ExternalChannel = Exclude<NotificationChannel, 'inApp'>;
+
+export interface INotification extends Document {
+    userId: string;
+    type: NotificationType;
+    title: string;
+    message: string;
+    // In-app path to open when the notification is clicked
+    link?: string;
+    metadata?: Record<string, any>;
+    read: boolean;
+    readAt?: Date;
+    createdAt: Date;
+}
+
+const NotificationSchema = new Schema<INotification>(
+    {
+        userId: {
+            type: String,
+            required: true,
+        },
+        type: {
+            type: String,
+            enum: NOTIFICATION_TYPES,
+            required: true,
+        },
+        title: {
+            type: String,
+            required: true,
+            maxlength: 200,
+        },
+        message: {
+            type: String,
+            default: '',
+            maxlength: 1000,
+        },
+        link: String,
+        metadata: Schema.Types.Mixed,
+        read: {
+            type: Boolean,
+            default: false,
+        },
+        readAt: Date,
+    },
+    {
+        timestamps: { createdAt: true, updatedAt: false },
+    }
+);
+
+// Newest-first listing and `after` polling per user
+NotificationSchema.index({ userId: 1, createdAt: -1, _id: -1 });
+NotificationSchema.index({ userId: 1, read: 1 });
+
+export default mongoose.model<INotification>('Notification', NotificationSchema);
@@ -0,0 +1,39 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IPasswordReset extends Document {
+    tokenId: string;
+    userId: string;
+    expiresAt: Date;
+    usedAt?: Date;
+    requestedIp?: string;
+    createdAt: Date;
+}
+
+const PasswordResetSchema = new Schema<IPasswordReset>(
+    {
+        // `jti` of the signed reset token
+        tokenId: {
+            type: String,
+            required: true,
+            unique: true,
+        },
+        userId: {
+            type: String,
+            required: true,
+            index: true,
+        },
+        expiresAt: {
+            type: Date,
+            required: true,
+        },
+        usedAt: Date,
+        requestedIp: String,
+    },
+    {
+        timestamps: { createdAt: true, updatedAt: false },
+    }
+);
+
+PasswordResetSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 }); // Auto-delete once expired
+
+export default mongoose.model<IPasswordReset>('PasswordReset', PasswordResetSchema);
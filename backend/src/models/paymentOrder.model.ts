@@ -0,0 +1,79 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export const PAYMENT_ORDER_STATUSES = ['created', 'paid', 'failed'] as const;
+
+export type PaymentOrderStatus = typeof PAYMENT_ORDER_STATUSES[number];
+
+// A checkout for one service, priced by the server and paid through the gateway
+export interface IPaymentOrder extends Document {
+    userId: string;
+    serviceId: string;
+    serviceName: string;
+    // In paise, as the gateway expects
+    amount: number;
+    currency: string;
+    receipt: string;
+    gateway: 'razorpay' | 'stub';
+    // The gateway's order id (order_...), which checkout and verification use
+    gatewayOrderId: string;
+    paymentId?: string;
+    status: PaymentOrderStatus;
+    notes?: Record<string, string>;
+    paidAt?: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const PaymentOrderSchema = new Schema<IPaymentOrder>(
+    {
+        userId: {
+            type: String,
+            required: true,
+            index: true,
+        },
+        serviceId: {
+            type: String,
+            required: true,
+        },
+        serviceName: {
+            type: String,
+            required: true,
+        },
+        amount: {
+            type: Number,
+            required: true,
+            min: 100,
+        },
+        currency: {
+            type: String,
+            default: 'INR',
+        },
+        receipt: {
+            type: String,
+            required: true,
+        },
+        gateway: {
+            type: String,
+            enum: ['razorpay', 'stub'],
+            required: true,
+        },
+        gatewayOrderId: {
+            type: String,
+            required: true,
+            unique: true,
+        },
+        paymentId: String,
+        status: {
+            type: String,
+            enum: PAYMENT_ORDER_STATUSES,
+            default: 'created',
+        },
+        notes: Schema.Types.Mixed,
+        paidAt: Date,
+    },
+    {
+        timestamps: true,
+    }
+);
+
+export default mongoose.model<IPaymentOrder>('PaymentOrder', PaymentOrderSchema);
@@ -0,0 +1,53 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { NOTIFICATION_TYPES, NotificationType, ExternalChannel } from './notification.model';
+
+// An email, SMS or WhatsApp notification held for quiet hours or the daily digest
+export interface IPendingNotification extends Document {
+    userId: string;
+    channel: ExternalChannel;
+    type: NotificationType;
+    title: string;
+    message: string;
+    link?: string;
+    // Sent by the delivery sweeper once this time has passed
+    deliverAfter: Date;
+    createdAt: Date;
+}
+
+const PendingNotificationSchema = new Schema<IPendingNotification>(
+    {
+        userId: {
+            type: String,
+            required: true,
+        },
+        channel: {
+            type: String,
+            enum: ['email', 'sms', 'whatsapp'],
+            required: true,
+        },
+        type: {
+            type: String,
+            enum: NOTIFICATION_TYPES,
+            required: true,
+        },
+        title: {
+            type: String,
+            required: true,
+        },
+        message: {
+            type: String,
+            default: '',
+        },
+        link: String,
+        deliverAfter: {
+            type: Date,
+            required: true,
+            index: true,
+        },
+    },
+    {
+        timestamps: { createdAt: true, updatedAt: false },
+    }
+);
+
+export default mongoose.model<IPendingNotification>('PendingNotification', PendingNotificationSchema);
@@ -0,0 +1,271 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export const LISTING_TYPES = ['sale', 'rent'] as const;
+export const PROPERTY_TYPES = ['apartment', 'house', 'plot', 'commercial', 'agricultural'] as const;
+export const PRICE_TYPES = ['fixed', 'negotiable'] as const;
+export const FURNISHING_TYPES = ['unfurnished', 'semi-furnished', 'fully-furnished'] as const;
+export const OWNERSHIP_TYPES = ['freehold', 'leasehold', 'cooperative'] as const;
+export const APPROVAL_AUTHORITIES = ['rera', 'municipal', 'development-authority'] as const;
+export const TENANT_PREFERENCES = ['family', 'bachelor', 'company', 'any'] as const;
+
+/**
+ * Listing lifecycle:
+ * draft → pending-review → approved | rejected → sold | rented
+ */
+export const PROPERTY_STATUSES = ['draft', 'pending-review', 'approved', 'rejected', 'sold', 'rented'] as const;
+
+export type ListingType = typeof LISTING_TYPES[number];
+export type PropertyType = typeof PROPERTY_TYPES[number];
+export type PropertyStatus = typeof PROPERTY_STATUSES[number];
+
+/**
+ * Statuses anyone (including signed-out visitors) can see
+ */
+export const PUBLIC_PROPERTY_STATUSES: PropertyStatus[] = ['approved', 'sold', 'rented'];
+
+/**
+ * GeoJSON point - note the [longitude, latitude] order
+ */
+export interface IGeoPoint {
+    type: 'Point';
+    coordinates: [number, number];
+}
+
+export interface IPropertyContact {
+    name?: string;
+    phone?: string;
+    email?: string;
+    alternatePhone?: string;
+    preferredCallTime?: string;
+}
+
+export interface IProperty extends Document {
+    ownerId: string;
+    ownerName?: string;
+    listingType: ListingType;
+    propertyType: PropertyType;
+    title: string;
+    description?: string;
+
+    // Pricing
+    price: number;
+    priceType: typeof PRICE_TYPES[number];
+    securityDeposit?: number;
+    maintenanceCharges?: number;
+    leasePeriod?: string;
+    tenantPreference?: typeof TENANT_PREFERENCES[number];
+    expectedPrice?: number;
+    bookingAmount?: number;
+
+    // Location
+    address?: string;
+    locality: string;
+    city: string;
+    state?: string;
+    pincode: string;
+    landmark?: string;
+    location?: IGeoPoint;
+
+    // Specifications
+    squareFeet?: number;
+    carpetArea?: number;
+    bedrooms?: number;
+    bathrooms?: number;
+    balconies?: number;
+    floor?: number;
+    totalFloors?: number;
+    facing?: string;
+    furnishing?: typeof FURNISHING_TYPES[number];
+    parking?: number;
+
+    // Availability & legal
+    availability?: string;
+    ageOfProperty?: string;
+    ownershipType?: typeof OWNERSHIP_TYPES[number];
+    approvedBy?: typeof APPROVAL_AUTHORITIES[number];
+
+    amenities: string[];
+    nearbyPlaces: string[];
+    images: string[];
+    contact?: IPropertyContact;
+
+    // Moderation
+    status: PropertyStatus;
+    rejectionReason?: string;
+    verified: boolean;
+    submittedAt?: Date;
+    reviewedAt?: Date;
+    reviewedBy?: string;
+    closedAt?: Date;
+
+    views: number;
+
+    // Aggregated from visible reviews
+    rating?: number;
+    reviewCount: number;
+
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const PropertySchema = new Schema<IProperty>(
+    {
+        ownerId: {
+            type: String,
+            required: true,
+            index: true,
+        },
+        ownerName: String,
+        listingType: {
+            type: String,
+            enum: LISTING_TYPES,
+            required: true,
+        },
+        propertyType: {
+            type: String,
+            enum: PROPERTY_TYPES,
+            required: true,
+        },
+        title: {
+            type: String,
+            required: true,
+            trim: true,
+            maxlength: 200,
+        },
+        description: {
+            type: String,
+            maxlength: 5000,
+        },
+        price: {
+            type: Number,
+            required: true,
+            min: 0,
+        },
+        priceType: {
+            type: String,
+            enum: PRICE_TYPES,
+            default: 'fixed',
+        },
+        securityDeposit: { type: Number, min: 0 },
+        maintenanceCharges: { type: Number, min: 0 },
+        leasePeriod: String,
+        tenantPreference: {
+            type: String,
+            enum: TENANT_PREFERENCES,
+        },
+        expectedPrice: { type: Number, min: 0 },
+        bookingAmount: { type: Number, min: 0 },
+        address: String,
+        locality: {
+            type: String,
+            required: true,
+            trim: true,
+        },
+        city: {
+            type: String,
+            required: true,
+            trim: true,
+        },
+        state: String,
+        pincode: {
+            type: String,
+            required: true,
+            match: /^\d{6}$/,
+        },
+        landmark: String,
+        location: {
+            type: {
+                type: String,
+                enum: ['Point'],
+            },
+            coordinates: {
+                type: [Number],
+                default: undefined,
+            },
+        },
+        squareFeet: { type: Number, min: 0 },
+        carpetArea: { type: Number, min: 0 },
+        bedrooms: { type: Number, min: 0 },
+        bathrooms: { type: Number, min: 0 },
+        balconies: { type: Number, min: 0 },
+        floor: Number,
+        totalFloors: { type: Number, min: 0 },
+        facing: String,
+        furnishing: {
+            type: String,
+            enum: FURNISHING_TYPES,
+        },
+        parking: { type: Number, min: 0 },
+        availability: String,
+        ageOfProperty: String,
+        ownershipType: {
+            type: String,
+            enum: OWNERSHIP_TYPES,
+        },
+        approvedBy: {
+            type: String,
+            enum: APPROVAL_AUTHORITIES,
+        },
+        amenities: {
+            type: [String],
+            default: [],
+        },
+        nearbyPlaces: {
+            type: [String],
+            default: [],
+        },
+        images: {
+            type: [String],
+            default: [],
+        },
+        contact: {
+            name: String,
+            phone: String,
+            email: String,
+            alternatePhone: String,
+            preferredCallTime: String,
+        },
+        status: {
+            type: String,
+            enum: PROPERTY_STATUSES,
+            default: 'draft',
+            index: true,
+        },
+        rejectionReason: String,
+        verified: {
+            type: Boolean,
+            default: false,
+        },
+        submittedAt: Date,
+        reviewedAt: Date,
+        reviewedBy: String,
+        closedAt: Date,
+        views: {
+            type: Number,
+            default: 0,
+        },
+        rating: {
+            type: Number,
+            min: 1,
+            max: 5,
+        },
+        reviewCount: {
+            type: Number,
+            default: 0,
+        },
+    },
+    {
+        timestamps: true,
+    }
+);
+
+PropertySchema.index({ status: 1, createdAt: -1 });
+PropertySchema.index({ status: 1, city: 1, listingType: 1, price: 1 });
+PropertySchema.index({ ownerId: 1, status: 1 });
+PropertySchema.index({ status: 1, views: -1 });
+PropertySchema.index({ status: 1, propertyType: 1, bedrooms: 1 });
+PropertySchema.index({ status: 1, pincode: 1 });
+PropertySchema.index({ status: 1, amenities: 1 });
+PropertySchema.index({ location: '2dsphere' }, { sparse: true });
+
+export default mongoose.model<IProperty>('Property', PropertySchema);
@@ -0,0 +1,64 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export const RECONCILIATION_ISSUE_TYPES = [
+    'stuck-order',        // Order still `created` long after checkout
+    'missing-in-ledger',  // Gateway report has a payment or refund we never recorded
+    'missing-in-gateway', // We recorded a payment the gateway report doesn't have
+    'amount-mismatch',    // Same payment, different amounts
+    'status-mismatch',    // Same payment, captured on one side and failed on the other
+    'duplicate-payment',  // A second payment captured for an order that was already paid
+] as const;
+
+export type ReconciliationIssueType = typeof RECONCILIATION_ISSUE_TYPES[number];
+
+// Something in the payment records that needs a person to look at it
+export interface IReconciliationIssue extends Document {
+    // "<type>:<order or payment id>", so the same problem is only flagged once
+    key: string;
+    type: ReconciliationIssueType;
+    orderId?: string;
+    paymentId?: string;
+    message: string;
+    // In paise, where amounts are involved
+    expectedAmount?: number;
+    actualAmount?: number;
+    resolved: boolean;
+    resolvedAt?: Date;
+    resolvedBy?: string;
+    createdAt: Date;
+}
+
+const ReconciliationIssueSchema = new Schema<IReconciliationIssue>(
+    {
+        key: {
+            type: String,
+            required: true,
+            unique: true,
+        },
+        type: {
+            type: String,
+            enum: RECONCILIATION_ISSUE_TYPES,
+            required: true,
+        },
+        orderId: String,
+        paymentId: String,
+        message: {
+            type: String,
+            required: true,
+        },
+        expectedAmount: Number,
+        actualAmount: Number,
+        resolved: {
+            type: Boolean,
+            default: false,
+            index: true,
+        },
+        resolvedAt: Date,
+        resolvedBy: String,
+    },
+    {
+        timestamps: { createdAt: true, updatedAt: false },
+    }
+);
+
+export default mongoose.model<IReconciliationIssue>('ReconciliationIssue', ReconciliationIssueSchema);
@@ -0,0 +1,52 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IRefreshToken extends Document {
+    tokenHash: string;
+    userId: string;
+    sessionId: string;
+    expiresAt: Date;
+    revokedAt?: Date;
+    replacedByHash?: string;
+    graceReissuedAt?: Date;  // When the one re-issue allowed just after rotation was used
+    userAgent?: string;
+    ipAddress?: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const RefreshTokenSchema = new Schema<IRefreshToken>(
+    {
+        tokenHash: {
+            type: String,
+            required: true,
+            unique: true,
+        },
+        userId: {
+            type: String,
+            required: true,
+            index: true,
+        },
+        sessionId: {
+            type: String,
+            required: true,
+            index: true,
+        },
+        expiresAt: {
+            type: Date,
+            required: true,
+        },
+        revokedAt: Date,
+        replacedByHash: String,
+        graceReissuedAt: Date,
+        userAgent: String,
+        ipAddress: String,
+    },
+    {
+        timestamps: true,
+    }
+);
+
+RefreshTokenSchema.index({ userId: 1, revokedAt: 1 });
+RefreshTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 }); // Auto-delete once expired
+
+export default mongoose.model<IRefreshToken>('RefreshToken', RefreshTokenSchema);
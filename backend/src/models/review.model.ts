@@ -0,0 +1,121 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * Review lifecycle:
+ * published → reported → published (kept) | removed
+ *
+ * Reported reviews stay visible until an employee decides; removed
+ * reviews are hidden and no longer count towards the listing's rating.
+ */
+export const REVIEW_STATUSES = ['published', 'reported', 'removed'] as const;
+
+// Statuses shown on the listing and counted in its rating
+export const VISIBLE_REVIEW_STATUSES = ['published', 'reported'] as const;
+
+export type ReviewStatus = typeof REVIEW_STATUSES[number];
+
+export interface IReviewReport {
+    reporterId: string;
+    reason: string;
+    at: Date;
+}
+
+export interface IReview extends Document {
+    propertyId: string;
+    propertyTitle?: string;
+    reviewerId: string;
+    reviewerName?: string;
+    rating: number;
+    comment: string;
+
+    // User IDs that found the review helpful (one vote each)
+    helpfulVoters: string[];
+    helpfulCount: number;
+
+    reports: IReviewReport[];
+    status: ReviewStatus;
+    moderatedBy?: string;
+    moderatedAt?: Date;
+    moderationNote?: string;
+
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const ReviewReportSchema = new Schema<IReviewReport>(
+    {
+        reporterId: {
+            type: String,
+            required: true,
+        },
+        reason: {
+            type: String,
+            required: true,
+            maxlength: 500,
+        },
+        at: {
+            type: Date,
+            default: Date.now,
+        },
+    },
+    { _id: false }
+);
+
+const ReviewSchema = new Schema<IReview>(
+    {
+        propertyId: {
+            type: String,
+            required: true,
+        },
+        propertyTitle: String,
+        reviewerId: {
+            type: String,
+            required: true,
+            index: true,
+        },
+        reviewerName: String,
+        rating: {
+            type: Number,
+            required: true,
+            min: 1,
+            max: 5,
+        },
+        comment: {
+            type: String,
+            required: true,
+            trim: true,
+            maxlength: 2000,
+        },
+        helpfulVoters: {
+            type: [String],
+            default: [],
+        },
+        helpfulCount: {
+            type: Number,
+            default: 0,
+        },
+        reports: {
+            type: [ReviewReportSchema],
+            default: [],
+        },
+        status: {
+            type: String,
+            enum: REVIEW_STATUSES,
+            default: 'published',
+            index: true,
+        },
+        moderatedBy: String,
+        moderatedAt: Date,
+        moderationNote: String,
+    },
+    {
+        timestamps: true,
+    }
+);
+
+// One review per user per listing
+ReviewSchema.index({ propertyId: 1, reviewerId: 1 }, { unique: true });
+ReviewSchema.index({ propertyId: 1, status: 1, createdAt: -1 });
+ReviewSchema.index({ status: 1, updatedAt: 1 }); // Moderation queue
+
+export default mongoose.model<IReview>('Review', ReviewSchema);
@@ -0,0 +1,41 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IRevokedToken extends Document {
+    key: string;
+    kind: 'token' | 'session';
+    userId: string;
+    expiresAt: Date;
+    createdAt: Date;
+}
+
+const RevokedTokenSchema = new Schema<IRevokedToken>(
+    {
+        // Access token `jti` or session `sid`, depending on kind
+        key: {
+            type: String,
+            required: true,
+            unique: true,
+        },
+        kind: {
+            type: String,
+            enum: ['token', 'session'],
+            required: true,
+        },
+        userId: {
+            type: String,
+            required: true,
+            index: true,
+        },
+        expiresAt: {
+            type: Date,
+            required: true,
+        },
+    },
+    {
+        timestamps: { createdAt: true, updatedAt: false },
+    }
+);
+
+RevokedTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 }); // Drop entries once the token could no longer be valid
+
+export default mongoose.model<IRevokedToken>('RevokedToken', RevokedTokenSchema);
@@ -0,0 +1,79 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+/**
+ * Site visit lifecycle:
+ * requested → completed | cancelled
+ *
+ * The buyer books a visit; the seller marks it completed once it took place.
+ * Either side can cancel a visit that hasn't happened yet.
+ */
+export const SITE_VISIT_STATUSES = ['requested', 'completed', 'cancelled'] as const;
+
+export type SiteVisitStatus = typeof SITE_VISIT_STATUSES[number];
+
+export interface ISiteVisit extends Document {
+    propertyId: string;
+    propertyTitle: string;
+    sellerId: string;
+    buyerId: string;
+    buyerName?: string;
+    scheduledAt: Date;
+    note?: string;
+    status: SiteVisitStatus;
+    completedAt?: Date;
+    cancelledAt?: Date;
+    cancelledBy?: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const SiteVisitSchema = new Schema<ISiteVisit>(
+    {
+        propertyId: {
+            type: String,
+            required: true,
+            index: true,
+        },
+        propertyTitle: {
+            type: String,
+            required: true,
+        },
+        sellerId: {
+            type: String,
+            required: true,
+            index: true,
+        },
+        buyerId: {
+            type: String,
+            required: true,
+            index: true,
+        },
+        buyerName: String,
+        scheduledAt: {
+            type: Date,
+            required: true,
+        },
+        note: {
+            type: String,
+            maxlength: 1000,
+        },
+        status: {
+            type: String,
+            enum: SITE_VISIT_STATUSES,
+            default: 'requested',
+            index: true,
+        },
+        completedAt: Date,
+        cancelledAt: Date,
+        cancelledBy: String,
+    },
+    {
+        timestamps: true,
+    }
+);
+
+SiteVisitSchema.index({ propertyId: 1, buyerId: 1, status: 1 }); // Review eligibility
+SiteVisitSchema.index({ buyerId: 1, scheduledAt: -1 });
+SiteVisitSchema.index({ sellerId: 1, scheduledAt: -1 });
+
+export default mongoose.model<ISiteVisit>('SiteVisit', SiteVisitSchema);
@@ -1,19 +1,94 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { USER_ROLES, UserRole } from './user.model';
+import { CalendarId } from '../config/businessCalendars';
+
+export const TICKET_PRIORITIES = ['low', 'medium', 'high', 'urgent'] as const;
+
+export type TicketPriority = typeof TICKET_PRIORITIES[number];
+
+// One SLA target (first response or resolution) and how the ticket is doing against it
+export interface ITicketSlaClock {
+    // Working minutes allowed, on the policy's business calendar
+    targetMinutes: number;
+    dueAt: Date;
+    // When supervisors are warned that the breach is near
+    warnAt: Date;
+    completedAt?: Date;
+    completedBy?: string;
+    // Set to dueAt once the target is missed
+    breachedAt?: Date;
+    escalatedAt?: Date;
+}
+
+export interface ITicketSla {
+    policy: string;
+    calendar: CalendarId;
+    firstResponse: ITicketSlaClock;
+    resolution: ITicketSlaClock;
+}
+
+// The customer's rating of how a closed ticket was handled
+export interface ITicketFeedback {
+    // 1 (very unhappy) to 5 (very happy)
+    rating: number;
+    comment?: string;
+    // Agent who handled the ticket when it was rated
+    agentId?: string;
+    submittedAt: Date;
+}
 
 export interface ITicket extends Document {
     userId: string;
-    userRole: 'buyer' | 'seller';
+    userRole: UserRole;
     categoryTitle: string;
     subCategoryTitle: string;
     problem: string;
     status: 'open' | 'assigned' | 'in_progress' | 'resolved' | 'closed';
+    priority: TicketPriority;
     assignedTo?: string;
     assignedToName?: string;
     createdAt: Date;
     updatedAt: Date;
     closedAt?: Date;
+    reopenedAt?: Date;
+    reopenCount: number;
+    sla?: ITicketSla;
+    feedback?: ITicketFeedback;
 }
 
+const SlaClockSchema = new Schema<ITicketSlaClock>(
+    {
+        targetMinutes: { type: Number, required: true },
+        dueAt: { type: Date, required: true },
+        warnAt: { type: Date, required: true },
+        completedAt: Date,
+        completedBy: String,
+        breachedAt: Date,
+        escalatedAt: Date,
+    },
+    { _id: false }
+);
+
+const SlaSchema = new Schema<ITicketSla>(
+    {
+        policy: { type: String, required: true },
+        calendar: { type: String, required: true },
+        firstResponse: { type: SlaClockSchema, required: true },
+        resolution: { type: SlaClockSchema, required: true },
+    },
+    { _id: false }
+);
+
+const FeedbackSchema = new Schema<ITicketFeedback>(
+    {
+        rating: { type: Number, required: true, min: 1, max: 5 },
+        comment: { type: String, maxlength: 1000 },
+        agentId: String,
+        submittedAt: { type: Date, required: true },
+    },
+    { _id: false }
+);
+
 const TicketSchema = new Schema<ITicket>(
     {
         userId: {
@@ -23,7 +98,7 @@ const TicketSchema = new Schema<ITicket>(
         },
         userRole: {
             type: String,
-            enum: ['buyer', 'seller'],
+            enum: USER_ROLES,
             required: true,
         },
         categoryTitle: {
@@ -45,12 +120,25 @@ const TicketSchema = new Schema<ITicket>(
             default: 'open',
             index: true,
         },
+        priority: {
+            type: String,
+            enum: TICKET_PRIORITIES,
+            default: 'medium',
+            index: true,
+        },
         assignedTo: {
             type: String,
             index: true,
         },
         assignedToName: String,
         closedAt: Date,
+        reopenedAt: Date,
+        reopenCount: {
+            type: Number,
+            default: 0,
+        },
+        sla: SlaSchema,
+        feedback: FeedbackSchema,
     },
     {
         timestamps: true,
@@ -59,5 +147,8 @@ const TicketSchema = new Schema<ITicket>(
 
 TicketSchema.index({ status: 1, createdAt: -1 });
 TicketSchema.index({ assignedTo: 1, status: 1 });
+TicketSchema.index({ categoryTitle: 1, priority: 1, status: 1 });
+TicketSchema.index({ status: 1, 'sla.firstResponse.warnAt': 1 });
+TicketSchema.index({ status: 1, 'sla.resolution.warnAt': 1 });
 
 export default mongoose.model<ITicket>('Ticket', TicketSchema);
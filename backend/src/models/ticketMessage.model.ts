@@ -5,6 +5,7 @@ export interface ITicketMessage extends Document {
     senderId: string;
     senderType: 'customer' | 'employee';
     message: string;
+    // Storage key of the attached file; clients get a signed download link instead
     fileUrl?: string;
     fileName?: string;
     timestamp: Date;
@@ -0,0 +1,96 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export const TRANSACTION_TYPES = ['payment', 'refund'] as const;
+
+export type TransactionType = typeof TRANSACTION_TYPES[number];
+
+// captured: money received; failed: attempt that took no money; processed: refund paid out
+export const TRANSACTION_STATUSES = ['captured', 'failed', 'processed'] as const;
+
+export type TransactionStatus = typeof TRANSACTION_STATUSES[number];
+
+// One entry in the payment ledger. Entries are only ever added, never changed.
+export interface ITransaction extends Document {
+    userId: string;
+    type: TransactionType;
+    status: TransactionStatus;
+    // In paise
+    amount: number;
+    currency: string;
+    orderId: string;
+    paymentId: string;
+    refundId?: string;
+    serviceId: string;
+    serviceName: string;
+    method?: string;
+    // Recorded from client verification or a gateway webhook
+    source: 'verify' | 'webhook';
+    // Unique per real-world event (payment:<id>, refund:<id>), so replays can't double-credit
+    idempotencyKey: string;
+    createdAt: Date;
+}
+
+const TransactionSchema = new Schema<ITransaction>(
+    {
+        userId: {
+            type: String,
+            required: true,
+        },
+        type: {
+            type: String,
+            enum: TRANSACTION_TYPES,
+            required: true,
+        },
+        status: {
+            type: String,
+            enum: TRANSACTION_STATUSES,
+            required: true,
+        },
+        amount: {
+            type: Number,
+            required: true,
+            min: 0,
+        },
+        currency: {
+            type: String,
+            default: 'INR',
+        },
+        orderId: {
+            type: String,
+            required: true,
+        },
+        paymentId: {
+            type: String,
+            required: true,
+            index: true,
+        },
+        refundId: String,
+        serviceId: {
+            type: String,
+            required: true,
+        },
+        serviceName: {
+            type: String,
+            required: true,
+        },
+        method: String,
+        source: {
+            type: String,
+            enum: ['verify', 'webhook'],
+            required: true,
+        },
+        idempotencyKey: {
+            type: String,
+            required: true,
+            unique: true,
+        },
+    },
+    {
+        timestamps: { createdAt: true, updatedAt: false },
+    }
+);
+
+// A user's history, newest first
+TransactionSchema.index({ userId: 1, createdAt: -1 });
+
+export default mongoose.model<ITransaction>('Transaction', TransactionSchema);
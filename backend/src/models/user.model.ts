@@ -0,0 +1,146 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import {
+    NOTIFICATION_TYPES,
+    NOTIFICATION_CHANNELS,
+    NotificationType,
+    NotificationChannel,
+} from './notification.model';
+
+export const USER_ROLES = [
+    'buyer',
+    'seller',
+    'employee',
+    'admin',
+    'partner',
+    'ground-partner',
+    'legal-partner',
+] as const;
+
+export type UserRole = typeof USER_ROLES[number];
+
+// Roles a visitor may pick when signing up; staff accounts are provisioned by admins
+export const SELF_REGISTER_ROLES: UserRole[] = [
+    'buyer',
+    'seller',
+    'partner',
+    'ground-partner',
+    'legal-partner',
+];
+
+export const DIGEST_FREQUENCIES = ['off', 'daily'] as const;
+
+export type DigestFrequency = typeof DIGEST_FREQUENCIES[number];
+
+// Times are "HH:mm" in the user's timezone (an IANA name like Asia/Kolkata)
+export interface INotificationPreferences {
+    channels: Record<NotificationChannel, boolean>;
+    types: Record<NotificationType, boolean>;
+    quietHours: {
+        enabled: boolean;
+        start: string;
+        end: string;
+    };
+    timezone: string;
+    // 'daily' batches email, SMS and WhatsApp into one message at digestTime
+    digest: DigestFrequency;
+    digestTime: string;
+}
+
+// How new tickets are routed to a support agent (support staff only)
+export interface ISupportRouting {
+    // Ticket categories (categoryTitle) the agent handles; empty = any
+    skills: string[];
+    // Roles of the customers the agent handles; empty = any
+    customerRoles: UserRole[];
+    maxConcurrentTickets: number;
+    // Take part in automatic assignment
+    autoAssign: boolean;
+}
+
+export interface IUser extends Document {
+    email: string;
+    passwordHash: string;
+    displayName: string;
+    role: UserRole;
+    phoneNumber?: string;
+    photoURL?: string;
+    lastLoginAt?: Date;
+    notificationPreferences?: INotificationPreferences;
+    supportRouting?: ISupportRouting;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const booleanFlags = (keys: readonly string[]) =>
+    Object.fromEntries(keys.map(key => [key, Boolean]));
+
+const NotificationPreferencesSchema = new Schema<INotificationPreferences>(
+    {
+        channels: booleanFlags(NOTIFICATION_CHANNELS),
+        types: booleanFlags(NOTIFICATION_TYPES),
+        quietHours: {
+            enabled: Boolean,
+            start: String,
+            end: String,
+        },
+        timezone: String,
+        digest: {
+            type: String,
+            enum: DIGEST_FREQUENCIES,
+        },
+        digestTime: String,
+    },
+    { _id: false }
+);
+
+const SupportRoutingSchema = new Schema<ISupportRouting>(
+    {
+        skills: [String],
+        customerRoles: [{ type: String, enum: USER_ROLES }],
+        maxConcurrentTickets: Number,
+        autoAssign: Boolean,
+    },
+    { _id: false }
+);
+
+const UserSchema = new Schema<IUser>(
+    {
+        email: {
+            type: String,
+            required: true,
+            unique: true,
+            lowercase: true,
+            trim: true,
+            index: true,
+        },
+        passwordHash: {
+            type: String,
+            required: true,
+            select: false,
+        },
+        displayName: {
+            type: String,
+            required: true,
+            trim: true,
+            maxlength: 100,
+        },
+        role: {
+            type: String,
+            enum: USER_ROLES,
+            default: 'buyer',
+            index: true,
+        },
+        phoneNumber: String,
+        photoURL: String,
+        lastLoginAt: Date,
+        // Unset until the user saves their settings; defaults apply until then
+        notificationPreferences: NotificationPreferencesSchema,
+        // Unset until a supervisor saves it; defaults apply until then
+        supportRouting: SupportRoutingSchema,
+    },
+    {
+        timestamps: true,
+    }
+);
+
+export default mongoose.model<IUser>('User', UserSchema);
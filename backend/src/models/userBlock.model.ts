@@ -0,0 +1,32 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// blockerId no longer receives messages or new conversations from blockedId
+export interface IUserBlock extends Document {
+    blockerId: string;
+    blockedId: string;
+    // Conversation the block was made from, for context
+    conversationId?: string;
+    createdAt: Date;
+}
+
+const UserBlockSchema = new Schema<IUserBlock>(
+    {
+        blockerId: {
+            type: String,
+            required: true,
+        },
+        blockedId: {
+            type: String,
+            required: true,
+            index: true,
+        },
+        conversationId: String,
+    },
+    {
+        timestamps: { createdAt: true, updatedAt: false },
+    }
+);
+
+UserBlockSchema.index({ blockerId: 1, blockedId: 1 }, { unique: true });
+
+export default mongoose.model<IUserBlock>('UserBlock', UserBlockSchema);
@@ -0,0 +1,28 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// A gateway webhook delivery we've already handled, so replays are ignored
+export interface IWebhookEvent extends Document {
+    // x-razorpay-event-id (or a hash of the body if the header is missing)
+    eventId: string;
+    event: string;
+    createdAt: Date;
+}
+
+const WebhookEventSchema = new Schema<IWebhookEvent>(
+    {
+        eventId: {
+            type: String,
+            required: true,
+            unique: true,
+        },
+        event: {
+            type: String,
+            required: true,
+        },
+    },
+    {
+        timestamps: { createdAt: true, updatedAt: false },
+    }
+);
+
+export default mongoose.model<IWebhookEvent>('WebhookEvent', WebhookEventSchema);
@@ -0,0 +1,35 @@
+/**
+ * 🛠️ ADMIN ROUTES
+ * 
+ * Express routes for listing moderation and payment reconciliation.
+ * 
+ * @author GharBazaar Backend Team
+ */
+
+import express from 'express';
+import { getModerationQueue, approveProperty, rejectProperty } from '../controllers/property.controller';
+import { getReconciliationIssues, importReconciliationReport, resolveReconciliationIssue } from '../controllers/payment.controller';
+import { authenticateRequest } from '../middleware/auth.middleware';
+import { requirePermission } from '../middleware/rbac.middleware';
+
+const router = express.Router();
+
+router.use(authenticateRequest);
+
+// Property moderation
+router.get('/properties', requirePermission('properties:moderate'), getModerationQueue);
+router.put('/properties/:id/approve', requirePermission('properties:moderate'), approveProperty);
+router.put('/properties/:id/reject', requirePermission('properties:moderate'), rejectProperty);
+
+// Payment reconciliation
+router.get('/payments/reconciliation', requirePermission('payments:reconcile'), getReconciliationIssues);
+router.post(
+    '/payments/reconciliation/import',
+    requirePermission('payments:reconcile'),
+    // Gateway reports are uploaded as CSV text
+    express.text({ type: ['text/csv', 'text/plain'], limit: '5mb' }),
+    importReconciliationReport
+);
+router.put('/payments/reconciliation/:id/resolve', requirePermission('payments:reconcile'), resolveReconciliationIssue);
+
+export default router;
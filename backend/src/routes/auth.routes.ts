@@ -8,6 +8,7 @@
 
 import express from 'express';
 import * as authController from '../controllers/auth.controller';
+import { authenticateRequest } from '../middleware/auth.middleware';
 
 const router = express.Router();
 
@@ -32,20 +33,39 @@ router.post('/register', authController.register);
  */
 router.post('/verify-token', authController.verifyToken);
 
+/**
+ * @route   POST /api/v1/auth/refresh-token
+ * @desc    Exchange a refresh token for a new token pair
+ * @access  Public
+ */
+router.post(['/refresh-token', '/refresh'], authController.refreshToken);
+
 /**
  * @route   POST /api/v1/auth/logout
- * @desc    Logout user
+ * @desc    Revoke the current session (bearer token and/or refresh token)
  * @access  Public
  */
 router.post('/logout', authController.logout);
 
+/**
+ * @route   POST /api/v1/auth/logout-all
+ * @desc    Revoke every session of the current user
+ * @access  Private
+ */
+router.post('/logout-all', authenticateRequest, authController.logoutAll);
+
 /**
  * @route   POST /api/v1/auth/forgot-password
- * @desc    Request password reset
+ * @desc    Email a password reset link
+ * @access  Public
+ */
+router.post('/forgot-password', authController.forgotPassword);
+
+/**
+ * @route   POST /api/v1/auth/reset-password
+ * @desc    Set a new password using a reset token
  * @access  Public
  */
-router.post('/forgot-password', (req, res) => {
-    res.json({ success: true, message: 'Reset email sent (Mock)' });
-});
+router.post('/reset-password', authController.resetPassword);
 
 export default router;
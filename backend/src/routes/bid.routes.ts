@@ -0,0 +1,42 @@
+/**
+ * 💰 BID ROUTES
+ * 
+ * Express routes for bids and counter-offers on listings.
+ * Responding to a bid is checked per bid (buyer or seller), not by role.
+ * 
+ * @author GharBazaar Backend Team
+ */
+
+import express from 'express';
+import {
+    createBid,
+    acceptBid,
+    acceptCounterOffer,
+    rejectBid,
+    counterBid,
+    withdrawBid,
+    getPropertyBids,
+    getMyBids,
+    getBidById,
+} from '../controllers/bid.controller';
+import { authenticateRequest } from '../middleware/auth.middleware';
+import { requirePermission } from '../middleware/rbac.middleware';
+
+const router = express.Router();
+
+router.use(authenticateRequest);
+
+// Listing
+router.get('/my-bids', getMyBids);
+router.get('/property/:propertyId', getPropertyBids);
+router.get('/:id', getBidById);
+
+// Negotiation
+router.post('/', requirePermission('bids:create'), createBid);
+router.post('/:id/accept', acceptBid);
+router.post('/:id/reject', rejectBid);
+router.post('/:id/counter', counterBid);
+router.post('/:id/accept-counter', acceptCounterOffer);
+router.post('/:id/withdraw', withdrawBid);
+
+export default router;
@@ -10,22 +10,54 @@ import express from 'express';
 import {
     getConversations,
     getMessages,
+    searchChatMessages,
     createConversation,
     sendMessage,
+    markConversationAsRead,
+    toggleMessageReaction,
+    forwardMessage,
+    archiveConversation,
+    muteConversation,
+    blockParticipant,
+    deleteConversation,
+    uploadChatFile,
+    downloadChatFile,
 } from '../controllers/chat.controller';
 import { authenticateRequest } from '../middleware/auth.middleware';
+import { requirePermission } from '../middleware/rbac.middleware';
+import { acceptSingleFile } from '../middleware/upload.middleware';
 
 const router = express.Router();
 
+// Signed download links (checked by signature, so they work in <img>/<a> tags)
+router.get('/files/:id', downloadChatFile);
+
 // All routes require authentication
 router.use(authenticateRequest);
+router.use(requirePermission('chat:participate'));
 
 // Conversation routes
 router.get('/conversations', getConversations);
 router.post('/conversations', createConversation);
+router.delete('/conversations/:id', deleteConversation);
+
+// Per-user conversation settings (POST to set, DELETE to undo)
+router.post('/conversations/:id/archive', archiveConversation);
+router.delete('/conversations/:id/archive', archiveConversation);
+router.post('/conversations/:id/mute', muteConversation);
+router.delete('/conversations/:id/mute', muteConversation);
+router.post('/conversations/:id/block', blockParticipant);
+router.delete('/conversations/:id/block', blockParticipant);
 
 // Message routes
 router.get('/conversations/:id/messages', getMessages);
 router.post('/conversations/:id/messages', sendMessage);
+router.post('/conversations/:id/read', markConversationAsRead);
+router.post('/messages/:id/reactions', toggleMessageReaction);
+router.post('/messages/:id/forward', forwardMessage);
+router.get('/search', searchChatMessages);
+
+// File attachments
+router.post('/upload', acceptSingleFile('file'), uploadChatFile);
 
 export default router;
@@ -1,15 +1,38 @@
 import express from 'express';
 import * as employeeController from '../controllers/employee.controller';
-import { authenticateToken } from '../middleware/auth';
+import * as cannedResponseController from '../controllers/cannedResponse.controller';
+import { getReviewModerationQueue, keepReview, removeReview } from '../controllers/review.controller';
+import { authenticateRequest } from '../middleware/auth.middleware';
+import { requirePermission } from '../middleware/rbac.middleware';
 
 const router = express.Router();
 
-router.use(authenticateToken);
+router.use(authenticateRequest);
+router.use(requirePermission('employee:console'));
 
 router.get('/tickets', employeeController.getTickets);
+router.post('/tickets/bulk-assign', requirePermission('tickets:assign'), employeeController.bulkAssignTickets);
+router.get('/workload', employeeController.getAgentsWorkload);
+router.get('/workload/:agentId', employeeController.getAgentWorkload);
 router.get('/active-conversations', employeeController.getActiveConversations);
-router.post('/quick-response', employeeController.sendQuickResponse);
+router.post('/quick-response', requirePermission('tickets:respond'), cannedResponseController.sendQuickResponse);
 router.get('/user-history/:userId', employeeController.getUserHistory);
 router.get('/stats', employeeController.getEmployeeStats);
+router.get('/sla/escalations', requirePermission('tickets:supervise'), employeeController.getSlaEscalations);
+router.get('/routing', employeeController.getRouting);
+router.put('/routing/agents/:agentId', requirePermission('tickets:supervise'), employeeController.updateAgentRouting);
+
+// Canned responses (team-shared and personal)
+router.get('/canned-responses', cannedResponseController.getCannedResponses);
+router.post('/canned-responses', cannedResponseController.addCannedResponse);
+router.put('/canned-responses/:id', cannedResponseController.editCannedResponse);
+router.delete('/canned-responses/:id', cannedResponseController.removeCannedResponse);
+router.post('/canned-responses/:id/preview', cannedResponseController.previewCannedResponse);
+router.post('/canned-responses/:id/send', requirePermission('tickets:respond'), cannedResponseController.sendCannedResponse);
+
+// Reported review moderation
+router.get('/reviews', requirePermission('reviews:moderate'), getReviewModerationQueue);
+router.put('/reviews/:id/keep', requirePermission('reviews:moderate'), keepReview);
+router.put('/reviews/:id/remove', requirePermission('reviews:moderate'), removeReview);
 
 export default router;
@@ -3,6 +3,14 @@ import authRoutes from './auth.routes';
 import chatRoutes from './chat.routes';
 import ticketRoutes from './ticket.routes';
 import employeeRoutes from './employee.routes';
+import propertyRoutes from './property.routes';
+import adminRoutes from './admin.routes';
+import bidRoutes from './bid.routes';
+import siteVisitRoutes from './siteVisit.routes';
+import reviewRoutes from './review.routes';
+import notificationRoutes from './notification.routes';
+import userRoutes from './user.routes';
+import paymentRoutes from './payment.routes';
 
 const router = express.Router();
 
@@ -10,6 +18,14 @@ router.use('/auth', authRoutes);
 router.use('/chat', chatRoutes);
 router.use('/tickets', ticketRoutes);
 router.use('/employee', employeeRoutes);
+router.use('/properties', propertyRoutes);
+router.use('/admin', adminRoutes);
+router.use('/bids', bidRoutes);
+router.use('/site-visits', siteVisitRoutes);
+router.use('/reviews', reviewRoutes);
+router.use('/notifications', notificationRoutes);
+router.use('/users', userRoutes);
+router.use('/payments', paymentRoutes);
 
 router.get('/health', (req, res) => {
     res.json({ success: true, message: 'API is healthy', timestamp: new Date().toISOString() });
@@ -0,0 +1,31 @@
+/**
+ * 🔔 NOTIFICATION ROUTES
+ * 
+ * Express routes for the signed-in user's notifications.
+ * Real-time delivery is over Socket.IO (notification:new); these
+ * endpoints back the dropdown and the polling fallback.
+ * 
+ * @author GharBazaar Backend Team
+ */
+
+import express from 'express';
+import {
+    getNotifications,
+    createNotification,
+    markAsRead,
+    markAllAsRead,
+    deleteNotification,
+} from '../controllers/notification.controller';
+import { authenticateRequest } from '../middleware/auth.middleware';
+
+const router = express.Router();
+
+router.use(authenticateRequest);
+
+router.get('/', getNotifications);
+router.post('/', createNotification);
+router.put('/mark-all-read', markAllAsRead);
+router.put('/:id/read', markAsRead);
+router.delete('/:id', deleteNotification);
+
+export default router;
@@ -0,0 +1,48 @@
+/**
+ * 💳 PAYMENT ROUTES
+ * 
+ * Express routes for paying for services.
+ * Prices come from the server's PAYMENT_SERVICES, and payments are only
+ * accepted with a valid gateway signature. The webhook is called by the
+ * gateway itself, so it's authenticated by its signature instead of a session.
+ * 
+ * @author GharBazaar Backend Team
+ */
+
+import express from 'express';
+import {
+    createOrder,
+    verifyPayment,
+    stubCheckout,
+    handleWebhook,
+    getTransactions,
+    getTransaction,
+    getStats,
+    generateInvoice,
+    getInvoices,
+    getInvoice,
+} from '../controllers/payment.controller';
+import { authenticateRequest } from '../middleware/auth.middleware';
+
+const router = express.Router();
+
+router.post('/webhook', handleWebhook);
+
+router.use(authenticateRequest);
+
+router.post('/create-order', createOrder);
+router.post('/verify', verifyPayment);
+// Only when PAYMENT_GATEWAY=stub
+router.post('/stub/checkout', stubCheckout);
+
+// Ledger
+router.get('/transactions', getTransactions);
+router.get('/transactions/:id', getTransaction);
+router.get('/stats', getStats);
+
+// GST invoices and credit notes
+router.post('/transactions/:id/invoice', generateInvoice);
+router.get('/invoices', getInvoices);
+router.get('/invoices/:id', getInvoice);
+
+export default router;
@@ -0,0 +1,46 @@
+/**
+ * 🏠 PROPERTY ROUTES
+ * 
+ * Express routes for property listing REST API endpoints.
+ * Browsing is public; creating and managing listings requires login.
+ * 
+ * @author GharBazaar Backend Team
+ */
+
+import express from 'express';
+import {
+    createProperty,
+    searchProperties,
+    getMapProperties,
+    getTrendingProperties,
+    getUserProperties,
+    getPropertyById,
+    getSimilarProperties,
+    trackPropertyView,
+    updateProperty,
+    submitPropertyForReview,
+    closeProperty,
+    deleteProperty,
+} from '../controllers/property.controller';
+import { authenticateRequest, optionalAuthentication } from '../middleware/auth.middleware';
+import { requirePermission } from '../middleware/rbac.middleware';
+
+const router = express.Router();
+
+// Public browsing (owners and moderators also see unpublished listings)
+router.get('/search', optionalAuthentication, searchProperties);
+router.get('/map', optionalAuthentication, getMapProperties);
+router.get('/trending', optionalAuthentication, getTrendingProperties);
+router.get('/user/:userId', optionalAuthentication, getUserProperties);
+router.get('/:id', optionalAuthentication, getPropertyById);
+router.get('/:id/similar', optionalAuthentication, getSimilarProperties);
+router.post('/:id/view', optionalAuthentication, trackPropertyView);
+
+// Listing management
+router.post('/', authenticateRequest, requirePermission('properties:create'), createProperty);
+router.put('/:id', authenticateRequest, updateProperty);
+router.post('/:id/submit', authenticateRequest, submitPropertyForReview);
+router.post('/:id/close', authenticateRequest, closeProperty);
+router.delete('/:id', authenticateRequest, deleteProperty);
+
+export default router;
@@ -0,0 +1,30 @@
+/**
+ * ⭐ REVIEW ROUTES
+ * 
+ * Express routes for property reviews.
+ * Reading reviews is public; writing, voting and reporting require login.
+ * Reported reviews are moderated from the employee console (/employee/reviews).
+ * 
+ * @author GharBazaar Backend Team
+ */
+
+import express from 'express';
+import {
+    createReview,
+    getPropertyReviews,
+    getMyReviews,
+    markReviewHelpful,
+    reportReview,
+} from '../controllers/review.controller';
+import { authenticateRequest, optionalAuthentication } from '../middleware/auth.middleware';
+import { requirePermission } from '../middleware/rbac.middleware';
+
+const router = express.Router();
+
+router.get('/property/:propertyId', optionalAuthentication, getPropertyReviews);
+router.get('/my-reviews', authenticateRequest, getMyReviews);
+router.post('/', authenticateRequest, requirePermission('reviews:create'), createReview);
+router.post('/:id/helpful', authenticateRequest, markReviewHelpful);
+router.post('/:id/report', authenticateRequest, reportReview);
+
+export default router;
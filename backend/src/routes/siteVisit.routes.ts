@@ -0,0 +1,29 @@
+/**
+ * 🏠 SITE VISIT ROUTES
+ *
+ * Express routes for booking visits to listings.
+ * Completing and cancelling are checked per visit (buyer or seller), not by role.
+ *
+ * @author GharBazaar Backend Team
+ */
+
+import express from 'express';
+import {
+    requestSiteVisit,
+    completeSiteVisit,
+    cancelSiteVisit,
+    getMySiteVisits,
+} from '../controllers/siteVisit.controller';
+import { authenticateRequest } from '../middleware/auth.middleware';
+import { requirePermission } from '../middleware/rbac.middleware';
+
+const router = express.Router();
+
+router.use(authenticateRequest);
+
+router.get('/my-visits', getMySiteVisits);
+router.post('/', requirePermission('site-visits:create'), requestSiteVisit);
+router.post('/:id/complete', completeSiteVisit);
+router.post('/:id/cancel', cancelSiteVisit);
+
+export default router;
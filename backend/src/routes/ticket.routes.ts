@@ -15,23 +15,35 @@ import {
     assignTicket,
     sendTicketMessage,
     closeTicket,
+    uploadTicketFile,
+    downloadTicketFile,
+    submitTicketFeedback,
+    reopenTicket,
 } from '../controllers/ticket.controller';
 import { authenticateRequest } from '../middleware/auth.middleware';
+import { requirePermission } from '../middleware/rbac.middleware';
+import { acceptSingleFile } from '../middleware/upload.middleware';
 
 const router = express.Router();
 
+// Signed download links (checked by signature, so they work in <img>/<a> tags)
+router.get('/:id/files/:messageId', downloadTicketFile);
+
 // All routes require authentication
 router.use(authenticateRequest);
 
 // Ticket CRUD
 router.get('/', getUserTickets);
-router.get('/employee/all', getAllTickets);
+router.get('/employee/all', requirePermission('tickets:view-all'), getAllTickets);
 router.get('/:id', getTicketDetails);
-router.post('/', createTicket);
+router.post('/', requirePermission('tickets:create'), createTicket);
 
 // Ticket actions
-router.post('/:id/assign', assignTicket);
+router.post('/:id/assign', requirePermission('tickets:assign'), assignTicket);
 router.post('/:id/messages', sendTicketMessage);
-router.put('/:id/close', closeTicket);
+router.post('/:id/files', acceptSingleFile('file'), uploadTicketFile);
+router.put('/:id/close', requirePermission('tickets:close'), closeTicket);
+router.post('/:id/reopen', reopenTicket);
+router.post('/:id/feedback', submitTicketFeedback);
 
 export default router;
@@ -0,0 +1,20 @@
+/**
+ * 👤 USER ROUTES
+ * 
+ * Express routes for the signed-in user's settings.
+ * 
+ * @author GharBazaar Backend Team
+ */
+
+import express from 'express';
+import { getPreferences, updatePreferences } from '../controllers/user.controller';
+import { authenticateRequest } from '../middleware/auth.middleware';
+
+const router = express.Router();
+
+router.use(authenticateRequest);
+
+router.get('/preferences', getPreferences);
+router.put('/preferences', updatePreferences);
+
+export default router;
@@ -15,11 +15,20 @@ import Conversation from '../models/conversation.model';
 import Message from '../models/message.model';
 import Ticket from '../models/ticket.model';
 import TicketMessage from '../models/ticketMessage.model';
+import User from '../models/user.model';
+import { hashPassword } from '../utils/password';
 
 /**
  * Demo data - matches frontend demo script
  */
 const demoData = {
+    users: [
+        { email: 'buyer@demo.com', displayName: 'Demo Buyer', role: 'buyer' },
+        { email: 'seller@demo.com', displayName: 'Demo Seller', role: 'seller' },
+        { email: 'employee@demo.com', displayName: 'Demo Employee', role: 'employee' },
+        { email: 'admin@demo.com', displayName: 'Demo Admin', role: 'admin' },
+    ],
+
     conversations: [
         {
             participants: ['demo_buyer_001', 'demo_seller_001'],
@@ -78,8 +87,18 @@ const seedDatabase = async () => {
         await Message.deleteMany({});
         await Ticket.deleteMany({ userId: /^demo_/ });
         await TicketMessage.deleteMany({});
+        await User.deleteMany({ email: /@demo\.com$/ });
         console.log('✅ Cleared old data\n');
 
+        // Seed demo accounts (password: password123)
+        console.log('👤 Seeding users...');
+        const passwordHash = await hashPassword('password123');
+        for (const userData of demoData.users) {
+            await User.create({ ...userData, passwordHash });
+            console.log(`   ✅ Created user: ${userData.email} (${userData.role})`);
+        }
+        console.log(`✅ Created ${demoData.users.length} users\n`);
+
         // Seed conversations
         console.log('💬 Seeding conversations...');
         for (const conv of demoData.conversations) {
@@ -87,23 +106,30 @@ const seedDatabase = async () => {
             console.log(`   ✅ Created conversation: ${conversation.propertyTitle}`);
 
             // Add demo messages
-            await Message.create({
+            const firstMessage = await Message.create({
                 conversationId: conversation._id,
                 senderId: conv.participants[0],
                 senderEmail: `${conv.participants[0]}@gharbazaar.in`,
                 content: 'Hi! Is this property still available?',
                 type: 'text',
-                read: true,
                 createdAt: new Date(Date.now() - 3600000), // 1 hour ago
             });
 
+            // The seller has read the buyer's question; the reply is still unread
+            conversation.readReceipts.push({
+                userId: conv.participants[1],
+                lastReadMessageId: firstMessage._id.toString(),
+                lastReadAt: firstMessage.createdAt,
+                readAt: new Date(),
+            });
+            await conversation.save();
+
             await Message.create({
                 conversationId: conversation._id,
                 senderId: conv.participants[1],
                 senderEmail: `${conv.participants[1]}@gharbazaar.in`,
                 content: 'Yes, it is! Would you like to schedule a visit?',
                 type: 'text',
-                read: false,
                 createdAt: new Date(),
             });
         }
@@ -128,6 +154,7 @@ const seedDatabase = async () => {
 
         console.log('🎉 Database seeding completed successfully!\n');
         console.log('📊 Summary:');
+        console.log(`   - ${demoData.users.length} users`);
         console.log(`   - ${demoData.conversations.length} conversations`);
         console.log(`   - ${demoData.conversations.length * 2} messages`);
         console.log(`   - ${demoData.tickets.length} tickets`);
@@ -4,14 +4,20 @@ import cors from 'cors';
 import helmet from 'helmet';
 import rateLimit from 'express-rate-limit';
 import config, { validateConfig } from './config';
+import { checkHolidayCoverage } from './config/businessCalendars';
 import { connectDatabase } from './utils/database';
 import { initializeSocket } from './socket';
+import { startBidExpirySweeper } from './utils/bidEvents';
+import { startNotificationDeliverySweeper } from './utils/notificationDelivery';
+import { startPaymentReconciliationSweeper } from './utils/paymentReconciliation';
+import { startTicketSlaSweeper } from './utils/ticketEvents';
 import apiRoutes from './routes';
 
 const startServer = async () => {
     try {
         console.log('\n🔧 Validating configuration...');
         validateConfig();
+        checkHolidayCoverage();
 
         console.log('\n💾 Attempting to connect to database...');
         try {
@@ -29,7 +35,10 @@ const startServer = async () => {
             credentials: true,
         }));
 
-        app.use(express.json());
+        app.use(express.json({
+            // Payment webhooks are signed over the exact bytes received
+            verify: (req, res, buf) => { (req as any).rawBody = buf; },
+        }));
         app.use(express.urlencoded({ extended: true }));
 
         const limiter = rateLimit({
@@ -50,6 +59,8 @@ const startServer = async () => {
                     health: '/api/v1/health',
                     chat: '/api/v1/chat/*',
                     tickets: '/api/v1/tickets/*',
+                    properties: '/api/v1/properties/*',
+                    bids: '/api/v1/bids/*',
                 },
                 socketIO: {
                     status: 'active',
@@ -69,6 +80,10 @@ const startServer = async () => {
         console.log('\n🔌 Setting up Socket.IO...');
         const io = initializeSocket(httpServer);
         app.set('io', io);
+        startBidExpirySweeper(io);
+        startNotificationDeliverySweeper();
+        startPaymentReconciliationSweeper();
+        startTicketSlaSweeper(io);
 
         httpServer.listen(config.port, () => {
             console.log('\n' + '='.repeat(60));
@@ -84,6 +99,8 @@ const startServer = async () => {
             console.log(`   - Health check: http://localhost:${config.port}/api/v1/health`);
             console.log(`   - Chat API: http://localhost:${config.port}/api/v1/chat/*`);
             console.log(`   - Ticket API: http://localhost:${config.port}/api/v1/tickets/*`);
+            console.log(`   - Property API: http://localhost:${config.port}/api/v1/properties/*`);
+            console.log(`   - Bid API: http://localhost:${config.port}/api/v1/bids/*`);
             console.log(`   - Socket.IO: ws://localhost:${config.port}`);
             console.log('\n✅ Server is ready to accept connections!\n');
         });
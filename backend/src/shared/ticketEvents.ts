@@ -0,0 +1,180 @@
+/**
+ * 🎫 TICKET SOCKET EVENT CONTRACT
+ *
+ * The Socket.IO events for support tickets, shared by the backend and the
+ * frontend (imported there as '@shared/ticketEvents'). Types only: this file
+ * must not import anything, so both packages can compile it.
+ *
+ * Server → client events go to the ticket's room, the 'employees' room, and
+ * the private rooms of the customer and the assigned agent:
+ * - ticket:created         a customer opened a ticket
+ * - ticket:assigned        an agent took (or was given) the ticket
+ * - ticket:unassigned      the ticket went back to the queue (its agent went offline)
+ * - ticket:message         a message was added, by the customer or an agent
+ * - ticket:status-changed  any status change (sent alongside assigned / closed / reopened)
+ * - ticket:closed          the ticket was closed
+ * - ticket:reopened        a closed ticket was opened again
+ *
+ * SLA escalations go to the 'supervisors' room and the assigned agent only:
+ * - ticket:sla-warning      an SLA target is close to being missed
+ * - ticket:sla-breached     an SLA target was missed
+ *
+ * Dates are ISO 8601 strings.
+ *
+ * @author GharBazaar Backend Team
+ */
+
+export type TicketStatus = 'open' | 'assigned' | 'in_progress' | 'resolved' | 'closed';
+
+export type TicketPriority = 'low' | 'medium' | 'high' | 'urgent';
+
+export type TicketSenderType = 'customer' | 'employee';
+
+export type TicketSlaTarget = 'firstResponse' | 'resolution';
+
+export interface TicketSlaClock {
+    // Working minutes allowed
+    targetMinutes: number;
+    dueAt: string;
+    warnAt: string;
+    completedAt?: string;
+    breachedAt?: string;
+    escalatedAt?: string;
+}
+
+export interface TicketSla {
+    policy: string;
+    calendar: string;
+    firstResponse: TicketSlaClock;
+    resolution: TicketSlaClock;
+}
+
+export interface TicketSummary {
+    id: string;
+    userId: string;
+    userRole: string;
+    categoryTitle: string;
+    subCategoryTitle: string;
+    problem: string;
+    status: TicketStatus;
+    priority: TicketPriority;
+    assignedTo?: string;
+    assignedToName?: string;
+    createdAt: string;
+    closedAt?: string;
+    sla?: TicketSla;
+}
+
+export interface TicketMessagePayload {
+    id: string;
+    ticketId: string;
+    senderId: string;
+    senderType: TicketSenderType;
+    message: string;
+    // Signed download link for an attached file (expires, so refetch rather than store it)
+    fileUrl?: string;
+    fileName?: string;
+    timestamp: string;
+}
+
+export interface TicketCreatedEvent {
+    ticketId: string;
+    // The customer who opened it
+    userId: string;
+    ticket: TicketSummary;
+}
+
+export interface TicketAssignedEvent {
+    ticketId: string;
+    userId: string;
+    assignedTo: string;
+    assignedToName: string;
+    previousAssignee?: string;
+    // Who made the assignment: the agent themselves when claiming, 'system:routing' when automatic
+    assignedBy: string;
+    status: TicketStatus;
+}
+
+export interface TicketUnassignedEvent {
+    ticketId: string;
+    userId: string;
+    previousAssignee: string;
+    reason: 'agent-offline';
+    status: TicketStatus;
+}
+
+export type TicketMessageEvent = TicketMessagePayload & {
+    // The ticket's customer
+    userId: string;
+};
+
+export interface TicketStatusChangedEvent {
+    ticketId: string;
+    userId: string;
+    status: TicketStatus;
+    previousStatus: TicketStatus;
+    assignedTo?: string;
+    changedBy: string;
+}
+
+export interface TicketClosedEvent {
+    ticketId: string;
+    userId: string;
+    status: 'closed';
+    closedAt: string;
+    closedBy: string;
+}
+
+export interface TicketReopenedEvent {
+    ticketId: string;
+    userId: string;
+    status: TicketStatus;
+    reopenedAt: string;
+    reopenedBy: string;
+}
+
+export interface TicketSlaEvent {
+    ticketId: string;
+    userId: string;
+    categoryTitle: string;
+    priority: TicketPriority;
+    status: TicketStatus;
+    target: TicketSlaTarget;
+    dueAt: string;
+    // Only on ticket:sla-breached (the due time that was missed)
+    breachedAt?: string;
+    assignedTo?: string;
+    assignedToName?: string;
+}
+
+export interface TicketServerToClientEvents {
+    'ticket:created': (event: TicketCreatedEvent) => void;
+    'ticket:assigned': (event: TicketAssignedEvent) => void;
+    'ticket:unassigned': (event: TicketUnassignedEvent) => void;
+    'ticket:message': (event: TicketMessageEvent) => void;
+    'ticket:status-changed': (event: TicketStatusChangedEvent) => void;
+    'ticket:closed': (event: TicketClosedEvent) => void;
+    'ticket:reopened': (event: TicketReopenedEvent) => void;
+    'ticket:sla-warning': (event: TicketSlaEvent) => void;
+    'ticket:sla-breached': (event: TicketSlaEvent) => void;
+}
+
+export interface TicketClientToServerEvents {
+    // Support staff: receive events for every ticket
+    join_employee_room: () => void;
+    // Supervisors: receive SLA escalations
+    join_supervisor_room: () => void;
+    join_ticket: (data: { ticketId: string }) => void;
+    leave_ticket: (data: { ticketId: string }) => void;
+    // Attach files with POST /tickets/:id/files instead.
+    // Agents can send a canned response, filled in on the server, in place of a message.
+    ticket_message: (
+        data: { ticketId: string; message: string } | { ticketId: string; cannedResponseId: string; propertyId?: string }
+    ) => void;
+    assign_ticket: (data: { ticketId: string }) => void;
+    close_ticket: (data: { ticketId: string }) => void;
+}
+
+export type TicketEventName = keyof TicketServerToClientEvents;
+
+export type TicketEventPayload<E extends TicketEventName> = Parameters<TicketServerToClientEvents[E]>[0];
@@ -10,6 +10,7 @@
 import { Socket } from 'socket.io';
 import { ExtendedError } from 'socket.io/dist/namespace';
 import { verifyToken, TokenPayload } from '../utils/jwt';
+import { isTokenRevoked } from '../utils/tokenStore';
 
 /**
  * Extended Socket interface with user data
@@ -29,13 +30,13 @@ export interface AuthenticatedSocket extends Socket {
  * 1. Client sends token in auth handshake: io.connect(url, { auth: { token } })
  * 2. Server receives connection attempt
  * 3. This middleware extracts and verifies the token
- * 4. If valid: connection succeeds, user data attached to socket
- * 5. If invalid: connection rejected with error message
+ * 4. If valid and not revoked: connection succeeds, user data attached to socket
+ * 5. If invalid or revoked: connection rejected with error message
  * 
  * @param socket - Socket.IO socket instance
  * @param next - Callback to continue or reject connection
  */
-export const authenticateSocket = (
+export const authenticateSocket = async (
     socket: Socket,
     next: (err?: ExtendedError) => void
 ) => {
@@ -54,12 +55,19 @@ export const authenticateSocket = (
         // This will throw an error if token is invalid or expired
         const decoded = verifyToken(token);
 
+        // Reject tokens from logged-out sessions
+        if (await isTokenRevoked(decoded)) {
+            console.warn(`⚠️  Socket connection rejected: revoked token for ${decoded.email}`);
+            return next(new Error('Token has been revoked. Please login again.'));
+        }
+
         // Token is valid! Attach user data to socket for future use
         // Now all event handlers can access socket.user
         (socket as AuthenticatedSocket).user = {
             userId: decoded.userId,
             email: decoded.email,
             role: decoded.role,
+            sid: decoded.sid,
         };
 
         console.log(`✅ Socket authenticated: ${decoded.email} (${decoded.userId})`);
@@ -11,8 +11,22 @@ import { Server, Socket } from 'socket.io';
 import { getSocketUser } from '../auth.middleware';
 import Conversation from '../../models/conversation.model';
 import Message from '../../models/message.model';
-import { isMongoDBAvailable, memoryConversations, memoryMessages } from '../../utils/memoryStore';
-import { v4 as uuidv4 } from 'uuid';
+import { isMongoDBAvailable, memoryConversations } from '../../utils/memoryStore';
+import { attachmentMessageFields } from '../../utils/chatAttachments';
+import {
+    createChatMessage,
+    toClientMessage,
+    buildReplyQuote,
+    findChatMessage,
+    forwardChatMessage,
+    isValidReaction,
+    toggleReaction,
+    summarizeReactions,
+    notifyChatRecipients,
+} from '../../utils/chatMessages';
+import { markConversationRead } from '../../utils/readReceipts';
+import { findBlockersAmong } from '../../utils/blockStore';
+import { userRoom } from '../index';
 
 /**
  * 📨 REGISTER CHAT EVENT HANDLERS
@@ -88,100 +102,72 @@ export const registerChatHandlers = (io: Server, socket: Socket) => {
      * User sends a message in a conversation.
      * Message is saved to database and broadcast to all participants.
      * 
-     * Frontend calls: socket.emit('send_message', { conversationId, content, type })
+     * Frontend calls: socket.emit('send_message', { conversationId, content })
+     * Attachments: upload via POST /chat/upload first, then
+     * socket.emit('send_message', { conversationId, content, attachmentId })
+     * Replies: add replyToId to quote an earlier message in the conversation
      */
     socket.on('send_message', async (data: {
         conversationId: string;
         content: string;
-        type?: 'text' | 'image' | 'file';
-        fileUrl?: string;
-        thumbnailUrl?: string;
-        fileName?: string;
-        fileSize?: number;
+        attachmentId?: string;
+        replyToId?: string;
     }) => {
         try {
-            const { conversationId, content, type = 'text', fileUrl, thumbnailUrl, fileName, fileSize } = data;
+            const { conversationId, content, attachmentId, replyToId } = data;
 
             console.log(`📨 Message from ${user.email} in ${conversationId}`);
 
-            let messageData;
+            let conversation;
             if (isMongoDBAvailable()) {
-                // Create the message in database
-                const message = await Message.create({
-                    conversationId,
-                    senderId: user.userId,
-                    senderEmail: user.email,
-                    content,
-                    type,
-                    fileUrl,
-                    thumbnailUrl,
-                    fileName,
-                    fileSize,
-                    read: false,
-                    edited: false,
-                    deleted: false,
-                });
-
-                // Update conversation's last message
-                await Conversation.findByIdAndUpdate(conversationId, {
-                    lastMessage: content.substring(0, 100),  // Preview (max 100 chars)
-                    lastMessageAt: new Date(),
-                });
-
-                messageData = {
-                    id: message._id.toString(),
-                    conversationId,
-                    senderId: user.userId,
-                    senderEmail: user.email,
-                    content,
-                    type,
-                    fileUrl,
-                    thumbnailUrl,
-                    fileName,
-                    fileSize,
-                    read: false,
-                    edited: false,
-                    deleted: false,
-                    createdAt: message.createdAt.toISOString(),
-                };
+                conversation = await Conversation.findById(conversationId);
             } else {
-                // In-memory message creation
-                const messageId = uuidv4();
-                const createdAt = new Date();
-                messageData = {
-                    id: messageId,
-                    conversationId,
-                    senderId: user.userId,
-                    senderEmail: user.email,
-                    content,
-                    type,
-                    fileUrl,
-                    thumbnailUrl,
-                    fileName,
-                    fileSize,
-                    read: false,
-                    edited: false,
-                    deleted: false,
-                    createdAt: createdAt.toISOString(),
-                };
-
-                // Store in memory
-                if (!memoryMessages.has(conversationId)) {
-                    memoryMessages.set(conversationId, []);
-                }
-                memoryMessages.get(conversationId).push(messageData);
+                conversation = memoryConversations.get(conversationId);
+            }
 
-                // Update conversation in memory
-                const conversation = memoryConversations.get(conversationId);
-                if (conversation) {
-                    conversation.lastMessage = content.substring(0, 100);
-                    conversation.lastMessageAt = createdAt;
+            if (!conversation || !conversation.participants.includes(user.userId)) {
+                socket.emit('error', { message: 'Conversation not found' });
+                return;
+            }
+
+            // Participants who blocked the sender no longer receive their messages
+            const others = conversation.participants.filter((p: string) => p !== user.userId);
+            if ((await findBlockersAmong(others, user.userId)).length > 0) {
+                socket.emit('error', { message: 'You can no longer send messages in this conversation' });
+                return;
+            }
+
+            // The message type and file details come from the stored upload, never the client
+            let attachment = null;
+            if (attachmentId) {
+                attachment = await attachmentMessageFields(attachmentId, conversationId, user.userId);
+                if (!attachment) {
+                    socket.emit('error', { message: 'Attachment not found in this conversation' });
+                    return;
+                }
+            }
+            let replyTo = null;
+            if (replyToId) {
+                replyTo = await buildReplyQuote(replyToId, conversationId);
+                if (!replyTo) {
+                    socket.emit('error', { message: 'Reply target not found' });
+                    return;
                 }
             }
 
+            const message = await createChatMessage(conversation, {
+                senderId: user.userId,
+                senderEmail: user.email,
+                content,
+                type: attachment ? attachment.type : 'text',
+                ...attachment,
+                replyTo,
+            });
+
             // Broadcast to ALL users in this conversation room
             // This includes the sender (for confirmation) and receiver
-            io.to(conversationId).emit('new_message', messageData);
+            io.to(conversationId).emit('new_message', toClientMessage(message));
+            await notifyChatRecipients(conversation, message, io);
 
             console.log(`✅ Message sent in conversation: ${conversationId}${!isMongoDBAvailable() ? ' (Memory Mode)' : ''}`);
 
@@ -212,38 +198,158 @@ export const registerChatHandlers = (io: Server, socket: Socket) => {
     /**
      * ✅ MARK MESSAGES AS READ
      * 
-     * User has read messages in a conversation (shows double checkmark ✓✓).
-     * Frontend calls: socket.emit('mark_as_read', { conversationId })
+     * Moves the user's read cursor up to a message (default: the latest one).
+     * Everyone in the conversation, and the reader's other tabs, get
+     * messages_read with the reader and their last-read message.
+     * Frontend calls: socket.emit('mark_as_read', { conversationId, messageId? })
      */
-    socket.on('mark_as_read', async (data: { conversationId: string }) => {
+    socket.on('mark_as_read', async (data: { conversationId: string; messageId?: string }) => {
         try {
-            const { conversationId } = data;
+            const { conversationId, messageId } = data;
 
-            // Mark all unread messages from OTHER users as read
-            await Message.updateMany(
-                {
-                    conversationId,
-                    senderId: { $ne: user.userId },  // Not sent by current user
-                    read: false,
-                },
-                {
-                    read: true,
-                }
-            );
+            let conversation;
+            if (isMongoDBAvailable()) {
+                conversation = await Conversation.findById(conversationId);
+            } else {
+                conversation = memoryConversations.get(conversationId);
+            }
 
-            // Notify the sender that their messages were read
-            socket.to(conversationId).emit('messages_read', {
+            if (!conversation || !conversation.participants.includes(user.userId)) {
+                socket.emit('error', { message: 'Conversation not found' });
+                return;
+            }
+
+            const receipt = await markConversationRead(conversation, user.userId, messageId);
+            if (!receipt) return;  // Already read up to there
+
+            io.to(conversationId).to(userRoom(user.userId)).emit('messages_read', {
                 conversationId,
-                userId: user.userId,
+                ...receipt,
             });
 
-            console.log(`✅ Messages marked as read in ${conversationId} by ${user.email}`);
+            console.log(`✅ ${user.email} read ${conversationId} up to ${receipt.lastReadMessageId}${!isMongoDBAvailable() ? ' (Memory Mode)' : ''}`);
 
         } catch (error) {
             console.error('❌ Error marking messages as read:', error);
         }
     });
 
+    /**
+     * 😀 TOGGLE REACTION
+     * 
+     * Adds the user's emoji to a message, or removes it if already there.
+     * Everyone in the conversation gets the message's updated reactions.
+     * Frontend calls: socket.emit('toggle_reaction', { messageId, emoji })
+     */
+    socket.on('toggle_reaction', async (data: { messageId: string; emoji: string }) => {
+        try {
+            const { messageId, emoji } = data;
+
+            if (!isValidReaction(emoji)) {
+                socket.emit('error', { message: 'Reactions must be a single emoji' });
+                return;
+            }
+
+            const message = await findChatMessage(messageId);
+            if (!message || message.deleted) {
+                socket.emit('error', { message: 'Message not found' });
+                return;
+            }
+
+            const conversationId = String(message.conversationId);
+            let conversation;
+            if (isMongoDBAvailable()) {
+                conversation = await Conversation.findById(conversationId);
+            } else {
+                conversation = memoryConversations.get(conversationId);
+            }
+
+            if (!conversation || !conversation.participants.includes(user.userId)) {
+                socket.emit('error', { message: 'Message not found' });
+                return;
+            }
+
+            const others = conversation.participants.filter((p: string) => p !== user.userId);
+            if ((await findBlockersAmong(others, user.userId)).length > 0) {
+                socket.emit('error', { message: 'You can no longer react in this conversation' });
+                return;
+            }
+
+            const reactions = await toggleReaction(message, user.userId, emoji);
+
+            io.to(conversationId).emit('message_reactions_updated', {
+                id: String(message._id),
+                conversationId,
+                reactions: summarizeReactions(reactions),
+            });
+
+        } catch (error) {
+            console.error('❌ Error toggling reaction:', error);
+            socket.emit('error', { message: 'Failed to update reaction' });
+        }
+    });
+
+    /**
+     * ↪️  FORWARD MESSAGE
+     * 
+     * Copies a message (and its attachment) into another conversation the
+     * user belongs to. The target room gets a normal new_message, marked
+     * as forwarded.
+     * Frontend calls: socket.emit('forward_message', { messageId, conversationId })
+     */
+    socket.on('forward_message', async (data: { messageId: string; conversationId: string }) => {
+        try {
+            const { messageId, conversationId } = data;
+
+            const source = await findChatMessage(messageId);
+            if (!source || source.deleted) {
+                socket.emit('error', { message: 'Message not found' });
+                return;
+            }
+
+            let sourceConversation;
+            let target;
+            if (isMongoDBAvailable()) {
+                sourceConversation = await Conversation.findById(source.conversationId);
+                target = await Conversation.findById(conversationId);
+            } else {
+                sourceConversation = memoryConversations.get(String(source.conversationId));
+                target = memoryConversations.get(conversationId);
+            }
+
+            // Only messages the user can see, into conversations they're in
+            if (!sourceConversation || !sourceConversation.participants.includes(user.userId)) {
+                socket.emit('error', { message: 'Message not found' });
+                return;
+            }
+            if (!target || !target.participants.includes(user.userId)) {
+                socket.emit('error', { message: 'Conversation not found' });
+                return;
+            }
+
+            const others = target.participants.filter((p: string) => p !== user.userId);
+            if ((await findBlockersAmong(others, user.userId)).length > 0) {
+                socket.emit('error', { message: 'You can no longer send messages in this conversation' });
+                return;
+            }
+
+            const message = await forwardChatMessage(source, target, { userId: user.userId, email: user.email });
+            if (!message) {
+                socket.emit('error', { message: 'Attachment is no longer available' });
+                return;
+            }
+
+            io.to(conversationId).emit('new_message', toClientMessage(message));
+            await notifyChatRecipients(target, message, io);
+
+            console.log(`↪️  ${user.email} forwarded ${messageId} to ${conversationId}${!isMongoDBAvailable() ? ' (Memory Mode)' : ''}`);
+
+        } catch (error) {
+            console.error('❌ Error forwarding message:', error);
+            socket.emit('error', { message: 'Failed to forward message' });
+        }
+    });
+
     /**
      * ✏️  EDIT MESSAGE
      * 
@@ -317,6 +423,12 @@ export const registerChatHandlers = (io: Server, socket: Socket) => {
             message.content = '[Message deleted]';
             await message.save();
 
+            // Replies keep their place in the thread but stop quoting the text
+            await Message.updateMany(
+                { 'replyTo.messageId': message._id.toString() },
+                { $set: { 'replyTo.content': '[Message deleted]' }, $unset: { 'replyTo.fileName': 1 } }
+            );
+
             // Broadcast deletion to all users
             io.to(message.conversationId.toString()).emit('message_deleted', {
                 id: message._id.toString(),
@@ -1,28 +1,29 @@
 import { Server, Socket } from 'socket.io';
 import { getSocketUser } from '../auth.middleware';
-import Presence from '../../models/presence.model';
-import { isMongoDBAvailable } from '../../utils/memoryStore';
-
-const memoryPresence = new Map<string, any>();
+import { socketHasPermission } from '../rbac.middleware';
+import { userRoom } from '..';
+import {
+    countOnlineUsers,
+    findPresence,
+    PresenceStatus,
+    setPresenceStatus,
+    touchPresence,
+} from '../../utils/presenceStore';
+import { handleAgentOffline, handleAgentOnline } from '../../utils/ticketRouting';
 
 export const registerPresenceHandlers = (io: Server, socket: Socket) => {
     const user = getSocketUser(socket);
 
+    // Support agents' presence decides who gets routed tickets
+    const isAgent = socketHasPermission(socket, 'tickets:respond');
+
     const handleUserOnline = async () => {
         try {
-            let presence;
-            if (isMongoDBAvailable()) {
-                presence = await Presence.findOneAndUpdate(
-                    { userId: user.userId },
-                    { userId: user.userId, status: 'online', lastSeen: new Date(), socketId: socket.id },
-                    { upsert: true, new: true }
-                );
-            } else {
-                presence = { userId: user.userId, status: 'online', lastSeen: new Date(), socketId: socket.id };
-                memoryPresence.set(user.userId, presence);
-            }
+            await setPresenceStatus(user.userId, 'online', socket.id);
 
             io.emit('presence:user-online', { userId: user.userId, status: 'online' });
+
+            if (isAgent) await handleAgentOnline(user.userId, io);
         } catch (error) {
             console.error('Error updating online status:', error);
         }
@@ -30,48 +31,35 @@ export const registerPresenceHandlers = (io: Server, socket: Socket) => {
 
     const handleUserOffline = async () => {
         try {
-            if (isMongoDBAvailable()) {
-                await Presence.findOneAndUpdate(
-                    { userId: user.userId },
-                    { status: 'offline', lastSeen: new Date(), socketId: null }
-                );
-            } else {
-                const presence = memoryPresence.get(user.userId);
-                if (presence) {
-                    presence.status = 'offline';
-                    presence.lastSeen = new Date();
-                    presence.socketId = null;
-                }
-            }
+            // Still connected in another tab
+            const openSockets = await io.in(userRoom(user.userId)).fetchSockets();
+            if (openSockets.length > 0) return;
+
+            await setPresenceStatus(user.userId, 'offline');
 
             io.emit('presence:user-offline', {
                 userId: user.userId,
                 status: 'offline',
                 lastSeen: new Date().toISOString(),
             });
+
+            if (isAgent) handleAgentOffline(user.userId, io);
         } catch (error) {
             console.error('Error updating offline status:', error);
         }
     };
 
-    socket.on('presence:update-status', async (data: { status: 'online' | 'away' | 'offline' }) => {
+    socket.on('presence:update-status', async (data: { status: PresenceStatus }) => {
         try {
             const { status } = data;
 
-            if (isMongoDBAvailable()) {
-                await Presence.findOneAndUpdate(
-                    { userId: user.userId },
-                    { status, lastSeen: new Date() }
-                );
-            } else {
-                const presence = memoryPresence.get(user.userId);
-                if (presence) {
-                    presence.status = status;
-                    presence.lastSeen = new Date();
-                }
-            }
+            await setPresenceStatus(user.userId, status, socket.id);
 
             io.emit('presence:status-changed', { userId: user.userId, status });
+
+            // Away agents keep their tickets but get no new ones
+            if (isAgent && status === 'online') await handleAgentOnline(user.userId, io);
+            if (isAgent && status === 'offline') handleAgentOffline(user.userId, io);
         } catch (error) {
             console.error('Error updating status:', error);
         }
@@ -81,12 +69,7 @@ export const registerPresenceHandlers = (io: Server, socket: Socket) => {
         try {
             const { userIds } = data;
 
-            let presenceData = [];
-            if (isMongoDBAvailable()) {
-                presenceData = await Presence.find({ userId: { $in: userIds } });
-            } else {
-                presenceData = userIds.map(id => memoryPresence.get(id)).filter(p => p !== undefined);
-            }
+            const presenceData = await findPresence(userIds);
 
             socket.emit('presence:status-response', { users: presenceData });
         } catch (error) {
@@ -96,15 +79,7 @@ export const registerPresenceHandlers = (io: Server, socket: Socket) => {
 
     socket.on('presence:heartbeat', async () => {
         try {
-            if (isMongoDBAvailable()) {
-                await Presence.findOneAndUpdate(
-                    { userId: user.userId },
-                    { lastSeen: new Date() }
-                );
-            } else {
-                const presence = memoryPresence.get(user.userId);
-                if (presence) presence.lastSeen = new Date();
-            }
+            await touchPresence(user.userId);
         } catch (error) {
             console.error('Error updating heartbeat:', error);
         }
@@ -116,11 +91,7 @@ export const registerPresenceHandlers = (io: Server, socket: Socket) => {
 
 export const getOnlineUsersCount = async (): Promise<number> => {
     try {
-        if (isMongoDBAvailable()) {
-            return await Presence.countDocuments({ status: 'online' });
-        } else {
-            return Array.from(memoryPresence.values()).filter((p: any) => p.status === 'online').length;
-        }
+        return await countOnlineUsers();
     } catch (error) {
         console.error('Error counting online users:', error);
         return 0;
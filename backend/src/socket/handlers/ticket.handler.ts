@@ -9,10 +9,14 @@
 
 import { Server, Socket } from 'socket.io';
 import { getSocketUser } from '../auth.middleware';
-import Ticket from '../../models/ticket.model';
-import TicketMessage from '../../models/ticketMessage.model';
-import { isMongoDBAvailable, memoryTickets, memoryTicketMessages } from '../../utils/memoryStore';
-import { v4 as uuidv4 } from 'uuid';
+import { socketHasPermission, emitForbidden } from '../rbac.middleware';
+import { isMongoDBAvailable } from '../../utils/memoryStore';
+import { notify } from '../../utils/notifications';
+import { addTicketMessage, findTicketById, markTicketClosed } from '../../utils/ticketStore';
+import { emitTicketAssigned, emitTicketClosed, emitTicketMessage, SUPERVISOR_ROOM } from '../../utils/ticketEvents';
+import { assignTicketManually, routeWaitingTickets, TicketAssignmentError } from '../../utils/ticketRouting';
+import { findCannedResponse, isCannedResponseVisibleTo, recordCannedResponseUse } from '../../utils/cannedResponseStore';
+import { fillCannedResponse, InvalidCannedResponseError } from '../../utils/cannedResponses';
 
 /**
  * 🎫 REGISTER TICKET EVENT HANDLERS
@@ -35,20 +39,30 @@ export const registerTicketHandlers = (io: Server, socket: Socket) => {
      * This allows real-time dashboard updates for all support staff.
      * 
      * Frontend (employee only): socket.emit('join_employee_room')
+     * Requires 'employee-room:join' (checked by the RBAC middleware).
      */
     socket.on('join_employee_room', () => {
-        // Only employees can join this room
-        if (user.role !== 'employee' && user.role !== 'admin') {
-            socket.emit('error', { message: 'Only employees can join employee room' });
-            return;
-        }
-
         const employeeRoom = 'employees';
         socket.join(employeeRoom);
 
         console.log(`👔 Employee ${user.email} joined employee broadcast room`);
     });
 
+    /**
+     * 🚨 JOIN SUPERVISOR ROOM
+     * 
+     * Supervisors join a room that receives SLA escalations
+     * (ticket:sla-warning and ticket:sla-breached) for every ticket.
+     * 
+     * Frontend (supervisor only): socket.emit('join_supervisor_room')
+     * Requires 'tickets:supervise' (checked by the RBAC middleware).
+     */
+    socket.on('join_supervisor_room', () => {
+        socket.join(SUPERVISOR_ROOM);
+
+        console.log(`🚨 Supervisor ${user.email} joined SLA escalation room`);
+    });
+
     /**
      * 🎫 JOIN SPECIFIC TICKET
      * 
@@ -62,25 +76,18 @@ export const registerTicketHandlers = (io: Server, socket: Socket) => {
             const { ticketId } = data;
 
             // Verify ticket exists
-            let ticket;
-            if (isMongoDBAvailable()) {
-                ticket = await Ticket.findById(ticketId);
-            } else {
-                ticket = memoryTickets.get(ticketId);
-            }
-
+            const ticket = await findTicketById(ticketId);
             if (!ticket) {
                 socket.emit('error', { message: 'Ticket not found' });
                 return;
             }
 
-            // Authorization: Customer must own ticket, or be assigned employee
+            // Authorization: Customer must own ticket, or be assigned employee / support staff
             const isOwner = ticket.userId === user.userId;
             const isAssignedEmployee = ticket.assignedTo === user.userId;
-            const isEmployee = user.role === 'employee' || user.role === 'admin';
 
-            if (!isOwner && !isAssignedEmployee && !isEmployee) {
-                socket.emit('error', { message: 'Not authorized for this ticket' });
+            if (!isOwner && !isAssignedEmployee && !socketHasPermission(socket, 'tickets:view-all')) {
+                emitForbidden(socket, 'join_ticket', ['tickets:view-all']);
                 return;
             }
 
@@ -114,105 +121,65 @@ export const registerTicketHandlers = (io: Server, socket: Socket) => {
      * Message is saved and broadcast to all participants.
      * 
      * Frontend: socket.emit('ticket_message', { ticketId, message })
+     * Agents can send a canned response instead:
+     * socket.emit('ticket_message', { ticketId, cannedResponseId, propertyId? })
+     * Files are attached with POST /tickets/:id/files.
      */
     socket.on('ticket_message', async (data: {
         ticketId: string;
-        message: string;
-        fileUrl?: string;
-        fileName?: string;
+        message?: string;
+        cannedResponseId?: string;
+        propertyId?: string;
     }) => {
         try {
-            const { ticketId, message, fileUrl, fileName } = data;
-
-            // Verify ticket exists
-            let ticket;
-            if (isMongoDBAvailable()) {
-                ticket = await Ticket.findById(ticketId);
-            } else {
-                ticket = memoryTickets.get(ticketId);
-            }
+            const { ticketId, cannedResponseId, propertyId } = data;
 
+            const ticket = await findTicketById(ticketId);
             if (!ticket) {
                 socket.emit('error', { message: 'Ticket not found' });
                 return;
             }
 
-            // Determine sender type
-            const isEmployee = user.role === 'employee' || user.role === 'admin';
+            // Determine sender type: support staff reply as employees, everyone else must own the ticket
+            const isEmployee = socketHasPermission(socket, 'tickets:respond');
+            if (!isEmployee && ticket.userId !== user.userId) {
+                emitForbidden(socket, 'ticket_message', ['tickets:respond']);
+                return;
+            }
             const senderType = isEmployee ? 'employee' : 'customer';
 
-            let ticketMessage;
-            if (isMongoDBAvailable()) {
-                // Create the ticket message
-                ticketMessage = await TicketMessage.create({
-                    ticketId,
-                    senderId: user.userId,
-                    senderType,
-                    message,
-                    fileUrl,
-                    fileName,
-                    timestamp: new Date(),
-                });
-
-                // Update ticket status if employee responds
-                if (isEmployee && ticket.status === 'assigned') {
-                    ticket.status = 'in_progress';
-                    await ticket.save();
-                }
-            } else {
-                // In-memory ticket message creation
-                const messageId = uuidv4();
-                const timestamp = new Date();
-                ticketMessage = {
-                    _id: messageId,
-                    ticketId,
-                    senderId: user.userId,
-                    senderType,
-                    message,
-                    fileUrl,
-                    fileName,
-                    timestamp,
-                };
-
-                // Store in memory
-                if (!memoryTicketMessages.has(ticketId)) {
-                    memoryTicketMessages.set(ticketId, []);
-                }
-                memoryTicketMessages.get(ticketId).push(ticketMessage);
-
-                // Update ticket status if employee responds
-                if (isEmployee && ticket.status === 'assigned') {
-                    ticket.status = 'in_progress';
+            // Fill in a canned response's placeholders for this ticket
+            let message = data.message || '';
+            let cannedResponse: any = null;
+            if (cannedResponseId) {
+                cannedResponse = isEmployee ? await findCannedResponse(cannedResponseId) : null;
+                if (!cannedResponse || !isCannedResponseVisibleTo(cannedResponse, user.userId)) {
+                    socket.emit('error', { message: 'Canned response not found' });
+                    return;
                 }
+                message = await fillCannedResponse(cannedResponse, {
+                    ticket,
+                    agentId: user.userId,
+                    ...(propertyId ? { propertyId } : {}),
+                });
             }
 
-            // Prepare message data for broadcast
-            const messageData = {
-                id: isMongoDBAvailable() ? ticketMessage._id.toString() : ticketMessage._id,
-                ticketId,
+            // Save (an agent's first reply moves the ticket to in_progress) and broadcast
+            const { message: ticketMessage, previousStatus } = await addTicketMessage(ticket, {
                 senderId: user.userId,
                 senderType,
                 message,
-                fileUrl,
-                fileName,
-                timestamp: isMongoDBAvailable() ? ticketMessage.timestamp.toISOString() : ticketMessage.timestamp.toISOString(),
-            };
-
-            // Broadcast to everyone in the ticket room
-            io.to(ticketId).emit('ticket:customer-message', messageData);
-
-            // If customer sent message, notify all employees
-            if (senderType === 'customer') {
-                io.to('employees').emit('ticket:new-message', {
-                    ticketId,
-                    userId: user.userId,
-                    preview: message.substring(0, 50),
-                });
-            }
+            });
+            emitTicketMessage(io, ticket, ticketMessage, previousStatus);
+            if (cannedResponse) await recordCannedResponseUse(cannedResponse);
 
             console.log(`✅ Ticket message sent: ${ticketId} by ${senderType}`);
 
         } catch (error) {
+            if (error instanceof InvalidCannedResponseError) {
+                socket.emit('error', { message: error.message });
+                return;
+            }
             console.error('❌ Error sending ticket message:', error);
             socket.emit('error', { message: 'Failed to send message' });
         }
@@ -223,62 +190,42 @@ export const registerTicketHandlers = (io: Server, socket: Socket) => {
      * 
      * Employee assigns a ticket to themselves.
      * Frontend (employee): socket.emit('assign_ticket', { ticketId })
+     * Requires 'tickets:assign' (checked by the RBAC middleware).
      */
     socket.on('assign_ticket', async (data: { ticketId: string }) => {
         try {
             const { ticketId } = data;
 
-            // Only employees can assign tickets
-            if (user.role !== 'employee' && user.role !== 'admin') {
-                socket.emit('error', { message: 'Only employees can assign tickets' });
-                return;
-            }
-
-            let ticket;
-            if (isMongoDBAvailable()) {
-                // Update the ticket
-                ticket = await Ticket.findByIdAndUpdate(
-                    ticketId,
-                    {
-                        assignedTo: user.userId,
-                        assignedToName: user.email.split('@')[0], // Simple name from email
-                        status: 'assigned',
-                    },
-                    { new: true }
-                );
-            } else {
-                // Update in memory
-                ticket = memoryTickets.get(ticketId);
-                if (ticket) {
-                    ticket.assignedTo = user.userId;
-                    ticket.assignedToName = user.email.split('@')[0];
-                    ticket.status = 'assigned';
-                }
-            }
-
+            const ticket = await findTicketById(ticketId);
             if (!ticket) {
                 socket.emit('error', { message: 'Ticket not found' });
                 return;
             }
 
-            // Notify everyone in the ticket room
-            io.to(ticketId).emit('ticket:assigned', {
-                ticketId,
-                assignedTo: user.userId,
-                assignedToName: user.email.split('@')[0],
-                status: 'assigned',
+            const change = await assignTicketManually(ticket, {
+                id: user.userId,
+                name: user.email.split('@')[0], // Simple name from email
             });
 
-            // Notify all employees
-            io.to('employees').emit('ticket:status-changed', {
-                ticketId,
-                status: 'assigned',
-                assignedTo: user.userId,
-            });
+            // Notify the ticket's followers and all employees
+            emitTicketAssigned(io, ticket, { ...change, assignedBy: user.userId });
+
+            // Let the customer know someone is on it
+            await notify(ticket.userId, {
+                type: 'system',
+                title: 'Your support ticket has been assigned',
+                message: `${ticket.assignedToName} is now handling "${ticket.subCategoryTitle}"`,
+                link: '/dashboard/help',
+                metadata: { ticketId },
+            }, io);
 
             console.log(`✅ Ticket ${ticketId} assigned to ${user.email}`);
 
         } catch (error) {
+            if (error instanceof TicketAssignmentError) {
+                socket.emit('error', { message: error.message });
+                return;
+            }
             console.error('❌ Error assigning ticket:', error);
             socket.emit('error', { message: 'Failed to assign ticket' });
         }
@@ -289,38 +236,38 @@ export const registerTicketHandlers = (io: Server, socket: Socket) => {
      * 
      * Employee closes a resolved ticket.
      * Frontend (employee): socket.emit('close_ticket', { ticketId })
+     * Requires 'tickets:close' (checked by the RBAC middleware).
      */
     socket.on('close_ticket', async (data: { ticketId: string }) => {
         try {
             const { ticketId } = data;
 
-            // Only assigned employee can close
-            const ticket = await Ticket.findById(ticketId);
-
+            const ticket = await findTicketById(ticketId);
             if (!ticket) {
                 socket.emit('error', { message: 'Ticket not found' });
                 return;
             }
 
+            // Only assigned employee can close
             if (ticket.assignedTo !== user.userId) {
                 socket.emit('error', { message: 'Only assigned employee can close this ticket' });
                 return;
             }
 
-            // Update ticket status
-            ticket.status = 'closed';
-            ticket.closedAt = new Date();
-            await ticket.save();
+            // Closing again would move closedAt and with it the customer's reopen window
+            if (ticket.status === 'closed') {
+                socket.emit('error', { message: 'Ticket is already closed' });
+                return;
+            }
 
-            // Notify everyone
-            io.to(ticketId).emit('ticket:closed', {
-                ticketId,
-                status: 'closed',
-                closedAt: ticket.closedAt.toISOString(),
-            });
+            const previousStatus = await markTicketClosed(ticket, user.userId);
+            emitTicketClosed(io, ticket, previousStatus, user.userId);
 
             console.log(`✅ Ticket ${ticketId} closed by ${user.email}`);
 
+            // The agent has room for a waiting ticket now
+            await routeWaitingTickets(io);
+
         } catch (error) {
             console.error('❌ Error closing ticket:', error);
             socket.emit('error', { message: 'Failed to close ticket' });
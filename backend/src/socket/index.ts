@@ -2,10 +2,16 @@ import { Server as HTTPServer } from 'http';
 import { Server, Socket } from 'socket.io';
 import config from '../config';
 import { authenticateSocket } from './auth.middleware';
+import { authorizeSocketEvents } from './rbac.middleware';
 import { registerChatHandlers } from './handlers/chat.handler';
 import { registerTicketHandlers } from './handlers/ticket.handler';
 import { registerPresenceHandlers } from './handlers/presence.handler';
 
+/**
+ * Private room every socket joins for its user, for server → user events
+ */
+export const userRoom = (userId: string) => `user:${userId}`;
+
 export const initializeSocket = (httpServer: HTTPServer): Server => {
     console.log('🔌 Initializing Socket.IO server...');
 
@@ -31,6 +37,11 @@ export const initializeSocket = (httpServer: HTTPServer): Server => {
         console.log(`   Socket ID: ${socket.id}`);
         console.log(`   Role: ${user.role || 'user'}`);
 
+        socket.join(userRoom(user.userId));
+
+        // Role/permission checks run before any event handler
+        socket.use(authorizeSocketEvents(socket));
+
         registerChatHandlers(io, socket);
         registerTicketHandlers(io, socket);
         registerPresenceHandlers(io, socket);
@@ -74,3 +85,21 @@ export const getSocketStats = (io: Server) => {
         rooms: Array.from(io.sockets.adapter.rooms.keys()),
     };
 };
+
+/**
+ * Force-disconnect a user's live sockets after their session is revoked.
+ * Pass a sessionId to only drop sockets opened with that session's tokens.
+ */
+export const disconnectUserSockets = (io: Server, userId: string, sessionId?: string): number => {
+    let count = 0;
+    for (const socket of io.sockets.sockets.values()) {
+        const socketUser = (socket as any).user;
+        if (socketUser?.userId !== userId) continue;
+        if (sessionId && socketUser.sid !== sessionId) continue;
+
+        socket.emit('auth:revoked', { message: 'Your session has ended. Please login again.' });
+        socket.disconnect(true);
+        count++;
+    }
+    return count;
+};
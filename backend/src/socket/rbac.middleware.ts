@@ -0,0 +1,60 @@
+/**
+ * 🛡️ SOCKET.IO ROLE-BASED ACCESS CONTROL
+ *
+ * Per-socket middleware that checks every incoming event against the
+ * permission matrix before it reaches a handler. Events that aren't listed
+ * here are open to any authenticated user (handlers still do ownership checks).
+ *
+ * Denied events are dropped and the client receives:
+ * socket.on('error', { code: 'FORBIDDEN', message, event, required })
+ *
+ * @author GharBazaar Backend Team
+ */
+
+import { Socket } from 'socket.io';
+import { getSocketUser } from './auth.middleware';
+import { Permission, hasPermission, buildForbiddenError } from '../config/permissions';
+
+/**
+ * Permissions required for each client → server event
+ */
+export const SOCKET_EVENT_PERMISSIONS: Record<string, Permission[]> = {
+    'join_employee_room': ['employee-room:join'],
+    'join_supervisor_room': ['tickets:supervise'],
+    'assign_ticket': ['tickets:assign'],
+    'close_ticket': ['tickets:close'],
+};
+
+/**
+ * Send a consistent FORBIDDEN error event to the client
+ */
+export const emitForbidden = (socket: Socket, event: string, required: string[]) => {
+    socket.emit('error', { ...buildForbiddenError(required), event });
+};
+
+/**
+ * True if the socket's user has all the given permissions
+ */
+export const socketHasPermission = (socket: Socket, ...permissions: Permission[]): boolean => {
+    return hasPermission(getSocketUser(socket)?.role, ...permissions);
+};
+
+/**
+ * 🔒 AUTHORIZE SOCKET EVENTS
+ *
+ * Register with: socket.use(authorizeSocketEvents(socket))
+ */
+export const authorizeSocketEvents = (socket: Socket) => {
+    return ([event]: any[], next: (err?: Error) => void) => {
+        const required = SOCKET_EVENT_PERMISSIONS[event];
+
+        if (required && !socketHasPermission(socket, ...required)) {
+            const user = getSocketUser(socket);
+            console.warn(`⚠️  Forbidden: ${user?.email} (${user?.role || 'no role'}) tried '${event}'`);
+            emitForbidden(socket, event, required);
+            return;
+        }
+
+        next();
+    };
+};
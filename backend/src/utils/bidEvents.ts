@@ -0,0 +1,48 @@
+/**
+ * 📣 BID EVENTS
+ *
+ * Real-time bid updates, sent to the buyer's and seller's private rooms:
+ * bid:created, bid:countered, bid:accepted, bid:rejected, bid:withdrawn, bid:expired
+ *
+ * Payload: { bid }
+ *
+ * Also runs the periodic sweeper that expires bids nobody responded to.
+ *
+ * @author GharBazaar Backend Team
+ */
+
+import { Server } from 'socket.io';
+import config from '../config';
+import { userRoom } from '../socket';
+import { expireDueBids } from './bidStore';
+
+export type BidEvent = 'bid:created' | 'bid:countered' | 'bid:accepted' | 'bid:rejected' | 'bid:withdrawn' | 'bid:expired';
+
+export const emitBidEvent = (io: Server | undefined, event: BidEvent, bid: any) => {
+    if (!io) return;
+    io.to(userRoom(bid.buyerId)).to(userRoom(bid.sellerId)).emit(event, { bid });
+};
+
+/**
+ * ⏰ START BID EXPIRY SWEEPER
+ *
+ * Expires stale bids every BID_SWEEP_INTERVAL_SECONDS. Reads also expire
+ * due bids on the spot, so the sweep only affects how soon users are notified.
+ */
+export const startBidExpirySweeper = (io: Server): NodeJS.Timeout => {
+    const sweep = async () => {
+        try {
+            const expired = await expireDueBids();
+            expired.forEach(bid => emitBidEvent(io, 'bid:expired', bid));
+            if (expired.length) {
+                console.log(`⏰ Expired ${expired.length} bid(s)`);
+            }
+        } catch (error) {
+            console.error('❌ Bid expiry sweep failed:', error);
+        }
+    };
+
+    const timer = setInterval(sweep, config.bids.sweepIntervalSeconds * 1000);
+    timer.unref();
+    return timer;
+};
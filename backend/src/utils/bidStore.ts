@@ -0,0 +1,156 @@
+/**
+ * 💰 BID STORE
+ *
+ * Data-access helpers for bids that work against MongoDB or the
+ * in-memory store, so the bid controller and expiry sweeper don't need to branch.
+ *
+ * Every status change goes through transitionBid(), which only applies
+ * when the bid is still in one of the expected statuses and appends an
+ * entry to the bid's audit history. Two requests racing on the same bid
+ * can't both win.
+ *
+ * @author GharBazaar Backend Team
+ */
+
+import mongoose from 'mongoose';
+import { v4 as uuidv4 } from 'uuid';
+import config from '../config';
+import Bid, { BidStatus, IBidHistoryEntry, ACTIVE_BID_STATUSES } from '../models/bid.model';
+import { isMongoDBAvailable, memoryBids } from './memoryStore';
+
+/**
+ * Error thrown when accepting a bid on a property that already has an accepted bid
+ */
+export class AcceptedBidExistsError extends Error {
+    constructor(propertyId: string) {
+        super(`An offer has already been accepted for property ${propertyId}`);
+        this.name = 'AcceptedBidExistsError';
+    }
+}
+
+export interface BidFilter {
+    propertyId?: string;
+    buyerId?: string;
+    sellerId?: string;
+    statuses?: readonly BidStatus[];
+    expiresBefore?: Date;
+}
+
+/**
+ * When a bid created or countered now stops waiting for a response
+ */
+export const nextBidExpiry = (): Date =>
+    new Date(Date.now() + config.bids.expiryHours * 60 * 60 * 1000);
+
+export const findBidById = async (id: string): Promise<any | null> => {
+    if (isMongoDBAvailable()) {
+        if (!mongoose.isValidObjectId(id)) return null;
+        return Bid.findById(id);
+    }
+    return memoryBids.get(id) || null;
+};
+
+/**
+ * Find bids matching all given filters, newest first
+ */
+export const findBids = async (filter: BidFilter): Promise<any[]> => {
+    if (isMongoDBAvailable()) {
+        const query: Record<string, any> = {};
+        if (filter.propertyId) query.propertyId = filter.propertyId;
+        if (filter.buyerId) query.buyerId = filter.buyerId;
+        if (filter.sellerId) query.sellerId = filter.sellerId;
+        if (filter.statuses) query.status = { $in: filter.statuses };
+        if (filter.expiresBefore) query.expiresAt = { $lte: filter.expiresBefore };
+        return Bid.find(query).sort({ createdAt: -1 });
+    }
+
+    return Array.from(memoryBids.values())
+        .filter((bid: any) =>
+            (!filter.propertyId || bid.propertyId === filter.propertyId) &&
+            (!filter.buyerId || bid.buyerId === filter.buyerId) &&
+            (!filter.sellerId || bid.sellerId === filter.sellerId) &&
+            (!filter.statuses || filter.statuses.includes(bid.status)) &&
+            (!filter.expiresBefore || bid.expiresAt <= filter.expiresBefore)
+        )
+        .sort((a: any, b: any) => b.createdAt - a.createdAt);
+};
+
+export const hasAcceptedBid = async (propertyId: string): Promise<boolean> => {
+    if (isMongoDBAvailable()) {
+        return !!(await Bid.exists({ propertyId, status: 'accepted' }));
+    }
+    return Array.from(memoryBids.values()).some(
+        (bid: any) => bid.propertyId === propertyId && bid.status === 'accepted'
+    );
+};
+
+export const createBid = async (data: Record<string, any>, entry: IBidHistoryEntry): Promise<any> => {
+    const fields = { ...data, status: 'open', expiresAt: nextBidExpiry(), history: [entry] };
+
+    if (isMongoDBAvailable()) {
+        return Bid.create(fields);
+    }
+
+    const now = new Date();
+    const bid = { _id: uuidv4(), ...fields, createdAt: now, updatedAt: now };
+    memoryBids.set(bid._id, bid);
+    return bid;
+};
+
+/**
+ * Move a bid to a new status if it is still in one of `from`.
+ * Returns the updated bid, or null if it was changed by someone else first.
+ */
+export const transitionBid = async (
+    bid: any,
+    from: readonly BidStatus[],
+    updates: Record<string, any>,
+    entry: IBidHistoryEntry
+): Promise<any | null> => {
+    if (isMongoDBAvailable()) {
+        try {
+            return await Bid.findOneAndUpdate(
+                { _id: bid._id, status: { $in: from } },
+                { $set: updates, $push: { history: entry } },
+                { new: true }
+            );
+        } catch (error: any) {
+            // Unique partial index: one accepted bid per property
+            if (error?.code === 11000) throw new AcceptedBidExistsError(bid.propertyId);
+            throw error;
+        }
+    }
+
+    const current = memoryBids.get(String(bid._id));
+    if (!current || !from.includes(current.status)) return null;
+
+    if (updates.status === 'accepted' && await hasAcceptedBid(current.propertyId)) {
+        throw new AcceptedBidExistsError(current.propertyId);
+    }
+
+    Object.assign(current, updates, { updatedAt: new Date() });
+    current.history.push(entry);
+    return current;
+};
+
+/**
+ * Expire open or countered bids whose response window has passed.
+ * Returns the bids that were expired by this call.
+ */
+export const expireDueBids = async (filter: Omit<BidFilter, 'statuses' | 'expiresBefore'> = {}): Promise<any[]> => {
+    const now = new Date();
+    const due = await findBids({ ...filter, statuses: ACTIVE_BID_STATUSES, expiresBefore: now });
+    const expired: any[] = [];
+
+    for (const bid of due) {
+        const updated = await transitionBid(
+            bid,
+            ACTIVE_BID_STATUSES,
+            { status: 'expired', closedAt: now },
+            { action: 'expired', actorId: 'system', actorRole: 'system', at: now }
+        );
+        if (updated) expired.push(updated);
+    }
+
+    return expired;
+};
@@ -0,0 +1,67 @@
+/**
+ * 🚫 BLOCK STORE
+ *
+ * User-to-user blocks, shared by MongoDB and in-memory mode. A blocked user
+ * can't send messages to the person who blocked them, and can't start new
+ * conversations with them.
+ *
+ * @author GharBazaar Backend Team
+ */
+
+import UserBlock from '../models/userBlock.model';
+import { isMongoDBAvailable, memoryUserBlocks } from './memoryStore';
+
+const memoryKey = (blockerId: string, blockedId: string) => `${blockerId}:${blockedId}`;
+
+export const blockUser = async (blockerId: string, blockedId: string, conversationId?: string): Promise<void> => {
+    if (isMongoDBAvailable()) {
+        await UserBlock.updateOne(
+            { blockerId, blockedId },
+            { $setOnInsert: { blockerId, blockedId, conversationId } },
+            { upsert: true }
+        );
+        return;
+    }
+
+    const key = memoryKey(blockerId, blockedId);
+    if (!memoryUserBlocks.has(key)) {
+        memoryUserBlocks.set(key, { blockerId, blockedId, conversationId, createdAt: new Date() });
+    }
+};
+
+export const unblockUser = async (blockerId: string, blockedId: string): Promise<void> => {
+    if (isMongoDBAvailable()) {
+        await UserBlock.deleteOne({ blockerId, blockedId });
+        return;
+    }
+    memoryUserBlocks.delete(memoryKey(blockerId, blockedId));
+};
+
+export const hasBlocked = async (blockerId: string, blockedId: string): Promise<boolean> => {
+    if (isMongoDBAvailable()) {
+        return !!(await UserBlock.exists({ blockerId, blockedId }));
+    }
+    return memoryUserBlocks.has(memoryKey(blockerId, blockedId));
+};
+
+/**
+ * Which of `userIds` have blocked `blockedId`
+ */
+export const findBlockersAmong = async (userIds: string[], blockedId: string): Promise<string[]> => {
+    if (isMongoDBAvailable()) {
+        const blocks = await UserBlock.find({ blockerId: { $in: userIds }, blockedId }).select('blockerId');
+        return blocks.map(block => block.blockerId);
+    }
+    return userIds.filter(userId => memoryUserBlocks.has(memoryKey(userId, blockedId)));
+};
+
+/**
+ * Which of `userIds` `blockerId` has blocked
+ */
+export const findBlockedAmong = async (blockerId: string, userIds: string[]): Promise<string[]> => {
+    if (isMongoDBAvailable()) {
+        const blocks = await UserBlock.find({ blockerId, blockedId: { $in: userIds } }).select('blockedId');
+        return blocks.map(block => block.blockedId);
+    }
+    return userIds.filter(userId => memoryUserBlocks.has(memoryKey(blockerId, userId)));
+};
@@ -0,0 +1,86 @@
+/**
+ * 🕘 BUSINESS HOURS
+ *
+ * Clock arithmetic in working time: "4 working hours after Friday 16:00"
+ * under Mon-Sat 9:00-18:00 is Saturday 11:00, and a holiday pushes it to
+ * the next working day. Calendars live in config/businessCalendars.ts.
+ *
+ * @author GharBazaar Backend Team
+ */
+
+import { BusinessCalendar, getPublicHoliday } from '../config/businessCalendars';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+// A target further out than this means the calendar never opens
+const MAX_DAYS = 3 * 366;
+
+const clockMinutes = (time: string): number => {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+};
+
+// Local midnight of the day containing `time`, on the calendar's clock (ms, not a real instant)
+const localDayStart = (time: number, calendar: BusinessCalendar): number => {
+    const local = time + calendar.utcOffsetMinutes * MINUTE_MS;
+    return local - (((local % DAY_MS) + DAY_MS) % DAY_MS);
+};
+
+// Opening hours of a local day as real instants, or null if closed all day
+const workingWindow = (dayStart: number, calendar: BusinessCalendar): [number, number] | null => {
+    const day = new Date(dayStart);
+    if (!calendar.workingDays.includes(day.getUTCDay())) return null;
+    if (calendar.observesHolidays && getPublicHoliday(day.toISOString().substring(0, 10))) return null;
+
+    const midnight = dayStart - calendar.utcOffsetMinutes * MINUTE_MS;
+    return [
+        midnight + clockMinutes(calendar.opensAt) * MINUTE_MS,
+        midnight + clockMinutes(calendar.closesAt) * MINUTE_MS,
+    ];
+};
+
+/**
+ * The moment `minutes` of working time have passed since `start`.
+ * Starting outside working hours, the clock starts when the calendar next opens.
+ */
+export const addBusinessMinutes = (start: Date, minutes: number, calendar: BusinessCalendar): Date => {
+    let remaining = minutes * MINUTE_MS;
+    const from = start.getTime();
+    let day = localDayStart(from, calendar);
+
+    for (let i = 0; i < MAX_DAYS; i++, day += DAY_MS) {
+        const window = workingWindow(day, calendar);
+        if (!window) continue;
+
+        const opens = Math.max(from, window[0]);
+        if (opens >= window[1]) continue;
+
+        const available = window[1] - opens;
+        if (remaining <= available) {
+            return new Date(opens + remaining);
+        }
+        remaining -= available;
+    }
+
+    throw new Error(`Business calendar ${calendar.id} has no working time`);
+};
+
+/**
+ * Working minutes between two moments (0 if `to` isn't after `from`)
+ */
+export const businessMinutesBetween = (from: Date, to: Date, calendar: BusinessCalendar): number => {
+    const start = from.getTime();
+    const end = to.getTime();
+    let total = 0;
+
+    for (let day = localDayStart(start, calendar); day - calendar.utcOffsetMinutes * MINUTE_MS < end; day += DAY_MS) {
+        const window = workingWindow(day, calendar);
+        if (!window) continue;
+
+        const overlap = Math.min(end, window[1]) - Math.max(start, window[0]);
+        if (overlap > 0) total += overlap;
+    }
+
+    return total / MINUTE_MS;
+};
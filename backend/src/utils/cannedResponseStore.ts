@@ -0,0 +1,200 @@
+/**
+ * 💬 CANNED RESPONSE STORE
+ *
+ * Data-access helpers for support agents' canned responses that work
+ * against MongoDB or the in-memory store. An agent sees the team's shared
+ * responses plus their own personal ones.
+ *
+ * The team library starts with GharBazaar's standard replies (the old
+ * quick-response templates, under the same shortcuts).
+ *
+ * @author GharBazaar Backend Team
+ */
+
+import mongoose from 'mongoose';
+import { v4 as uuidv4 } from 'uuid';
+import CannedResponse, { CannedResponseScope } from '../models/cannedResponse.model';
+import { isMongoDBAvailable, memoryCannedResponses } from './memoryStore';
+
+export interface CannedResponseData {
+    title: string;
+    body: string;
+    shortcut?: string;
+}
+
+// Author of the built-in team responses
+const SYSTEM_OWNER = 'system';
+
+const DEFAULT_TEAM_RESPONSES: CannedResponseData[] = [
+    {
+        shortcut: 'greeting',
+        title: 'Greeting',
+        body: 'Hello {{customerName}}! Thank you for contacting GharBazaar support. I\'ll be happy to help you with your issue.',
+    },
+    {
+        shortcut: 'investigating',
+        title: 'Investigating',
+        body: 'I\'m currently investigating this issue. I\'ll get back to you shortly with more information.',
+    },
+    {
+        shortcut: 'resolved',
+        title: 'Resolved',
+        body: 'Great! I\'m glad we could resolve your issue. Is there anything else I can help you with?',
+    },
+    {
+        shortcut: 'followup',
+        title: 'Follow-up',
+        body: 'Just following up on your request. Do you need any additional assistance?',
+    },
+    {
+        shortcut: 'closing',
+        title: 'Closing',
+        body: 'Thank you for using GharBazaar! If you need any further help, feel free to reach out.',
+    },
+];
+
+let defaultsSeeded: Promise<void> | null = null;
+
+/**
+ * Add the standard team responses if the team library is empty (once per process)
+ */
+const ensureDefaultResponses = (): Promise<void> => {
+    if (!defaultsSeeded) {
+        defaultsSeeded = (async () => {
+            const hasTeamResponses = isMongoDBAvailable()
+                ? await CannedResponse.exists({ scope: 'team' })
+                : Array.from(memoryCannedResponses.values()).some((response: any) => response.scope === 'team');
+            if (hasTeamResponses) return;
+
+            for (const data of DEFAULT_TEAM_RESPONSES) {
+                await createCannedResponse(data, 'team', SYSTEM_OWNER);
+            }
+        })().catch(error => {
+            defaultsSeeded = null;
+            throw error;
+        });
+    }
+    return defaultsSeeded;
+};
+
+/**
+ * Team responses are shared; personal ones are only visible to their owner
+ */
+export const isCannedResponseVisibleTo = (response: any, agentId: string): boolean =>
+    response.scope === 'team' || response.ownerId === agentId;
+
+// Team responses first, then most used
+const byTeamAndUsage = (a: any, b: any) =>
+    (a.scope === b.scope ? 0 : a.scope === 'team' ? -1 : 1) ||
+    b.usageCount - a.usageCount ||
+    a.title.localeCompare(b.title);
+
+/**
+ * Responses an agent can use: the team's and their own personal ones.
+ * `search` matches the title, body or shortcut.
+ */
+export const listCannedResponses = async (
+    agentId: string,
+    filters: { scope?: CannedResponseScope; search?: string } = {}
+): Promise<any[]> => {
+    await ensureDefaultResponses();
+
+    const search = filters.search?.trim().toLowerCase();
+    const visible = (response: any) =>
+        isCannedResponseVisibleTo(response, agentId) && (!filters.scope || response.scope === filters.scope);
+    const matches = (response: any) => !search ||
+        [response.title, response.body, response.shortcut || ''].some(text => text.toLowerCase().includes(search));
+
+    let responses;
+    if (isMongoDBAvailable()) {
+        const query: any = filters.scope === 'team'
+            ? { scope: 'team' }
+            : filters.scope === 'personal'
+                ? { scope: 'personal', ownerId: agentId }
+                : { $or: [{ scope: 'team' }, { scope: 'personal', ownerId: agentId }] };
+        responses = (await CannedResponse.find(query).limit(500)).filter(matches);
+    } else {
+        responses = Array.from(memoryCannedResponses.values()).filter(response => visible(response) && matches(response));
+    }
+
+    return responses.sort(byTeamAndUsage);
+};
+
+export const findCannedResponse = async (id: string): Promise<any | null> => {
+    await ensureDefaultResponses();
+
+    if (isMongoDBAvailable()) {
+        if (!mongoose.isValidObjectId(id)) return null;
+        return CannedResponse.findById(id);
+    }
+    return memoryCannedResponses.get(id) || null;
+};
+
+/**
+ * A response by shortcut, preferring the agent's personal one over the team's
+ */
+export const findCannedResponseByShortcut = async (agentId: string, shortcut: string): Promise<any | null> => {
+    const responses = await listCannedResponses(agentId);
+    const matching = responses.filter(response => response.shortcut === shortcut);
+    return matching.find(response => response.scope === 'personal') || matching[0] || null;
+};
+
+/**
+ * True if a shortcut is already taken in the team library, or in this agent's personal one
+ */
+export const isShortcutTaken = async (
+    shortcut: string,
+    scope: CannedResponseScope,
+    ownerId: string,
+    exceptId?: string
+): Promise<boolean> => {
+    const responses = await listCannedResponses(ownerId, { scope });
+    return responses.some(response => response.shortcut === shortcut && String(response._id) !== exceptId);
+};
+
+export const createCannedResponse = async (
+    data: CannedResponseData,
+    scope: CannedResponseScope,
+    ownerId: string
+): Promise<any> => {
+    if (isMongoDBAvailable()) {
+        return CannedResponse.create({ ...data, scope, ownerId, usageCount: 0 });
+    }
+
+    const now = new Date();
+    const response = { _id: uuidv4(), ...data, scope, ownerId, usageCount: 0, createdAt: now, updatedAt: now };
+    memoryCannedResponses.set(response._id, response);
+    return response;
+};
+
+export const updateCannedResponse = async (response: any, updates: Partial<CannedResponseData>): Promise<any> => {
+    Object.assign(response, updates);
+
+    if (isMongoDBAvailable()) {
+        await response.save();
+    } else {
+        response.updatedAt = new Date();
+    }
+    return response;
+};
+
+export const deleteCannedResponse = async (response: any): Promise<void> => {
+    if (isMongoDBAvailable()) {
+        await CannedResponse.deleteOne({ _id: response._id });
+    } else {
+        memoryCannedResponses.delete(response._id);
+    }
+};
+
+/**
+ * Count a use of a response
+ */
+export const recordCannedResponseUse = async (response: any): Promise<void> => {
+    const lastUsedAt = new Date();
+
+    if (isMongoDBAvailable()) {
+        await CannedResponse.updateOne({ _id: response._id }, { $inc: { usageCount: 1 }, $set: { lastUsedAt } });
+    }
+    response.usageCount = (response.usageCount || 0) + 1;
+    response.lastUsedAt = lastUsedAt;
+};
@@ -0,0 +1,144 @@
+/**
+ * 🧩 CANNED RESPONSE PLACEHOLDERS
+ *
+ * Canned responses can use placeholders that are filled in on the server
+ * for the ticket they're sent on:
+ * - {{customerName}}  the customer's display name
+ * - {{agentName}}     the sending agent's display name
+ * - {{ticketId}}      the ticket's ID
+ * - {{categoryTitle}} the ticket's help centre category
+ * - {{propertyTitle}} the title of the listing passed as propertyId
+ *
+ * A response is never sent with a placeholder left unfilled.
+ *
+ * @author GharBazaar Backend Team
+ */
+
+import { findPropertyById } from './propertyStore';
+import { findUserById } from './userStore';
+
+export const PLACEHOLDERS = ['customerName', 'agentName', 'ticketId', 'categoryTitle', 'propertyTitle'] as const;
+
+export type Placeholder = typeof PLACEHOLDERS[number];
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+const MAX_TITLE_LENGTH = 100;
+const MAX_BODY_LENGTH = 3000;
+const SHORTCUT_PATTERN = /^[a-z0-9-]{1,40}$/;
+
+/**
+ * Error thrown for canned responses that can't be saved or sent as asked
+ */
+export class InvalidCannedResponseError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InvalidCannedResponseError';
+    }
+}
+
+/**
+ * Placeholder names used in a response body
+ */
+export const placeholdersIn = (body: string): string[] =>
+    Array.from(new Set(Array.from(body.matchAll(PLACEHOLDER_PATTERN), match => match[1])));
+
+/**
+ * Check and trim the fields of a new response, or of an update when `partial`
+ *
+ * @throws InvalidCannedResponseError if a field is invalid
+ */
+export const validateCannedResponse = (
+    input: any,
+    partial: boolean = false
+): { title?: string; body?: string; shortcut?: string } => {
+    const fields: { title?: string; body?: string; shortcut?: string } = {};
+
+    if (input.title !== undefined || !partial) {
+        const title = typeof input.title === 'string' ? input.title.trim() : '';
+        if (!title || title.length > MAX_TITLE_LENGTH) {
+            throw new InvalidCannedResponseError(`title is required (up to ${MAX_TITLE_LENGTH} characters)`);
+        }
+        fields.title = title;
+    }
+
+    if (input.body !== undefined || !partial) {
+        const body = typeof input.body === 'string' ? input.body.trim() : '';
+        if (!body || body.length > MAX_BODY_LENGTH) {
+            throw new InvalidCannedResponseError(`body is required (up to ${MAX_BODY_LENGTH} characters)`);
+        }
+        const unknown = placeholdersIn(body).filter(name => !(PLACEHOLDERS as readonly string[]).includes(name));
+        if (unknown.length) {
+            throw new InvalidCannedResponseError(
+                `Unknown placeholder(s): ${unknown.map(name => `{{${name}}}`).join(', ')}. Available: ${PLACEHOLDERS.map(name => `{{${name}}}`).join(', ')}`
+            );
+        }
+        fields.body = body;
+    }
+
+    if (input.shortcut !== undefined && input.shortcut !== null && input.shortcut !== '') {
+        if (typeof input.shortcut !== 'string' || !SHORTCUT_PATTERN.test(input.shortcut)) {
+            throw new InvalidCannedResponseError('shortcut must be up to 40 lowercase letters, digits or dashes');
+        }
+        fields.shortcut = input.shortcut;
+    }
+
+    return fields;
+};
+
+/**
+ * Values for the placeholders a response uses when sent on a ticket. Values
+ * that can't be worked out (e.g. propertyTitle without a listing) are left out.
+ */
+export const placeholderValues = async (
+    body: string,
+    context: { ticket: any; agentId: string; propertyId?: string }
+): Promise<Partial<Record<Placeholder, string>>> => {
+    const used = placeholdersIn(body);
+    const values: Partial<Record<Placeholder, string>> = {
+        ticketId: String(context.ticket._id),
+        categoryTitle: context.ticket.categoryTitle,
+    };
+
+    if (used.includes('customerName')) {
+        const customer = await findUserById(context.ticket.userId);
+        if (customer?.displayName) values.customerName = customer.displayName;
+    }
+    if (used.includes('agentName')) {
+        const agent = await findUserById(context.agentId);
+        if (agent?.displayName) values.agentName = agent.displayName;
+    }
+    if (used.includes('propertyTitle') && context.propertyId) {
+        const property = await findPropertyById(context.propertyId);
+        if (property?.title) values.propertyTitle = property.title;
+    }
+
+    return values;
+};
+
+/**
+ * Fill in a response body's placeholders
+ *
+ * @throws InvalidCannedResponseError if a placeholder has no value
+ */
+export const renderCannedResponse = (body: string, values: Partial<Record<Placeholder, string>>): string => {
+    const missing = placeholdersIn(body).filter(name => !values[name as Placeholder]);
+    if (missing.length) {
+        const hint = missing.includes('propertyTitle') ? ' (pass the propertyId of the listing)' : '';
+        throw new InvalidCannedResponseError(
+            `No value for ${missing.map(name => `{{${name}}}`).join(', ')}${hint}`
+        );
+    }
+
+    return body.replace(PLACEHOLDER_PATTERN, (_match, name: Placeholder) => values[name]!);
+};
+
+/**
+ * A response's text filled in for a ticket
+ *
+ * @throws InvalidCannedResponseError if a placeholder has no value
+ */
+export const fillCannedResponse = async (
+    response: { body: string },
+    context: { ticket: any; agentId: string; propertyId?: string }
+): Promise<string> => renderCannedResponse(response.body, await placeholderValues(response.body, context));
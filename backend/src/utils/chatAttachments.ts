@@ -0,0 +1,241 @@
+/**
+ * 📎 CHAT ATTACHMENTS
+ *
+ * Stores files uploaded into a conversation and hands out download links:
+ * - The real type is sniffed from the contents (see fileSniffer)
+ * - Images get a 320px WebP thumbnail
+ * - Files live in the configured FileStorage backend
+ *
+ * Download links are signed and expire after FILE_URL_TTL_MINUTES, so they
+ * work in <img>/<a> tags without an Authorization header. They are only
+ * handed out through participant-checked endpoints and conversation rooms,
+ * and are re-signed every time messages are fetched.
+ *
+ * @author GharBazaar Backend Team
+ */
+
+import crypto from 'crypto';
+import path from 'path';
+import mongoose from 'mongoose';
+import sharp from 'sharp';
+import { v4 as uuidv4 } from 'uuid';
+import config from '../config';
+import ChatAttachment from '../models/chatAttachment.model';
+import { isMongoDBAvailable, memoryChatAttachments } from './memoryStore';
+import { getFileStorage } from './fileStorage';
+import { sniffFileType } from './fileSniffer';
+
+const THUMBNAIL_SIZE = 320;
+
+export type AttachmentVariant = 'original' | 'thumbnail';
+
+/**
+ * Error thrown for uploads that aren't an allowed, readable file
+ */
+export class InvalidUploadError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InvalidUploadError';
+    }
+}
+
+// Keep the client's name for display, but never its path or a misleading extension
+export const cleanFileName = (originalName: string, extension: string): string => {
+    const base = path.basename(originalName || '')
+        .replace(/[\u0000-\u001f\u007f"\\/]/g, '')
+        .trim()
+        .slice(0, 200);
+    if (!base) return `attachment.${extension}`;
+
+    const current = path.extname(base).slice(1).toLowerCase();
+    const matches = current === extension || (extension === 'jpg' && current === 'jpeg');
+    return matches ? base : `${base}.${extension}`;
+};
+
+/**
+ * 📥 SAVE CHAT ATTACHMENT
+ *
+ * Validate, store and record an uploaded file for a conversation.
+ * Throws InvalidUploadError for disallowed or unreadable files.
+ */
+export const saveChatAttachment = async (upload: {
+    buffer: Buffer;
+    originalName: string;
+    conversationId: string;
+    uploaderId: string;
+}): Promise<any> => {
+    const type = sniffFileType(upload.buffer);
+    if (!type) {
+        throw new InvalidUploadError('File type not allowed. Upload an image, PDF, Word, Excel, zip or rar file.');
+    }
+
+    let thumbnail: Buffer | undefined;
+    let width: number | undefined;
+    let height: number | undefined;
+    if (type.kind === 'image') {
+        try {
+            const metadata = await sharp(upload.buffer).metadata();
+            width = metadata.width;
+            height = metadata.height;
+            thumbnail = await sharp(upload.buffer)
+                .rotate() // Respect EXIF orientation
+                .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+                .webp({ quality: 75 })
+                .toBuffer();
+        } catch (error) {
+            throw new InvalidUploadError('Image could not be processed');
+        }
+    }
+
+    const id = isMongoDBAvailable() ? new mongoose.Types.ObjectId().toString() : uuidv4();
+    const baseKey = `chat/${upload.conversationId}/${id}`;
+    const storageKey = `${baseKey}.${type.extension}`;
+    const thumbnailKey = thumbnail ? `${baseKey}-thumb.webp` : undefined;
+
+    const storage = getFileStorage();
+    await storage.put(storageKey, upload.buffer, type.mimeType);
+    if (thumbnail && thumbnailKey) {
+        await storage.put(thumbnailKey, thumbnail, 'image/webp');
+    }
+
+    const data = {
+        _id: id,
+        conversationId: upload.conversationId,
+        uploaderId: upload.uploaderId,
+        kind: type.kind,
+        fileName: cleanFileName(upload.originalName, type.extension),
+        mimeType: type.mimeType,
+        fileSize: upload.buffer.length,
+        storageKey,
+        thumbnailKey,
+        width,
+        height,
+    };
+
+    if (isMongoDBAvailable()) {
+        return ChatAttachment.create(data);
+    }
+
+    const attachment = { ...data, createdAt: new Date() };
+    memoryChatAttachments.set(id, attachment);
+    return attachment;
+};
+
+export const findChatAttachment = async (id: string): Promise<any | null> => {
+    if (isMongoDBAvailable()) {
+        if (!mongoose.isValidObjectId(id)) return null;
+        return ChatAttachment.findById(id);
+    }
+    return memoryChatAttachments.get(id) || null;
+};
+
+const sign = (id: string, variant: AttachmentVariant, expires: number): string =>
+    crypto.createHmac('sha256', config.jwtSecret)
+        .update(`chat-attachment:${id}:${variant}:${expires}`)
+        .digest('base64url');
+
+/**
+ * Absolute, expiring download URL for an attachment
+ */
+export const signedAttachmentUrl = (id: string, variant: AttachmentVariant = 'original'): string => {
+    const expires = Math.floor(Date.now() / 1000) + config.upload.signedUrlTtlMinutes * 60;
+    const params = new URLSearchParams({
+        ...(variant === 'thumbnail' ? { variant } : {}),
+        expires: String(expires),
+        signature: sign(id, variant, expires),
+    });
+    return `${config.upload.publicUrl}/api/v1/chat/files/${id}?${params}`;
+};
+
+/**
+ * True if the signature matches and the link hasn't expired
+ */
+export const verifyAttachmentSignature = (
+    id: string,
+    variant: AttachmentVariant,
+    expires: number,
+    signature: string
+): boolean => {
+    if (!Number.isFinite(expires) || expires < Date.now() / 1000) return false;
+
+    const expected = Buffer.from(sign(id, variant, expires));
+    const provided = Buffer.from(signature || '');
+    return expected.length === provided.length && crypto.timingSafeEqual(expected, provided);
+};
+
+/**
+ * Message as sent to clients, with fresh download links for its attachment
+ */
+export const withAttachmentUrls = (message: any) => {
+    const plain = typeof message?.toObject === 'function' ? message.toObject() : message;
+    if (!plain?.attachmentId || plain.deleted) return plain;
+
+    return {
+        ...plain,
+        fileUrl: signedAttachmentUrl(plain.attachmentId),
+        thumbnailUrl: plain.type === 'image' ? signedAttachmentUrl(plain.attachmentId, 'thumbnail') : undefined,
+    };
+};
+
+/**
+ * Message fields for sending an attachment, or null unless the sender
+ * uploaded it to this conversation. The type always comes from the stored file.
+ */
+export const attachmentMessageFields = async (
+    attachmentId: string,
+    conversationId: string,
+    senderId: string
+): Promise<{ type: 'image' | 'file'; attachmentId: string; fileName: string; fileSize: number; mimeType: string } | null> => {
+    const attachment = await findChatAttachment(attachmentId);
+    if (!attachment || attachment.conversationId !== String(conversationId) || attachment.uploaderId !== senderId) {
+        return null;
+    }
+
+    return {
+        type: attachment.kind,
+        attachmentId: String(attachment._id),
+        fileName: attachment.fileName,
+        fileSize: attachment.fileSize,
+        mimeType: attachment.mimeType,
+    };
+};
+
+/**
+ * ↪️ FORWARD CHAT ATTACHMENT
+ *
+ * Record an existing attachment in another conversation for the user
+ * forwarding it. The stored file and thumbnail are shared, not copied.
+ * Returns message fields like attachmentMessageFields, or null if the
+ * attachment no longer exists.
+ */
+export const forwardChatAttachment = async (
+    attachmentId: string,
+    targetConversationId: string,
+    forwarderId: string
+): Promise<{ type: 'image' | 'file'; attachmentId: string; fileName: string; fileSize: number; mimeType: string } | null> => {
+    const source = await findChatAttachment(attachmentId);
+    if (!source) return null;
+
+    const id = isMongoDBAvailable() ? new mongoose.Types.ObjectId().toString() : uuidv4();
+    const data = {
+        _id: id,
+        conversationId: String(targetConversationId),
+        uploaderId: forwarderId,
+        kind: source.kind,
+        fileName: source.fileName,
+        mimeType: source.mimeType,
+        fileSize: source.fileSize,
+        storageKey: source.storageKey,
+        thumbnailKey: source.thumbnailKey,
+        width: source.width,
+        height: source.height,
+    };
+
+    if (isMongoDBAvailable()) {
+        await ChatAttachment.create(data);
+    } else {
+        memoryChatAttachments.set(id, { ...data, createdAt: new Date() });
+    }
+
+    return attachmentMessageFields(id, targetConversationId, forwarderId);
+};
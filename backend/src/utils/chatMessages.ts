@@ -0,0 +1,236 @@
+/**
+ * 💬 CHAT MESSAGES
+ *
+ * Creating and updating chat messages in MongoDB or memory mode, shared by
+ * the Socket.IO handlers and the REST fallback:
+ * - Plain, attachment, reply and forwarded messages
+ * - Emoji reactions (one of each emoji per user, toggled on and off)
+ * - The message shape sent to clients
+ * - Notifications for the other participants (unless they muted the thread)
+ *
+ * @author GharBazaar Backend Team
+ */
+
+import mongoose from 'mongoose';
+import { Server } from 'socket.io';
+import { v4 as uuidv4 } from 'uuid';
+import Message, { IMessageReaction, IReplyQuote } from '../models/message.model';
+import { isMongoDBAvailable, memoryMessages } from './memoryStore';
+import { withAttachmentUrls, forwardChatAttachment } from './chatAttachments';
+import { recordConversationActivity, getParticipantState, isMuted } from './conversationState';
+import { notify } from './notifications';
+
+// Reply quotes keep a short excerpt of the parent, not the whole message
+const QUOTE_LENGTH = 200;
+const MAX_EMOJI_LENGTH = 16;
+
+export interface ReactionSummary {
+    emoji: string;
+    count: number;
+    userIds: string[];
+}
+
+/**
+ * Group reactions by emoji, in the order each emoji was first used
+ */
+export const summarizeReactions = (reactions: IMessageReaction[] = []): ReactionSummary[] => {
+    const byEmoji = new Map<string, ReactionSummary>();
+    for (const { emoji, userId } of reactions) {
+        const entry = byEmoji.get(emoji) || { emoji, count: 0, userIds: [] };
+        entry.count += 1;
+        entry.userIds.push(userId);
+        byEmoji.set(emoji, entry);
+    }
+    return Array.from(byEmoji.values());
+};
+
+/**
+ * Message as sent to clients: fresh attachment links, the `id` socket
+ * events use, and reactions grouped by emoji
+ */
+export const toClientMessage = (message: any) => {
+    const plain = withAttachmentUrls(message);
+    const { forwardedFromId, ...visible } = plain;
+    return {
+        ...visible,
+        id: String(plain._id),
+        reactions: summarizeReactions(plain.reactions),
+        forwarded: !!forwardedFromId,
+    };
+};
+
+// A single emoji (including ZWJ sequences, skin tones and flags), not arbitrary text
+export const isValidReaction = (emoji: unknown): emoji is string =>
+    typeof emoji === 'string' &&
+    emoji.length > 0 &&
+    emoji.length <= MAX_EMOJI_LENGTH &&
+    /^[\p{Extended_Pictographic}\p{Emoji_Component}]+$/u.test(emoji) &&
+    /[\p{Extended_Pictographic}\p{Regional_Indicator}]/u.test(emoji);
+
+export const findChatMessage = async (messageId: string): Promise<any | null> => {
+    if (isMongoDBAvailable()) {
+        if (!mongoose.isValidObjectId(messageId)) return null;
+        return Message.findById(messageId);
+    }
+
+    for (const messages of memoryMessages.values()) {
+        const message = messages.find((m: any) => m._id === messageId);
+        if (message) return message;
+    }
+    return null;
+};
+
+/**
+ * Quote of `messageId` for a reply, or null unless it's a live message in
+ * the same conversation
+ */
+export const buildReplyQuote = async (messageId: string, conversationId: string): Promise<IReplyQuote | null> => {
+    const parent = await findChatMessage(messageId);
+    if (!parent || parent.deleted || String(parent.conversationId) !== String(conversationId)) {
+        return null;
+    }
+
+    return {
+        messageId: String(parent._id),
+        senderId: parent.senderId,
+        senderEmail: parent.senderEmail,
+        content: String(parent.content || '').substring(0, QUOTE_LENGTH),
+        type: parent.type,
+        fileName: parent.fileName,
+    };
+};
+
+/**
+ * 📨 CREATE CHAT MESSAGE
+ *
+ * Save a message and update the conversation preview. Callers check that
+ * the sender may post here (participant, not blocked) before calling.
+ */
+export const createChatMessage = async (conversation: any, data: {
+    senderId: string;
+    senderEmail: string;
+    content: string;
+    type: 'text' | 'image' | 'file';
+    attachmentId?: string;
+    fileName?: string;
+    fileSize?: number;
+    mimeType?: string;
+    replyTo?: IReplyQuote | null;
+    forwardedFromId?: string;
+}): Promise<any> => {
+    const conversationId = String(conversation._id);
+    const fields = {
+        ...data,
+        replyTo: data.replyTo || undefined,
+        conversationId,
+        reactions: [],
+        edited: false,
+        deleted: false,
+    };
+
+    let message;
+    if (isMongoDBAvailable()) {
+        message = await Message.create(fields);
+    } else {
+        const messageId = uuidv4();
+        message = {
+            _id: messageId,
+            ...fields,
+            createdAt: new Date().toISOString(),
+        };
+
+        if (!memoryMessages.has(conversationId)) {
+            memoryMessages.set(conversationId, []);
+        }
+        memoryMessages.get(conversationId).push(message);
+    }
+
+    // Update the last-message preview (and restore the thread for anyone who deleted it)
+    await recordConversationActivity(conversation, data.content);
+
+    return message;
+};
+
+/**
+ * ↪️ FORWARD CHAT MESSAGE
+ *
+ * Copy `source` into `target` as a new message from the forwarder. Any
+ * attachment is re-recorded in the target conversation (sharing the stored
+ * file). Returns null if the source's attachment is gone. Callers check the
+ * forwarder can see the source and post in the target.
+ */
+export const forwardChatMessage = async (
+    source: any,
+    target: any,
+    sender: { userId: string; email: string }
+): Promise<any | null> => {
+    let attachment = null;
+    if (source.attachmentId) {
+        attachment = await forwardChatAttachment(source.attachmentId, String(target._id), sender.userId);
+        if (!attachment) return null;
+    }
+
+    return createChatMessage(target, {
+        senderId: sender.userId,
+        senderEmail: sender.email,
+        content: source.content,
+        type: attachment ? attachment.type : 'text',
+        ...attachment,
+        forwardedFromId: String(source._id),
+    });
+};
+
+/**
+ * 🔔 NOTIFY CHAT RECIPIENTS
+ *
+ * Send a 'message' notification to every other participant who hasn't
+ * muted the conversation.
+ */
+export const notifyChatRecipients = async (conversation: any, message: any, io?: Server) => {
+    const recipients = conversation.participants.filter((userId: string) =>
+        userId !== message.senderId && !isMuted(getParticipantState(conversation, userId))
+    );
+
+    await Promise.all(recipients.map((userId: string) => notify(userId, {
+        type: 'message',
+        title: `New message from ${message.senderEmail}`,
+        message: message.content,
+        link: '/dashboard/messages',
+        metadata: {
+            conversationId: String(conversation._id),
+            messageId: String(message._id),
+            propertyTitle: conversation.propertyTitle,
+        },
+    }, io)));
+};
+
+/**
+ * 😀 TOGGLE REACTION
+ *
+ * Add the user's emoji to the message, or remove it if it's already there.
+ * Returns the message's reactions afterwards.
+ */
+export const toggleReaction = async (message: any, userId: string, emoji: string): Promise<IMessageReaction[]> => {
+    if (isMongoDBAvailable()) {
+        const added = await Message.findOneAndUpdate(
+            { _id: message._id, reactions: { $not: { $elemMatch: { userId, emoji } } } },
+            { $push: { reactions: { userId, emoji, at: new Date() } } },
+            { new: true }
+        );
+        if (added) return added.reactions;
+
+        const removed = await Message.findOneAndUpdate(
+            { _id: message._id },
+            { $pull: { reactions: { userId, emoji } } },
+            { new: true }
+        );
+        return removed?.reactions || [];
+    }
+
+    const reactions: IMessageReaction[] = message.reactions || [];
+    const exists = reactions.some(r => r.userId === userId && r.emoji === emoji);
+    message.reactions = exists
+        ? reactions.filter(r => !(r.userId === userId && r.emoji === emoji))
+        : [...reactions, { userId, emoji, at: new Date() }];
+    return message.reactions;
+};
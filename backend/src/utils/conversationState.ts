@@ -0,0 +1,162 @@
+/**
+ * 🗂️ CONVERSATION STATE
+ *
+ * Per-participant conversation settings - archive, mute and delete-for-me -
+ * stored on the conversation, one entry per participant who changed anything.
+ * Deleting hides the thread and its history for that user only; a new
+ * message brings the thread back, starting after the deleted history.
+ *
+ * @author GharBazaar Backend Team
+ */
+
+import Conversation, { IParticipantState } from '../models/conversation.model';
+import { isMongoDBAvailable } from './memoryStore';
+
+export const CONVERSATION_FILTERS = ['inbox', 'archived', 'muted', 'all'] as const;
+
+export type ConversationFilter = typeof CONVERSATION_FILTERS[number];
+
+export const getParticipantState = (conversation: any, userId: string): IParticipantState =>
+    (conversation.participantStates || []).find((state: IParticipantState) => state.userId === userId) ||
+    { userId, archived: false, muted: false, hidden: false };
+
+// Timed mutes simply lapse; nothing needs to clear them
+export const isMuted = (state: IParticipantState, now = new Date()): boolean =>
+    state.muted && (!state.mutedUntil || new Date(state.mutedUntil) > now);
+
+/**
+ * Change one participant's settings, creating their entry if needed
+ */
+export const updateParticipantState = async (
+    conversation: any,
+    userId: string,
+    changes: Partial<Omit<IParticipantState, 'userId'>>
+): Promise<IParticipantState> => {
+    const updated = { ...getParticipantState(conversation, userId), ...changes };
+
+    if (isMongoDBAvailable()) {
+        const $set = Object.fromEntries(
+            Object.entries(changes).map(([key, value]) => [`participantStates.$.${key}`, value])
+        );
+        const existing = await Conversation.updateOne(
+            { _id: conversation._id, 'participantStates.userId': userId },
+            { $set }
+        );
+        if (!existing.matchedCount) {
+            const added = await Conversation.updateOne(
+                { _id: conversation._id, 'participantStates.userId': { $ne: userId } },
+                { $push: { participantStates: updated } }
+            );
+            // Someone else's request added the entry first
+            if (!added.matchedCount) {
+                await Conversation.updateOne(
+                    { _id: conversation._id, 'participantStates.userId': userId },
+                    { $set }
+                );
+            }
+        }
+        return updated;
+    }
+
+    conversation.participantStates = [
+        ...(conversation.participantStates || []).filter((state: IParticipantState) => state.userId !== userId),
+        updated,
+    ];
+    return updated;
+};
+
+/**
+ * Mongo conditions for listing a user's conversations under a filter
+ */
+export const conversationFilterQuery = (userId: string, filter: ConversationFilter): Record<string, any> => {
+    const query: Record<string, any> = {
+        participants: userId,
+        $and: [{ participantStates: { $not: { $elemMatch: { userId, hidden: true } } } }],
+    };
+
+    if (filter === 'inbox') {
+        query.$and.push({ participantStates: { $not: { $elemMatch: { userId, archived: true } } } });
+    } else if (filter === 'archived') {
+        query.$and.push({ participantStates: { $elemMatch: { userId, archived: true } } });
+    } else if (filter === 'muted') {
+        query.$and.push({
+            participantStates: {
+                $elemMatch: {
+                    userId,
+                    muted: true,
+                    $or: [{ mutedUntil: null }, { mutedUntil: { $gt: new Date() } }],
+                },
+            },
+        });
+    }
+
+    return query;
+};
+
+/**
+ * In-memory equivalent of conversationFilterQuery
+ */
+export const matchesConversationFilter = (conversation: any, userId: string, filter: ConversationFilter): boolean => {
+    if (!conversation.participants.includes(userId)) return false;
+
+    const state = getParticipantState(conversation, userId);
+    if (state.hidden) return false;
+
+    switch (filter) {
+        case 'inbox': return !state.archived;
+        case 'archived': return state.archived;
+        case 'muted': return isMuted(state);
+        default: return true;
+    }
+};
+
+/**
+ * Conversation as returned to one participant: their own settings only
+ */
+export const toConversationView = (conversation: any, userId: string) => {
+    const plain = typeof conversation.toObject === 'function' ? conversation.toObject() : { ...conversation };
+    const state = getParticipantState(conversation, userId);
+    const muted = isMuted(state);
+    delete plain.participantStates;
+
+    return {
+        ...plain,
+        archived: state.archived,
+        muted,
+        mutedUntil: muted ? state.mutedUntil || null : null,
+    };
+};
+
+/**
+ * 🕒 RECORD CONVERSATION ACTIVITY
+ *
+ * Update the last-message preview after a message is sent, and bring the
+ * thread back for anyone who deleted it.
+ */
+export const recordConversationActivity = async (conversation: any, preview: string, at = new Date()) => {
+    if (isMongoDBAvailable()) {
+        await Conversation.updateOne(
+            { _id: conversation._id },
+            {
+                $set: {
+                    lastMessage: preview.substring(0, 100),  // Preview (max 100 chars)
+                    lastMessageAt: at,
+                },
+            }
+        );
+        // Separate update: conversations saved before participantStates existed have no
+        // array, and array updates fail on those
+        await Conversation.updateOne(
+            { _id: conversation._id, 'participantStates.hidden': true },
+            { $set: { 'participantStates.$[state].hidden': false } },
+            { arrayFilters: [{ 'state.hidden': true }] }
+        );
+        return;
+    }
+
+    conversation.lastMessage = preview.substring(0, 100);
+    conversation.lastMessageAt = at;
+    (conversation.participantStates || []).forEach((state: IParticipantState) => {
+        state.hidden = false;
+    });
+};
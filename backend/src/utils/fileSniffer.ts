@@ -0,0 +1,100 @@
+/**
+ * 🔍 FILE TYPE SNIFFING
+ *
+ * Detects a file's real type from its leading bytes instead of trusting the
+ * Content-Type or extension sent by the client. Only the types the chat
+ * and support ticket upload widgets offer are recognised: images, PDF, Word,
+ * Excel, zip and rar.
+ *
+ * @author GharBazaar Backend Team
+ */
+
+export interface SniffedFileType {
+    mimeType: string;
+    extension: string;
+    kind: 'image' | 'file';
+}
+
+const FILE_TYPES: Record<string, Omit<SniffedFileType, 'extension'>> = {
+    jpg: { mimeType: 'image/jpeg', kind: 'image' },
+    png: { mimeType: 'image/png', kind: 'image' },
+    gif: { mimeType: 'image/gif', kind: 'image' },
+    webp: { mimeType: 'image/webp', kind: 'image' },
+    pdf: { mimeType: 'application/pdf', kind: 'file' },
+    docx: { mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', kind: 'file' },
+    xlsx: { mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', kind: 'file' },
+    zip: { mimeType: 'application/zip', kind: 'file' },
+    doc: { mimeType: 'application/msword', kind: 'file' },
+    xls: { mimeType: 'application/vnd.ms-excel', kind: 'file' },
+    rar: { mimeType: 'application/x-rar-compressed', kind: 'file' },
+};
+
+const fileType = (extension: string): SniffedFileType => ({ extension, ...FILE_TYPES[extension] });
+
+/**
+ * The type of a file stored under an extension sniffFileType() gave it,
+ * or null for any other extension
+ */
+export const fileTypeForExtension = (extension: string): SniffedFileType | null =>
+    Object.prototype.hasOwnProperty.call(FILE_TYPES, extension) ? fileType(extension) : null;
+
+const startsWith = (buffer: Buffer, signature: number[], offset = 0) =>
+    buffer.length >= offset + signature.length &&
+    signature.every((byte, i) => buffer[offset + i] === byte);
+
+const ascii = (text: string) => Array.from(Buffer.from(text, 'ascii'));
+
+const contains = (buffer: Buffer, text: string, encoding: BufferEncoding = 'ascii') =>
+    buffer.includes(Buffer.from(text, encoding));
+
+const ZIP_SIGNATURES = [[0x50, 0x4b, 0x03, 0x04], [0x50, 0x4b, 0x05, 0x06]];
+const OLE_SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+
+/**
+ * Identify an allowed file type from its contents, or null if it isn't one
+ */
+export const sniffFileType = (buffer: Buffer): SniffedFileType | null => {
+    if (startsWith(buffer, [0xff, 0xd8, 0xff])) {
+        return fileType('jpg');
+    }
+    if (startsWith(buffer, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+        return fileType('png');
+    }
+    if (startsWith(buffer, ascii('GIF87a')) || startsWith(buffer, ascii('GIF89a'))) {
+        return fileType('gif');
+    }
+    if (startsWith(buffer, ascii('RIFF')) && startsWith(buffer, ascii('WEBP'), 8)) {
+        return fileType('webp');
+    }
+    if (startsWith(buffer, ascii('%PDF-'))) {
+        return fileType('pdf');
+    }
+
+    // Office Open XML documents are zip archives with a known part inside
+    if (ZIP_SIGNATURES.some(signature => startsWith(buffer, signature))) {
+        if (contains(buffer, 'word/document.xml')) {
+            return fileType('docx');
+        }
+        if (contains(buffer, 'xl/workbook.xml')) {
+            return fileType('xlsx');
+        }
+        return fileType('zip');
+    }
+
+    // Legacy .doc / .xls share the OLE container; the stream names tell them apart
+    if (startsWith(buffer, OLE_SIGNATURE)) {
+        if (contains(buffer, 'WordDocument', 'utf16le')) {
+            return fileType('doc');
+        }
+        if (contains(buffer, 'Workbook', 'utf16le') || contains(buffer, 'Book', 'utf16le')) {
+            return fileType('xls');
+        }
+        return null;
+    }
+
+    if (startsWith(buffer, ascii('Rar!\x1a\x07'))) {
+        return fileType('rar');
+    }
+
+    return null;
+};
@@ -0,0 +1,68 @@
+/**
+ * 🗄️ FILE STORAGE
+ *
+ * Pluggable storage backend for uploaded files. Callers only deal in
+ * opaque keys (e.g. "chat/<conversationId>/<attachmentId>.png"), so a
+ * cloud bucket can replace local disk without touching controllers.
+ *
+ * Selected with UPLOAD_STORAGE (currently: local).
+ *
+ * @author GharBazaar Backend Team
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import config from '../config';
+
+export interface FileStorage {
+    put(key: string, data: Buffer, contentType: string): Promise<void>;
+    get(key: string): Promise<Readable>;
+    delete(key: string): Promise<void>;
+}
+
+/**
+ * Stores files under UPLOAD_DIR on this server
+ */
+export class LocalDiskStorage implements FileStorage {
+    constructor(private readonly rootDir: string) {}
+
+    // Keys are generated server-side, but never let one escape the upload directory
+    private resolve(key: string): string {
+        const root = path.resolve(this.rootDir);
+        const filePath = path.resolve(root, key);
+        if (!filePath.startsWith(root + path.sep)) {
+            throw new Error(`Invalid storage key: ${key}`);
+        }
+        return filePath;
+    }
+
+    async put(key: string, data: Buffer): Promise<void> {
+        const filePath = this.resolve(key);
+        await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.promises.writeFile(filePath, data);
+    }
+
+    async get(key: string): Promise<Readable> {
+        const filePath = this.resolve(key);
+        await fs.promises.access(filePath);
+        return fs.createReadStream(filePath);
+    }
+
+    async delete(key: string): Promise<void> {
+        await fs.promises.rm(this.resolve(key), { force: true });
+    }
+}
+
+let storage: FileStorage | null = null;
+
+export const getFileStorage = (): FileStorage => {
+    if (!storage) {
+        switch (config.upload.storage) {
+            case 'local':
+            default:
+                storage = new LocalDiskStorage(config.upload.uploadDir);
+        }
+    }
+    return storage;
+};
@@ -0,0 +1,175 @@
+/**
+ * 📄 INVOICE PDF
+ *
+ * Renders a tax invoice or credit note as a one-page A4 PDF. The document
+ * is written directly (text and rules in the standard Helvetica fonts), so
+ * no PDF library is needed. Those fonts only cover Latin-1; other
+ * characters are printed as '?'.
+ *
+ * @author GharBazaar Backend Team
+ */
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 40;
+
+// Helvetica advance widths (1/1000 em) for the characters amounts use; others get an average
+const CHAR_WIDTHS: Record<string, number> = {
+    '0': 556, '1': 556, '2': 556, '3': 556, '4': 556, '5': 556, '6': 556, '7': 556, '8': 556, '9': 556,
+    '.': 278, ',': 278, ' ': 278, '%': 889, '-': 333, '@': 1015,
+};
+
+const textWidth = (text: string, size: number): number =>
+    Array.from(text).reduce((width, char) => width + (CHAR_WIDTHS[char] ?? 556), 0) * size / 1000;
+
+// PDF string literal: Latin-1 only, with \, ( and ) escaped
+const pdfString = (text: string): string =>
+    '(' + text.replace(/[^\x20-\x7e\xa0-\xff]/g, '?').replace(/([\\()])/g, '\\$1') + ')';
+
+const formatAmount = (paise: number): string =>
+    (paise / 100).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const formatDate = (date: Date): string =>
+    new Date(date).toLocaleDateString('en-IN', { timeZone: 'Asia/Kolkata', day: '2-digit', month: 'short', year: 'numeric' });
+
+class PageContent {
+    private ops: string[] = [];
+
+    text(x: number, y: number, text: string, options: { size?: number; bold?: boolean; align?: 'left' | 'right' } = {}) {
+        const size = options.size ?? 9;
+        const left = options.align === 'right' ? x - textWidth(text, size) : x;
+        this.ops.push(`BT /${options.bold ? 'F2' : 'F1'} ${size} Tf ${left.toFixed(2)} ${y} Td ${pdfString(text)} Tj ET`);
+    }
+
+    rule(y: number, x1 = MARGIN, x2 = PAGE_WIDTH - MARGIN) {
+        this.ops.push(`0.5 w ${x1} ${y} m ${x2} ${y} l S`);
+    }
+
+    toString() {
+        return this.ops.join('\n');
+    }
+}
+
+// Assemble the PDF objects with their cross-reference table
+const buildPdf = (content: string): Buffer => {
+    const objects = [
+        '<< /Type /Catalog /Pages 2 0 R >>',
+        '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+            '/Resources << /Font << /F1 4 0 R /F2 5 0 R >> >> /Contents 6 0 R >>',
+        '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+        '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+        `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`,
+    ];
+
+    let pdf = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    objects.forEach((object, i) => {
+        offsets.push(Buffer.byteLength(pdf, 'latin1'));
+        pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    });
+
+    const xref = Buffer.byteLength(pdf, 'latin1');
+    pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+    return Buffer.from(pdf, 'latin1');
+};
+
+/**
+ * 🖨️ RENDER INVOICE PDF
+ *
+ * Lay out an issued invoice or credit note (as stored) on one A4 page
+ */
+export const renderInvoicePdf = (invoice: any): Buffer => {
+    const page = new PageContent();
+    const right = PAGE_WIDTH - MARGIN;
+    const isCreditNote = invoice.kind === 'credit-note';
+    let y = PAGE_HEIGHT - MARGIN - 10;
+
+    page.text(MARGIN, y, isCreditNote ? 'CREDIT NOTE' : 'TAX INVOICE', { size: 18, bold: true });
+    page.text(right, y, invoice.number, { size: 12, bold: true, align: 'right' });
+    y -= 30;
+
+    // Seller on the left, document details on the right
+    const { seller, buyer } = invoice;
+    const details: Array<[string, string]> = [
+        [isCreditNote ? 'Credit note no.' : 'Invoice no.', invoice.number],
+        ['Date', formatDate(invoice.issuedAt)],
+        ...(isCreditNote ? [['Against invoice', invoice.originalInvoiceNumber] as [string, string]] : []),
+        ['Place of supply', invoice.placeOfSupply],
+        ['Reverse charge', 'No'],
+        ['Order', invoice.orderId],
+        ['Payment', invoice.paymentId],
+        ...(invoice.refundId ? [['Refund', invoice.refundId] as [string, string]] : []),
+    ];
+    const sellerLines = [seller.address, `GSTIN: ${seller.gstin}`, `State: ${seller.state} (${seller.stateCode})`].filter(Boolean);
+
+    page.text(MARGIN, y, seller.name, { size: 11, bold: true });
+    sellerLines.forEach((line, i) => page.text(MARGIN, y - 14 * (i + 1), line));
+    details.forEach(([label, value], i) => {
+        page.text(right - 190, y - 12 * i, label);
+        page.text(right, y - 12 * i, value, { align: 'right' });
+    });
+    y -= Math.max(14 * (sellerLines.length + 1), 12 * details.length) + 16;
+
+    page.rule(y + 8);
+    page.text(MARGIN, y - 6, 'Bill to', { bold: true });
+    const buyerLines = [
+        buyer.name,
+        buyer.address,
+        buyer.gstin ? `GSTIN: ${buyer.gstin}` : 'Unregistered (no GSTIN)',
+        `State: ${buyer.state} (${buyer.stateCode})`,
+        buyer.email,
+    ].filter(Boolean) as string[];
+    buyerLines.forEach((line, i) => page.text(MARGIN, y - 20 - 12 * i, line));
+    y -= 20 + 12 * buyerLines.length + 14;
+
+    // Service lines
+    const [first] = invoice.lines;
+    const columns: Array<{ label: string; x: number; align: 'left' | 'right'; value: (line: any) => string }> = [
+        { label: 'Description', x: MARGIN, align: 'left', value: line => line.description },
+        { label: 'SAC', x: 215, align: 'left', value: line => line.sac },
+        { label: 'Qty', x: 275, align: 'right', value: line => String(line.quantity) },
+        { label: 'Taxable', x: 340, align: 'right', value: line => formatAmount(line.taxableValue) },
+        { label: `CGST ${first.cgstRate}%`, x: 400, align: 'right', value: line => formatAmount(line.cgst) },
+        { label: `SGST ${first.sgstRate}%`, x: 455, align: 'right', value: line => formatAmount(line.sgst) },
+        { label: `IGST ${first.igstRate}%`, x: 510, align: 'right', value: line => formatAmount(line.igst) },
+        { label: 'Total', x: right, align: 'right', value: line => formatAmount(line.total) },
+    ];
+
+    page.rule(y + 12);
+    columns.forEach(column => page.text(column.x, y, column.label, { bold: true, align: column.align }));
+    page.rule(y - 6);
+    y -= 20;
+    for (const line of invoice.lines) {
+        columns.forEach(column => page.text(column.x, y, column.value(line).substring(0, 34), { align: column.align }));
+        y -= 14;
+    }
+    page.rule(y + 6);
+    y -= 14;
+
+    // Totals
+    const totals: Array<[string, number]> = [
+        ['Taxable value', invoice.taxableValue],
+        ...(invoice.interState
+            ? [['IGST', invoice.igst] as [string, number]]
+            : [['CGST', invoice.cgst] as [string, number], ['SGST', invoice.sgst] as [string, number]]),
+        ['Total tax', invoice.totalTax],
+    ];
+    totals.forEach(([label, amount]) => {
+        page.text(right - 190, y, label);
+        page.text(right, y, formatAmount(amount), { align: 'right' });
+        y -= 13;
+    });
+    page.rule(y + 8, right - 190);
+    y -= 6;
+    page.text(right - 190, y, isCreditNote ? `Total credited (${invoice.currency})` : `Total (${invoice.currency})`, { size: 11, bold: true });
+    page.text(right, y, formatAmount(invoice.total), { size: 11, bold: true, align: 'right' });
+
+    page.text(MARGIN, MARGIN + 14, 'Prices include GST. This is a computer-generated document and does not need a signature.', { size: 8 });
+    page.text(MARGIN, MARGIN, `${seller.name} - GSTIN ${seller.gstin}`, { size: 8 });
+
+    return buildPdf(page.toString());
+};
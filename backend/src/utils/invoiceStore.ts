@@ -0,0 +1,407 @@
+/**
+ * 🧾 INVOICE STORE
+ *
+ * GST tax invoices for captured payments and credit notes for refunds.
+ * - Numbers run sequentially per financial year (April-March, IST) and are
+ *   never reused: GB/2627/000001 for invoices, GBCN/2627/000001 for credit notes
+ * - Service prices include GST, so tax is worked back out of the amount paid:
+ *   CGST + SGST when the buyer is in the seller's state, IGST otherwise
+ * - The service line (name and SAC code) comes from PAYMENT_SERVICES
+ * - Each ledger transaction gets one document, and it's never changed
+ *   afterwards; asking again returns the document already issued
+ * - A document is saved under a provisional number and only then numbered,
+ *   so a request that loses the race for a transaction never uses up a number
+ *
+ * @author GharBazaar Backend Team
+ */
+
+import mongoose from 'mongoose';
+import { v4 as uuidv4 } from 'uuid';
+import config from '../config';
+import { getPaymentService } from '../config/paymentServices';
+import { findGstStateCode, GST_STATES, isValidGstin } from '../config/gstStates';
+import Counter from '../models/counter.model';
+import Invoice, { IInvoiceLine, IInvoiceParty, InvoiceKind, PROVISIONAL_INVOICE_PREFIX } from '../models/invoice.model';
+import { isMongoDBAvailable, memoryCounters, memoryInvoices } from './memoryStore';
+import { findTransactionByKey, paymentKey } from './paymentLedger';
+import { findUserById } from './userStore';
+
+export interface BuyerDetails {
+    name?: string;
+    address?: string;
+    // GST state code ("27") or name ("Maharashtra"); taken from the GSTIN if there is one
+    state?: string;
+    gstin?: string;
+}
+
+/**
+ * Error thrown when an invoice can't be issued as asked
+ */
+export class InvoiceError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InvoiceError';
+    }
+}
+
+const IST_OFFSET_MS = 5.5 * 60 * 60 * 1000;
+
+// Financial year of a date as four digits: 1 Apr 2026 - 31 Mar 2027 is "2627"
+const financialYear = (date: Date): string => {
+    const ist = new Date(date.getTime() + IST_OFFSET_MS);
+    const startYear = ist.getUTCMonth() >= 3 ? ist.getUTCFullYear() : ist.getUTCFullYear() - 1;
+    return `${String(startYear % 100).padStart(2, '0')}${String((startYear + 1) % 100).padStart(2, '0')}`;
+};
+
+const nextSequence = async (name: string): Promise<number> => {
+    if (isMongoDBAvailable()) {
+        const counter = await Counter.findOneAndUpdate(
+            { _id: name },
+            { $inc: { seq: 1 } },
+            { upsert: true, new: true }
+        );
+        return counter.seq;
+    }
+
+    const seq = (memoryCounters.get(name) || 0) + 1;
+    memoryCounters.set(name, seq);
+    return seq;
+};
+
+const nextDocumentNumber = async (kind: InvoiceKind, issuedAt: Date): Promise<string> => {
+    const series = kind === 'invoice' ? config.invoices.numberPrefix : `${config.invoices.numberPrefix}CN`;
+    const year = financialYear(issuedAt);
+    const seq = await nextSequence(`${series}/${year}`);
+    return `${series}/${year}/${String(seq).padStart(6, '0')}`;
+};
+
+const seller = (): IInvoiceParty => {
+    const stateCode = config.invoices.sellerGstin.substring(0, 2);
+    return {
+        name: config.invoices.sellerName,
+        address: config.invoices.sellerAddress,
+        gstin: config.invoices.sellerGstin,
+        stateCode,
+        state: GST_STATES[stateCode],
+    };
+};
+
+// Split a GST-inclusive amount (paise) into taxable value and tax
+const taxLine = (description: string, sac: string, total: number, interState: boolean): IInvoiceLine => {
+    const rate = config.invoices.gstRate;
+    const taxableValue = Math.round(total * 100 / (100 + rate));
+    const tax = total - taxableValue;
+    const cgst = interState ? 0 : Math.floor(tax / 2);
+    const sgst = interState ? 0 : tax - cgst;
+
+    return {
+        description,
+        sac,
+        quantity: 1,
+        taxableValue,
+        cgstRate: interState ? 0 : rate / 2,
+        cgst,
+        sgstRate: interState ? 0 : rate / 2,
+        sgst,
+        igstRate: interState ? rate : 0,
+        igst: interState ? tax : 0,
+        total,
+    };
+};
+
+const totals = (lines: IInvoiceLine[]) => {
+    const sum = (field: 'taxableValue' | 'cgst' | 'sgst' | 'igst' | 'total') =>
+        lines.reduce((total, line) => total + line[field], 0);
+    const cgst = sum('cgst');
+    const sgst = sum('sgst');
+    const igst = sum('igst');
+    return { taxableValue: sum('taxableValue'), cgst, sgst, igst, totalTax: cgst + sgst + igst, total: sum('total') };
+};
+
+const resolveBuyer = async (userId: string, details: BuyerDetails): Promise<IInvoiceParty> => {
+    const gstin = typeof details.gstin === 'string' && details.gstin.trim() ? details.gstin.trim().toUpperCase() : undefined;
+    if (gstin && !isValidGstin(gstin)) {
+        throw new InvoiceError('gstin is not a valid GSTIN');
+    }
+
+    let stateCode = details.state !== undefined && details.state !== '' ? findGstStateCode(details.state) : null;
+    if (details.state !== undefined && details.state !== '' && !stateCode) {
+        throw new InvoiceError('state must be a GST state code or state name');
+    }
+    if (gstin) {
+        if (stateCode && stateCode !== gstin.substring(0, 2)) {
+            throw new InvoiceError('state does not match the GSTIN');
+        }
+        stateCode = gstin.substring(0, 2);
+    }
+    if (!stateCode) {
+        throw new InvoiceError('state (or a GSTIN) is required to work out the tax');
+    }
+
+    const user = await findUserById(userId);
+    const name = typeof details.name === 'string' && details.name.trim() ? details.name.trim() : user?.displayName;
+    if (!name) {
+        throw new InvoiceError('name is required');
+    }
+
+    const address = typeof details.address === 'string' && details.address.trim() ? details.address.trim() : undefined;
+
+    return {
+        name: name.substring(0, 200),
+        ...(address ? { address: address.substring(0, 500) } : {}),
+        ...(user?.email ? { email: user.email } : {}),
+        ...(gstin ? { gstin } : {}),
+        stateCode,
+        state: GST_STATES[stateCode],
+    };
+};
+
+// In memory, freeze issued documents so nothing can change them
+const deepFreeze = <T>(value: T): T => {
+    if (value && typeof value === 'object' && !(value instanceof Date)) {
+        Object.values(value).forEach(deepFreeze);
+        Object.freeze(value);
+    }
+    return value;
+};
+
+const PROVISIONAL_PREFIX = PROVISIONAL_INVOICE_PREFIX;
+// A provisional number this old was left by a request that failed part-way
+const STALE_PROVISIONAL_MS = 60 * 1000;
+const SETTLE_ATTEMPTS = 20;
+const SETTLE_INTERVAL_MS = 100;
+
+const provisionalNumber = (): string => `${PROVISIONAL_PREFIX}${Date.now()}/${uuidv4()}`;
+
+const isProvisional = (invoice: any): boolean => String(invoice.number).startsWith(PROVISIONAL_PREFIX);
+
+const isStale = (invoice: any): boolean =>
+    Date.now() - Number(String(invoice.number).split('/')[1]) > STALE_PROVISIONAL_MS;
+
+/**
+ * Save a document under a provisional number. Only one request can claim
+ * a transaction; the others get the document already there.
+ */
+const claimDocument = async (data: Record<string, any>): Promise<{ invoice: any; claimed: boolean }> => {
+    if (isMongoDBAvailable()) {
+        try {
+            return { invoice: await Invoice.create(data), claimed: true };
+        } catch (error: any) {
+            // 11000 = another request claimed this transaction first
+            if (error?.code === 11000) {
+                return { invoice: await Invoice.findOne({ transactionId: data.transactionId }), claimed: false };
+            }
+            throw error;
+        }
+    }
+
+    const existing = memoryInvoices.get(data.transactionId);
+    if (existing) return { invoice: existing, claimed: false };
+
+    const invoice = { _id: uuidv4(), ...data };
+    memoryInvoices.set(data.transactionId, invoice);
+    return { invoice, claimed: true };
+};
+
+/**
+ * Replace a claimed document's provisional number with the next in its series
+ */
+const assignNumber = async (invoice: any): Promise<any> => {
+    const provisional = invoice.number;
+    const number = await nextDocumentNumber(invoice.kind, invoice.issuedAt);
+
+    if (isMongoDBAvailable()) {
+        const numbered = await Invoice.findOneAndUpdate(
+            { _id: invoice._id, number: provisional },
+            { $set: { number } },
+            { new: true }
+        );
+        // Another request took the document over (it looked stale); it numbers it
+        return numbered || settledDocument(invoice.transactionId);
+    }
+
+    if (memoryInvoices.get(invoice.transactionId) !== invoice) return settledDocument(invoice.transactionId);
+    const numbered = deepFreeze({ ...invoice, number });
+    memoryInvoices.set(invoice.transactionId, numbered);
+    return numbered;
+};
+
+/**
+ * Take over a stale provisional document, or null if another request got it first
+ */
+const reclaimDocument = async (invoice: any): Promise<any | null> => {
+    const number = provisionalNumber();
+
+    if (isMongoDBAvailable()) {
+        return Invoice.findOneAndUpdate({ _id: invoice._id, number: invoice.number }, { $set: { number } }, { new: true });
+    }
+
+    if (memoryInvoices.get(invoice.transactionId) !== invoice) return null;
+    const reclaimed = { ...invoice, number };
+    memoryInvoices.set(invoice.transactionId, reclaimed);
+    return reclaimed;
+};
+
+/**
+ * A transaction's document once it has its number, waiting for the request
+ * numbering it (or finishing the job if that request failed)
+ */
+const settledDocument = async (transactionId: string): Promise<any> => {
+    for (let attempt = 0; attempt < SETTLE_ATTEMPTS; attempt++) {
+        const invoice = await findInvoiceByTransaction(transactionId);
+        if (!isProvisional(invoice)) return invoice;
+
+        if (isStale(invoice)) {
+            const reclaimed = await reclaimDocument(invoice);
+            if (reclaimed) return assignNumber(reclaimed);
+        }
+
+        await new Promise(resolve => setTimeout(resolve, SETTLE_INTERVAL_MS));
+    }
+
+    throw new InvoiceError('The invoice is still being issued, try again shortly');
+};
+
+const issueDocument = async (data: Record<string, any>): Promise<{ invoice: any; created: boolean }> => {
+    const { invoice, claimed } = await claimDocument({ ...data, number: provisionalNumber() });
+    return claimed
+        ? { invoice: await assignNumber(invoice), created: true }
+        : { invoice: await settledDocument(data.transactionId), created: false };
+};
+
+/**
+ * Invoice or credit note as sent to clients, with the `id` the frontend uses
+ */
+export const toClientInvoice = (invoice: any) => {
+    const plain = typeof invoice.toObject === 'function' ? invoice.toObject() : { ...invoice };
+    return { ...plain, id: String(plain._id) };
+};
+
+export const findInvoiceByTransaction = async (transactionId: string): Promise<any | null> => {
+    if (isMongoDBAvailable()) {
+        return Invoice.findOne({ transactionId });
+    }
+    return memoryInvoices.get(transactionId) || null;
+};
+
+const PROVISIONAL_PATTERN = new RegExp(`^${PROVISIONAL_PREFIX}`);
+
+export const findInvoice = async (userId: string, id: string): Promise<any | null> => {
+    if (isMongoDBAvailable()) {
+        if (!mongoose.isValidObjectId(id)) return null;
+        return Invoice.findOne({ _id: id, userId, number: { $not: PROVISIONAL_PATTERN } });
+    }
+    return Array.from(memoryInvoices.values())
+        .find((invoice: any) => invoice._id === id && invoice.userId === userId && !isProvisional(invoice)) || null;
+};
+
+/**
+ * A user's invoices and credit notes, newest first
+ */
+export const listInvoices = async (userId: string): Promise<any[]> => {
+    if (isMongoDBAvailable()) {
+        return Invoice.find({ userId, number: { $not: PROVISIONAL_PATTERN } }).sort({ issuedAt: -1, _id: -1 });
+    }
+    return Array.from(memoryInvoices.values())
+        .filter((invoice: any) => invoice.userId === userId && !isProvisional(invoice))
+        .reverse();
+};
+
+const issueTaxInvoice = async (payment: any, details: BuyerDetails): Promise<{ invoice: any; created: boolean }> => {
+    const buyer = await resolveBuyer(payment.userId, details);
+    const from = seller();
+    const interState = buyer.stateCode !== from.stateCode;
+    const service = getPaymentService(payment.serviceId);
+    const lines = [taxLine(service?.name || payment.serviceName, service?.sac || '998399', payment.amount, interState)];
+    const issuedAt = new Date();
+
+    return issueDocument({
+        kind: 'invoice',
+        userId: payment.userId,
+        transactionId: String(payment._id),
+        orderId: payment.orderId,
+        paymentId: payment.paymentId,
+        seller: from,
+        buyer,
+        placeOfSupply: `${buyer.state} (${buyer.stateCode})`,
+        interState,
+        lines,
+        currency: payment.currency,
+        ...totals(lines),
+        issuedAt,
+    });
+};
+
+const issueCreditNote = async (refund: any, original: any): Promise<{ invoice: any; created: boolean }> => {
+    const [originalLine] = original.lines;
+    const lines = [taxLine(`Refund: ${originalLine.description}`, originalLine.sac, refund.amount, original.interState)];
+    const issuedAt = new Date();
+
+    return issueDocument({
+        kind: 'credit-note',
+        userId: refund.userId,
+        transactionId: String(refund._id),
+        orderId: refund.orderId,
+        paymentId: refund.paymentId,
+        refundId: refund.refundId,
+        originalInvoiceNumber: original.number,
+        seller: original.seller,
+        buyer: original.buyer,
+        placeOfSupply: original.placeOfSupply,
+        interState: original.interState,
+        lines,
+        currency: refund.currency,
+        ...totals(lines),
+        issuedAt,
+    });
+};
+
+/**
+ * 🧾 ISSUE INVOICE
+ *
+ * Issue the document for a ledger transaction: a tax invoice for a captured
+ * payment, a credit note for a processed refund. If one was already issued
+ * it's returned as it stands and `details` are ignored. A refund's credit
+ * note follows its payment's invoice, which is issued first if needed.
+ *
+ * @throws InvoiceError if the transaction can't be invoiced or the buyer details are invalid
+ */
+export const issueInvoice = async (transaction: any, details: BuyerDetails = {}): Promise<{ invoice: any; created: boolean }> => {
+    const existing = await findInvoiceByTransaction(String(transaction._id));
+    if (existing) {
+        return { invoice: isProvisional(existing) ? await settledDocument(String(transaction._id)) : existing, created: false };
+    }
+
+    if (transaction.type === 'payment' && transaction.status === 'captured') {
+        const issued = await issueTaxInvoice(transaction, details);
+        if (issued.created) {
+            console.log(`🧾 Tax invoice ${issued.invoice.number} issued for payment ${transaction.paymentId}`);
+        }
+        return issued;
+    }
+
+    if (transaction.type === 'refund' && transaction.status === 'processed') {
+        const payment = await findTransactionByKey(paymentKey(transaction.paymentId));
+        if (!payment) {
+            throw new InvoiceError('The refunded payment is not in the ledger');
+        }
+        const { invoice: original } = await issueInvoice(payment, details);
+        const issued = await issueCreditNote(transaction, original);
+        if (issued.created) {
+            console.log(`🧾 Credit note ${issued.invoice.number} issued against ${original.number}`);
+        }
+        return issued;
+    }
+
+    throw new InvoiceError('Only captured payments and processed refunds can be invoiced');
+};
+
+/**
+ * Issue a refund's credit note if its payment has already been invoiced.
+ * Refunds of payments nobody asked an invoice for get one on request.
+ */
+export const issueCreditNoteForRefund = async (refund: any): Promise<void> => {
+    const payment = await findTransactionByKey(paymentKey(refund.paymentId));
+    if (!payment || !(await findInvoiceByTransaction(String(payment._id)))) return;
+    await issueInvoice(refund);
+};
@@ -9,6 +9,7 @@
  */
 
 import jwt from 'jsonwebtoken';
+import { v4 as uuidv4 } from 'uuid';
 import config from '../config';
 
 /**
@@ -19,12 +20,14 @@ export interface TokenPayload {
     userId: string;          // Unique user identifier
     email: string;           // User's email
     role?: string;           // User role (buyer, seller, employee, etc.)
+    sid?: string;            // Login session the token belongs to (see tokenStore)
 }
 
 /**
  * Decoded token interface (includes JWT standard claims)
  */
 export interface DecodedToken extends TokenPayload {
+    jti: string;   // Unique token ID (used for revocation)
     iat: number;   // Issued at (timestamp)
     exp: number;   // Expires at (timestamp)
 }
@@ -32,8 +35,8 @@ export interface DecodedToken extends TokenPayload {
 /**
  * 🎫 GENERATE JWT TOKEN
  * 
- * Creates a signed JWT token containing user information.
- * This token is sent to the frontend after successful login.
+ * Creates a short-lived signed access token containing user information.
+ * Each token gets a unique `jti` so it can be revoked individually.
  * 
  * @param payload - User data to encode in the token
  * @returns Signed JWT token string
@@ -54,7 +57,8 @@ export const generateToken = (payload: TokenPayload): string => {
             payload,
             config.jwtSecret,
             {
-                expiresIn: config.jwtExpiresIn,     // e.g., '7d' for 7 days
+                expiresIn: config.jwtExpiresIn,     // e.g., '15m' for 15 minutes
+                jwtid: uuidv4(),                     // Unique token ID
                 issuer: 'gharbazaar-backend',        // Who issued this token
                 audience: 'gharbazaar-frontend',     // Who should use this token
             } as jwt.SignOptions
@@ -153,28 +157,59 @@ export const isTokenExpired = (token: string): boolean => {
 };
 
 /**
- * 🔄 REFRESH TOKEN (Optional future feature)
+ * Password reset token payload
+ */
+export interface PasswordResetPayload {
+    userId: string;
+    jti: string;
+    exp: number;
+}
+
+// Separate audience so a reset token can never be used as an access token
+const PASSWORD_RESET_AUDIENCE = 'gharbazaar-password-reset';
+
+/**
+ * 🔁 GENERATE PASSWORD RESET TOKEN
  * 
- * Generate a new token with extended expiration.
- * Useful for "remember me" functionality or silent token refresh.
+ * Creates a signed, short-lived token for the reset-password link.
+ * Single use is enforced by the caller, which records the `jti`.
  * 
- * @param oldToken - Existing token to refresh
- * @returns New token with fresh expiration
+ * @param userId - Account whose password may be reset
+ * @param tokenId - Unique ID stored server-side to make the token single-use
+ * @returns Signed reset token
  */
-export const refreshToken = (oldToken: string): string => {
-    try {
-        // Verify the old token first
-        const decoded = verifyToken(oldToken);
-
-        // Generate a new token with the same payload but fresh expiration
-        const newToken = generateToken({
-            userId: decoded.userId,
-            email: decoded.email,
-            role: decoded.role,
-        });
+export const generatePasswordResetToken = (userId: string, tokenId: string): string => {
+    return jwt.sign(
+        { userId },
+        config.jwtSecret,
+        {
+            expiresIn: `${config.passwordResetExpiresInMinutes}m`,
+            issuer: 'gharbazaar-backend',
+            audience: PASSWORD_RESET_AUDIENCE,
+            jwtid: tokenId,
+        } as jwt.SignOptions
+    );
+};
 
-        return newToken;
+/**
+ * 🔓 VERIFY PASSWORD RESET TOKEN
+ * 
+ * @throws Error if the token is invalid, expired or not a reset token
+ */
+export const verifyPasswordResetToken = (token: string): PasswordResetPayload => {
+    try {
+        return jwt.verify(
+            token,
+            config.jwtSecret,
+            {
+                issuer: 'gharbazaar-backend',
+                audience: PASSWORD_RESET_AUDIENCE,
+            }
+        ) as PasswordResetPayload;
     } catch (error) {
-        throw new Error('Cannot refresh invalid token');
+        if (error instanceof jwt.TokenExpiredError) {
+            throw new Error('Reset link has expired. Please request a new one.');
+        }
+        throw new Error('Invalid reset link.');
     }
 };
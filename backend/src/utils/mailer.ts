@@ -0,0 +1,89 @@
+/**
+ * ✉️ MAILER
+ *
+ * Pluggable outgoing email. The active transport is chosen by MAIL_TRANSPORT:
+ * - console: prints emails to the log (default, for local development)
+ * - file:    writes each email as JSON to MAIL_OUTBOX_DIR (for tests and QA)
+ *
+ * A production provider (SMTP, SES, ...) plugs in through setMailTransport().
+ *
+ * @author GharBazaar Backend Team
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import config from '../config';
+
+export interface MailMessage {
+    to: string;
+    subject: string;
+    text: string;
+    html?: string;
+}
+
+export interface MailTransport {
+    name: string;
+    send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+/**
+ * Logs emails instead of sending them
+ */
+export class ConsoleTransport implements MailTransport {
+    name = 'console';
+
+    async send(message: MailMessage & { from: string }): Promise<void> {
+        console.log('\n' + '-'.repeat(60));
+        console.log(`✉️  Email to: ${message.to}`);
+        console.log(`   From: ${message.from}`);
+        console.log(`   Subject: ${message.subject}`);
+        console.log('-'.repeat(60));
+        console.log(message.text);
+        console.log('-'.repeat(60) + '\n');
+    }
+}
+
+/**
+ * Writes each email to its own JSON file in the outbox directory
+ */
+export class FileTransport implements MailTransport {
+    name = 'file';
+
+    constructor(private outboxDir: string) { }
+
+    async send(message: MailMessage & { from: string }): Promise<void> {
+        await fs.mkdir(this.outboxDir, { recursive: true });
+
+        const sentAt = new Date();
+        const fileName = `${sentAt.getTime()}-${uuidv4()}.json`;
+        await fs.writeFile(
+            path.join(this.outboxDir, fileName),
+            JSON.stringify({ ...message, sentAt: sentAt.toISOString() }, null, 2)
+        );
+    }
+}
+
+const createDefaultTransport = (): MailTransport => {
+    if (config.mail.transport === 'file') {
+        return new FileTransport(config.mail.outboxDir);
+    }
+    return new ConsoleTransport();
+};
+
+let transport: MailTransport = createDefaultTransport();
+
+/**
+ * Replace the active transport (e.g. with a real provider)
+ */
+export const setMailTransport = (newTransport: MailTransport): void => {
+    transport = newTransport;
+};
+
+/**
+ * 📤 SEND MAIL
+ */
+export const sendMail = async (message: MailMessage): Promise<void> => {
+    await transport.send({ ...message, from: config.mail.from });
+    console.log(`✉️  Email "${message.subject}" sent to ${message.to} via ${transport.name}`);
+};
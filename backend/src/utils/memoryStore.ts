@@ -19,6 +19,66 @@ export const memoryTickets = new Map();
 // In-memory storage for ticket messages
 export const memoryTicketMessages = new Map();
 
+// In-memory storage for user accounts (keyed by user ID)
+export const memoryUsers = new Map();
+
+// In-memory storage for refresh tokens (keyed by token hash)
+export const memoryRefreshTokens = new Map();
+
+// In-memory revocation list (keyed by token jti or session id)
+export const memoryRevokedTokens = new Map();
+
+// In-memory storage for password reset tokens (keyed by token ID)
+export const memoryPasswordResets = new Map();
+
+// In-memory storage for property listings (keyed by property ID)
+export const memoryProperties = new Map();
+
+// In-memory storage for bids (keyed by bid ID)
+export const memoryBids = new Map();
+
+// In-memory storage for site visits (keyed by visit ID)
+export const memorySiteVisits = new Map();
+
+// In-memory storage for property reviews (keyed by review ID)
+export const memoryReviews = new Map();
+
+// In-memory storage for chat attachment records (keyed by attachment ID; files stay on disk)
+export const memoryChatAttachments = new Map();
+
+// In-memory storage for user blocks (keyed by "blockerId:blockedId")
+export const memoryUserBlocks = new Map();
+
+// In-memory storage for notifications (keyed by notification ID)
+export const memoryNotifications = new Map();
+
+// In-memory storage for email/SMS/WhatsApp notifications held for quiet hours or digests (keyed by ID)
+export const memoryPendingNotifications = new Map();
+
+// In-memory storage for payment orders (keyed by gateway order ID)
+export const memoryPaymentOrders = new Map();
+
+// In-memory payment ledger (keyed by idempotency key)
+export const memoryTransactions = new Map();
+
+// In-memory record of handled payment webhooks (keyed by event ID)
+export const memoryWebhookEvents = new Map();
+
+// In-memory reconciliation issues (keyed by issue key)
+export const memoryReconciliationIssues = new Map();
+
+// In-memory tax invoices and credit notes (keyed by ledger transaction ID)
+export const memoryInvoices = new Map();
+
+// In-memory document number sequences (keyed by sequence name)
+export const memoryCounters = new Map<string, number>();
+
+// In-memory online/away/offline status (keyed by user ID)
+export const memoryPresence = new Map();
+
+// In-memory canned support responses (keyed by response ID)
+export const memoryCannedResponses = new Map();
+
 /**
  * Check if MongoDB is available
  */
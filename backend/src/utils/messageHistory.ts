@@ -0,0 +1,342 @@
+/**
+ * 📜 MESSAGE HISTORY & SEARCH
+ *
+ * Cursor-paginated message history and full-text search across a user's
+ * conversations, shared by MongoDB and in-memory mode.
+ *
+ * History pages are anchored on a message id:
+ * - (no cursor)  → the latest `limit` messages
+ * - before=<id>  → older messages, for infinite scroll upwards
+ * - after=<id>   → newer messages, when the window doesn't reach the present
+ * - around=<id>  → a window centred on a message (search "jump to" anchors)
+ * Messages are always returned oldest first. History a user deleted for
+ * themselves (their `clearedAt`) is never returned to them.
+ *
+ * Search uses the Mongo text index (word/stem matching) and falls back to a
+ * case-insensitive substring match in memory mode. Hits are newest first and
+ * paginated with `nextCursor`.
+ *
+ * @author GharBazaar Backend Team
+ */
+
+import mongoose from 'mongoose';
+import Conversation from '../models/conversation.model';
+import Message from '../models/message.model';
+import { isMongoDBAvailable, memoryConversations, memoryMessages } from './memoryStore';
+import { toClientMessage } from './chatMessages';
+import { InvalidCursorError } from './propertySearch';
+import { getParticipantState } from './conversationState';
+
+const MAX_PAGE_SIZE = 100;
+const MAX_SEARCH_RESULTS = 50;
+const MAX_CONTEXT_MESSAGES = 5;
+export const MIN_SEARCH_LENGTH = 2;
+
+export interface MessagePage {
+    messages: any[];
+    hasMoreBefore: boolean;
+    hasMoreAfter: boolean;
+}
+
+export interface MessageSearchHit {
+    conversation: { _id: string; propertyId?: string; propertyTitle?: string; participants: string[] };
+    message: any;
+    before: any[];
+    after: any[];
+    // Open the conversation at GET .../messages?around=<messageId>
+    anchor: { conversationId: string; messageId: string };
+}
+
+export interface MessageSearchResult {
+    hits: MessageSearchHit[];
+    nextCursor: string | null;
+    limit: number;
+}
+
+const timeOf = (message: any): number => new Date(message.createdAt).getTime();
+
+// Chronological order, ties broken by id so cursors never skip a message
+export const compareMessages = (a: any, b: any): number =>
+    timeOf(a) - timeOf(b) || String(a._id).localeCompare(String(b._id));
+
+const visibleMemoryMessages = (conversationId: string, since?: Date): any[] =>
+    (memoryMessages.get(conversationId) || [])
+        .filter((m: any) => !m.deleted && (!since || timeOf(m) > since.getTime()))
+        .sort(compareMessages);
+
+// ==================== MONGO HELPERS ====================
+
+type Side = 'older' | 'newer';
+
+const sideQuery = (conversationId: string, side: Side, anchor?: any, since?: Date): Record<string, any> => {
+    const query: Record<string, any> = { conversationId, deleted: false };
+    if (since) query.createdAt = { $gt: since };
+    if (anchor) {
+        const op = side === 'older' ? '$lt' : '$gt';
+        query.$or = [
+            { createdAt: { [op]: anchor.createdAt } },
+            { createdAt: anchor.createdAt, _id: { [op]: anchor._id } },
+        ];
+    }
+    return query;
+};
+
+// Up to `limit` messages on one side of the anchor, nearest first, plus whether more exist
+const fetchSide = async (conversationId: string, side: Side, limit: number, anchor?: any, since?: Date) => {
+    if (limit <= 0) {
+        const more = await Message.exists(sideQuery(conversationId, side, anchor, since));
+        return { messages: [], hasMore: !!more };
+    }
+
+    const direction = side === 'older' ? -1 : 1;
+    const results = await Message.find(sideQuery(conversationId, side, anchor, since))
+        .sort({ createdAt: direction, _id: direction })
+        .limit(limit + 1);
+
+    return { messages: results.slice(0, limit), hasMore: results.length > limit };
+};
+
+const findAnchor = async (conversationId: string, messageId: string) => {
+    if (!mongoose.isValidObjectId(messageId)) throw new InvalidCursorError();
+    const anchor = await Message.findOne({ _id: messageId, conversationId });
+    if (!anchor) throw new InvalidCursorError();
+    return anchor;
+};
+
+// ==================== HISTORY ====================
+
+/**
+ * 📜 GET A PAGE OF MESSAGES
+ *
+ * Throws InvalidCursorError if the cursor isn't a message in this conversation
+ * (or, for `around`, a message that has been deleted).
+ */
+export const getMessagePage = async (
+    conversationId: string,
+    options: { limit?: any; before?: string; after?: string; around?: string; since?: Date }
+): Promise<MessagePage> => {
+    const limit = Math.min(Math.max(parseInt(options.limit) || 50, 1), MAX_PAGE_SIZE);
+    const { before, after, around, since } = options;
+
+    if (isMongoDBAvailable()) {
+        if (around) {
+            const anchor = await findAnchor(conversationId, around);
+            if (anchor.deleted || (since && anchor.createdAt <= since)) throw new InvalidCursorError();
+
+            const olderCount = Math.floor((limit - 1) / 2);
+            const [older, newer] = await Promise.all([
+                fetchSide(conversationId, 'older', olderCount, anchor, since),
+                fetchSide(conversationId, 'newer', limit - 1 - olderCount, anchor, since),
+            ]);
+            return {
+                messages: [...older.messages.reverse(), anchor, ...newer.messages].map(toClientMessage),
+                hasMoreBefore: older.hasMore,
+                hasMoreAfter: newer.hasMore,
+            };
+        }
+
+        if (after) {
+            const anchor = await findAnchor(conversationId, after);
+            const newer = await fetchSide(conversationId, 'newer', limit, anchor, since);
+            return {
+                messages: newer.messages.map(toClientMessage),
+                hasMoreBefore: true,
+                hasMoreAfter: newer.hasMore,
+            };
+        }
+
+        const anchor = before ? await findAnchor(conversationId, before) : undefined;
+        const older = await fetchSide(conversationId, 'older', limit, anchor, since);
+        return {
+            messages: older.messages.reverse().map(toClientMessage),
+            hasMoreBefore: older.hasMore,
+            hasMoreAfter: !!anchor,
+        };
+    }
+
+    // In-memory: slice the sorted conversation around the cursor position
+    const all = visibleMemoryMessages(conversationId, since);
+    const cursorId = around || after || before;
+    let start: number;
+    let end: number;
+
+    if (cursorId) {
+        const anchor = (memoryMessages.get(conversationId) || []).find((m: any) => m._id === cursorId);
+        if (!anchor || (around && !all.includes(anchor))) throw new InvalidCursorError();
+
+        // First visible message after the anchor (the anchor itself when around)
+        const index = all.findIndex(m => compareMessages(m, anchor) >= 0);
+        const position = index === -1 ? all.length : index;
+
+        if (around) {
+            start = Math.max(position - Math.floor((limit - 1) / 2), 0);
+            end = Math.min(start + limit, all.length);
+        } else if (after) {
+            start = all[position]?._id === anchor._id ? position + 1 : position;
+            end = Math.min(start + limit, all.length);
+        } else {
+            end = position;
+            start = Math.max(end - limit, 0);
+        }
+    } else {
+        end = all.length;
+        start = Math.max(end - limit, 0);
+    }
+
+    return {
+        messages: all.slice(start, end).map(toClientMessage),
+        hasMoreBefore: start > 0,
+        hasMoreAfter: end < all.length,
+    };
+};
+
+// ==================== SEARCH ====================
+
+const encodeCursor = (message: any): string =>
+    Buffer.from(JSON.stringify({ value: timeOf(message), id: String(message._id) })).toString('base64url');
+
+const decodeCursor = (cursor: string): { value: number; id: string } => {
+    try {
+        const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+        if (typeof decoded.value !== 'number' || typeof decoded.id !== 'string') {
+            throw new Error('Malformed cursor');
+        }
+        return decoded;
+    } catch (error) {
+        throw new InvalidCursorError();
+    }
+};
+
+const conversationSummary = (conversation: any) => ({
+    _id: String(conversation._id),
+    propertyId: conversation.propertyId,
+    propertyTitle: conversation.propertyTitle,
+    participants: conversation.participants,
+});
+
+/**
+ * 🔍 SEARCH A USER'S MESSAGES
+ *
+ * Matches message text and attachment file names in every conversation the
+ * user takes part in. Each hit carries `context` messages either side of it.
+ * Throws InvalidCursorError for a bad `cursor`.
+ */
+export const searchMessages = async (
+    userId: string,
+    options: { q: string; limit?: any; cursor?: string; context?: any; conversationId?: string }
+): Promise<MessageSearchResult> => {
+    const q = options.q.trim();
+    const limit = Math.min(Math.max(parseInt(options.limit) || 20, 1), MAX_SEARCH_RESULTS);
+    const requestedContext = parseInt(options.context);
+    const contextSize = Math.min(Math.max(Number.isNaN(requestedContext) ? 2 : requestedContext, 0), MAX_CONTEXT_MESSAGES);
+    const cursor = options.cursor ? decodeCursor(options.cursor) : null;
+
+    let page: any[];
+    let conversations: Map<string, any>;
+    const contextFor: Array<Promise<{ before: any[]; after: any[] }>> = [];
+
+    if (isMongoDBAvailable()) {
+        const conversationQuery: Record<string, any> = { participants: userId };
+        if (options.conversationId) {
+            if (!mongoose.isValidObjectId(options.conversationId)) {
+                return { hits: [], nextCursor: null, limit };
+            }
+            conversationQuery._id = options.conversationId;
+        }
+        const userConversations = await Conversation.find(conversationQuery)
+            .select('_id propertyId propertyTitle participants participantStates');
+        conversations = new Map(userConversations.map(c => [String(c._id), c]));
+
+        // Skip history the user deleted for themselves
+        const uncleared = userConversations.filter(c => !getParticipantState(c, userId).clearedAt);
+        const scopes: Record<string, any>[] = [{ conversationId: { $in: uncleared.map(c => c._id) } }];
+        userConversations.forEach(c => {
+            const { clearedAt } = getParticipantState(c, userId);
+            if (clearedAt) scopes.push({ conversationId: c._id, createdAt: { $gt: clearedAt } });
+        });
+
+        const query: Record<string, any> = {
+            $text: { $search: q },
+            $and: [{ $or: scopes }],
+            deleted: false,
+        };
+        if (cursor) {
+            if (!mongoose.isValidObjectId(cursor.id)) throw new InvalidCursorError();
+            const at = new Date(cursor.value);
+            const id = new mongoose.Types.ObjectId(cursor.id);
+            query.$and.push({
+                $or: [
+                    { createdAt: { $lt: at } },
+                    { createdAt: at, _id: { $lt: id } },
+                ],
+            });
+        }
+
+        page = await Message.find(query)
+            .sort({ createdAt: -1, _id: -1 })
+            .limit(limit + 1);
+
+        for (const message of page.slice(0, limit)) {
+            const conversationId = String(message.conversationId);
+            const { clearedAt } = getParticipantState(conversations.get(conversationId), userId);
+            contextFor.push(Promise.all([
+                fetchSide(conversationId, 'older', contextSize, message, clearedAt),
+                fetchSide(conversationId, 'newer', contextSize, message, clearedAt),
+            ]).then(([older, newer]) => ({ before: older.messages.reverse(), after: newer.messages })));
+        }
+    } else {
+        conversations = new Map(
+            Array.from(memoryConversations.values())
+                .filter((c: any) => c.participants.includes(userId))
+                .filter((c: any) => !options.conversationId || c._id === options.conversationId)
+                .map((c: any) => [String(c._id), c])
+        );
+
+        const needle = q.toLowerCase();
+        const matches = (m: any) =>
+            String(m.content || '').toLowerCase().includes(needle) ||
+            String(m.fileName || '').toLowerCase().includes(needle);
+
+        const threads = new Map<string, any[]>();
+        const hits: any[] = [];
+        for (const [conversationId, conversation] of conversations) {
+            const thread = visibleMemoryMessages(conversationId, getParticipantState(conversation, userId).clearedAt);
+            threads.set(conversationId, thread);
+            hits.push(...thread.filter(matches));
+        }
+
+        const newestFirst = hits.sort((a, b) => compareMessages(b, a));
+        const afterCursor = cursor
+            ? newestFirst.filter(m => compareMessages(m, { createdAt: cursor.value, _id: cursor.id }) < 0)
+            : newestFirst;
+        page = afterCursor.slice(0, limit + 1);
+
+        for (const message of page.slice(0, limit)) {
+            const thread = threads.get(String(message.conversationId))!;
+            const index = thread.indexOf(message);
+            contextFor.push(Promise.resolve({
+                before: thread.slice(Math.max(index - contextSize, 0), index),
+                after: thread.slice(index + 1, index + 1 + contextSize),
+            }));
+        }
+    }
+
+    const hasMore = page.length > limit;
+    const results = page.slice(0, limit);
+    const contexts = await Promise.all(contextFor);
+
+    return {
+        hits: results.map((message, i) => {
+            const conversationId = String(message.conversationId);
+            return {
+                conversation: conversationSummary(conversations.get(conversationId)),
+                message: toClientMessage(message),
+                before: contexts[i].before.map(toClientMessage),
+                after: contexts[i].after.map(toClientMessage),
+                anchor: { conversationId, messageId: String(message._id) },
+            };
+        }),
+        nextCursor: hasMore ? encodeCursor(results[results.length - 1]) : null,
+        limit,
+    };
+};
@@ -0,0 +1,220 @@
+/**
+ * 📬 NOTIFICATION DELIVERY
+ *
+ * Sends notifications outside the app — email, SMS and WhatsApp — as each
+ * user's preferences allow:
+ * - Sent right away normally
+ * - Held until quiet hours end, or until the daily digest, otherwise
+ *
+ * Held notifications are stored and sent by a periodic sweeper, one message
+ * per user and channel. SMS and WhatsApp go through a pluggable text
+ * transport (console by default); a provider plugs in through setTextTransport().
+ *
+ * @author GharBazaar Backend Team
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import config from '../config';
+import PendingNotification from '../models/pendingNotification.model';
+import { NotificationType, ExternalChannel } from '../models/notification.model';
+import { INotificationPreferences } from '../models/user.model';
+import { isMongoDBAvailable, memoryPendingNotifications } from './memoryStore';
+import { sendMail } from './mailer';
+import { StoredUser, findUserById } from './userStore';
+import { resolveNotificationPreferences, isChannelEnabled, externalDeliveryTime } from './notificationPreferences';
+
+const EXTERNAL_CHANNELS: ExternalChannel[] = ['email', 'sms', 'whatsapp'];
+const MAX_TEXT_LENGTH = 320;
+
+export interface DeliverableNotification {
+    type: NotificationType;
+    title: string;
+    message?: string;
+    link?: string;
+}
+
+export interface TextTransport {
+    name: string;
+    send(to: string, text: string): Promise<void>;
+}
+
+/**
+ * Logs SMS / WhatsApp messages instead of sending them
+ */
+export class ConsoleTextTransport implements TextTransport {
+    constructor(public name: string) { }
+
+    async send(to: string, text: string): Promise<void> {
+        console.log(`📱 ${this.name} to ${to}: ${text}`);
+    }
+}
+
+const textTransports: Record<'sms' | 'whatsapp', TextTransport> = {
+    sms: new ConsoleTextTransport('SMS'),
+    whatsapp: new ConsoleTextTransport('WhatsApp'),
+};
+
+/**
+ * Replace the SMS or WhatsApp transport (e.g. with a real provider)
+ */
+export const setTextTransport = (channel: 'sms' | 'whatsapp', transport: TextTransport): void => {
+    textTransports[channel] = transport;
+};
+
+const linkUrl = (link?: string) => (link ? `${config.frontendUrl}${link}` : config.frontendUrl);
+
+const truncate = (text: string) =>
+    text.length > MAX_TEXT_LENGTH ? `${text.substring(0, MAX_TEXT_LENGTH - 1)}…` : text;
+
+/**
+ * Send one message (a single notification or a digest of several) on a channel.
+ * Returns false if the user has no address for it.
+ */
+const sendOnChannel = async (user: StoredUser, channel: ExternalChannel, notifications: DeliverableNotification[]): Promise<boolean> => {
+    const [first] = notifications;
+    const isDigest = notifications.length > 1;
+
+    if (channel === 'email') {
+        const lines = notifications.map(n =>
+            isDigest
+                ? `• ${n.title}${n.message ? `: ${n.message}` : ''}\n  ${linkUrl(n.link)}`
+                : `${n.message || n.title}\n\nOpen GharBazaar: ${linkUrl(n.link)}`
+        );
+        await sendMail({
+            to: user.email,
+            subject: isDigest ? `Your GharBazaar digest: ${notifications.length} updates` : first.title,
+            text: `Hi ${user.displayName},\n\n${lines.join('\n\n')}\n\nManage notifications: ${linkUrl('/dashboard/settings')}`,
+        });
+        return true;
+    }
+
+    if (!user.phoneNumber) return false;
+
+    const text = isDigest
+        ? `GharBazaar: ${notifications.length} updates - ${notifications.map(n => n.title).join('; ')}`
+        : `GharBazaar: ${first.title}${first.message ? ` - ${first.message}` : ''}`;
+    await textTransports[channel].send(user.phoneNumber, truncate(text));
+    return true;
+};
+
+const holdNotification = async (userId: string, channel: ExternalChannel, notification: DeliverableNotification, deliverAfter: Date) => {
+    const data = {
+        userId,
+        channel,
+        type: notification.type,
+        title: notification.title,
+        message: notification.message || '',
+        link: notification.link,
+        deliverAfter,
+    };
+
+    if (isMongoDBAvailable()) {
+        await PendingNotification.create(data);
+        return;
+    }
+    const id = uuidv4();
+    memoryPendingNotifications.set(id, { _id: id, ...data, createdAt: new Date() });
+};
+
+/**
+ * 📤 DELIVER EXTERNALLY
+ *
+ * Send `notification` on each outside channel the user has enabled for its
+ * type, or hold it for quiet hours / the digest. A failing channel is
+ * logged and doesn't stop the others.
+ */
+export const deliverExternally = async (
+    user: StoredUser,
+    preferences: INotificationPreferences,
+    notification: DeliverableNotification,
+    now: Date = new Date()
+): Promise<void> => {
+    const userId = user._id.toString();
+    const deliverAfter = externalDeliveryTime(preferences, now);
+
+    await Promise.all(EXTERNAL_CHANNELS
+        .filter(channel => isChannelEnabled(preferences, channel, notification.type))
+        .map(async channel => {
+            try {
+                if (deliverAfter) {
+                    await holdNotification(userId, channel, notification, deliverAfter);
+                } else {
+                    await sendOnChannel(user, channel, [notification]);
+                }
+            } catch (error) {
+                console.error(`❌ Failed to deliver ${channel} notification to ${userId}:`, error);
+            }
+        }));
+};
+
+/**
+ * Remove and return every held notification due by `now`, oldest first
+ */
+const claimDueNotifications = async (now: Date): Promise<any[]> => {
+    if (isMongoDBAvailable()) {
+        const due = await PendingNotification.find({ deliverAfter: { $lte: now } })
+            .sort({ createdAt: 1, _id: 1 })
+            .lean();
+        // Only send what this sweep actually removed, in case two overlap
+        const claimed = await Promise.all(due.map(n => PendingNotification.deleteOne({ _id: n._id })));
+        return due.filter((_, i) => claimed[i].deletedCount > 0);
+    }
+
+    const due = Array.from(memoryPendingNotifications.values())
+        .filter((n: any) => n.deliverAfter <= now);
+    due.forEach((n: any) => memoryPendingNotifications.delete(n._id));
+    return due;
+};
+
+/**
+ * 📦 SEND DUE NOTIFICATIONS
+ *
+ * Send everything held until now, batched per user and channel. Preferences
+ * are checked again, so a channel or type switched off since is skipped.
+ * Returns the number of messages sent.
+ */
+export const sendDueNotifications = async (now: Date = new Date()): Promise<number> => {
+    const batches = new Map<string, any[]>();
+    for (const pending of await claimDueNotifications(now)) {
+        const key = `${pending.userId}:${pending.channel}`;
+        batches.set(key, [...(batches.get(key) || []), pending]);
+    }
+
+    let sent = 0;
+    for (const batch of batches.values()) {
+        const { userId, channel } = batch[0];
+        try {
+            const user = await findUserById(userId);
+            if (!user) continue;
+
+            const preferences = resolveNotificationPreferences(user.notificationPreferences);
+            const wanted = batch.filter(n => isChannelEnabled(preferences, channel, n.type));
+            if (wanted.length && await sendOnChannel(user, channel, wanted)) sent++;
+        } catch (error) {
+            console.error(`❌ Failed to send held ${channel} notifications to ${userId}:`, error);
+        }
+    }
+    return sent;
+};
+
+/**
+ * ⏰ START NOTIFICATION DELIVERY SWEEPER
+ *
+ * Sends held notifications every NOTIFICATION_SWEEP_INTERVAL_SECONDS
+ */
+export const startNotificationDeliverySweeper = (): NodeJS.Timeout => {
+    const sweep = async () => {
+        try {
+            const sent = await sendDueNotifications();
+            if (sent) {
+                console.log(`📬 Sent ${sent} held notification message(s)`);
+            }
+        } catch (error) {
+            console.error('❌ Notification delivery sweep failed:', error);
+        }
+    };
+
+    const timer = setInterval(sweep, config.notifications.deliverySweepIntervalSeconds * 1000);
+    timer.unref();
+    return timer;
+};
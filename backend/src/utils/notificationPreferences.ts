@@ -0,0 +1,231 @@
+/**
+ * 🎚️ NOTIFICATION PREFERENCES
+ *
+ * What each user wants to be notified about, and how:
+ * - Channels: in-app, email, SMS, WhatsApp
+ * - Types: message, offer, inquiry, payment, system, alert
+ * - Quiet hours in the user's timezone (email, SMS and WhatsApp wait until they end)
+ * - Daily digest: email, SMS and WhatsApp batched into one message a day
+ *
+ * Stored on the user; users who never saved settings get the defaults.
+ * notify() enforces them, so every sender gets the same behaviour.
+ *
+ * @author GharBazaar Backend Team
+ */
+
+import config from '../config';
+import {
+    NOTIFICATION_TYPES,
+    NOTIFICATION_CHANNELS,
+    NotificationType,
+    NotificationChannel,
+} from '../models/notification.model';
+import { DIGEST_FREQUENCIES, INotificationPreferences } from '../models/user.model';
+import { findUserById, updateUser } from './userStore';
+
+const MINUTES_PER_DAY = 24 * 60;
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+/**
+ * Error thrown when a preferences update has an invalid field
+ */
+export class InvalidPreferencesError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InvalidPreferencesError';
+    }
+}
+
+export const getDefaultNotificationPreferences = (): INotificationPreferences => ({
+    channels: { inApp: true, email: true, sms: false, whatsapp: false },
+    types: Object.fromEntries(NOTIFICATION_TYPES.map(type => [type, true])) as Record<NotificationType, boolean>,
+    quietHours: { enabled: false, start: '22:00', end: '08:00' },
+    timezone: config.notifications.defaultTimezone,
+    digest: 'off',
+    digestTime: '09:00',
+});
+
+/**
+ * Stored preferences filled in with defaults (for users who saved none,
+ * or saved before a channel or type existed)
+ */
+export const resolveNotificationPreferences = (stored?: Partial<INotificationPreferences> | null): INotificationPreferences => {
+    const defaults = getDefaultNotificationPreferences();
+    const plain: any = stored && typeof (stored as any).toObject === 'function' ? (stored as any).toObject() : stored || {};
+
+    return {
+        channels: { ...defaults.channels, ...plain.channels },
+        types: { ...defaults.types, ...plain.types },
+        quietHours: { ...defaults.quietHours, ...plain.quietHours },
+        timezone: plain.timezone || defaults.timezone,
+        digest: plain.digest || defaults.digest,
+        digestTime: plain.digestTime || defaults.digestTime,
+    };
+};
+
+export const isValidTimezone = (timezone: unknown): timezone is string => {
+    if (typeof timezone !== 'string' || !timezone) return false;
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+const isTime = (value: unknown): value is string => typeof value === 'string' && TIME_PATTERN.test(value);
+
+const toMinutes = (time: string): number => {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+};
+
+// Copy the boolean flags in `updates` for known keys onto `target`
+const applyFlags = (target: Record<string, boolean>, updates: unknown, keys: readonly string[], field: string) => {
+    if (updates === undefined) return;
+    if (!updates || typeof updates !== 'object') {
+        throw new InvalidPreferencesError(`${field} must be an object`);
+    }
+    for (const [key, value] of Object.entries(updates)) {
+        if (!keys.includes(key)) {
+            throw new InvalidPreferencesError(`Unknown ${field} "${key}" (expected one of: ${keys.join(', ')})`);
+        }
+        if (typeof value !== 'boolean') {
+            throw new InvalidPreferencesError(`${field}.${key} must be true or false`);
+        }
+        target[key] = value;
+    }
+};
+
+/**
+ * Apply a partial update (any subset of fields) to `current`
+ *
+ * @throws InvalidPreferencesError if a field is invalid
+ */
+export const mergeNotificationPreferences = (current: INotificationPreferences, update: any): INotificationPreferences => {
+    if (!update || typeof update !== 'object') {
+        throw new InvalidPreferencesError('Preferences must be an object');
+    }
+
+    const next = resolveNotificationPreferences(current);
+    applyFlags(next.channels, update.channels, NOTIFICATION_CHANNELS, 'channels');
+    applyFlags(next.types, update.types, NOTIFICATION_TYPES, 'types');
+
+    if (update.quietHours !== undefined) {
+        const { enabled, start, end } = update.quietHours || {};
+        if (enabled !== undefined && typeof enabled !== 'boolean') {
+            throw new InvalidPreferencesError('quietHours.enabled must be true or false');
+        }
+        if (start !== undefined && !isTime(start)) {
+            throw new InvalidPreferencesError('quietHours.start must be a time like 22:00');
+        }
+        if (end !== undefined && !isTime(end)) {
+            throw new InvalidPreferencesError('quietHours.end must be a time like 07:00');
+        }
+        next.quietHours = {
+            enabled: enabled ?? next.quietHours.enabled,
+            start: start ?? next.quietHours.start,
+            end: end ?? next.quietHours.end,
+        };
+    }
+
+    if (update.timezone !== undefined) {
+        if (!isValidTimezone(update.timezone)) {
+            throw new InvalidPreferencesError('timezone must be an IANA timezone like Asia/Kolkata');
+        }
+        next.timezone = update.timezone;
+    }
+
+    if (update.digest !== undefined) {
+        if (!(DIGEST_FREQUENCIES as readonly string[]).includes(update.digest)) {
+            throw new InvalidPreferencesError(`digest must be one of: ${DIGEST_FREQUENCIES.join(', ')}`);
+        }
+        next.digest = update.digest;
+    }
+
+    if (update.digestTime !== undefined) {
+        if (!isTime(update.digestTime)) {
+            throw new InvalidPreferencesError('digestTime must be a time like 09:00');
+        }
+        next.digestTime = update.digestTime;
+    }
+
+    return next;
+};
+
+/**
+ * A user's preferences with defaults applied, or null if there's no such user
+ */
+export const getNotificationPreferences = async (userId: string): Promise<INotificationPreferences | null> => {
+    const user = await findUserById(userId);
+    return user ? resolveNotificationPreferences(user.notificationPreferences) : null;
+};
+
+/**
+ * Save a partial update. Returns the full preferences, or null if there's no such user.
+ *
+ * @throws InvalidPreferencesError if a field is invalid
+ */
+export const updateNotificationPreferences = async (userId: string, update: any): Promise<INotificationPreferences | null> => {
+    const current = await getNotificationPreferences(userId);
+    if (!current) return null;
+
+    const notificationPreferences = mergeNotificationPreferences(current, update);
+    const user = await updateUser(userId, { notificationPreferences });
+    return user ? resolveNotificationPreferences(user.notificationPreferences) : null;
+};
+
+export const isChannelEnabled = (preferences: INotificationPreferences, channel: NotificationChannel, type: NotificationType) =>
+    preferences.types[type] && preferences.channels[channel];
+
+// Minutes since local midnight in `timezone`
+const localMinutes = (date: Date, timezone: string): number => {
+    const parts = new Intl.DateTimeFormat('en-GB', {
+        timeZone: timezone,
+        hour: '2-digit',
+        minute: '2-digit',
+        hourCycle: 'h23',
+    }).formatToParts(date);
+    const part = (type: string) => Number(parts.find(p => p.type === type)?.value || 0);
+    return part('hour') * 60 + part('minute');
+};
+
+// The next moment (from `date`, inclusive) the local clock reads `time`
+const nextLocalTime = (date: Date, time: string, timezone: string): Date => {
+    const wait = (toMinutes(time) - localMinutes(date, timezone) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+    const startOfMinute = Math.floor(date.getTime() / 60000) * 60000;
+    return new Date(startOfMinute + wait * 60000);
+};
+
+export const isWithinQuietHours = (preferences: INotificationPreferences, date: Date): boolean => {
+    const { enabled, start, end } = preferences.quietHours;
+    if (!enabled || start === end) return false;
+
+    const now = localMinutes(date, preferences.timezone);
+    const from = toMinutes(start);
+    const to = toMinutes(end);
+    // A window like 22:00-07:00 wraps past midnight
+    return from < to ? now >= from && now < to : now >= from || now < to;
+};
+
+/**
+ * ⏳ EXTERNAL DELIVERY TIME
+ *
+ * When an email, SMS or WhatsApp notification created at `now` may go out:
+ * null to send it right away, otherwise the next digest or the end of
+ * quiet hours (a digest that falls in quiet hours waits for them to end).
+ */
+export const externalDeliveryTime = (preferences: INotificationPreferences, now: Date): Date | null => {
+    let deliverAt: Date | null = null;
+
+    if (preferences.digest === 'daily') {
+        deliverAt = nextLocalTime(now, preferences.digestTime, preferences.timezone);
+    } else if (isWithinQuietHours(preferences, now)) {
+        deliverAt = now;
+    }
+
+    if (deliverAt && isWithinQuietHours(preferences, deliverAt)) {
+        deliverAt = nextLocalTime(deliverAt, preferences.quietHours.end, preferences.timezone);
+    }
+    return deliverAt;
+};
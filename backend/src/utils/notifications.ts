@@ -0,0 +1,244 @@
+/**
+ * 🔔 NOTIFICATIONS
+ *
+ * Persistent per-user notifications, shared by MongoDB and in-memory mode.
+ * Other modules call notify() (new chat message, new bid, ticket assigned);
+ * it applies the user's preferences (see notificationPreferences), stores
+ * the notification and pushes it to the user's private room:
+ *
+ * - notification:new      { notification }
+ * - notification:read     { id } or { all: true }   (keeps other tabs in sync)
+ * - notification:deleted  { id }
+ *
+ * Clients without a socket poll GET /notifications?after=<newest id>.
+ *
+ * @author GharBazaar Backend Team
+ */
+
+import mongoose from 'mongoose';
+import { Server } from 'socket.io';
+import { v4 as uuidv4 } from 'uuid';
+import Notification, { NotificationType } from '../models/notification.model';
+import { isMongoDBAvailable, memoryNotifications } from './memoryStore';
+import { InvalidCursorError } from './propertySearch';
+import { userRoom } from '../socket';
+import { findUserById } from './userStore';
+import { resolveNotificationPreferences, isChannelEnabled } from './notificationPreferences';
+import { deliverExternally } from './notificationDelivery';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const MAX_TITLE_LENGTH = 200;
+const MAX_MESSAGE_LENGTH = 1000;
+
+export type NotificationEvent = 'notification:new' | 'notification:read' | 'notification:deleted';
+
+export interface NotificationInput {
+    type: NotificationType;
+    title: string;
+    message?: string;
+    link?: string;
+    metadata?: Record<string, any>;
+}
+
+export interface NotificationQuery {
+    limit?: number;
+    // Only notifications newer than this one (polling)
+    after?: string;
+    unreadOnly?: boolean;
+}
+
+export const emitNotificationEvent = (io: Server | undefined, userId: string, event: NotificationEvent, payload: any) => {
+    if (!io) return;
+    io.to(userRoom(userId)).emit(event, payload);
+};
+
+/**
+ * Notification as sent to clients, with the `id` the frontend uses
+ */
+export const toClientNotification = (notification: any) => {
+    const plain = typeof notification.toObject === 'function' ? notification.toObject() : { ...notification };
+    return { ...plain, id: String(plain._id) };
+};
+
+/**
+ * Store an in-app notification for `userId` and push it to their open
+ * sessions, regardless of their preferences. Throws on failure.
+ */
+export const storeNotification = async (userId: string, input: NotificationInput, io?: Server) => {
+    const data = {
+        userId,
+        type: input.type,
+        title: input.title.substring(0, MAX_TITLE_LENGTH),
+        message: (input.message || '').substring(0, MAX_MESSAGE_LENGTH),
+        link: input.link,
+        metadata: input.metadata,
+        read: false,
+    };
+
+    let notification;
+    if (isMongoDBAvailable()) {
+        notification = await Notification.create(data);
+    } else {
+        const id = uuidv4();
+        notification = { _id: id, ...data, createdAt: new Date() };
+        memoryNotifications.set(id, notification);
+    }
+
+    const clientNotification = toClientNotification(notification);
+    emitNotificationEvent(io, userId, 'notification:new', { notification: clientNotification });
+    return clientNotification;
+};
+
+/**
+ * 📣 NOTIFY
+ *
+ * Notify `userId` on every channel their preferences allow for this type:
+ * stored in-app (and pushed to their open sessions), and sent by email,
+ * SMS or WhatsApp, which may be held for quiet hours or the daily digest.
+ *
+ * Never throws: a failed notification is logged, not allowed to break the
+ * action that triggered it. Returns the in-app notification, or null if
+ * there isn't one (opted out, or failed).
+ */
+export const notify = async (userId: string, input: NotificationInput, io?: Server): Promise<any | null> => {
+    try {
+        const user = await findUserById(userId);
+        const preferences = resolveNotificationPreferences(user?.notificationPreferences);
+
+        const notification = isChannelEnabled(preferences, 'inApp', input.type)
+            ? await storeNotification(userId, input, io)
+            : null;
+
+        if (user) {
+            await deliverExternally(user, preferences, {
+                type: input.type,
+                title: input.title.substring(0, MAX_TITLE_LENGTH),
+                message: (input.message || '').substring(0, MAX_MESSAGE_LENGTH),
+                link: input.link,
+            });
+        }
+        return notification;
+    } catch (error) {
+        console.error(`❌ Failed to notify ${userId}:`, error);
+        return null;
+    }
+};
+
+export const findNotification = async (userId: string, id: string): Promise<any | null> => {
+    if (isMongoDBAvailable()) {
+        if (!mongoose.isValidObjectId(id)) return null;
+        return Notification.findOne({ _id: id, userId });
+    }
+    const notification = memoryNotifications.get(id);
+    return notification && notification.userId === userId ? notification : null;
+};
+
+export const countUnreadNotifications = async (userId: string): Promise<number> => {
+    if (isMongoDBAvailable()) {
+        return Notification.countDocuments({ userId, read: false });
+    }
+    return Array.from(memoryNotifications.values())
+        .filter((n: any) => n.userId === userId && !n.read)
+        .length;
+};
+
+/**
+ * A user's notifications, newest first, plus their unread count.
+ * With `after`, returns the `limit` notifications that follow it, so
+ * polling with the newest id seen never skips any.
+ * Throws InvalidCursorError if `after` isn't one of their notifications.
+ */
+export const listNotifications = async (userId: string, query: NotificationQuery = {}) => {
+    const limit = Math.min(Math.max(query.limit || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+    let anchor = null;
+    if (query.after) {
+        anchor = await findNotification(userId, query.after);
+        if (!anchor) throw new InvalidCursorError();
+    }
+
+    let notifications: any[];
+    if (isMongoDBAvailable()) {
+        const filter: Record<string, any> = { userId };
+        if (query.unreadOnly) filter.read = false;
+        if (anchor) {
+            filter.$or = [
+                { createdAt: { $gt: anchor.createdAt } },
+                { createdAt: anchor.createdAt, _id: { $gt: anchor._id } },
+            ];
+        }
+        const order = anchor ? 1 : -1;
+        notifications = await Notification.find(filter)
+            .sort({ createdAt: order, _id: order })
+            .limit(limit);
+        if (anchor) notifications.reverse();
+    } else {
+        // The Map keeps creation order (uuids don't sort by time)
+        const own = Array.from(memoryNotifications.values()).filter((n: any) => n.userId === userId);
+        const newer = anchor ? own.slice(own.indexOf(anchor) + 1) : own;
+        const matching = newer.filter((n: any) => !query.unreadOnly || !n.read);
+        notifications = (anchor ? matching.slice(0, limit) : matching.slice(-limit)).reverse();
+    }
+
+    return {
+        notifications: notifications.map(toClientNotification),
+        unreadCount: await countUnreadNotifications(userId),
+    };
+};
+
+/**
+ * Mark one of the user's notifications read. Returns it, or null if not found.
+ */
+export const markNotificationRead = async (userId: string, id: string): Promise<any | null> => {
+    if (isMongoDBAvailable()) {
+        if (!mongoose.isValidObjectId(id)) return null;
+        // Keep the first readAt if it was already read
+        await Notification.updateOne({ _id: id, userId, read: false }, { $set: { read: true, readAt: new Date() } });
+        const notification = await Notification.findOne({ _id: id, userId });
+        return notification ? toClientNotification(notification) : null;
+    }
+
+    const notification = await findNotification(userId, id);
+    if (!notification) return null;
+    if (!notification.read) {
+        notification.read = true;
+        notification.readAt = new Date();
+    }
+    return toClientNotification(notification);
+};
+
+/**
+ * Mark all of the user's notifications read. Returns how many changed.
+ */
+export const markAllNotificationsRead = async (userId: string): Promise<number> => {
+    const readAt = new Date();
+
+    if (isMongoDBAvailable()) {
+        const result = await Notification.updateMany({ userId, read: false }, { $set: { read: true, readAt } });
+        return result.modifiedCount;
+    }
+
+    let count = 0;
+    memoryNotifications.forEach((n: any) => {
+        if (n.userId === userId && !n.read) {
+            n.read = true;
+            n.readAt = readAt;
+            count++;
+        }
+    });
+    return count;
+};
+
+export const deleteNotification = async (userId: string, id: string): Promise<boolean> => {
+    if (isMongoDBAvailable()) {
+        if (!mongoose.isValidObjectId(id)) return false;
+        const result = await Notification.deleteOne({ _id: id, userId });
+        return result.deletedCount > 0;
+    }
+
+    const notification = await findNotification(userId, id);
+    if (!notification) return false;
+    memoryNotifications.delete(id);
+    return true;
+};
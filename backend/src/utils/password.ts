@@ -0,0 +1,39 @@
+/**
+ * 🔑 PASSWORD UTILITIES
+ *
+ * Hashing and verification of user passwords with bcrypt.
+ * Plain-text passwords must never be stored or logged.
+ *
+ * @author GharBazaar Backend Team
+ */
+
+import bcrypt from 'bcryptjs';
+
+const SALT_ROUNDS = 10;
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+/**
+ * Hash a plain-text password for storage
+ */
+export const hashPassword = async (password: string): Promise<string> => {
+    return bcrypt.hash(password, SALT_ROUNDS);
+};
+
+/**
+ * Compare a plain-text password against a stored hash
+ */
+export const verifyPassword = async (password: string, passwordHash: string): Promise<boolean> => {
+    if (!passwordHash) return false;
+    return bcrypt.compare(password, passwordHash);
+};
+
+/**
+ * Returns an error message if the password is too weak, otherwise null
+ */
+export const validatePasswordStrength = (password: string): string | null => {
+    if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+        return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+    }
+    return null;
+};
@@ -0,0 +1,152 @@
+/**
+ * 🏦 PAYMENT GATEWAY
+ *
+ * Creates gateway orders and checks payment signatures. The active gateway
+ * is chosen by PAYMENT_GATEWAY:
+ * - razorpay: the Razorpay Orders API (needs RAZORPAY_KEY_ID / RAZORPAY_KEY_SECRET)
+ * - stub:     local orders and payments, no network (default without keys)
+ *
+ * Either way a payment is genuine only if razorpay_signature is the
+ * HMAC-SHA256 of "<order_id>|<payment_id>" under the key secret, and a
+ * webhook only if x-razorpay-signature is the HMAC-SHA256 of its raw body
+ * under the webhook secret.
+ *
+ * @author GharBazaar Backend Team
+ */
+
+import crypto from 'crypto';
+import https from 'https';
+import config from '../config';
+
+export interface GatewayOrder {
+    id: string;
+    amount: number;
+    currency: string;
+    receipt: string;
+}
+
+export interface GatewayPayment {
+    razorpay_order_id: string;
+    razorpay_payment_id: string;
+    razorpay_signature: string;
+}
+
+export interface PaymentGateway {
+    name: 'razorpay' | 'stub';
+    createOrder(order: { amount: number; currency: string; receipt: string; notes?: Record<string, string> }): Promise<GatewayOrder>;
+}
+
+/**
+ * Error thrown when the gateway rejects or can't be reached
+ */
+export class PaymentGatewayError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PaymentGatewayError';
+    }
+}
+
+export const signPayment = (orderId: string, paymentId: string): string =>
+    crypto.createHmac('sha256', config.payments.keySecret).update(`${orderId}|${paymentId}`).digest('hex');
+
+/**
+ * Check razorpay_signature for an order and payment (constant-time)
+ */
+export const verifyPaymentSignature = (orderId: string, paymentId: string, signature: string): boolean => {
+    const expected = Buffer.from(signPayment(orderId, paymentId), 'hex');
+    const actual = Buffer.from(signature, 'hex');
+    return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+};
+
+const signWebhookBody = (body: Buffer | string): string =>
+    crypto.createHmac('sha256', config.payments.webhookSecret).update(body).digest('hex');
+
+/**
+ * Check x-razorpay-signature: the HMAC-SHA256 of the raw request body under
+ * the webhook secret (constant-time). Always false when no secret is configured.
+ */
+export const verifyWebhookSignature = (rawBody: Buffer, signature: string): boolean => {
+    if (!config.payments.webhookSecret) return false;
+
+    const expected = Buffer.from(signWebhookBody(rawBody), 'hex');
+    const actual = Buffer.from(signature, 'hex');
+    return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+};
+
+/**
+ * Razorpay Orders API
+ */
+export class RazorpayGateway implements PaymentGateway {
+    name = 'razorpay' as const;
+
+    createOrder(order: { amount: number; currency: string; receipt: string; notes?: Record<string, string> }): Promise<GatewayOrder> {
+        const body = JSON.stringify(order);
+        const auth = Buffer.from(`${config.payments.keyId}:${config.payments.keySecret}`).toString('base64');
+
+        return new Promise((resolve, reject) => {
+            const request = https.request({
+                hostname: 'api.razorpay.com',
+                path: '/v1/orders',
+                method: 'POST',
+                timeout: 15000,
+                headers: {
+                    'Authorization': `Basic ${auth}`,
+                    'Content-Type': 'application/json',
+                    'Content-Length': Buffer.byteLength(body),
+                },
+            }, (response) => {
+                let data = '';
+                response.on('data', chunk => { data += chunk; });
+                response.on('end', () => {
+                    try {
+                        const result = JSON.parse(data);
+                        if (response.statusCode !== 200) {
+                            return reject(new PaymentGatewayError(result?.error?.description || `Razorpay returned ${response.statusCode}`));
+                        }
+                        resolve({ id: result.id, amount: result.amount, currency: result.currency, receipt: result.receipt });
+                    } catch {
+                        reject(new PaymentGatewayError('Invalid response from Razorpay'));
+                    }
+                });
+            });
+
+            request.on('timeout', () => request.destroy(new PaymentGatewayError('Razorpay timed out')));
+            request.on('error', (error) => reject(
+                error instanceof PaymentGatewayError ? error : new PaymentGatewayError(`Could not reach Razorpay: ${error.message}`)
+            ));
+            request.end(body);
+        });
+    }
+}
+
+/**
+ * Local gateway for development and tests: orders are made up on the spot,
+ * and completePayment() plays the part of the customer paying in checkout
+ */
+export class StubGateway implements PaymentGateway {
+    name = 'stub' as const;
+
+    async createOrder(order: { amount: number; currency: string; receipt: string }): Promise<GatewayOrder> {
+        return { id: `order_stub_${crypto.randomBytes(8).toString('hex')}`, ...order };
+    }
+
+    completePayment(orderId: string): GatewayPayment {
+        const paymentId = `pay_stub_${crypto.randomBytes(8).toString('hex')}`;
+        return {
+            razorpay_order_id: orderId,
+            razorpay_payment_id: paymentId,
+            razorpay_signature: signPayment(orderId, paymentId),
+        };
+    }
+}
+
+let gateway: PaymentGateway = config.payments.gateway === 'razorpay' ? new RazorpayGateway() : new StubGateway();
+
+export const getPaymentGateway = (): PaymentGateway => gateway;
+
+/**
+ * Replace the active gateway (e.g. in tests)
+ */
+export const setPaymentGateway = (newGateway: PaymentGateway): void => {
+    gateway = newGateway;
+};
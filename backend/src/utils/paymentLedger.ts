@@ -0,0 +1,137 @@
+/**
+ * 📒 PAYMENT LEDGER
+ *
+ * Append-only record of money in and out: captured payments, failed
+ * attempts and refunds. Every entry has an idempotency key for the
+ * real-world event it records (payment:<id>, payment-failed:<id>,
+ * refund:<id>), so the same payment reported by client verification and
+ * by one or more webhook deliveries is only ever credited once.
+ *
+ * @author GharBazaar Backend Team
+ */
+
+import mongoose from 'mongoose';
+import { v4 as uuidv4 } from 'uuid';
+import Transaction, { TransactionType, TransactionStatus } from '../models/transaction.model';
+import { isMongoDBAvailable, memoryTransactions } from './memoryStore';
+
+export interface TransactionEntry {
+    userId: string;
+    type: TransactionType;
+    status: TransactionStatus;
+    amount: number;
+    currency: string;
+    orderId: string;
+    paymentId: string;
+    refundId?: string;
+    serviceId: string;
+    serviceName: string;
+    method?: string;
+    source: 'verify' | 'webhook';
+    idempotencyKey: string;
+}
+
+export const paymentKey = (paymentId: string) => `payment:${paymentId}`;
+export const failedPaymentKey = (paymentId: string) => `payment-failed:${paymentId}`;
+export const refundKey = (refundId: string) => `refund:${refundId}`;
+
+/**
+ * Ledger entry as sent to clients, with the `id` the frontend uses
+ */
+export const toClientTransaction = (transaction: any) => {
+    const plain = typeof transaction.toObject === 'function' ? transaction.toObject() : { ...transaction };
+    const { idempotencyKey, ...visible } = plain;
+    return { ...visible, id: String(plain._id) };
+};
+
+export const findTransactionByKey = async (idempotencyKey: string): Promise<any | null> => {
+    if (isMongoDBAvailable()) {
+        return Transaction.findOne({ idempotencyKey });
+    }
+    return memoryTransactions.get(idempotencyKey) || null;
+};
+
+/**
+ * 🖊️ RECORD TRANSACTION
+ *
+ * Add an entry unless one with the same idempotency key exists. Returns the
+ * entry and whether this call created it (false for a replay).
+ */
+export const recordTransaction = async (entry: TransactionEntry): Promise<{ transaction: any; created: boolean }> => {
+    if (isMongoDBAvailable()) {
+        try {
+            return { transaction: await Transaction.create(entry), created: true };
+        } catch (error: any) {
+            // 11000 = duplicate key on the unique idempotency key
+            if (error?.code === 11000) {
+                return { transaction: await findTransactionByKey(entry.idempotencyKey), created: false };
+            }
+            throw error;
+        }
+    }
+
+    const existing = memoryTransactions.get(entry.idempotencyKey);
+    if (existing) return { transaction: existing, created: false };
+
+    const transaction = { _id: uuidv4(), ...entry, createdAt: new Date() };
+    memoryTransactions.set(entry.idempotencyKey, transaction);
+    return { transaction, created: true };
+};
+
+/**
+ * Ledger entries, newest first (all users if `userId` is omitted)
+ */
+export const listTransactions = async (filter: { userId?: string; from?: Date; to?: Date } = {}): Promise<any[]> => {
+    if (isMongoDBAvailable()) {
+        const query: Record<string, any> = {};
+        if (filter.userId) query.userId = filter.userId;
+        if (filter.from || filter.to) {
+            query.createdAt = {};
+            if (filter.from) query.createdAt.$gte = filter.from;
+            if (filter.to) query.createdAt.$lte = filter.to;
+        }
+        return Transaction.find(query).sort({ createdAt: -1, _id: -1 });
+    }
+
+    // The Map keeps insertion order, which is creation order
+    return Array.from(memoryTransactions.values())
+        .filter((t: any) =>
+            (!filter.userId || t.userId === filter.userId) &&
+            (!filter.from || t.createdAt >= filter.from) &&
+            (!filter.to || t.createdAt <= filter.to)
+        )
+        .reverse();
+};
+
+export const findTransaction = async (userId: string, id: string): Promise<any | null> => {
+    if (isMongoDBAvailable()) {
+        if (!mongoose.isValidObjectId(id)) return null;
+        return Transaction.findOne({ _id: id, userId });
+    }
+    return Array.from(memoryTransactions.values())
+        .find((t: any) => t._id === id && t.userId === userId) || null;
+};
+
+/**
+ * Totals for a user's ledger (amounts in paise)
+ */
+export const getPaymentStats = async (userId: string) => {
+    const transactions = await listTransactions({ userId });
+    const sum = (type: TransactionType, status: TransactionStatus) =>
+        transactions
+            .filter(t => t.type === type && t.status === status)
+            .reduce((total, t) => total + t.amount, 0);
+
+    const totalPaid = sum('payment', 'captured');
+    const totalRefunded = sum('refund', 'processed');
+
+    return {
+        currency: 'INR',
+        totalPaid,
+        totalRefunded,
+        net: totalPaid - totalRefunded,
+        successfulPayments: transactions.filter(t => t.type === 'payment' && t.status === 'captured').length,
+        failedPayments: transactions.filter(t => t.type === 'payment' && t.status === 'failed').length,
+        refunds: transactions.filter(t => t.type === 'refund').length,
+    };
+};
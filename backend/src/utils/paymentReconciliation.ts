@@ -0,0 +1,281 @@
+/**
+ * 🔎 PAYMENT RECONCILIATION
+ *
+ * Flags payment records that don't add up, for an admin to look at:
+ * - Orders stuck in `created` for more than PAYMENT_STUCK_ORDER_MINUTES
+ *   (checked by a periodic job; cleared once the order is paid)
+ * - Differences between the ledger and a gateway report imported from CSV
+ * - Problems spotted while settling payments (amount mismatches, duplicates)
+ *
+ * Each problem is flagged once, under a key like "stuck-order:<order id>".
+ *
+ * @author GharBazaar Backend Team
+ */
+
+import mongoose from 'mongoose';
+import { v4 as uuidv4 } from 'uuid';
+import config from '../config';
+import PaymentOrder from '../models/paymentOrder.model';
+import ReconciliationIssue, { ReconciliationIssueType } from '../models/reconciliationIssue.model';
+import { isMongoDBAvailable, memoryPaymentOrders, memoryReconciliationIssues } from './memoryStore';
+import { findTransactionByKey, listTransactions, paymentKey, refundKey } from './paymentLedger';
+
+export interface IssueInput {
+    type: ReconciliationIssueType;
+    // Order, payment or refund id the issue is about
+    reference: string;
+    message: string;
+    orderId?: string;
+    paymentId?: string;
+    expectedAmount?: number;
+    actualAmount?: number;
+}
+
+/**
+ * Error thrown when an imported gateway report can't be read
+ */
+export class InvalidReportError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InvalidReportError';
+    }
+}
+
+export const toClientIssue = (issue: any) => {
+    const plain = typeof issue.toObject === 'function' ? issue.toObject() : { ...issue };
+    return { ...plain, id: String(plain._id) };
+};
+
+/**
+ * 🚩 FLAG ISSUE
+ *
+ * Record an issue unless the same one is already flagged. Returns true if
+ * it's new.
+ */
+export const flagIssue = async (input: IssueInput): Promise<boolean> => {
+    const { reference, ...fields } = input;
+    const key = `${input.type}:${reference}`;
+
+    if (isMongoDBAvailable()) {
+        const result = await ReconciliationIssue.updateOne(
+            { key },
+            { $setOnInsert: { key, ...fields, resolved: false } },
+            { upsert: true }
+        );
+        return result.upsertedCount > 0;
+    }
+
+    if (memoryReconciliationIssues.has(key)) return false;
+    memoryReconciliationIssues.set(key, { _id: uuidv4(), key, ...fields, resolved: false, createdAt: new Date() });
+    return true;
+};
+
+export const listIssues = async (filter: { resolved?: boolean } = {}): Promise<any[]> => {
+    if (isMongoDBAvailable()) {
+        const query = filter.resolved === undefined ? {} : { resolved: filter.resolved };
+        return ReconciliationIssue.find(query).sort({ createdAt: -1, _id: -1 });
+    }
+
+    return Array.from(memoryReconciliationIssues.values())
+        .filter((issue: any) => filter.resolved === undefined || issue.resolved === filter.resolved)
+        .reverse();
+};
+
+/**
+ * Mark an issue resolved. Returns it, or null if not found.
+ */
+export const resolveIssue = async (id: string, resolvedBy: string): Promise<any | null> => {
+    const update = { resolved: true, resolvedAt: new Date(), resolvedBy };
+
+    if (isMongoDBAvailable()) {
+        if (!mongoose.isValidObjectId(id)) return null;
+        return ReconciliationIssue.findByIdAndUpdate(id, { $set: update }, { new: true });
+    }
+
+    const issue = Array.from(memoryReconciliationIssues.values()).find((i: any) => i._id === id);
+    if (!issue) return null;
+    Object.assign(issue, update);
+    return issue;
+};
+
+/**
+ * ⏳ FLAG STUCK ORDERS
+ *
+ * Flag orders still `created` after PAYMENT_STUCK_ORDER_MINUTES, and
+ * resolve stuck-order issues for orders that have since been paid.
+ * Returns the number newly flagged.
+ */
+export const flagStuckOrders = async (now: Date = new Date()): Promise<number> => {
+    const cutoff = new Date(now.getTime() - config.payments.stuckOrderMinutes * 60 * 1000);
+
+    let stuck: any[];
+    if (isMongoDBAvailable()) {
+        stuck = await PaymentOrder.find({ status: 'created', createdAt: { $lt: cutoff } });
+    } else {
+        stuck = Array.from(memoryPaymentOrders.values())
+            .filter((order: any) => order.status === 'created' && order.createdAt < cutoff);
+    }
+
+    let flagged = 0;
+    for (const order of stuck) {
+        const isNew = await flagIssue({
+            type: 'stuck-order',
+            reference: order.gatewayOrderId,
+            orderId: order.gatewayOrderId,
+            expectedAmount: order.amount,
+            message: `Order for ${order.serviceName} has been unpaid since ${new Date(order.createdAt).toISOString()}`,
+        });
+        if (isNew) flagged++;
+    }
+
+    const open = (await listIssues({ resolved: false })).filter(issue => issue.type === 'stuck-order');
+    const stuckIds = new Set(stuck.map(order => order.gatewayOrderId));
+    for (const issue of open) {
+        if (!stuckIds.has(issue.orderId)) {
+            await resolveIssue(String(issue._id), 'reconciliation');
+        }
+    }
+
+    return flagged;
+};
+
+// Split CSV text into rows of fields (quoted fields may contain commas, quotes and newlines)
+const parseCsv = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+
+    if (field || row.length) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows.filter(r => r.some(value => value.trim()));
+};
+
+// Rupee amount in a report ("500", "500.00", "1,000.50") in paise
+const toPaise = (value: string): number => Math.round(parseFloat(value.replace(/,/g, '')) * 100);
+
+/**
+ * 📥 RECONCILE GATEWAY REPORT
+ *
+ * Compare a gateway report (CSV with a header row) against the ledger.
+ * Columns: id, amount (rupees), status, and optionally order_id and
+ * entity (payment / refund; ids starting rfnd_ are refunds).
+ * With `from` / `to`, ledger payments in that window that the report
+ * doesn't list are flagged too. Returns what matched and what was flagged.
+ *
+ * @throws InvalidReportError if the CSV is missing required columns
+ */
+export const reconcileGatewayReport = async (csv: string, window: { from?: Date; to?: Date } = {}) => {
+    const [header, ...rows] = parseCsv(csv);
+    const columns = (header || []).map(name => name.trim().toLowerCase());
+    const missing = ['id', 'amount', 'status'].filter(name => !columns.includes(name));
+    if (missing.length) {
+        throw new InvalidReportError(`Report is missing column(s): ${missing.join(', ')}`);
+    }
+
+    const records = rows.map(values =>
+        Object.fromEntries(columns.map((name, i) => [name, (values[i] || '').trim()]))
+    );
+
+    let matched = 0;
+    const issues: IssueInput[] = [];
+    const reportedPayments = new Set<string>();
+
+    for (const record of records) {
+        const isRefund = record.entity === 'refund' || record.id.startsWith('rfnd_');
+        const amount = toPaise(record.amount);
+        const status = record.status.toLowerCase();
+
+        if (isRefund) {
+            const refund = await findTransactionByKey(refundKey(record.id));
+            if (status === 'processed' && !refund) {
+                issues.push({ type: 'missing-in-ledger', reference: record.id, paymentId: record.payment_id, actualAmount: amount, message: `Refund ${record.id} is in the gateway report but not the ledger` });
+            } else if (refund && refund.amount !== amount) {
+                issues.push({ type: 'amount-mismatch', reference: record.id, paymentId: refund.paymentId, expectedAmount: refund.amount, actualAmount: amount, message: `Refund ${record.id} amounts differ` });
+            } else {
+                matched++;
+            }
+            continue;
+        }
+
+        reportedPayments.add(record.id);
+        const payment = await findTransactionByKey(paymentKey(record.id));
+
+        if (status === 'captured' && !payment) {
+            issues.push({ type: 'missing-in-ledger', reference: record.id, orderId: record.order_id, paymentId: record.id, actualAmount: amount, message: `Payment ${record.id} was captured by the gateway but is not in the ledger` });
+        } else if (status !== 'captured' && payment) {
+            issues.push({ type: 'status-mismatch', reference: record.id, orderId: payment.orderId, paymentId: record.id, message: `Payment ${record.id} is captured in the ledger but "${status}" in the gateway report` });
+        } else if (payment && payment.amount !== amount) {
+            issues.push({ type: 'amount-mismatch', reference: record.id, orderId: payment.orderId, paymentId: record.id, expectedAmount: payment.amount, actualAmount: amount, message: `Payment ${record.id} amounts differ` });
+        } else {
+            matched++;
+        }
+    }
+
+    if (window.from || window.to) {
+        const ledger = await listTransactions(window);
+        for (const transaction of ledger) {
+            if (transaction.type === 'payment' && transaction.status === 'captured' && !reportedPayments.has(transaction.paymentId)) {
+                issues.push({ type: 'missing-in-gateway', reference: transaction.paymentId, orderId: transaction.orderId, paymentId: transaction.paymentId, expectedAmount: transaction.amount, message: `Payment ${transaction.paymentId} is in the ledger but not the gateway report` });
+            }
+        }
+    }
+
+    let flagged = 0;
+    for (const issue of issues) {
+        if (await flagIssue(issue)) flagged++;
+    }
+
+    return { rows: records.length, matched, flagged, issues };
+};
+
+/**
+ * ⏰ START PAYMENT RECONCILIATION SWEEPER
+ *
+ * Flags stuck orders every PAYMENT_RECONCILE_INTERVAL_MINUTES
+ */
+export const startPaymentReconciliationSweeper = (): NodeJS.Timeout => {
+    const sweep = async () => {
+        try {
+            const flagged = await flagStuckOrders();
+            if (flagged) {
+                console.log(`🔎 Flagged ${flagged} stuck payment order(s)`);
+            }
+        } catch (error) {
+            console.error('❌ Payment reconciliation sweep failed:', error);
+        }
+    };
+
+    const timer = setInterval(sweep, config.payments.reconcileIntervalMinutes * 60 * 1000);
+    timer.unref();
+    return timer;
+};
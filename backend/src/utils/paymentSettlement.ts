@@ -0,0 +1,248 @@
+/**
+ * 💰 PAYMENT SETTLEMENT
+ *
+ * Applies payment outcomes to orders and the ledger, whichever way they
+ * arrive: client verification after checkout, or gateway webhooks
+ * (payment.captured, payment.failed, refund.processed). The ledger's
+ * idempotency keys make every outcome count once, however many times
+ * it's reported, and the customer is only notified the first time.
+ *
+ * @author GharBazaar Backend Team
+ */
+
+import { Server } from 'socket.io';
+import WebhookEvent from '../models/webhookEvent.model';
+import { isMongoDBAvailable, memoryWebhookEvents } from './memoryStore';
+import { findPaymentOrder, markPaymentOrderPaid } from './paymentStore';
+import { failedPaymentKey, findTransactionByKey, paymentKey, recordTransaction, refundKey } from './paymentLedger';
+import { flagIssue } from './paymentReconciliation';
+import { issueCreditNoteForRefund } from './invoiceStore';
+import { notify } from './notifications';
+
+export interface CapturedPayment {
+    paymentId: string;
+    // In paise
+    amount: number;
+    method?: string;
+}
+
+const rupees = (paise: number) => `₹${(paise / 100).toLocaleString('en-IN')}`;
+
+const ledgerEntry = (order: any, payment: CapturedPayment, source: 'verify' | 'webhook') => ({
+    userId: order.userId,
+    amount: payment.amount,
+    currency: order.currency,
+    orderId: order.gatewayOrderId,
+    paymentId: payment.paymentId,
+    serviceId: order.serviceId,
+    serviceName: order.serviceName,
+    method: payment.method,
+    source,
+});
+
+/**
+ * ✅ CAPTURE PAYMENT
+ *
+ * Credit a captured payment to the ledger and mark its order paid.
+ * A payment for the wrong amount, or a second payment for an order that's
+ * already paid, is still recorded (the money did arrive) but flagged for
+ * reconciliation instead of completing the order. Returns the order as it
+ * now stands.
+ */
+export const capturePayment = async (
+    order: any,
+    payment: CapturedPayment,
+    source: 'verify' | 'webhook',
+    io?: Server
+): Promise<any> => {
+    const entry = { ...ledgerEntry(order, payment, source), type: 'payment' as const, status: 'captured' as const, idempotencyKey: paymentKey(payment.paymentId) };
+
+    if (payment.amount !== order.amount) {
+        await recordTransaction(entry);
+        await flagIssue({
+            type: 'amount-mismatch',
+            reference: payment.paymentId,
+            orderId: order.gatewayOrderId,
+            paymentId: payment.paymentId,
+            expectedAmount: order.amount,
+            actualAmount: payment.amount,
+            message: `Payment ${payment.paymentId} captured ${rupees(payment.amount)} for an order of ${rupees(order.amount)}`,
+        });
+        console.warn(`⚠️  Payment ${payment.paymentId} amount does not match order ${order.gatewayOrderId}`);
+        return order;
+    }
+
+    const paid = await markPaymentOrderPaid(order.gatewayOrderId, payment.paymentId);
+    const current = paid || await findPaymentOrder(order.gatewayOrderId);
+
+    if (!paid && current?.paymentId !== payment.paymentId) {
+        await recordTransaction(entry);
+        await flagIssue({
+            type: 'duplicate-payment',
+            reference: payment.paymentId,
+            orderId: order.gatewayOrderId,
+            paymentId: payment.paymentId,
+            actualAmount: payment.amount,
+            message: `Payment ${payment.paymentId} captured for order ${order.gatewayOrderId}, which was already paid by ${current?.paymentId}`,
+        });
+        console.warn(`⚠️  Duplicate payment ${payment.paymentId} for order ${order.gatewayOrderId}`);
+        return current;
+    }
+
+    const { created } = await recordTransaction(entry);
+
+    if (paid) {
+        console.log(`✅ Payment ${payment.paymentId} captured for order ${order.gatewayOrderId} (${source})`);
+        await notify(order.userId, {
+            type: 'payment',
+            title: 'Payment received',
+            message: `${rupees(payment.amount)} for ${order.serviceName}`,
+            link: '/dashboard',
+            metadata: { orderId: order.gatewayOrderId, paymentId: payment.paymentId, serviceId: order.serviceId },
+        }, io);
+    } else if (created) {
+        // Order was marked paid but its ledger entry was lost part-way; now it's there
+        console.log(`📒 Ledger entry restored for payment ${payment.paymentId}`);
+    }
+
+    return current;
+};
+
+/**
+ * ❌ FAIL PAYMENT
+ *
+ * Record a failed attempt. The order stays `created`, so the customer can
+ * try again.
+ */
+export const failPayment = async (order: any, payment: CapturedPayment, reason: string | undefined, io?: Server): Promise<void> => {
+    const { created } = await recordTransaction({
+        ...ledgerEntry(order, payment, 'webhook'),
+        type: 'payment',
+        status: 'failed',
+        idempotencyKey: failedPaymentKey(payment.paymentId),
+    });
+
+    if (!created) return;
+
+    console.log(`❌ Payment ${payment.paymentId} failed for order ${order.gatewayOrderId}`);
+    await notify(order.userId, {
+        type: 'payment',
+        title: 'Payment failed',
+        message: `Your payment of ${rupees(payment.amount)} for ${order.serviceName} didn't go through${reason ? `: ${reason}` : ''}. You can try again.`,
+        link: '/dashboard',
+        metadata: { orderId: order.gatewayOrderId, paymentId: payment.paymentId, serviceId: order.serviceId },
+    }, io);
+};
+
+/**
+ * ↩️ RECORD REFUND
+ *
+ * Record a processed refund against the payment it came from, with a
+ * credit note if the payment was invoiced. A refund for a payment we have
+ * no record of is flagged instead.
+ */
+export const recordRefund = async (
+    refund: { refundId: string; paymentId: string; amount: number },
+    io?: Server
+): Promise<void> => {
+    const original = await findTransactionByKey(paymentKey(refund.paymentId));
+    if (!original) {
+        await flagIssue({
+            type: 'missing-in-ledger',
+            reference: refund.refundId,
+            paymentId: refund.paymentId,
+            actualAmount: refund.amount,
+            message: `Refund ${refund.refundId} is for payment ${refund.paymentId}, which is not in the ledger`,
+        });
+        return;
+    }
+
+    const { transaction, created } = await recordTransaction({
+        userId: original.userId,
+        type: 'refund',
+        status: 'processed',
+        amount: refund.amount,
+        currency: original.currency,
+        orderId: original.orderId,
+        paymentId: refund.paymentId,
+        refundId: refund.refundId,
+        serviceId: original.serviceId,
+        serviceName: original.serviceName,
+        source: 'webhook',
+        idempotencyKey: refundKey(refund.refundId),
+    });
+
+    // Outside the `created` check so a redelivered event retries a credit note that failed
+    await issueCreditNoteForRefund(transaction);
+
+    if (!created) return;
+
+    console.log(`↩️  Refund ${refund.refundId} processed for payment ${refund.paymentId}`);
+    await notify(original.userId, {
+        type: 'payment',
+        title: 'Refund processed',
+        message: `${rupees(refund.amount)} for ${original.serviceName} is on its way back to you`,
+        link: '/dashboard',
+        metadata: { orderId: original.orderId, paymentId: refund.paymentId, refundId: refund.refundId },
+    }, io);
+};
+
+export const hasHandledWebhookEvent = async (eventId: string): Promise<boolean> => {
+    if (isMongoDBAvailable()) {
+        return (await WebhookEvent.exists({ eventId })) !== null;
+    }
+    return memoryWebhookEvents.has(eventId);
+};
+
+export const recordWebhookEvent = async (eventId: string, event: string): Promise<void> => {
+    if (isMongoDBAvailable()) {
+        await WebhookEvent.updateOne({ eventId }, { $setOnInsert: { eventId, event } }, { upsert: true });
+        return;
+    }
+    if (!memoryWebhookEvents.has(eventId)) {
+        memoryWebhookEvents.set(eventId, { eventId, event, createdAt: new Date() });
+    }
+};
+
+/**
+ * 📨 PROCESS WEBHOOK EVENT
+ *
+ * Apply a (signature-checked) gateway event. Events we don't handle are
+ * ignored; captured payments for orders we don't know are flagged.
+ */
+export const processWebhookEvent = async (event: string, payload: any, io?: Server): Promise<void> => {
+    if (event === 'refund.processed') {
+        const refund = payload?.refund?.entity;
+        if (!refund?.id || !refund.payment_id) return;
+        await recordRefund({ refundId: refund.id, paymentId: refund.payment_id, amount: Number(refund.amount) || 0 }, io);
+        return;
+    }
+
+    if (event !== 'payment.captured' && event !== 'payment.failed') return;
+
+    const entity = payload?.payment?.entity;
+    if (!entity?.id) return;
+
+    const payment: CapturedPayment = { paymentId: entity.id, amount: Number(entity.amount) || 0, method: entity.method };
+    const order = entity.order_id ? await findPaymentOrder(entity.order_id) : null;
+
+    if (!order) {
+        // A failed attempt took no money, so there's nothing to reconcile
+        if (event === 'payment.failed') return;
+        await flagIssue({
+            type: 'missing-in-ledger',
+            reference: entity.id,
+            orderId: entity.order_id,
+            paymentId: entity.id,
+            actualAmount: payment.amount,
+            message: `Gateway captured payment ${entity.id} for an unknown order`,
+        });
+        return;
+    }
+
+    if (event === 'payment.captured') {
+        await capturePayment(order, payment, 'webhook', io);
+    } else {
+        await failPayment(order, payment, entity.error_description, io);
+    }
+};
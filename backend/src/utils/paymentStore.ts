@@ -0,0 +1,110 @@
+/**
+ * 💳 PAYMENT STORE
+ *
+ * Data-access helpers for payment orders that work against MongoDB
+ * or the in-memory store, so controllers don't need to branch.
+ *
+ * An order is created → paid once its payment is verified. Orders are
+ * looked up by the gateway's order id, which is what checkout returns.
+ *
+ * @author GharBazaar Backend Team
+ */
+
+import crypto from 'crypto';
+import config from '../config';
+import PaymentOrder from '../models/paymentOrder.model';
+import { PaymentService } from '../config/paymentServices';
+import { isMongoDBAvailable, memoryPaymentOrders } from './memoryStore';
+import { getPaymentGateway } from './paymentGateway';
+
+/**
+ * Order as sent to clients, with what checkout needs
+ */
+export const toClientPaymentOrder = (order: any) => {
+    const plain = typeof order.toObject === 'function' ? order.toObject() : { ...order };
+    return {
+        id: plain.gatewayOrderId,
+        serviceId: plain.serviceId,
+        serviceName: plain.serviceName,
+        amount: plain.amount,
+        currency: plain.currency,
+        receipt: plain.receipt,
+        gateway: plain.gateway,
+        status: plain.status,
+        paymentId: plain.paymentId,
+        paidAt: plain.paidAt,
+        createdAt: plain.createdAt,
+    };
+};
+
+/**
+ * 🧾 CREATE PAYMENT ORDER
+ *
+ * Open a gateway order for `service` at its catalog price.
+ *
+ * @throws PaymentGatewayError if the gateway rejects the order
+ */
+export const createPaymentOrder = async (
+    userId: string,
+    service: PaymentService,
+    notes: Record<string, string> = {}
+): Promise<any> => {
+    const gateway = getPaymentGateway();
+    const receipt = `rcpt_${crypto.randomBytes(6).toString('hex')}`;
+    const gatewayOrder = await gateway.createOrder({
+        amount: service.amount * 100,
+        currency: config.payments.currency,
+        receipt,
+        notes: { ...notes, userId, serviceId: service.id },
+    });
+
+    const data = {
+        userId,
+        serviceId: service.id,
+        serviceName: service.name,
+        amount: gatewayOrder.amount,
+        currency: gatewayOrder.currency,
+        receipt,
+        gateway: gateway.name,
+        gatewayOrderId: gatewayOrder.id,
+        status: 'created' as const,
+        notes,
+    };
+
+    if (isMongoDBAvailable()) {
+        return PaymentOrder.create(data);
+    }
+
+    const now = new Date();
+    const order = { _id: gatewayOrder.id, ...data, createdAt: now, updatedAt: now };
+    memoryPaymentOrders.set(gatewayOrder.id, order);
+    return order;
+};
+
+export const findPaymentOrder = async (gatewayOrderId: string): Promise<any | null> => {
+    if (isMongoDBAvailable()) {
+        return PaymentOrder.findOne({ gatewayOrderId });
+    }
+    return memoryPaymentOrders.get(gatewayOrderId) || null;
+};
+
+/**
+ * Mark a created order paid by `paymentId`. Returns the updated order, or
+ * null if it wasn't in `created` (already paid, or failed).
+ */
+export const markPaymentOrderPaid = async (gatewayOrderId: string, paymentId: string): Promise<any | null> => {
+    const paidAt = new Date();
+
+    if (isMongoDBAvailable()) {
+        return PaymentOrder.findOneAndUpdate(
+            { gatewayOrderId, status: 'created' },
+            { $set: { status: 'paid', paymentId, paidAt } },
+            { new: true }
+        );
+    }
+
+    const order = memoryPaymentOrders.get(gatewayOrderId);
+    if (!order || order.status !== 'created') return null;
+    Object.assign(order, { status: 'paid', paymentId, paidAt, updatedAt: paidAt });
+    return order;
+};
@@ -0,0 +1,73 @@
+/**
+ * 🟢 PRESENCE STORE
+ *
+ * Data-access helpers for users' online/away/offline status that work
+ * against MongoDB or the in-memory store, shared by the presence socket
+ * handler and ticket routing (which only hands tickets to online agents).
+ *
+ * @author GharBazaar Backend Team
+ */
+
+import Presence from '../models/presence.model';
+import { isMongoDBAvailable, memoryPresence } from './memoryStore';
+
+export type PresenceStatus = 'online' | 'away' | 'offline';
+
+/**
+ * Set a user's status. A socket ID is recorded when going online and
+ * cleared when going offline; `away` keeps the current one.
+ */
+export const setPresenceStatus = async (userId: string, status: PresenceStatus, socketId?: string): Promise<void> => {
+    const lastSeen = new Date();
+    const socketUpdate = status === 'online' && socketId
+        ? { socketId }
+        : status === 'offline' ? { socketId: null } : {};
+
+    if (isMongoDBAvailable()) {
+        await Presence.findOneAndUpdate(
+            { userId },
+            { userId, status, lastSeen, ...socketUpdate },
+            { upsert: true }
+        );
+        return;
+    }
+
+    const presence = memoryPresence.get(userId) || { userId };
+    Object.assign(presence, { status, lastSeen, ...socketUpdate });
+    memoryPresence.set(userId, presence);
+};
+
+export const touchPresence = async (userId: string): Promise<void> => {
+    if (isMongoDBAvailable()) {
+        await Presence.findOneAndUpdate({ userId }, { lastSeen: new Date() });
+        return;
+    }
+
+    const presence = memoryPresence.get(userId);
+    if (presence) presence.lastSeen = new Date();
+};
+
+export const findPresence = async (userIds: string[]): Promise<any[]> => {
+    if (isMongoDBAvailable()) {
+        return Presence.find({ userId: { $in: userIds } });
+    }
+    return userIds.map(id => memoryPresence.get(id)).filter(presence => presence !== undefined);
+};
+
+/**
+ * Status of each user (users with no presence record are offline)
+ */
+export const getPresenceStatuses = async (userIds: string[]): Promise<Map<string, PresenceStatus>> => {
+    const statuses = new Map<string, PresenceStatus>(userIds.map(id => [id, 'offline']));
+    for (const presence of await findPresence(userIds)) {
+        statuses.set(presence.userId, presence.status);
+    }
+    return statuses;
+};
+
+export const countOnlineUsers = async (): Promise<number> => {
+    if (isMongoDBAvailable()) {
+        return Presence.countDocuments({ status: 'online' });
+    }
+    return Array.from(memoryPresence.values()).filter((presence: any) => presence.status === 'online').length;
+};
@@ -0,0 +1,310 @@
+/**
+ * 🗺️ PROPERTY MAP SEARCH
+ *
+ * Geospatial queries for the map dashboard, shared by MongoDB (2dsphere
+ * index on `location`) and in-memory mode. One area per request:
+ * - bbox=minLng,minLat,maxLng,maxLat      (current map viewport)
+ * - lat=..&lng=..&radiusKm=..             (within N km of a point)
+ * - polygon=lng,lat;lng,lat;lng,lat;...   (a shape drawn on the map)
+ *
+ * All property search filters (price, bedrooms, ...) can be combined with the area.
+ * Below CLUSTER_BELOW_ZOOM, nearby listings are grouped into grid clusters
+ * instead of being returned one by one.
+ *
+ * @author GharBazaar Backend Team
+ */
+
+import Property from '../models/property.model';
+import { isMongoDBAvailable, memoryProperties } from './memoryStore';
+import { SearchClause, buildSearchClauses, toMongoQuery, matchesAll } from './propertySearch';
+
+const EARTH_RADIUS_KM = 6378.1;
+const MAX_RADIUS_KM = 500;
+const MAX_POLYGON_POINTS = 100;
+
+// Zoom levels below this return clusters; at or above it, individual listings
+export const CLUSTER_BELOW_ZOOM = 13;
+
+// Approximate on-screen size of one cluster cell, in pixels
+const CLUSTER_CELL_PX = 80;
+const MAX_CLUSTERS = 500;
+const MAX_MAP_PROPERTIES = 500;
+
+export class InvalidGeoQueryError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InvalidGeoQueryError';
+    }
+}
+
+export interface MapCluster {
+    lat: number;
+    lng: number;
+    count: number;
+    minPrice: number;
+    maxPrice: number;
+    // Set when the cluster holds a single listing
+    propertyId?: string;
+}
+
+export type MapSearchResult =
+    | { mode: 'clusters'; clusters: MapCluster[]; total: number; zoom: number }
+    | { mode: 'properties'; properties: any[]; total: number };
+
+type LngLat = [number, number];
+
+const parseCoordinateList = (value: string, expected?: number): number[] => {
+    const numbers = value.split(',').map(v => Number(v.trim()));
+    if (numbers.some(n => !Number.isFinite(n)) || (expected !== undefined && numbers.length !== expected)) {
+        throw new InvalidGeoQueryError('Coordinates must be comma-separated numbers');
+    }
+    return numbers;
+};
+
+const assertLngLat = ([lng, lat]: LngLat) => {
+    if (Math.abs(lng) > 180 || Math.abs(lat) > 90) {
+        throw new InvalidGeoQueryError('Coordinates out of range');
+    }
+};
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Great-circle distance in km
+ */
+export const distanceKm = ([lng1, lat1]: LngLat, [lng2, lat2]: LngLat): number => {
+    const dLat = toRadians(lat2 - lat1);
+    const dLng = toRadians(lng2 - lng1);
+    const a = Math.sin(dLat / 2) ** 2 +
+        Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLng / 2) ** 2;
+    return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+};
+
+// Ray casting on a [lng, lat] ring (planar - fine at city scale)
+const pointInPolygon = ([x, y]: LngLat, ring: LngLat[]): boolean => {
+    let inside = false;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        const [xi, yi] = ring[i];
+        const [xj, yj] = ring[j];
+        if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+            inside = !inside;
+        }
+    }
+    return inside;
+};
+
+const coordinatesOf = (property: any): LngLat | null => {
+    const coordinates = property.location?.coordinates;
+    return Array.isArray(coordinates) && coordinates.length === 2 ? [coordinates[0], coordinates[1]] : null;
+};
+
+// $polygon is flat like pointInPolygon (a GeoJSON polygon's edges would follow great circles)
+const polygonClause = (ring: LngLat[]): SearchClause => ({
+    mongo: { location: { $geoWithin: { $polygon: ring } } },
+    test: p => {
+        const point = coordinatesOf(p);
+        return !!point && pointInPolygon(point, ring);
+    },
+});
+
+/**
+ * Build the area clause from bbox / lat+lng+radiusKm / polygon params
+ */
+const buildAreaClause = (query: Record<string, any>): { clause: SearchClause; center?: LngLat; radiusKm?: number } => {
+    if (typeof query.bbox === 'string' && query.bbox) {
+        const [minLng, minLat, maxLng, maxLat] = parseCoordinateList(query.bbox, 4);
+        assertLngLat([minLng, minLat]);
+        assertLngLat([maxLng, maxLat]);
+        if (minLng >= maxLng || minLat >= maxLat) {
+            throw new InvalidGeoQueryError('bbox must be minLng,minLat,maxLng,maxLat');
+        }
+
+        // $box is flat like the in-memory min/max check
+        return {
+            clause: {
+                mongo: { location: { $geoWithin: { $box: [[minLng, minLat], [maxLng, maxLat]] } } },
+                test: p => {
+                    const point = coordinatesOf(p);
+                    return !!point &&
+                        point[0] >= minLng && point[0] <= maxLng &&
+                        point[1] >= minLat && point[1] <= maxLat;
+                },
+            },
+        };
+    }
+
+    if (query.lat !== undefined && query.lng !== undefined) {
+        const center: LngLat = [Number(query.lng), Number(query.lat)];
+        const radiusKm = Number(query.radiusKm ?? 5);
+        if (!center.every(Number.isFinite)) {
+            throw new InvalidGeoQueryError('lat and lng must be numbers');
+        }
+        assertLngLat(center);
+        if (!Number.isFinite(radiusKm) || radiusKm <= 0 || radiusKm > MAX_RADIUS_KM) {
+            throw new InvalidGeoQueryError(`radiusKm must be between 0 and ${MAX_RADIUS_KM}`);
+        }
+
+        return {
+            center,
+            radiusKm,
+            clause: {
+                mongo: { location: { $geoWithin: { $centerSphere: [center, radiusKm / EARTH_RADIUS_KM] } } },
+                test: p => {
+                    const point = coordinatesOf(p);
+                    return !!point && distanceKm(center, point) <= radiusKm;
+                },
+            },
+        };
+    }
+
+    if (typeof query.polygon === 'string' && query.polygon) {
+        const ring = query.polygon.split(';').filter(Boolean).map((pair: string) => {
+            const point = parseCoordinateList(pair, 2) as LngLat;
+            assertLngLat(point);
+            return point;
+        });
+
+        if (ring.length < 3 || ring.length > MAX_POLYGON_POINTS) {
+            throw new InvalidGeoQueryError(`polygon needs between 3 and ${MAX_POLYGON_POINTS} points`);
+        }
+
+        // GeoJSON rings must be closed
+        const [first, last] = [ring[0], ring[ring.length - 1]];
+        if (first[0] !== last[0] || first[1] !== last[1]) ring.push(first);
+
+        return { clause: polygonClause(ring) };
+    }
+
+    throw new InvalidGeoQueryError('Provide bbox, lat/lng/radiusKm or polygon');
+};
+
+// Width of a cluster cell in degrees at this zoom level (256px world tile at zoom 0)
+const clusterCellDegrees = (zoom: number) => (CLUSTER_CELL_PX * 360) / (256 * 2 ** zoom);
+
+const toCluster = (group: { count: number; lat: number; lng: number; minPrice: number; maxPrice: number; propertyId: any }): MapCluster => ({
+    lat: group.lat,
+    lng: group.lng,
+    count: group.count,
+    minPrice: group.minPrice,
+    maxPrice: group.maxPrice,
+    ...(group.count === 1 ? { propertyId: String(group.propertyId) } : {}),
+});
+
+/**
+ * 🗺️ SEARCH LISTINGS ON THE MAP
+ *
+ * Area params (see above) plus an optional `zoom`; any property search filter
+ * is also accepted. Radius searches return listings nearest-first with `distanceKm`.
+ */
+export const searchPropertiesOnMap = async (query: Record<string, any>): Promise<MapSearchResult> => {
+    const { clause: areaClause, center, radiusKm } = buildAreaClause(query);
+    const clauses = [...buildSearchClauses(query), areaClause];
+    const zoom = query.zoom !== undefined ? Number(query.zoom) : undefined;
+    const limit = Math.min(Math.max(parseInt(query.limit) || 200, 1), MAX_MAP_PROPERTIES);
+
+    if (zoom !== undefined && !Number.isFinite(zoom)) {
+        throw new InvalidGeoQueryError('zoom must be a number');
+    }
+
+    // ----- Clusters (zoomed out) -----
+    if (zoom !== undefined && zoom < CLUSTER_BELOW_ZOOM) {
+        const cell = clusterCellDegrees(Math.max(zoom, 0));
+        let groups: any[];
+
+        if (isMongoDBAvailable()) {
+            groups = await Property.aggregate([
+                { $match: toMongoQuery(clauses) },
+                {
+                    $project: {
+                        price: 1,
+                        lng: { $arrayElemAt: ['$location.coordinates', 0] },
+                        lat: { $arrayElemAt: ['$location.coordinates', 1] },
+                    },
+                },
+                {
+                    $group: {
+                        _id: {
+                            x: { $floor: { $divide: ['$lng', cell] } },
+                            y: { $floor: { $divide: ['$lat', cell] } },
+                        },
+                        count: { $sum: 1 },
+                        lat: { $avg: '$lat' },
+                        lng: { $avg: '$lng' },
+                        minPrice: { $min: '$price' },
+                        maxPrice: { $max: '$price' },
+                        propertyId: { $first: '$_id' },
+                    },
+                },
+            ]);
+        } else {
+            const cells = new Map<string, any>();
+            Array.from(memoryProperties.values()).filter(matchesAll(clauses)).forEach((property: any) => {
+                const [lng, lat] = coordinatesOf(property)!;
+                const key = `${Math.floor(lng / cell)}:${Math.floor(lat / cell)}`;
+                const group = cells.get(key) || {
+                    count: 0, lat: 0, lng: 0, minPrice: Infinity, maxPrice: -Infinity, propertyId: property._id,
+                };
+                group.count += 1;
+                group.lat += lat;
+                group.lng += lng;
+                group.minPrice = Math.min(group.minPrice, property.price);
+                group.maxPrice = Math.max(group.maxPrice, property.price);
+                cells.set(key, group);
+            });
+            groups = Array.from(cells.values()).map(group => ({
+                ...group,
+                lat: group.lat / group.count,
+                lng: group.lng / group.count,
+            }));
+        }
+
+        const clusters = groups
+            .sort((a, b) => b.count - a.count)
+            .slice(0, MAX_CLUSTERS)
+            .map(toCluster);
+        const total = groups.reduce((sum, group) => sum + group.count, 0);
+
+        return { mode: 'clusters', clusters, total, zoom };
+    }
+
+    // ----- Individual listings (zoomed in) -----
+    let matching: any[];
+    let total: number;
+
+    if (isMongoDBAvailable()) {
+        const mongoQuery = toMongoQuery(clauses);
+        total = await Property.countDocuments(mongoQuery);
+        if (center) {
+            // Nearest first, sorted and limited by MongoDB. $nearSphere can't go inside
+            // $and, so it sits beside the other filters instead of the radius clause.
+            matching = await Property.find({
+                ...toMongoQuery(clauses.filter(clause => clause !== areaClause)),
+                location: {
+                    $nearSphere: {
+                        $geometry: { type: 'Point', coordinates: center },
+                        $maxDistance: radiusKm! * 1000,
+                    },
+                },
+            }).limit(limit);
+        } else {
+            matching = await Property.find(mongoQuery).sort({ createdAt: -1 }).limit(limit);
+        }
+    } else {
+        matching = Array.from(memoryProperties.values())
+            .filter(matchesAll(clauses))
+            .sort((a: any, b: any) => b.createdAt - a.createdAt);
+        total = matching.length;
+    }
+
+    if (center) {
+        const withDistance = matching
+            .map(property => {
+                const plain = typeof property.toObject === 'function' ? property.toObject() : { ...property };
+                return { ...plain, distanceKm: Math.round(distanceKm(center, coordinatesOf(plain)!) * 100) / 100 };
+            })
+            .sort((a, b) => a.distanceKm - b.distanceKm);
+        return { mode: 'properties', properties: withDistance.slice(0, limit), total };
+    }
+
+    return { mode: 'properties', properties: matching.slice(0, limit), total };
+};
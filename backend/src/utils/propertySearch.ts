@@ -0,0 +1,415 @@
+/**
+ * 🔎 PROPERTY SEARCH
+ *
+ * Faceted search over approved listings, shared by MongoDB and in-memory mode.
+ *
+ * Every filter is a clause with both a Mongo condition and an in-memory test,
+ * so both stores return the same results. Facet counts are "disjunctive":
+ * each facet is counted with every filter applied except its own, so the UI
+ * can show how many results picking another value would give.
+ *
+ * Results use cursor pagination: pass back `nextCursor` as `cursor`.
+ *
+ * @author GharBazaar Backend Team
+ */
+
+import mongoose from 'mongoose';
+import Property, { IProperty } from '../models/property.model';
+import { isMongoDBAvailable, memoryProperties } from './memoryStore';
+
+export const SEARCH_SORTS = {
+    newest: { field: 'createdAt', direction: -1 },
+    oldest: { field: 'createdAt', direction: 1 },
+    price_asc: { field: 'price', direction: 1 },
+    price_desc: { field: 'price', direction: -1 },
+    popular: { field: 'views', direction: -1 },
+} as const;
+
+export type SearchSort = keyof typeof SEARCH_SORTS;
+
+export const FACET_KEYS = ['listingType', 'propertyType', 'bedrooms', 'furnishing', 'amenities', 'city', 'locality'] as const;
+
+export type FacetKey = typeof FACET_KEYS[number];
+
+export interface FacetCount {
+    value: string;
+    count: number;
+}
+
+export interface PropertySearchResult {
+    properties: any[];
+    facets: Record<FacetKey, FacetCount[]>;
+    total: number;
+    nextCursor: string | null;
+    limit: number;
+}
+
+export class InvalidCursorError extends Error {
+    constructor() {
+        super('Invalid pagination cursor');
+        this.name = 'InvalidCursorError';
+    }
+}
+
+// Listings with this many bedrooms or more share the "4+" bucket
+const MAX_BEDROOM_BUCKET = 4;
+const MAX_LOCALITY_FACETS = 20;
+
+// Values the filter UI uses that differ from the stored ones
+const PROPERTY_TYPE_ALIASES: Record<string, string> = { villa: 'house' };
+const FURNISHING_ALIASES: Record<string, string> = { furnished: 'fully-furnished' };
+
+/**
+ * One search filter, usable against Mongo and the in-memory store
+ */
+export interface SearchClause {
+    facet?: FacetKey;
+    mongo: Record<string, any>;
+    test: (property: any) => boolean;
+}
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Query values may be a single value, a comma-separated list or a repeated param
+const parseList = (value: unknown): string[] => {
+    const values = Array.isArray(value) ? value : [value];
+    return values
+        .filter((v): v is string => typeof v === 'string')
+        .flatMap(v => v.split(','))
+        .map(v => v.trim())
+        .filter(Boolean);
+};
+
+const parseNumber = (value: unknown): number | undefined => {
+    if (typeof value !== 'string' || value.trim() === '') return undefined;
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+const isTruthy = (value: unknown) => value === 'true' || value === '1';
+
+const bedroomBucket = (bedrooms?: number | null): string | null => {
+    if (bedrooms === undefined || bedrooms === null) return null;
+    return bedrooms >= MAX_BEDROOM_BUCKET ? `${MAX_BEDROOM_BUCKET}+` : String(bedrooms);
+};
+
+const rangeClause = (field: string, min?: number, max?: number): SearchClause | null => {
+    if (min === undefined && max === undefined) return null;
+
+    const condition: Record<string, number> = {};
+    if (min !== undefined) condition.$gte = min;
+    if (max !== undefined) condition.$lte = max;
+
+    return {
+        mongo: { [field]: condition },
+        test: p => typeof p[field] === 'number' &&
+            (min === undefined || p[field] >= min) &&
+            (max === undefined || p[field] <= max),
+    };
+};
+
+const inClause = (field: FacetKey | 'pincode', values: string[]): SearchClause | null => {
+    if (!values.length) return null;
+    return {
+        facet: field === 'pincode' ? undefined : field,
+        mongo: { [field]: { $in: values } },
+        test: p => values.includes(p[field]),
+    };
+};
+
+// City and locality match whole names, ignoring case
+const nameClause = (field: 'city' | 'locality', values: string[]): SearchClause | null => {
+    if (!values.length) return null;
+    const lower = values.map(v => v.toLowerCase());
+    return {
+        facet: field,
+        mongo: { [field]: { $in: values.map(v => new RegExp(`^${escapeRegex(v)}$`, 'i')) } },
+        test: p => lower.includes((p[field] || '').toLowerCase()),
+    };
+};
+
+/**
+ * Turn request query params into search clauses
+ */
+export const buildSearchClauses = (query: Record<string, any>): SearchClause[] => {
+    const clauses: Array<SearchClause | null> = [];
+
+    const text = typeof query.q === 'string' ? query.q.trim() : '';
+    if (text) {
+        const pattern = new RegExp(escapeRegex(text), 'i');
+        const fields = ['title', 'locality', 'city', 'description'];
+        clauses.push({
+            mongo: { $or: fields.map(field => ({ [field]: pattern })) },
+            test: p => fields.some(field => pattern.test(p[field] || '')),
+        });
+    }
+
+    clauses.push(nameClause('city', parseList(query.city)));
+    clauses.push(nameClause('locality', parseList(query.locality)));
+    clauses.push(inClause('pincode', parseList(query.pincode)));
+    clauses.push(inClause('listingType', parseList(query.listingType)));
+    clauses.push(inClause('propertyType', parseList(query.propertyType).map(t => PROPERTY_TYPE_ALIASES[t] || t)));
+    clauses.push(inClause('furnishing', parseList(query.furnishing ?? query.furnished).map(f => FURNISHING_ALIASES[f] || f)));
+
+    // "2,3" → exactly 2 or 3 bedrooms; "4+" → 4 or more
+    const bedrooms = parseList(query.bedrooms);
+    if (bedrooms.length) {
+        const exact = bedrooms.filter(b => !b.endsWith('+')).map(Number).filter(Number.isFinite);
+        const minimums = bedrooms.filter(b => b.endsWith('+')).map(b => parseInt(b)).filter(Number.isFinite);
+        const atLeast = minimums.length ? Math.min(...minimums) : undefined;
+
+        const conditions: Record<string, any>[] = [];
+        if (exact.length) conditions.push({ bedrooms: { $in: exact } });
+        if (atLeast !== undefined) conditions.push({ bedrooms: { $gte: atLeast } });
+
+        // Nothing parseable matches nothing, rather than silently dropping the filter
+        if (!conditions.length) conditions.push({ bedrooms: { $in: [] } });
+
+        clauses.push({
+            facet: 'bedrooms',
+            mongo: { $or: conditions },
+            test: p => typeof p.bedrooms === 'number' &&
+                (exact.includes(p.bedrooms) || (atLeast !== undefined && p.bedrooms >= atLeast)),
+        });
+    }
+
+    const minBathrooms = parseNumber(query.bathrooms);
+    clauses.push(rangeClause('bathrooms', minBathrooms, undefined));
+    clauses.push(rangeClause('price', parseNumber(query.minPrice), parseNumber(query.maxPrice)));
+    clauses.push(rangeClause('squareFeet', parseNumber(query.minArea), parseNumber(query.maxArea)));
+
+    // Every requested amenity must be present; "Gym" matches "Gym/Fitness Center"
+    const amenities = parseList(query.amenities);
+    if (amenities.length) {
+        const patterns = amenities.map(a => new RegExp(`^${escapeRegex(a)}`, 'i'));
+        clauses.push({
+            facet: 'amenities',
+            mongo: { $and: patterns.map(pattern => ({ amenities: pattern })) },
+            test: p => patterns.every(pattern => (p.amenities || []).some((a: string) => pattern.test(a))),
+        });
+    }
+
+    const postedWithinDays = parseNumber(query.postedWithin);
+    if (postedWithinDays !== undefined && postedWithinDays > 0) {
+        const since = new Date(Date.now() - postedWithinDays * 24 * 60 * 60 * 1000);
+        clauses.push({
+            mongo: { createdAt: { $gte: since } },
+            test: p => new Date(p.createdAt) >= since,
+        });
+    }
+
+    if (isTruthy(query.verifiedOnly)) {
+        clauses.push({
+            mongo: { verified: true },
+            test: p => p.verified === true,
+        });
+    }
+
+    return clauses.filter((clause): clause is SearchClause => clause !== null);
+};
+
+export const toMongoQuery = (clauses: SearchClause[]) => ({
+    $and: [{ status: 'approved' }, ...clauses.map(clause => clause.mongo)],
+});
+
+export const matchesAll = (clauses: SearchClause[]) => (property: any) =>
+    property.status === 'approved' && clauses.every(clause => clause.test(property));
+
+// Clauses used to count a facet: everything except the facet's own filter
+const clausesForFacet = (clauses: SearchClause[], facet: FacetKey) =>
+    clauses.filter(clause => clause.facet !== facet);
+
+// City and locality are counted ignoring case, labelled with the first spelling seen
+const NAME_FACETS: FacetKey[] = ['city', 'locality'];
+
+const facetKey = (facet: FacetKey, value: string) =>
+    NAME_FACETS.includes(facet) ? value.toLowerCase() : value;
+
+const sortFacetCounts = (counts: Map<string, FacetCount>, facet: FacetKey): FacetCount[] =>
+    Array.from(counts.values())
+        .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+        .slice(0, facet === 'locality' ? MAX_LOCALITY_FACETS : undefined);
+
+const facetValues = (property: any, facet: FacetKey): string[] => {
+    if (facet === 'amenities') return property.amenities || [];
+    if (facet === 'bedrooms') {
+        const bucket = bedroomBucket(property.bedrooms);
+        return bucket ? [bucket] : [];
+    }
+    return property[facet] ? [property[facet]] : [];
+};
+
+// ==================== CURSOR ====================
+
+interface CursorPosition {
+    // null for listings without the sort field (e.g. no price)
+    value: number | null;
+    id: string;
+}
+
+const sortValue = (property: any, field: string): number | null => {
+    const raw = property[field];
+    if (raw === undefined || raw === null) return null;
+    return raw instanceof Date ? raw.getTime() : raw;
+};
+
+// Missing values sort before every number, as they do in MongoDB
+const compareSortValues = (a: number | null, b: number | null): number => {
+    if (a === b) return 0;
+    if (a === null) return -1;
+    if (b === null) return 1;
+    return a - b;
+};
+
+/**
+ * Mongo condition for listings after the cursor position. Listings without
+ * the sort field come first ascending and last descending, so they get
+ * their own branches instead of being skipped or repeated.
+ */
+const afterCursorQuery = (field: string, direction: 1 | -1, cursor: CursorPosition): Record<string, any> => {
+    const id = new mongoose.Types.ObjectId(cursor.id);
+    const beyond = direction === -1 ? '$lt' : '$gt';
+
+    if (cursor.value === null) {
+        const sameValue = { [field]: null, _id: { [beyond]: id } };
+        return direction === 1 ? { $or: [sameValue, { [field]: { $ne: null } }] } : sameValue;
+    }
+
+    const value = field === 'createdAt' ? new Date(cursor.value) : cursor.value;
+    const branches: Record<string, any>[] = [
+        { [field]: { [beyond]: value } },
+        { [field]: value, _id: { [beyond]: id } },
+    ];
+    if (direction === -1) branches.push({ [field]: null });
+    return { $or: branches };
+};
+
+const encodeCursor = (property: any, field: string): string =>
+    Buffer.from(JSON.stringify({ value: sortValue(property, field), id: String(property._id) })).toString('base64url');
+
+const decodeCursor = (cursor: string): CursorPosition => {
+    try {
+        const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+        if ((typeof decoded.value !== 'number' && decoded.value !== null) || typeof decoded.id !== 'string') {
+            throw new Error('Malformed cursor');
+        }
+        return decoded;
+    } catch (error) {
+        throw new InvalidCursorError();
+    }
+};
+
+// ==================== SEARCH ====================
+
+/**
+ * 🔎 SEARCH APPROVED LISTINGS
+ *
+ * Supported query params: q, city, locality, pincode, listingType, propertyType,
+ * bedrooms, bathrooms, furnishing (or furnished), minPrice, maxPrice, minArea,
+ * maxArea, amenities, postedWithin (days), verifiedOnly, sort, limit, cursor.
+ * List params accept comma-separated values.
+ */
+export const searchProperties = async (query: Record<string, any>): Promise<PropertySearchResult> => {
+    const clauses = buildSearchClauses(query);
+    const sort = SEARCH_SORTS[query.sort as SearchSort] || SEARCH_SORTS.newest;
+    const limit = Math.min(Math.max(parseInt(query.limit) || 20, 1), 100);
+    const cursor = typeof query.cursor === 'string' && query.cursor ? decodeCursor(query.cursor) : null;
+    const { field, direction } = sort;
+
+    let page: any[];
+    let total: number;
+    const facets = {} as Record<FacetKey, FacetCount[]>;
+
+    if (isMongoDBAvailable()) {
+        const mongoQuery: Record<string, any> = toMongoQuery(clauses);
+
+        if (cursor) {
+            if (!mongoose.isValidObjectId(cursor.id)) throw new InvalidCursorError();
+            mongoQuery.$and.push(afterCursorQuery(field, direction, cursor));
+        }
+
+        const facetPipelines: Record<string, any[]> = {
+            total: [{ $match: toMongoQuery(clauses) }, { $count: 'count' }],
+        };
+        for (const facet of FACET_KEYS) {
+            const pipeline: any[] = [{ $match: toMongoQuery(clausesForFacet(clauses, facet)) }];
+            let key: any = `$${facet}`;
+            if (NAME_FACETS.includes(facet)) {
+                key = { $toLower: `$${facet}` };
+            } else if (facet === 'amenities') {
+                pipeline.push({ $unwind: '$amenities' });
+            } else if (facet === 'bedrooms') {
+                pipeline.push({ $match: { bedrooms: { $type: 'number' } } });
+                key = {
+                    $cond: [
+                        { $gte: ['$bedrooms', MAX_BEDROOM_BUCKET] },
+                        `${MAX_BEDROOM_BUCKET}+`,
+                        { $toString: '$bedrooms' },
+                    ],
+                };
+            }
+            pipeline.push({ $group: { _id: key, value: { $first: `$${facet}` }, count: { $sum: 1 } } });
+            facetPipelines[facet] = pipeline;
+        }
+
+        const [results, [aggregated]] = await Promise.all([
+            Property.find(mongoQuery)
+                .sort({ [field]: direction, _id: direction })
+                .limit(limit + 1),
+            Property.aggregate<Record<string, any[]>>([{ $facet: facetPipelines }]),
+        ]);
+
+        page = results;
+        total = aggregated.total[0]?.count || 0;
+        for (const facet of FACET_KEYS) {
+            const counts = new Map<string, FacetCount>(
+                aggregated[facet]
+                    .filter((entry: any) => entry._id !== null && entry._id !== '')
+                    .map((entry: any) => {
+                        const value = facet === 'bedrooms' ? String(entry._id) : String(entry.value);
+                        return [String(entry._id), { value, count: entry.count }];
+                    })
+            );
+            facets[facet] = sortFacetCounts(counts, facet);
+        }
+    } else {
+        const all: IProperty[] = Array.from(memoryProperties.values());
+        const matching = all.filter(matchesAll(clauses));
+
+        for (const facet of FACET_KEYS) {
+            const counts = new Map<string, FacetCount>();
+            all.filter(matchesAll(clausesForFacet(clauses, facet))).forEach(property => {
+                for (const value of facetValues(property, facet)) {
+                    const key = facetKey(facet, value);
+                    const entry = counts.get(key) || { value, count: 0 };
+                    entry.count += 1;
+                    counts.set(key, entry);
+                }
+            });
+            facets[facet] = sortFacetCounts(counts, facet);
+        }
+
+        const compare = (a: any, b: any) =>
+            (compareSortValues(sortValue(a, field), sortValue(b, field)) ||
+                String(a._id).localeCompare(String(b._id))) * direction;
+
+        const sorted = matching.sort(compare);
+        const afterCursor = cursor
+            ? sorted.filter(p => compare(p, { [field]: cursor.value, _id: cursor.id }) > 0)
+            : sorted;
+
+        total = matching.length;
+        page = afterCursor.slice(0, limit + 1);
+    }
+
+    const hasMore = page.length > limit;
+    const properties = page.slice(0, limit);
+
+    return {
+        properties,
+        facets,
+        total,
+        nextCursor: hasMore ? encodeCursor(properties[properties.length - 1], field) : null,
+        limit,
+    };
+};
@@ -0,0 +1,23 @@
+/**
+ * 🏠 PROPERTY STORE
+ *
+ * Data-access helpers for listings that work against MongoDB
+ * or the in-memory store, shared by the property and bid controllers.
+ *
+ * @author GharBazaar Backend Team
+ */
+
+import mongoose from 'mongoose';
+import Property from '../models/property.model';
+import { isMongoDBAvailable, memoryProperties } from './memoryStore';
+
+/**
+ * Find a listing by ID (null for unknown or malformed IDs)
+ */
+export const findPropertyById = async (id: string): Promise<any | null> => {
+    if (isMongoDBAvailable()) {
+        if (!mongoose.isValidObjectId(id)) return null;
+        return Property.findById(id);
+    }
+    return memoryProperties.get(id) || null;
+};
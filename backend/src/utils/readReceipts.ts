@@ -0,0 +1,141 @@
+/**
+ * 👀 READ RECEIPTS
+ *
+ * Each participant has a read cursor on the conversation: the last message
+ * they have seen. A message is read by everyone whose cursor is at or after
+ * it, and a user's unread count is the number of other people's messages
+ * after their cursor. Cursors only ever move forward.
+ *
+ * @author GharBazaar Backend Team
+ */
+
+import mongoose from 'mongoose';
+import Conversation, { IReadReceipt } from '../models/conversation.model';
+import Message from '../models/message.model';
+import { isMongoDBAvailable, memoryMessages } from './memoryStore';
+import { compareMessages } from './messageHistory';
+import { getParticipantState, toConversationView } from './conversationState';
+
+export const getReadReceipt = (conversation: any, userId: string): IReadReceipt | undefined =>
+    (conversation.readReceipts || []).find((receipt: IReadReceipt) => receipt.userId === userId);
+
+// Position of a receipt's cursor, comparable with messages via compareMessages
+const cursorPosition = (receipt: IReadReceipt) => ({
+    _id: receipt.lastReadMessageId,
+    createdAt: receipt.lastReadAt,
+});
+
+/**
+ * Number of messages from other participants the user hasn't read yet
+ * (ignoring history they deleted for themselves)
+ */
+export const countUnread = async (conversation: any, userId: string): Promise<number> => {
+    const receipt = getReadReceipt(conversation, userId);
+    const { clearedAt } = getParticipantState(conversation, userId);
+
+    if (isMongoDBAvailable()) {
+        const query: Record<string, any> = {
+            conversationId: conversation._id,
+            senderId: { $ne: userId },
+            deleted: false,
+        };
+        if (clearedAt) query.createdAt = { $gt: clearedAt };
+        if (receipt) {
+            query.$or = [
+                { createdAt: { $gt: receipt.lastReadAt } },
+                { createdAt: receipt.lastReadAt, _id: { $gt: new mongoose.Types.ObjectId(receipt.lastReadMessageId) } },
+            ];
+        }
+        return Message.countDocuments(query);
+    }
+
+    return (memoryMessages.get(String(conversation._id)) || []).filter((m: any) =>
+        m.senderId !== userId &&
+        !m.deleted &&
+        (!clearedAt || new Date(m.createdAt) > new Date(clearedAt)) &&
+        (!receipt || compareMessages(m, cursorPosition(receipt)) > 0)
+    ).length;
+};
+
+/**
+ * Conversations as returned to a participant, with their settings and unread count
+ */
+export const withUnreadCounts = async (conversations: any[], userId: string) =>
+    Promise.all(conversations.map(async conversation => ({
+        ...toConversationView(conversation, userId),
+        unreadCount: await countUnread(conversation, userId),
+    })));
+
+/**
+ * ✅ MARK CONVERSATION AS READ
+ *
+ * Move the user's cursor to `messageId` (default: the latest message).
+ * Returns the new receipt, or null if there was nothing to mark or the
+ * cursor was already at or past that message.
+ */
+export const markConversationRead = async (
+    conversation: any,
+    userId: string,
+    messageId?: string
+): Promise<IReadReceipt | null> => {
+    const conversationId = String(conversation._id);
+
+    let target: any;
+    if (isMongoDBAvailable()) {
+        if (messageId) {
+            target = mongoose.isValidObjectId(messageId)
+                ? await Message.findOne({ _id: messageId, conversationId })
+                : null;
+        } else {
+            target = await Message.findOne({ conversationId, deleted: false })
+                .sort({ createdAt: -1, _id: -1 });
+        }
+    } else {
+        const messages = memoryMessages.get(conversationId) || [];
+        target = messageId
+            ? messages.find((m: any) => m._id === messageId)
+            : messages.filter((m: any) => !m.deleted).sort(compareMessages).pop();
+    }
+
+    if (!target) return null;
+
+    const receipt: IReadReceipt = {
+        userId,
+        lastReadMessageId: String(target._id),
+        lastReadAt: new Date(target.createdAt),
+        readAt: new Date(),
+    };
+
+    if (isMongoDBAvailable()) {
+        // Advance an existing cursor, or add one; never move it backwards
+        const advanced = await Conversation.updateOne(
+            {
+                _id: conversation._id,
+                readReceipts: { $elemMatch: { userId, lastReadAt: { $lt: receipt.lastReadAt } } },
+            },
+            {
+                $set: {
+                    'readReceipts.$.lastReadMessageId': receipt.lastReadMessageId,
+                    'readReceipts.$.lastReadAt': receipt.lastReadAt,
+                    'readReceipts.$.readAt': receipt.readAt,
+                },
+            }
+        );
+        if (advanced.modifiedCount) return receipt;
+
+        const added = await Conversation.updateOne(
+            { _id: conversation._id, 'readReceipts.userId': { $ne: userId } },
+            { $push: { readReceipts: receipt } }
+        );
+        return added.modifiedCount ? receipt : null;
+    }
+
+    const current = getReadReceipt(conversation, userId);
+    if (current && compareMessages(target, cursorPosition(current)) <= 0) return null;
+
+    conversation.readReceipts = [
+        ...(conversation.readReceipts || []).filter((r: IReadReceipt) => r.userId !== userId),
+        receipt,
+    ];
+    return receipt;
+};
@@ -0,0 +1,102 @@
+/**
+ * 🏠 SITE VISIT STORE
+ *
+ * Data-access helpers for site visits that work against MongoDB or the
+ * in-memory store. Status changes go through transitionSiteVisit(), which
+ * only applies while the visit is still in the expected status, so a
+ * cancel and a completion racing on the same visit can't both win.
+ *
+ * @author GharBazaar Backend Team
+ */
+
+import mongoose from 'mongoose';
+import { v4 as uuidv4 } from 'uuid';
+import SiteVisit, { SiteVisitStatus } from '../models/siteVisit.model';
+import { isMongoDBAvailable, memorySiteVisits } from './memoryStore';
+
+export interface SiteVisitFilter {
+    propertyId?: string;
+    buyerId?: string;
+    sellerId?: string;
+    statuses?: readonly SiteVisitStatus[];
+}
+
+export const findSiteVisitById = async (id: string): Promise<any | null> => {
+    if (isMongoDBAvailable()) {
+        if (!mongoose.isValidObjectId(id)) return null;
+        return SiteVisit.findById(id);
+    }
+    return memorySiteVisits.get(id) || null;
+};
+
+/**
+ * Find site visits matching all given filters, latest appointment first
+ */
+export const findSiteVisits = async (filter: SiteVisitFilter): Promise<any[]> => {
+    if (isMongoDBAvailable()) {
+        const query: Record<string, any> = {};
+        if (filter.propertyId) query.propertyId = filter.propertyId;
+        if (filter.buyerId) query.buyerId = filter.buyerId;
+        if (filter.sellerId) query.sellerId = filter.sellerId;
+        if (filter.statuses) query.status = { $in: filter.statuses };
+        return SiteVisit.find(query).sort({ scheduledAt: -1 });
+    }
+
+    return Array.from(memorySiteVisits.values())
+        .filter((visit: any) =>
+            (!filter.propertyId || visit.propertyId === filter.propertyId) &&
+            (!filter.buyerId || visit.buyerId === filter.buyerId) &&
+            (!filter.sellerId || visit.sellerId === filter.sellerId) &&
+            (!filter.statuses || filter.statuses.includes(visit.status))
+        )
+        .sort((a: any, b: any) => b.scheduledAt - a.scheduledAt);
+};
+
+/**
+ * True if the buyer has a completed site visit for the listing
+ */
+export const hasCompletedSiteVisit = async (buyerId: string, propertyId: string): Promise<boolean> => {
+    if (isMongoDBAvailable()) {
+        return !!(await SiteVisit.exists({ propertyId, buyerId, status: 'completed' }));
+    }
+    return Array.from(memorySiteVisits.values()).some((visit: any) =>
+        visit.propertyId === propertyId && visit.buyerId === buyerId && visit.status === 'completed'
+    );
+};
+
+export const createSiteVisit = async (data: Record<string, any>): Promise<any> => {
+    const fields = { ...data, status: 'requested' };
+
+    if (isMongoDBAvailable()) {
+        return SiteVisit.create(fields);
+    }
+
+    const now = new Date();
+    const visit = { _id: uuidv4(), ...fields, createdAt: now, updatedAt: now };
+    memorySiteVisits.set(visit._id, visit);
+    return visit;
+};
+
+/**
+ * Move a visit to a new status if it is still in `from`.
+ * Returns the updated visit, or null if it was changed by someone else first.
+ */
+export const transitionSiteVisit = async (
+    visit: any,
+    from: SiteVisitStatus,
+    updates: Record<string, any>
+): Promise<any | null> => {
+    if (isMongoDBAvailable()) {
+        return SiteVisit.findOneAndUpdate(
+            { _id: visit._id, status: from },
+            { $set: updates },
+            { new: true }
+        );
+    }
+
+    const current = memorySiteVisits.get(String(visit._id));
+    if (!current || current.status !== from) return null;
+
+    Object.assign(current, updates, { updatedAt: new Date() });
+    return current;
+};
@@ -0,0 +1,92 @@
+/**
+ * 📎 TICKET ATTACHMENTS
+ *
+ * Files customers and agents attach to support tickets (screenshots,
+ * payment receipts, agreements). Like chat attachments, the real type is
+ * sniffed from the contents and the file lives in the configured
+ * FileStorage backend.
+ *
+ * A ticket message's fileUrl holds the file's storage key. Clients only
+ * ever get a signed download link for the message, which expires after
+ * FILE_URL_TTL_MINUTES and is re-signed every time the message is sent.
+ *
+ * @author GharBazaar Backend Team
+ */
+
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import config from '../config';
+import { cleanFileName, InvalidUploadError } from './chatAttachments';
+import { getFileStorage } from './fileStorage';
+import { fileTypeForExtension, sniffFileType, SniffedFileType } from './fileSniffer';
+
+/**
+ * 📥 SAVE TICKET ATTACHMENT
+ *
+ * Validate and store an uploaded file for a ticket, returning the message
+ * fields that point at it. Throws InvalidUploadError for disallowed files.
+ */
+export const saveTicketAttachment = async (upload: {
+    buffer: Buffer;
+    originalName: string;
+    ticketId: string;
+}): Promise<{ fileUrl: string; fileName: string }> => {
+    const type = sniffFileType(upload.buffer);
+    if (!type) {
+        throw new InvalidUploadError('File type not allowed. Upload an image, PDF, Word, Excel, zip or rar file.');
+    }
+
+    const storageKey = `tickets/${upload.ticketId}/${uuidv4()}.${type.extension}`;
+    await getFileStorage().put(storageKey, upload.buffer, type.mimeType);
+
+    return { fileUrl: storageKey, fileName: cleanFileName(upload.originalName, type.extension) };
+};
+
+/**
+ * Type of a stored ticket attachment, from the extension it was saved with
+ */
+export const ticketAttachmentType = (storageKey: string): SniffedFileType | null =>
+    fileTypeForExtension(storageKey.split('.').pop() || '');
+
+const sign = (ticketId: string, messageId: string, expires: number): string =>
+    crypto.createHmac('sha256', config.jwtSecret)
+        .update(`ticket-attachment:${ticketId}:${messageId}:${expires}`)
+        .digest('base64url');
+
+/**
+ * Absolute, expiring download URL for a ticket message's attachment
+ */
+export const signedTicketFileUrl = (ticketId: string, messageId: string): string => {
+    const expires = Math.floor(Date.now() / 1000) + config.upload.signedUrlTtlMinutes * 60;
+    const params = new URLSearchParams({
+        expires: String(expires),
+        signature: sign(ticketId, messageId, expires),
+    });
+    return `${config.upload.publicUrl}/api/v1/tickets/${ticketId}/files/${messageId}?${params}`;
+};
+
+/**
+ * True if the signature matches and the link hasn't expired
+ */
+export const verifyTicketFileSignature = (
+    ticketId: string,
+    messageId: string,
+    expires: number,
+    signature: string
+): boolean => {
+    if (!Number.isFinite(expires) || expires < Date.now() / 1000) return false;
+
+    const expected = Buffer.from(sign(ticketId, messageId, expires));
+    const provided = Buffer.from(signature || '');
+    return expected.length === provided.length && crypto.timingSafeEqual(expected, provided);
+};
+
+/**
+ * Ticket message as sent to clients, with a fresh download link for its attachment
+ */
+export const withTicketFileUrl = (message: any) => {
+    const plain = typeof message?.toObject === 'function' ? message.toObject() : message;
+    if (!plain?.fileUrl) return plain;
+
+    return { ...plain, fileUrl: signedTicketFileUrl(String(plain.ticketId), String(plain._id)) };
+};
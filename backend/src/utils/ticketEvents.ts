@@ -0,0 +1,265 @@
+/**
+ * 📣 TICKET EVENTS
+ *
+ * Real-time ticket updates, following the contract in shared/ticketEvents.ts.
+ * Every event goes to the ticket's room, the 'employees' room, and the
+ * private rooms of the customer and the assigned agent, so clients get
+ * updates without joining the ticket room first.
+ *
+ * ticket:status-changed is sent with every status change, next to the
+ * specific event (assigned, message, closed, reopened) that caused it.
+ *
+ * SLA escalations (ticket:sla-warning, ticket:sla-breached) go to the
+ * supervisors' room and the assigned agent instead. They come from the
+ * periodic SLA sweeper, which also runs here.
+ *
+ * @author GharBazaar Backend Team
+ */
+
+import { Server } from 'socket.io';
+import config from '../config';
+import { userRoom } from '../socket';
+import {
+    TicketEventName,
+    TicketEventPayload,
+    TicketMessagePayload,
+    TicketSla,
+    TicketSlaClock,
+    TicketSlaEvent,
+    TicketSlaTarget,
+    TicketStatus,
+    TicketSummary,
+} from '../shared/ticketEvents';
+import { signedTicketFileUrl } from './ticketAttachments';
+import { findTicketsDueForSla, saveTicket } from './ticketStore';
+import { checkTicketSla } from './ticketSla';
+
+/**
+ * Room for support supervisors, who receive SLA escalations
+ */
+export const SUPERVISOR_ROOM = 'supervisors';
+
+const toIsoString = (date: any): string => new Date(date).toISOString();
+
+const toSlaClock = (clock: any): TicketSlaClock => ({
+    targetMinutes: clock.targetMinutes,
+    dueAt: toIsoString(clock.dueAt),
+    warnAt: toIsoString(clock.warnAt),
+    ...(clock.completedAt ? { completedAt: toIsoString(clock.completedAt) } : {}),
+    ...(clock.breachedAt ? { breachedAt: toIsoString(clock.breachedAt) } : {}),
+    ...(clock.escalatedAt ? { escalatedAt: toIsoString(clock.escalatedAt) } : {}),
+});
+
+const toTicketSla = (sla: any): TicketSla => ({
+    policy: sla.policy,
+    calendar: sla.calendar,
+    firstResponse: toSlaClock(sla.firstResponse),
+    resolution: toSlaClock(sla.resolution),
+});
+
+export const toTicketSummary = (ticket: any): TicketSummary => ({
+    id: String(ticket._id),
+    userId: ticket.userId,
+    userRole: ticket.userRole,
+    categoryTitle: ticket.categoryTitle,
+    subCategoryTitle: ticket.subCategoryTitle,
+    problem: ticket.problem,
+    status: ticket.status,
+    priority: ticket.priority,
+    ...(ticket.assignedTo ? { assignedTo: ticket.assignedTo, assignedToName: ticket.assignedToName } : {}),
+    createdAt: toIsoString(ticket.createdAt),
+    ...(ticket.closedAt ? { closedAt: toIsoString(ticket.closedAt) } : {}),
+    ...(ticket.sla ? { sla: toTicketSla(ticket.sla) } : {}),
+});
+
+export const toTicketMessagePayload = (message: any): TicketMessagePayload => ({
+    id: String(message._id),
+    ticketId: String(message.ticketId),
+    senderId: message.senderId,
+    senderType: message.senderType,
+    message: message.message,
+    ...(message.fileUrl ? { fileUrl: signedTicketFileUrl(String(message.ticketId), String(message._id)), fileName: message.fileName } : {}),
+    timestamp: toIsoString(message.timestamp),
+});
+
+/**
+ * Send a ticket event to everyone following the ticket. `alsoNotify` adds
+ * the private rooms of other users, e.g. the agent a ticket was taken from.
+ */
+export const emitTicketEvent = <E extends TicketEventName>(
+    io: Server | undefined,
+    ticket: any,
+    event: E,
+    payload: TicketEventPayload<E>,
+    alsoNotify: Array<string | undefined> = []
+) => {
+    if (!io) return;
+
+    const rooms = [String(ticket._id), 'employees', userRoom(ticket.userId)];
+    for (const userId of [ticket.assignedTo, ...alsoNotify]) {
+        if (userId) rooms.push(userRoom(userId));
+    }
+
+    // One emit to all rooms, so a socket in several of them gets it once
+    io.to(rooms).emit(event, payload);
+};
+
+const emitStatusChanged = (io: Server | undefined, ticket: any, previousStatus: TicketStatus, changedBy: string) => {
+    if (previousStatus === ticket.status) return;
+
+    emitTicketEvent(io, ticket, 'ticket:status-changed', {
+        ticketId: String(ticket._id),
+        userId: ticket.userId,
+        status: ticket.status,
+        previousStatus,
+        ...(ticket.assignedTo ? { assignedTo: ticket.assignedTo } : {}),
+        changedBy,
+    });
+};
+
+export const emitTicketCreated = (io: Server | undefined, ticket: any) => {
+    emitTicketEvent(io, ticket, 'ticket:created', {
+        ticketId: String(ticket._id),
+        userId: ticket.userId,
+        ticket: toTicketSummary(ticket),
+    });
+};
+
+export const emitTicketAssigned = (
+    io: Server | undefined,
+    ticket: any,
+    change: { previousAssignee?: string; previousStatus: TicketStatus; assignedBy: string }
+) => {
+    const previousAssignee = change.previousAssignee !== ticket.assignedTo ? change.previousAssignee : undefined;
+
+    emitTicketEvent(io, ticket, 'ticket:assigned', {
+        ticketId: String(ticket._id),
+        userId: ticket.userId,
+        assignedTo: ticket.assignedTo,
+        assignedToName: ticket.assignedToName,
+        ...(previousAssignee ? { previousAssignee } : {}),
+        assignedBy: change.assignedBy,
+        status: ticket.status,
+    }, [previousAssignee]);
+    emitStatusChanged(io, ticket, change.previousStatus, change.assignedBy);
+};
+
+export const emitTicketUnassigned = (
+    io: Server | undefined,
+    ticket: any,
+    change: { previousAssignee: string; previousStatus: TicketStatus; reason: 'agent-offline'; changedBy: string }
+) => {
+    emitTicketEvent(io, ticket, 'ticket:unassigned', {
+        ticketId: String(ticket._id),
+        userId: ticket.userId,
+        previousAssignee: change.previousAssignee,
+        reason: change.reason,
+        status: ticket.status,
+    }, [change.previousAssignee]);
+    emitStatusChanged(io, ticket, change.previousStatus, change.changedBy);
+};
+
+/**
+ * `previousStatus` is the one addTicketMessage() returned, if the message moved the ticket on
+ */
+export const emitTicketMessage = (io: Server | undefined, ticket: any, message: any, previousStatus: TicketStatus | null = null) => {
+    emitTicketEvent(io, ticket, 'ticket:message', {
+        ...toTicketMessagePayload(message),
+        userId: ticket.userId,
+    });
+    if (previousStatus) {
+        emitStatusChanged(io, ticket, previousStatus, message.senderId);
+    }
+};
+
+export const emitTicketClosed = (io: Server | undefined, ticket: any, previousStatus: TicketStatus, closedBy: string) => {
+    emitTicketEvent(io, ticket, 'ticket:closed', {
+        ticketId: String(ticket._id),
+        userId: ticket.userId,
+        status: 'closed',
+        closedAt: toIsoString(ticket.closedAt),
+        closedBy,
+    });
+    emitStatusChanged(io, ticket, previousStatus, closedBy);
+};
+
+export const emitTicketReopened = (
+    io: Server | undefined,
+    ticket: any,
+    previousStatus: TicketStatus,
+    reopenedBy: string,
+    reopenedAt: Date = new Date()
+) => {
+    emitTicketEvent(io, ticket, 'ticket:reopened', {
+        ticketId: String(ticket._id),
+        userId: ticket.userId,
+        status: ticket.status,
+        reopenedAt: reopenedAt.toISOString(),
+        reopenedBy,
+    });
+    emitStatusChanged(io, ticket, previousStatus, reopenedBy);
+};
+
+/**
+ * Escalate an SLA target that is about to be (or has been) missed
+ */
+export const emitTicketSlaAlert = (
+    io: Server | undefined,
+    ticket: any,
+    target: TicketSlaTarget,
+    kind: 'warning' | 'breached'
+) => {
+    if (!io) return;
+
+    const clock = ticket.sla[target];
+    const rooms = [SUPERVISOR_ROOM];
+    if (ticket.assignedTo) rooms.push(userRoom(ticket.assignedTo));
+
+    const payload: TicketSlaEvent = {
+        ticketId: String(ticket._id),
+        userId: ticket.userId,
+        categoryTitle: ticket.categoryTitle,
+        priority: ticket.priority,
+        status: ticket.status,
+        target,
+        dueAt: toIsoString(clock.dueAt),
+        ...(kind === 'breached' ? { breachedAt: toIsoString(clock.breachedAt) } : {}),
+        ...(ticket.assignedTo ? { assignedTo: ticket.assignedTo, assignedToName: ticket.assignedToName } : {}),
+    };
+    io.to(rooms).emit(kind === 'warning' ? 'ticket:sla-warning' : 'ticket:sla-breached', payload);
+};
+
+/**
+ * ⏰ START TICKET SLA SWEEPER
+ *
+ * Every SUPPORT_SLA_SWEEP_INTERVAL_SECONDS, marks SLA warnings and breaches
+ * on active tickets and escalates them to supervisors.
+ */
+export const startTicketSlaSweeper = (io: Server): NodeJS.Timeout => {
+    const sweep = async () => {
+        try {
+            const now = new Date();
+            const tickets = await findTicketsDueForSla(now);
+
+            let escalations = 0;
+            for (const ticket of tickets) {
+                const alerts = checkTicketSla(ticket, now);
+                if (alerts.length === 0) continue;
+
+                await saveTicket(ticket);
+                alerts.forEach(alert => emitTicketSlaAlert(io, ticket, alert.target, alert.kind));
+                escalations += alerts.length;
+            }
+
+            if (escalations) {
+                console.log(`⏰ Escalated ${escalations} ticket SLA warning(s)/breach(es)`);
+            }
+        } catch (error) {
+            console.error('❌ Ticket SLA sweep failed:', error);
+        }
+    };
+
+    const timer = setInterval(sweep, config.support.slaSweepIntervalSeconds * 1000);
+    timer.unref();
+    return timer;
+};
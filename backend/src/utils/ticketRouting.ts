@@ -0,0 +1,408 @@
+/**
+ * 🧭 TICKET ROUTING
+ *
+ * Hands new tickets to support agents automatically. An agent can take a
+ * ticket when they are:
+ * - online (away agents keep their tickets but get no new ones)
+ * - opted in to auto-assignment
+ * - skilled in the ticket's category and the customer's role
+ * - below their concurrent ticket cap
+ *
+ * Among those, SUPPORT_ROUTING_STRATEGY picks one: 'least-loaded' takes the
+ * agent with the fewest active tickets, 'round-robin' takes turns. Ties go
+ * to whoever was routed a ticket longest ago.
+ *
+ * When an agent goes offline their active tickets are routed to someone
+ * else after a grace period (so a page reload doesn't cost them their
+ * queue), or put back in the queue if nobody can take them. Waiting
+ * tickets are routed again whenever an agent comes online or frees up.
+ *
+ * @author GharBazaar Backend Team
+ */
+
+import { Server } from 'socket.io';
+import config from '../config';
+import { hasPermission } from '../config/permissions';
+import { ISupportRouting, USER_ROLES, UserRole } from '../models/user.model';
+import { TicketStatus } from '../shared/ticketEvents';
+import { notify } from './notifications';
+import { getPresenceStatuses, PresenceStatus } from './presenceStore';
+import { emitTicketAssigned, emitTicketUnassigned } from './ticketEvents';
+import {
+    assignmentOf,
+    assignTicketIfUnchanged,
+    ASSIGNED_STATUSES,
+    countActiveTicketsByAgent,
+    findAgentActiveTickets,
+    findWaitingTickets,
+    TicketAssignment,
+    unassignTicket,
+} from './ticketStore';
+import { findUserById, findUsersByRole, StoredUser, updateUser } from './userStore';
+
+// Who automatic assignments are made by, in ticket events
+export const ROUTING_ACTOR = 'system:routing';
+
+const MAX_SKILLS = 50;
+const MAX_SKILL_LENGTH = 100;
+const MAX_TICKET_CAP = 50;
+
+export class InvalidRoutingProfileError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InvalidRoutingProfileError';
+    }
+}
+
+/**
+ * Error thrown when a ticket can't be assigned by hand
+ */
+export class TicketAssignmentError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TicketAssignmentError';
+    }
+}
+
+export interface RoutingAgent {
+    agentId: string;
+    agentName: string;
+    email: string;
+    role: UserRole;
+    status: PresenceStatus;
+    activeTickets: number;
+    profile: ISupportRouting;
+}
+
+// Roles whose users answer tickets
+const SUPPORT_ROLES = USER_ROLES.filter(role => hasPermission(role, 'tickets:respond'));
+
+// When each agent was last routed a ticket, for round-robin and tie-breaks
+const lastRoutedAt = new Map<string, number>();
+
+// Pending reassignments of agents who went offline
+const offlineTimers = new Map<string, NodeJS.Timeout>();
+
+// Routing decisions read loads and then assign, so they run one at a time
+let routingQueue: Promise<unknown> = Promise.resolve();
+
+const serialized = <T>(task: () => Promise<T>): Promise<T> => {
+    const run = routingQueue.then(task, task);
+    routingQueue = run.catch(() => undefined);
+    return run;
+};
+
+/**
+ * An agent's routing profile, with defaults for anything not saved:
+ * all categories and customers, the configured cap, and auto-assignment
+ * for employees (admins opt in)
+ */
+export const resolveRoutingProfile = (user: StoredUser): ISupportRouting => ({
+    skills: user.supportRouting?.skills || [],
+    customerRoles: user.supportRouting?.customerRoles || [],
+    maxConcurrentTickets: user.supportRouting?.maxConcurrentTickets ?? config.support.maxConcurrentTickets,
+    autoAssign: user.supportRouting?.autoAssign ?? user.role === 'employee',
+});
+
+/**
+ * Apply a partial update to a routing profile
+ *
+ * @throws InvalidRoutingProfileError if a field is invalid
+ */
+export const mergeRoutingProfile = (current: ISupportRouting, update: any): ISupportRouting => {
+    if (!update || typeof update !== 'object' || Array.isArray(update)) {
+        throw new InvalidRoutingProfileError('Routing profile must be an object');
+    }
+
+    const merged = { ...current };
+
+    if (update.skills !== undefined) {
+        if (!Array.isArray(update.skills) || update.skills.length > MAX_SKILLS ||
+            update.skills.some((skill: any) => typeof skill !== 'string' || !skill.trim() || skill.length > MAX_SKILL_LENGTH)) {
+            throw new InvalidRoutingProfileError(`skills must be a list of up to ${MAX_SKILLS} category names`);
+        }
+        merged.skills = Array.from(new Set<string>(update.skills.map((skill: string) => skill.trim())));
+    }
+
+    if (update.customerRoles !== undefined) {
+        if (!Array.isArray(update.customerRoles) ||
+            update.customerRoles.some((role: any) => !(USER_ROLES as readonly string[]).includes(role))) {
+            throw new InvalidRoutingProfileError(`customerRoles must be a list of: ${USER_ROLES.join(', ')}`);
+        }
+        merged.customerRoles = Array.from(new Set<UserRole>(update.customerRoles));
+    }
+
+    if (update.maxConcurrentTickets !== undefined) {
+        if (!Number.isInteger(update.maxConcurrentTickets) ||
+            update.maxConcurrentTickets < 0 || update.maxConcurrentTickets > MAX_TICKET_CAP) {
+            throw new InvalidRoutingProfileError(`maxConcurrentTickets must be a whole number from 0 to ${MAX_TICKET_CAP}`);
+        }
+        merged.maxConcurrentTickets = update.maxConcurrentTickets;
+    }
+
+    if (update.autoAssign !== undefined) {
+        if (typeof update.autoAssign !== 'boolean') {
+            throw new InvalidRoutingProfileError('autoAssign must be true or false');
+        }
+        merged.autoAssign = update.autoAssign;
+    }
+
+    return merged;
+};
+
+/**
+ * Save changes to a support agent's routing profile. Returns null if the
+ * user doesn't exist.
+ *
+ * @throws InvalidRoutingProfileError if the user doesn't answer tickets or a field is invalid
+ */
+export const updateRoutingProfile = async (agentId: string, update: any): Promise<ISupportRouting | null> => {
+    const user = await findUserById(agentId);
+    if (!user) return null;
+    if (!SUPPORT_ROLES.includes(user.role)) {
+        throw new InvalidRoutingProfileError('Only support staff have a routing profile');
+    }
+
+    const profile = mergeRoutingProfile(resolveRoutingProfile(user), update);
+    await updateUser(agentId, { supportRouting: profile });
+    return profile;
+};
+
+/**
+ * Every support agent with their routing profile, presence and current load
+ */
+export const listRoutingAgents = async (): Promise<RoutingAgent[]> => {
+    const users = await findUsersByRole(SUPPORT_ROLES);
+    const ids = users.map(user => String(user._id));
+    const [statuses, loads] = await Promise.all([getPresenceStatuses(ids), countActiveTicketsByAgent(ids)]);
+
+    return users.map(user => {
+        const agentId = String(user._id);
+        return {
+            agentId,
+            agentName: user.displayName,
+            email: user.email,
+            role: user.role,
+            status: statuses.get(agentId)!,
+            activeTickets: loads.get(agentId)!,
+            profile: resolveRoutingProfile(user),
+        };
+    });
+};
+
+// Taken as soon as tickets are fetched: in memory mode they're the live objects
+const readAssignments = (tickets: any[]): Map<any, TicketAssignment> =>
+    new Map(tickets.map(ticket => [ticket, assignmentOf(ticket)]));
+
+const canHandle = (agent: RoutingAgent, ticket: any): boolean =>
+    (agent.profile.skills.length === 0 || agent.profile.skills.includes(ticket.categoryTitle)) &&
+    (agent.profile.customerRoles.length === 0 || agent.profile.customerRoles.includes(ticket.userRole));
+
+const pickAgent = (candidates: RoutingAgent[]): RoutingAgent | undefined => {
+    const routedAt = (agent: RoutingAgent) => lastRoutedAt.get(agent.agentId) || 0;
+
+    return [...candidates].sort((a, b) =>
+        (config.support.routingStrategy === 'least-loaded' ? a.activeTickets - b.activeTickets : 0) ||
+        routedAt(a) - routedAt(b) ||
+        a.agentId.localeCompare(b.agentId)
+    )[0];
+};
+
+/**
+ * The agent to take a ticket, re-counting their load first: agents also
+ * claim tickets by hand while routing runs
+ */
+const pickAvailableAgent = async (agents: RoutingAgent[], ticket: any): Promise<RoutingAgent | undefined> => {
+    for (;;) {
+        const agent = pickAgent(agents.filter(agent =>
+            agent.agentId !== ticket.assignedTo &&
+            agent.activeTickets < agent.profile.maxConcurrentTickets &&
+            canHandle(agent, ticket)
+        ));
+        if (!agent) return undefined;
+
+        agent.activeTickets = (await countActiveTicketsByAgent([agent.agentId])).get(agent.agentId)!;
+        if (agent.activeTickets < agent.profile.maxConcurrentTickets) return agent;
+    }
+};
+
+/**
+ * Route tickets in order against one snapshot of the agents, counting each
+ * assignment towards the agent's load. `read` is each ticket's assignment
+ * when it was fetched; a ticket that changed since (e.g. an agent claimed
+ * it) is left alone. Returns the tickets that found nobody.
+ */
+const routeTickets = async (
+    tickets: any[],
+    read: Map<any, TicketAssignment>,
+    io: Server | undefined
+): Promise<any[]> => {
+    const agents = (await listRoutingAgents())
+        .filter(agent => agent.status === 'online' && agent.profile.autoAssign);
+    const unrouted = [];
+
+    for (const ticket of tickets) {
+        const agent = await pickAvailableAgent(agents, ticket);
+        if (!agent) {
+            unrouted.push(ticket);
+            continue;
+        }
+
+        const change = await assignTicketIfUnchanged(ticket, { id: agent.agentId, name: agent.agentName }, read.get(ticket)!);
+        if (!change) {
+            console.log(`🧭 Ticket ${ticket._id} changed hands while routing, leaving it`);
+            continue;
+        }
+        agent.activeTickets++;
+        lastRoutedAt.set(agent.agentId, Date.now());
+
+        emitTicketAssigned(io, ticket, { ...change, assignedBy: ROUTING_ACTOR });
+        await notify(ticket.userId, {
+            type: 'system',
+            title: 'Your support ticket has been assigned',
+            message: `${ticket.assignedToName} is now handling "${ticket.subCategoryTitle}"`,
+            link: '/dashboard/help',
+            metadata: { ticketId: String(ticket._id) },
+        }, io);
+    }
+
+    return unrouted;
+};
+
+/**
+ * Assign a ticket by hand: an agent taking it, or a supervisor handing it
+ * over. Only open or active tickets can be assigned (closed ones are
+ * reopened by the customer), the agent must be below their ticket cap, and
+ * the ticket must not have changed hands since it was fetched - call this
+ * right after fetching it.
+ *
+ * @throws TicketAssignmentError
+ */
+export const assignTicketManually = async (
+    ticket: any,
+    agent: { id: string; name: string }
+): Promise<{ previousAssignee?: string; previousStatus: TicketStatus }> => {
+    const read = assignmentOf(ticket);
+
+    if (read.status !== 'open' && !ASSIGNED_STATUSES.includes(read.status)) {
+        throw new TicketAssignmentError(`Ticket is ${read.status}`);
+    }
+
+    if (read.assignedTo !== agent.id) {
+        const user = await findUserById(agent.id);
+        const cap = user ? resolveRoutingProfile(user).maxConcurrentTickets : config.support.maxConcurrentTickets;
+        const load = (await countActiveTicketsByAgent([agent.id])).get(agent.id)!;
+        if (load >= cap) {
+            throw new TicketAssignmentError(`${agent.name} already has ${load} active tickets (limit ${cap})`);
+        }
+    }
+
+    const change = await assignTicketIfUnchanged(ticket, agent, read);
+    if (!change) {
+        throw new TicketAssignmentError('Ticket was just assigned to someone else');
+    }
+    return change;
+};
+
+/**
+ * Assign a new ticket to the best available agent. Returns false if
+ * auto-assignment is off or nobody can take it, leaving it in the queue.
+ * Never throws: a ticket that can't be routed just waits.
+ */
+export const routeTicket = (ticket: any, io: Server | undefined): Promise<boolean> => {
+    if (!config.support.autoAssign) return Promise.resolve(false);
+    const read = readAssignments([ticket]);
+
+    return serialized(async () => {
+        try {
+            const unrouted = await routeTickets([ticket], read, io);
+            return unrouted.length === 0;
+        } catch (error) {
+            console.error(`❌ Failed to route ticket ${ticket._id}:`, error);
+            return false;
+        }
+    });
+};
+
+/**
+ * Route tickets waiting in the queue, oldest first, e.g. after an agent
+ * comes online or frees up. Returns how many were assigned; never throws.
+ */
+export const routeWaitingTickets = (io: Server | undefined): Promise<number> => {
+    if (!config.support.autoAssign) return Promise.resolve(0);
+
+    return serialized(async () => {
+        try {
+            const waiting = await findWaitingTickets();
+            if (waiting.length === 0) return 0;
+
+            const unrouted = await routeTickets(waiting, readAssignments(waiting), io);
+            const routed = waiting.length - unrouted.length;
+            if (routed) {
+                console.log(`🧭 Routed ${routed} waiting ticket(s)`);
+            }
+            return routed;
+        } catch (error) {
+            console.error('❌ Failed to route waiting tickets:', error);
+            return 0;
+        }
+    });
+};
+
+/**
+ * Move an agent's active tickets to other agents, putting back in the
+ * queue the ones nobody can take
+ */
+export const reassignAgentTickets = (agentId: string, io: Server | undefined): Promise<{ reassigned: number; unassigned: number }> =>
+    serialized(async () => {
+        const tickets = await findAgentActiveTickets(agentId);
+        const read = readAssignments(tickets);
+        const unrouted = await routeTickets(tickets, read, io);
+
+        for (const ticket of unrouted) {
+            const change = await unassignTicket(ticket, read.get(ticket)!);
+            if (change) {
+                emitTicketUnassigned(io, ticket, { ...change, reason: 'agent-offline', changedBy: ROUTING_ACTOR });
+            }
+        }
+
+        if (tickets.length) {
+            console.log(`🧭 Agent ${agentId} went offline: ${tickets.length - unrouted.length} ticket(s) reassigned, ${unrouted.length} back in queue`);
+        }
+        return { reassigned: tickets.length - unrouted.length, unassigned: unrouted.length };
+    });
+
+/**
+ * A support agent came online: keep their tickets and give them waiting ones
+ */
+export const handleAgentOnline = async (agentId: string, io: Server | undefined): Promise<void> => {
+    const timer = offlineTimers.get(agentId);
+    if (timer) {
+        clearTimeout(timer);
+        offlineTimers.delete(agentId);
+    }
+
+    await routeWaitingTickets(io);
+};
+
+/**
+ * A support agent went offline: reassign their tickets unless they're back
+ * within SUPPORT_OFFLINE_REASSIGN_SECONDS
+ */
+export const handleAgentOffline = (agentId: string, io: Server | undefined): void => {
+    if (!config.support.autoAssign || offlineTimers.has(agentId)) return;
+
+    const timer = setTimeout(async () => {
+        offlineTimers.delete(agentId);
+        try {
+            const status = (await getPresenceStatuses([agentId])).get(agentId);
+            if (status !== 'offline') return;
+
+            await reassignAgentTickets(agentId, io);
+        } catch (error) {
+            console.error(`❌ Failed to reassign tickets of agent ${agentId}:`, error);
+        }
+    }, config.support.offlineReassignSeconds * 1000);
+    timer.unref();
+    offlineTimers.set(agentId, timer);
+};
@@ -0,0 +1,183 @@
+/**
+ * ⏱️ TICKET SLA
+ *
+ * SLA clocks for support tickets. Each ticket gets two when it's opened,
+ * from its category's policy and its priority (config/supportSla.ts):
+ * - firstResponse: stopped by the first agent reply
+ * - resolution: stopped when the ticket is closed
+ *
+ * Due and warning times are worked out up front on the policy's business
+ * calendar. A clock that runs past its due time is breached at that due
+ * time, whether the sweeper or a late reply notices first.
+ *
+ * @author GharBazaar Backend Team
+ */
+
+import config from '../config';
+import { BUSINESS_CALENDARS, CalendarId } from '../config/businessCalendars';
+import { getSlaPolicy } from '../config/supportSla';
+import { ITicketSla, ITicketSlaClock, TicketPriority } from '../models/ticket.model';
+import { TicketSlaTarget } from '../shared/ticketEvents';
+import { addBusinessMinutes, businessMinutesBetween } from './businessHours';
+
+export const SLA_TARGETS: TicketSlaTarget[] = ['firstResponse', 'resolution'];
+
+// Statuses in which SLA clocks still run
+export const SLA_ACTIVE_STATUSES = ['open', 'assigned', 'in_progress'];
+
+export interface SlaAlert {
+    target: TicketSlaTarget;
+    kind: 'warning' | 'breached';
+}
+
+export interface SlaTargetMetrics {
+    // Tickets whose clock was stopped in the period
+    count: number;
+    // Average working minutes taken
+    averageMinutes: number;
+    // Share stopped before the due time, in percent (null with no tickets)
+    metPercent: number | null;
+}
+
+export interface AgentSlaMetrics {
+    periodDays: number;
+    firstResponse: SlaTargetMetrics;
+    resolution: SlaTargetMetrics;
+    // The agent's active tickets already past a due time, or escalated and close to it
+    breachedActive: number;
+    atRiskActive: number;
+}
+
+const slaClock = (openedAt: Date, minutes: number, calendar: CalendarId): ITicketSlaClock => {
+    const businessCalendar = BUSINESS_CALENDARS[calendar];
+    return {
+        targetMinutes: minutes,
+        dueAt: addBusinessMinutes(openedAt, minutes, businessCalendar),
+        warnAt: addBusinessMinutes(openedAt, Math.floor(minutes * config.support.slaWarningPercent / 100), businessCalendar),
+    };
+};
+
+/**
+ * SLA clocks for a ticket opened now in this category at this priority
+ */
+export const buildTicketSla = (categoryTitle: string, priority: TicketPriority, openedAt: Date = new Date()): ITicketSla => {
+    const policy = getSlaPolicy(categoryTitle);
+    const targets = policy.targets[priority] || policy.targets.medium;
+
+    return {
+        policy: policy.id,
+        calendar: policy.calendar,
+        firstResponse: slaClock(openedAt, targets.firstResponseMinutes, policy.calendar),
+        resolution: slaClock(openedAt, targets.resolutionMinutes, policy.calendar),
+    };
+};
+
+/**
+ * Stop a ticket's SLA clock. Returns false if it had no clock or it was
+ * already stopped. The caller saves the ticket.
+ */
+export const completeSlaClock = (ticket: any, target: TicketSlaTarget, by: string, at: Date = new Date()): boolean => {
+    const clock = ticket.sla?.[target];
+    if (!clock || clock.completedAt) return false;
+
+    clock.completedAt = at;
+    clock.completedBy = by;
+    if (!clock.breachedAt && at > clock.dueAt) {
+        clock.breachedAt = clock.dueAt;
+    }
+    return true;
+};
+
+/**
+ * Start an SLA clock again from `at` with its original target, e.g. the
+ * resolution clock when a closed ticket is reopened. The caller saves the ticket.
+ */
+export const restartSlaClock = (ticket: any, target: TicketSlaTarget, at: Date = new Date()): void => {
+    const clock = ticket.sla?.[target];
+    if (!clock) return;
+
+    ticket.sla[target] = slaClock(at, clock.targetMinutes, ticket.sla.calendar);
+};
+
+/**
+ * Mark warnings and breaches that are due on a ticket's running clocks and
+ * return them, so the caller can save the ticket and escalate. A clock is
+ * escalated once when its warning time passes and again when it's breached.
+ */
+export const checkTicketSla = (ticket: any, now: Date = new Date()): SlaAlert[] => {
+    if (!ticket.sla || !SLA_ACTIVE_STATUSES.includes(ticket.status)) return [];
+
+    const alerts: SlaAlert[] = [];
+    for (const target of SLA_TARGETS) {
+        const clock = ticket.sla[target];
+        if (!clock || clock.completedAt) continue;
+
+        if (!clock.breachedAt && now >= clock.dueAt) {
+            clock.breachedAt = clock.dueAt;
+            clock.escalatedAt = clock.escalatedAt || now;
+            alerts.push({ target, kind: 'breached' });
+        } else if (!clock.escalatedAt && now >= clock.warnAt) {
+            clock.escalatedAt = now;
+            alerts.push({ target, kind: 'warning' });
+        }
+    }
+    return alerts;
+};
+
+/**
+ * True if a ticket has a running clock that needs a warning or breach marked
+ */
+export const isSlaCheckDue = (ticket: any, now: Date = new Date()): boolean =>
+    !!ticket.sla && SLA_ACTIVE_STATUSES.includes(ticket.status) && SLA_TARGETS.some(target => {
+        const clock = ticket.sla[target];
+        return clock && !clock.completedAt &&
+            ((!clock.escalatedAt && now >= clock.warnAt) || (!clock.breachedAt && now >= clock.dueAt));
+    });
+
+const targetMetrics = (tickets: any[], target: TicketSlaTarget): SlaTargetMetrics => {
+    if (tickets.length === 0) {
+        return { count: 0, averageMinutes: 0, metPercent: null };
+    }
+
+    const totalMinutes = tickets.reduce((sum, ticket) => sum + businessMinutesBetween(
+        new Date(ticket.createdAt),
+        new Date(ticket.sla[target].completedAt),
+        BUSINESS_CALENDARS[ticket.sla.calendar as CalendarId]
+    ), 0);
+    const met = tickets.filter(ticket => !ticket.sla[target].breachedAt).length;
+
+    return {
+        count: tickets.length,
+        averageMinutes: Math.round(totalMinutes / tickets.length),
+        metPercent: Math.round(met * 1000 / tickets.length) / 10,
+    };
+};
+
+/**
+ * 📊 AGENT SLA METRICS
+ *
+ * First response and resolution performance of one agent, from tickets
+ * opened in the period. First responses count for the agent who replied;
+ * resolutions for the agent the ticket is assigned to. Times are working
+ * minutes on each ticket's calendar.
+ */
+export const summarizeAgentSla = (tickets: any[], agentId: string, periodDays: number): AgentSlaMetrics => {
+    const withSla = tickets.filter(ticket => ticket.sla);
+
+    const responded = withSla.filter(ticket => ticket.sla.firstResponse.completedBy === agentId);
+    const resolved = withSla.filter(ticket => ticket.assignedTo === agentId && ticket.sla.resolution.completedAt);
+    const active = withSla.filter(ticket => ticket.assignedTo === agentId && SLA_ACTIVE_STATUSES.includes(ticket.status));
+
+    const running = (ticket: any) => SLA_TARGETS
+        .map(target => ticket.sla[target])
+        .filter(clock => !clock.completedAt);
+
+    return {
+        periodDays,
+        firstResponse: targetMetrics(responded, 'firstResponse'),
+        resolution: targetMetrics(resolved, 'resolution'),
+        breachedActive: active.filter(ticket => running(ticket).some(clock => clock.breachedAt)).length,
+        atRiskActive: active.filter(ticket => running(ticket).every(clock => !clock.breachedAt) &&
+            running(ticket).some(clock => clock.escalatedAt)).length,
+    };
+};
@@ -0,0 +1,363 @@
+/**
+ * 🎫 TICKET STORE
+ *
+ * Data-access helpers for support tickets that work against MongoDB or the
+ * in-memory store, so the REST controllers and socket handlers change
+ * tickets the same way (and can emit the same events afterwards).
+ *
+ * @author GharBazaar Backend Team
+ */
+
+import mongoose from 'mongoose';
+import { v4 as uuidv4 } from 'uuid';
+import Ticket, { TicketPriority } from '../models/ticket.model';
+import TicketMessage from '../models/ticketMessage.model';
+import { UserRole } from '../models/user.model';
+import { TicketSenderType, TicketStatus } from '../shared/ticketEvents';
+import { isMongoDBAvailable, memoryTickets, memoryTicketMessages } from './memoryStore';
+import { buildTicketSla, completeSlaClock, isSlaCheckDue, restartSlaClock, SLA_ACTIVE_STATUSES, SLA_TARGETS } from './ticketSla';
+
+export interface NewTicket {
+    userId: string;
+    userRole: UserRole;
+    categoryTitle: string;
+    subCategoryTitle: string;
+    problem: string;
+    priority: TicketPriority;
+}
+
+export interface NewTicketMessage {
+    senderId: string;
+    senderType: TicketSenderType;
+    message: string;
+    fileUrl?: string;
+    fileName?: string;
+}
+
+/**
+ * Who a ticket was assigned to, and its status, when it was read
+ */
+export interface TicketAssignment {
+    assignedTo?: string;
+    status: TicketStatus;
+}
+
+export const assignmentOf = (ticket: any): TicketAssignment => ({
+    assignedTo: ticket.assignedTo || undefined,
+    status: ticket.status,
+});
+
+/**
+ * Apply assignment changes only if the ticket still has the assignee and
+ * status it was read with. Returns false (changing nothing) if it moved on.
+ */
+const updateAssignmentIf = async (
+    ticket: any,
+    expected: TicketAssignment,
+    changes: { assignedTo?: string; assignedToName?: string; status: TicketStatus }
+): Promise<boolean> => {
+    if (isMongoDBAvailable()) {
+        const result = await Ticket.updateOne(
+            { _id: ticket._id, assignedTo: expected.assignedTo ?? null, status: expected.status },
+            changes.assignedTo
+                ? { $set: changes }
+                : { $set: { status: changes.status }, $unset: { assignedTo: 1, assignedToName: 1 } }
+        );
+        if (result.matchedCount === 0) return false;
+    } else {
+        if ((ticket.assignedTo || undefined) !== expected.assignedTo || ticket.status !== expected.status) return false;
+        ticket.updatedAt = new Date();
+    }
+
+    ticket.assignedTo = changes.assignedTo;
+    ticket.assignedToName = changes.assignedToName;
+    ticket.status = changes.status;
+    return true;
+};
+
+export const findTicketById = async (id: string): Promise<any | null> => {
+    if (isMongoDBAvailable()) {
+        if (!mongoose.isValidObjectId(id)) return null;
+        return Ticket.findById(id);
+    }
+    return memoryTickets.get(id) || null;
+};
+
+export const saveTicket = async (ticket: any): Promise<void> => {
+    if (isMongoDBAvailable()) {
+        await ticket.save();
+    } else {
+        ticket.updatedAt = new Date();
+    }
+};
+
+export const findTicketMessage = async (ticketId: string, messageId: string): Promise<any | null> => {
+    if (isMongoDBAvailable()) {
+        if (!mongoose.isValidObjectId(messageId)) return null;
+        return TicketMessage.findOne({ _id: messageId, ticketId });
+    }
+    return (memoryTicketMessages.get(ticketId) || []).find((message: any) => message._id === messageId) || null;
+};
+
+const saveMessage = async (ticketId: string, data: NewTicketMessage, timestamp: Date): Promise<any> => {
+    if (isMongoDBAvailable()) {
+        return TicketMessage.create({ ticketId, ...data, timestamp });
+    }
+
+    const ticketMessage = { _id: uuidv4(), ticketId, ...data, timestamp };
+    if (!memoryTicketMessages.has(ticketId)) {
+        memoryTicketMessages.set(ticketId, []);
+    }
+    memoryTicketMessages.get(ticketId).push(ticketMessage);
+    return ticketMessage;
+};
+
+/**
+ * Open a ticket, with the problem description as its first message and
+ * its SLA clocks started
+ */
+export const openTicket = async (data: NewTicket): Promise<{ ticket: any; message: any }> => {
+    const createdAt = new Date();
+    const sla = buildTicketSla(data.categoryTitle, data.priority, createdAt);
+
+    let ticket;
+    if (isMongoDBAvailable()) {
+        ticket = await Ticket.create({ ...data, status: 'open', sla, createdAt });
+    } else {
+        ticket = { _id: uuidv4(), ...data, status: 'open', sla, createdAt, updatedAt: createdAt };
+        memoryTickets.set(ticket._id, ticket);
+    }
+
+    const message = await saveMessage(String(ticket._id), {
+        senderId: data.userId,
+        senderType: 'customer',
+        message: data.problem,
+    }, createdAt);
+
+    return { ticket, message };
+};
+
+/**
+ * Add a message to a ticket. The first agent reply stops the first response
+ * SLA clock, and on an assigned ticket moves it to in_progress;
+ * `previousStatus` is set when that happens.
+ */
+export const addTicketMessage = async (
+    ticket: any,
+    data: NewTicketMessage
+): Promise<{ message: any; previousStatus: TicketStatus | null }> => {
+    const timestamp = new Date();
+    const message = await saveMessage(String(ticket._id), data, timestamp);
+
+    let previousStatus: TicketStatus | null = null;
+    if (data.senderType === 'employee') {
+        const responded = completeSlaClock(ticket, 'firstResponse', data.senderId, timestamp);
+        if (ticket.status === 'assigned') {
+            previousStatus = ticket.status;
+            ticket.status = 'in_progress';
+        }
+        if (responded || previousStatus) {
+            await saveTicket(ticket);
+        }
+    }
+
+    return { message, previousStatus };
+};
+
+/**
+ * Hand a ticket to an agent unless its assignee or status changed since
+ * `expected` was read (e.g. an agent claimed it). Returns null if it did.
+ */
+export const assignTicketIfUnchanged = async (
+    ticket: any,
+    agent: { id: string; name: string },
+    expected: TicketAssignment
+): Promise<{ previousAssignee?: string; previousStatus: TicketStatus } | null> => {
+    const assigned = await updateAssignmentIf(ticket, expected, {
+        assignedTo: agent.id,
+        assignedToName: agent.name,
+        status: 'assigned',
+    });
+
+    return assigned ? { previousAssignee: expected.assignedTo, previousStatus: expected.status } : null;
+};
+
+/**
+ * Close a ticket, stopping its resolution SLA clock, and return its status before closing
+ */
+export const markTicketClosed = async (ticket: any, closedBy: string): Promise<TicketStatus> => {
+    const previousStatus = ticket.status;
+
+    ticket.status = 'closed';
+    ticket.closedAt = new Date();
+    completeSlaClock(ticket, 'resolution', closedBy, ticket.closedAt);
+    await saveTicket(ticket);
+
+    return previousStatus;
+};
+
+/**
+ * Open a closed ticket again, restarting its resolution SLA clock. It goes
+ * back to its agent when `keepAssignee` is set, otherwise to the queue.
+ * Returns its status before reopening.
+ */
+export const reopenClosedTicket = async (ticket: any, keepAssignee: boolean): Promise<TicketStatus> => {
+    const previousStatus = ticket.status;
+    const reopenedAt = new Date();
+
+    if (!keepAssignee) {
+        ticket.assignedTo = undefined;
+        ticket.assignedToName = undefined;
+    }
+    ticket.status = ticket.assignedTo ? 'assigned' : 'open';
+    ticket.closedAt = undefined;
+    ticket.reopenedAt = reopenedAt;
+    ticket.reopenCount = (ticket.reopenCount || 0) + 1;
+    restartSlaClock(ticket, 'resolution', reopenedAt);
+    await saveTicket(ticket);
+
+    return previousStatus;
+};
+
+/**
+ * Record (or replace) the customer's rating of a ticket, crediting the agent who has it
+ */
+export const recordTicketFeedback = async (ticket: any, feedback: { rating: number; comment?: string }): Promise<void> => {
+    ticket.feedback = {
+        ...feedback,
+        ...(ticket.assignedTo ? { agentId: ticket.assignedTo } : {}),
+        submittedAt: new Date(),
+    };
+    await saveTicket(ticket);
+};
+
+/**
+ * Active tickets with an SLA warning or breach to mark
+ */
+export const findTicketsDueForSla = async (now: Date = new Date()): Promise<any[]> => {
+    if (isMongoDBAvailable()) {
+        return Ticket.find({
+            status: { $in: SLA_ACTIVE_STATUSES },
+            $or: SLA_TARGETS.flatMap(target => [
+                { [`sla.${target}.completedAt`]: null, [`sla.${target}.escalatedAt`]: null, [`sla.${target}.warnAt`]: { $lte: now } },
+                { [`sla.${target}.completedAt`]: null, [`sla.${target}.breachedAt`]: null, [`sla.${target}.dueAt`]: { $lte: now } },
+            ]),
+        });
+    }
+
+    return Array.from(memoryTickets.values()).filter((ticket: any) => isSlaCheckDue(ticket, now));
+};
+
+/**
+ * Active tickets that have been escalated to supervisors, most overdue first
+ */
+export const findEscalatedTickets = async (): Promise<any[]> => {
+    const escalated = (ticket: any) => SLA_TARGETS.some(target => {
+        const clock = ticket.sla?.[target];
+        return clock && !clock.completedAt && clock.escalatedAt;
+    });
+    const nextDue = (ticket: any) => Math.min(...SLA_TARGETS
+        .map(target => ticket.sla[target])
+        .filter(clock => !clock.completedAt)
+        .map(clock => new Date(clock.dueAt).getTime()));
+
+    let tickets;
+    if (isMongoDBAvailable()) {
+        tickets = await Ticket.find({
+            status: { $in: SLA_ACTIVE_STATUSES },
+            $or: SLA_TARGETS.map(target => ({
+                [`sla.${target}.completedAt`]: null,
+                [`sla.${target}.escalatedAt`]: { $ne: null },
+            })),
+        });
+    } else {
+        tickets = Array.from(memoryTickets.values())
+            .filter((ticket: any) => SLA_ACTIVE_STATUSES.includes(ticket.status) && escalated(ticket));
+    }
+
+    return tickets.sort((a: any, b: any) => nextDue(a) - nextDue(b));
+};
+
+/**
+ * Tickets opened since a date that an agent is assigned to, gave the first
+ * response on or was rated for
+ */
+export const findAgentTickets = async (agentId: string, since: Date): Promise<any[]> => {
+    if (isMongoDBAvailable()) {
+        return Ticket.find({
+            createdAt: { $gte: since },
+            $or: [{ assignedTo: agentId }, { 'sla.firstResponse.completedBy': agentId }, { 'feedback.agentId': agentId }],
+        }).lean();
+    }
+
+    return Array.from(memoryTickets.values()).filter((ticket: any) =>
+        new Date(ticket.createdAt) >= since &&
+        (ticket.assignedTo === agentId || ticket.sla?.firstResponse.completedBy === agentId ||
+            ticket.feedback?.agentId === agentId)
+    );
+};
+
+// Statuses in which a ticket counts towards its agent's load
+export const ASSIGNED_STATUSES: TicketStatus[] = ['assigned', 'in_progress'];
+
+/**
+ * Put a ticket back in the queue, returning who had it and its old status,
+ * unless it changed since `expected` was read (then null)
+ */
+export const unassignTicket = async (
+    ticket: any,
+    expected: TicketAssignment
+): Promise<{ previousAssignee: string; previousStatus: TicketStatus } | null> => {
+    const unassigned = await updateAssignmentIf(ticket, expected, { status: 'open' });
+
+    return unassigned ? { previousAssignee: expected.assignedTo!, previousStatus: expected.status } : null;
+};
+
+/**
+ * Open tickets nobody has taken yet, oldest first
+ */
+export const findWaitingTickets = async (limit: number = 100): Promise<any[]> => {
+    if (isMongoDBAvailable()) {
+        return Ticket.find({ status: 'open', assignedTo: null }).sort({ createdAt: 1 }).limit(limit);
+    }
+
+    return Array.from(memoryTickets.values())
+        .filter((ticket: any) => ticket.status === 'open' && !ticket.assignedTo)
+        .sort((a: any, b: any) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+        .slice(0, limit);
+};
+
+/**
+ * An agent's assigned and in-progress tickets
+ */
+export const findAgentActiveTickets = async (agentId: string): Promise<any[]> => {
+    if (isMongoDBAvailable()) {
+        return Ticket.find({ assignedTo: agentId, status: { $in: ASSIGNED_STATUSES } });
+    }
+
+    return Array.from(memoryTickets.values())
+        .filter((ticket: any) => ticket.assignedTo === agentId && ASSIGNED_STATUSES.includes(ticket.status));
+};
+
+/**
+ * Number of assigned and in-progress tickets of each agent (0 for agents with none)
+ */
+export const countActiveTicketsByAgent = async (agentIds: string[]): Promise<Map<string, number>> => {
+    const counts = new Map<string, number>(agentIds.map(id => [id, 0]));
+
+    if (isMongoDBAvailable()) {
+        const rows = await Ticket.aggregate([
+            { $match: { assignedTo: { $in: agentIds }, status: { $in: ASSIGNED_STATUSES } } },
+            { $group: { _id: '$assignedTo', count: { $sum: 1 } } },
+        ]);
+        rows.forEach(row => counts.set(row._id, row.count));
+        return counts;
+    }
+
+    for (const ticket of memoryTickets.values()) {
+        if (counts.has(ticket.assignedTo) && ASSIGNED_STATUSES.includes(ticket.status)) {
+            counts.set(ticket.assignedTo, counts.get(ticket.assignedTo)! + 1);
+        }
+    }
+    return counts;
+};
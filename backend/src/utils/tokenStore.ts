@@ -0,0 +1,338 @@
+/**
+ * 🔄 TOKEN STORE
+ *
+ * Server-side session management for JWT authentication:
+ * - Issues short-lived access tokens paired with rotating refresh tokens
+ * - Keeps a revocation list checked by the REST and Socket.IO auth middleware
+ * - Supports logging out one session or every device at once
+ *
+ * A "session" is one login. Every access token carries the session ID (`sid`)
+ * and every refresh token belongs to exactly one session. Revoking a session
+ * invalidates all of its tokens immediately.
+ *
+ * @author GharBazaar Backend Team
+ */
+
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import config from '../config';
+import RefreshToken from '../models/refreshToken.model';
+import RevokedToken from '../models/revokedToken.model';
+import { generateToken, decodeToken, DecodedToken, TokenPayload } from './jwt';
+import { isMongoDBAvailable, memoryRefreshTokens, memoryRevokedTokens } from './memoryStore';
+import { findUserById } from './userStore';
+
+/**
+ * Tokens returned to the client after login or refresh
+ */
+export interface SessionTokens {
+    token: string;             // Access token (kept as `token` for existing clients)
+    refreshToken: string;
+    expiresIn: number;         // Access token lifetime in seconds
+    sessionId: string;
+}
+
+/**
+ * Request metadata stored alongside a refresh token
+ */
+export interface SessionMeta {
+    userAgent?: string;
+    ipAddress?: string;
+}
+
+/**
+ * Error thrown when a refresh token is unknown, expired, revoked or reused
+ */
+export class InvalidRefreshTokenError extends Error {
+    constructor(message = 'Invalid refresh token. Please login again.') {
+        super(message);
+        this.name = 'InvalidRefreshTokenError';
+    }
+}
+
+const refreshTokenLifetimeMs = (): number =>
+    config.refreshTokenExpiresInDays * 24 * 60 * 60 * 1000;
+
+// Only a hash of each refresh token is stored, so a database leak can't be replayed
+const hashToken = (token: string): string =>
+    crypto.createHash('sha256').update(token).digest('hex');
+
+const createAccessToken = (payload: TokenPayload): { token: string; expiresIn: number } => {
+    const token = generateToken(payload);
+    const decoded = decodeToken(token);
+    const expiresIn = decoded ? decoded.exp - decoded.iat : 0;
+    return { token, expiresIn };
+};
+
+const generateRefreshToken = (): string => crypto.randomBytes(48).toString('base64url');
+
+/**
+ * Persist a new refresh token for a session and return the raw value
+ */
+const storeRefreshToken = async (
+    userId: string,
+    sessionId: string,
+    meta: SessionMeta,
+    refreshToken: string = generateRefreshToken()
+): Promise<string> => {
+    const record = {
+        tokenHash: hashToken(refreshToken),
+        userId,
+        sessionId,
+        expiresAt: new Date(Date.now() + refreshTokenLifetimeMs()),
+        userAgent: meta.userAgent,
+        ipAddress: meta.ipAddress,
+        createdAt: new Date(),
+    };
+
+    if (isMongoDBAvailable()) {
+        await RefreshToken.create(record);
+    } else {
+        memoryRefreshTokens.set(record.tokenHash, record);
+    }
+
+    return refreshToken;
+};
+
+/**
+ * Add a token ID or session ID to the revocation list
+ */
+const addRevocation = async (key: string, kind: 'token' | 'session', userId: string, expiresAt: Date) => {
+    if (isMongoDBAvailable()) {
+        await RevokedToken.updateOne(
+            { key },
+            { key, kind, userId, expiresAt },
+            { upsert: true }
+        );
+    } else {
+        memoryRevokedTokens.set(key, { key, kind, userId, expiresAt });
+    }
+};
+
+/**
+ * True if any of the keys (token IDs or session IDs) has been revoked
+ */
+const isRevoked = async (keys: string[]): Promise<boolean> => {
+    if (keys.length === 0) return false;
+
+    if (isMongoDBAvailable()) {
+        const match = await RevokedToken.exists({ key: { $in: keys } });
+        return Boolean(match);
+    }
+
+    return keys.some(key => {
+        const entry = memoryRevokedTokens.get(key);
+        return entry && new Date(entry.expiresAt).getTime() > Date.now();
+    });
+};
+
+/**
+ * 🎫 ISSUE SESSION
+ *
+ * Starts a new login session and returns its access + refresh tokens.
+ */
+export const issueSession = async (
+    user: { userId: string; email: string; role?: string },
+    meta: SessionMeta = {}
+): Promise<SessionTokens> => {
+    const sessionId = uuidv4();
+    const { token, expiresIn } = createAccessToken({ ...user, sid: sessionId });
+    const refreshToken = await storeRefreshToken(user.userId, sessionId, meta);
+
+    return { token, refreshToken, expiresIn, sessionId };
+};
+
+/**
+ * 🔄 ROTATE REFRESH TOKEN
+ *
+ * Exchanges a refresh token for a new access + refresh token pair.
+ * The presented refresh token is claimed and revoked in one atomic write, so
+ * of two concurrent refreshes with the same token only one rotates it. If an
+ * already-rotated token is presented again (likely stolen), the whole session
+ * is revoked - except once within REFRESH_TOKEN_REUSE_GRACE_SECONDS of the
+ * rotation (another tab refreshing at the same moment), which gets its own
+ * new pair. Any use after that revokes the session.
+ *
+ * @throws InvalidRefreshTokenError
+ */
+export const rotateRefreshToken = async (
+    refreshToken: string,
+    meta: SessionMeta = {}
+): Promise<SessionTokens & { userId: string }> => {
+    const tokenHash = hashToken(refreshToken);
+    // Picked up front so the claim records what replaced the token in the same write
+    const newRefreshToken = generateRefreshToken();
+    const replacedByHash = hashToken(newRefreshToken);
+    const now = new Date();
+
+    let record: any;
+    let claimed: boolean;
+    if (isMongoDBAvailable()) {
+        const unclaimed = await RefreshToken.findOneAndUpdate(
+            { tokenHash, revokedAt: { $exists: false } },
+            { $set: { revokedAt: now, replacedByHash } },
+            { new: false }
+        );
+        record = unclaimed || await RefreshToken.findOne({ tokenHash });
+        claimed = Boolean(unclaimed);
+    } else {
+        record = memoryRefreshTokens.get(tokenHash);
+        claimed = Boolean(record && !record.revokedAt);
+        if (claimed) {
+            record.revokedAt = now;
+            record.replacedByHash = replacedByHash;
+        }
+    }
+
+    if (!record) {
+        throw new InvalidRefreshTokenError();
+    }
+
+    if (!claimed) {
+        // Claim the single re-issue allowed just after rotation
+        const graceStart = new Date(now.getTime() - config.refreshTokenReuseGraceSeconds * 1000);
+        let reissued: boolean;
+        if (isMongoDBAvailable()) {
+            reissued = Boolean(await RefreshToken.findOneAndUpdate(
+                {
+                    tokenHash,
+                    replacedByHash: { $exists: true },
+                    revokedAt: { $gt: graceStart },
+                    graceReissuedAt: { $exists: false },
+                },
+                { $set: { graceReissuedAt: now } }
+            ));
+        } else {
+            reissued = Boolean(record.replacedByHash && new Date(record.revokedAt) > graceStart && !record.graceReissuedAt);
+            if (reissued) {
+                record.graceReissuedAt = now;
+            }
+        }
+
+        if (!reissued) {
+            if (record.replacedByHash) {
+                console.warn(`⚠️  Refresh token reuse detected for user ${record.userId}, revoking session ${record.sessionId}`);
+                await revokeSession(record.userId, record.sessionId);
+            }
+            throw new InvalidRefreshTokenError();
+        }
+        if (await isRevoked([record.sessionId])) {
+            throw new InvalidRefreshTokenError();
+        }
+    }
+
+    if (new Date(record.expiresAt).getTime() <= Date.now()) {
+        throw new InvalidRefreshTokenError('Session has expired. Please login again.');
+    }
+
+    // Re-read the account so role changes and deletions take effect on refresh
+    const user = await findUserById(record.userId);
+    if (!user) {
+        await revokeSession(record.userId, record.sessionId);
+        throw new InvalidRefreshTokenError();
+    }
+
+    await storeRefreshToken(record.userId, record.sessionId, meta, newRefreshToken);
+
+    const { token, expiresIn } = createAccessToken({
+        userId: user._id.toString(),
+        email: user.email,
+        role: user.role,
+        sid: record.sessionId,
+    });
+
+    return {
+        token,
+        refreshToken: newRefreshToken,
+        expiresIn,
+        sessionId: record.sessionId,
+        userId: record.userId,
+    };
+};
+
+/**
+ * Look up which user and session a refresh token belongs to (without rotating it)
+ */
+export const getRefreshTokenSession = async (
+    refreshToken: string
+): Promise<{ userId: string; sessionId: string } | null> => {
+    const tokenHash = hashToken(refreshToken);
+    const record: any = isMongoDBAvailable()
+        ? await RefreshToken.findOne({ tokenHash })
+        : memoryRefreshTokens.get(tokenHash);
+
+    return record ? { userId: record.userId, sessionId: record.sessionId } : null;
+};
+
+/**
+ * 🚪 REVOKE SESSION
+ *
+ * Revokes every refresh token in a session and blocks its access tokens.
+ */
+export const revokeSession = async (userId: string, sessionId: string): Promise<void> => {
+    const now = new Date();
+
+    if (isMongoDBAvailable()) {
+        await RefreshToken.updateMany(
+            { sessionId, revokedAt: { $exists: false } },
+            { revokedAt: now }
+        );
+    } else {
+        for (const record of memoryRefreshTokens.values()) {
+            if (record.sessionId === sessionId && !record.revokedAt) {
+                record.revokedAt = now;
+            }
+        }
+    }
+
+    // Access tokens of this session can't outlive its refresh tokens
+    await addRevocation(sessionId, 'session', userId, new Date(Date.now() + refreshTokenLifetimeMs()));
+};
+
+/**
+ * 🚪🚪 REVOKE ALL SESSIONS
+ *
+ * Logs a user out of every device.
+ *
+ * @returns Number of sessions revoked
+ */
+export const revokeAllSessions = async (userId: string): Promise<number> => {
+    let sessionIds: string[];
+
+    if (isMongoDBAvailable()) {
+        sessionIds = await RefreshToken.distinct('sessionId', {
+            userId,
+            revokedAt: { $exists: false },
+            expiresAt: { $gt: new Date() },
+        });
+    } else {
+        sessionIds = Array.from(new Set(
+            Array.from(memoryRefreshTokens.values())
+                .filter((r: any) => r.userId === userId && !r.revokedAt && new Date(r.expiresAt).getTime() > Date.now())
+                .map((r: any) => r.sessionId as string)
+        ));
+    }
+
+    for (const sessionId of sessionIds) {
+        await revokeSession(userId, sessionId);
+    }
+
+    return sessionIds.length;
+};
+
+/**
+ * Revoke a single access token until it would have expired anyway
+ */
+export const revokeAccessToken = async (decoded: DecodedToken): Promise<void> => {
+    if (!decoded.jti) return;
+    await addRevocation(decoded.jti, 'token', decoded.userId, new Date(decoded.exp * 1000));
+};
+
+/**
+ * 🔍 IS TOKEN REVOKED
+ *
+ * True if the access token itself or its session has been revoked.
+ * Called by both the REST and Socket.IO auth middleware.
+ */
+export const isTokenRevoked = async (decoded: DecodedToken): Promise<boolean> =>
+    isRevoked([decoded.jti, decoded.sid].filter((k): k is string => Boolean(k)));
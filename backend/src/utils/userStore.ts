@@ -0,0 +1,207 @@
+/**
+ * 👤 USER STORE
+ *
+ * Data-access helpers for user accounts that work against MongoDB
+ * or the in-memory store, so controllers don't need to branch.
+ *
+ * @author GharBazaar Backend Team
+ */
+
+import mongoose from 'mongoose';
+import { v4 as uuidv4 } from 'uuid';
+import User, { UserRole, INotificationPreferences, ISupportRouting } from '../models/user.model';
+import { isMongoDBAvailable, memoryUsers } from './memoryStore';
+import { hashPassword } from './password';
+
+/**
+ * Account fields shared by Mongo documents and in-memory records
+ */
+export interface StoredUser {
+    _id: any;
+    email: string;
+    passwordHash: string;
+    displayName: string;
+    role: UserRole;
+    phoneNumber?: string;
+    photoURL?: string;
+    lastLoginAt?: Date;
+    notificationPreferences?: INotificationPreferences;
+    supportRouting?: ISupportRouting;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+/**
+ * User shape returned to the frontend (never includes the password hash)
+ */
+export interface PublicUser {
+    uid: string;
+    email: string;
+    displayName: string;
+    role: UserRole;
+    photoURL: string | null;
+    phoneNumber: string | null;
+}
+
+/**
+ * Error thrown when registering an email that already has an account
+ */
+export class DuplicateEmailError extends Error {
+    constructor(email: string) {
+        super(`An account with ${email} already exists`);
+        this.name = 'DuplicateEmailError';
+    }
+}
+
+/**
+ * Demo accounts available in memory mode (password: password123)
+ */
+const DEMO_USERS: Array<{ id: string; email: string; displayName: string; role: UserRole }> = [
+    { id: 'demo-buyer-id', email: 'buyer@demo.com', displayName: 'Demo Buyer', role: 'buyer' },
+    { id: 'demo-seller-id', email: 'seller@demo.com', displayName: 'Demo Seller', role: 'seller' },
+    { id: 'demo-employee-id', email: 'employee@demo.com', displayName: 'Demo Employee', role: 'employee' },
+    { id: 'demo-admin-id', email: 'admin@demo.com', displayName: 'Demo Admin', role: 'admin' },
+];
+
+let demoUsersSeeded: Promise<void> | null = null;
+
+const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+/**
+ * Seed demo accounts into the in-memory store (once per process)
+ */
+const ensureMemoryDemoUsers = (): Promise<void> => {
+    if (!demoUsersSeeded) {
+        demoUsersSeeded = (async () => {
+            const passwordHash = await hashPassword('password123');
+            const now = new Date();
+            for (const demo of DEMO_USERS) {
+                if (!memoryUsers.has(demo.id)) {
+                    memoryUsers.set(demo.id, {
+                        _id: demo.id,
+                        email: demo.email,
+                        passwordHash,
+                        displayName: demo.displayName,
+                        role: demo.role,
+                        createdAt: now,
+                        updatedAt: now,
+                    });
+                }
+            }
+        })();
+    }
+    return demoUsersSeeded;
+};
+
+/**
+ * Find a user by email, including the password hash (for login)
+ */
+export const findUserByEmail = async (email: string): Promise<StoredUser | null> => {
+    const normalized = normalizeEmail(email);
+
+    if (isMongoDBAvailable()) {
+        return User.findOne({ email: normalized }).select('+passwordHash');
+    }
+
+    await ensureMemoryDemoUsers();
+    return Array.from(memoryUsers.values())
+        .find((u: StoredUser) => u.email === normalized) || null;
+};
+
+/**
+ * Find a user by ID
+ */
+export const findUserById = async (userId: string): Promise<StoredUser | null> => {
+    if (isMongoDBAvailable()) {
+        if (!mongoose.isValidObjectId(userId)) return null;
+        return User.findById(userId);
+    }
+
+    await ensureMemoryDemoUsers();
+    return memoryUsers.get(userId) || null;
+};
+
+/**
+ * List users that have any of the given roles
+ */
+export const findUsersByRole = async (roles: UserRole[]): Promise<StoredUser[]> => {
+    if (isMongoDBAvailable()) {
+        return User.find({ role: { $in: roles } }).sort({ displayName: 1 });
+    }
+
+    await ensureMemoryDemoUsers();
+    return Array.from(memoryUsers.values())
+        .filter((u: StoredUser) => roles.includes(u.role))
+        .sort((a: StoredUser, b: StoredUser) => a.displayName.localeCompare(b.displayName));
+};
+
+/**
+ * Create a new account with an already-hashed password
+ *
+ * @throws DuplicateEmailError if the email is taken
+ */
+export const createUser = async (data: {
+    email: string;
+    passwordHash: string;
+    displayName: string;
+    role: UserRole;
+}): Promise<StoredUser> => {
+    const email = normalizeEmail(data.email);
+
+    if (isMongoDBAvailable()) {
+        try {
+            return await User.create({ ...data, email });
+        } catch (error: any) {
+            // 11000 = duplicate key on the unique email index
+            if (error?.code === 11000) {
+                throw new DuplicateEmailError(email);
+            }
+            throw error;
+        }
+    }
+
+    if (await findUserByEmail(email)) {
+        throw new DuplicateEmailError(email);
+    }
+
+    const now = new Date();
+    const user: StoredUser = {
+        _id: uuidv4(),
+        ...data,
+        email,
+        createdAt: now,
+        updatedAt: now,
+    };
+    memoryUsers.set(user._id, user);
+    return user;
+};
+
+/**
+ * Apply partial updates to a user account
+ */
+export const updateUser = async (
+    userId: string,
+    updates: Partial<Pick<StoredUser, 'passwordHash' | 'displayName' | 'phoneNumber' | 'photoURL' | 'lastLoginAt' | 'notificationPreferences' | 'supportRouting'>>
+): Promise<StoredUser | null> => {
+    if (isMongoDBAvailable()) {
+        if (!mongoose.isValidObjectId(userId)) return null;
+        return User.findByIdAndUpdate(userId, updates, { new: true });
+    }
+
+    const user = await findUserById(userId);
+    if (!user) return null;
+    Object.assign(user, updates, { updatedAt: new Date() });
+    return user;
+};
+
+/**
+ * Strip private fields for API responses
+ */
+export const toPublicUser = (user: StoredUser): PublicUser => ({
+    uid: user._id.toString(),
+    email: user.email,
+    displayName: user.displayName,
+    role: user.role,
+    photoURL: user.photoURL || null,
+    phoneNumber: user.phoneNumber || null,
+});
@@ -0,0 +1,57 @@
+/**
+ * 🧾 Invoice immutability hooks
+ *
+ * Runs without a database: with command buffering off, a query the hooks
+ * let through fails on the missing connection, one they block fails with
+ * the hook's own error.
+ */
+
+import { test, before } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import Invoice, { PROVISIONAL_INVOICE_PREFIX } from '../src/models/invoice.model';
+
+const id = new mongoose.Types.ObjectId();
+const provisional = `${PROVISIONAL_INVOICE_PREFIX}tx-1`;
+
+const blockedByHook = async (query: Promise<unknown>): Promise<boolean> => {
+    try {
+        await query;
+    } catch (error: any) {
+        return !/initial connection/.test(error.message);
+    }
+    assert.fail('query should not succeed without a database');
+};
+
+before(() => {
+    mongoose.set('bufferCommands', false);
+});
+
+test('a provisional invoice can be given its final number', async () => {
+    assert.equal(await blockedByHook(
+        Invoice.findOneAndUpdate({ _id: id, number: provisional }, { $set: { number: 'GB/2627/000001' } }).exec()
+    ), false);
+    assert.equal(await blockedByHook(
+        Invoice.updateOne({ _id: id, number: provisional }, { $set: { number: 'GB/2627/000001' } }).exec()
+    ), false);
+});
+
+test('a numbered invoice cannot be renumbered', async () => {
+    assert.equal(await blockedByHook(
+        Invoice.updateOne({ _id: id, number: 'GB/2627/000001' }, { $set: { number: 'GB/2627/000002' } }).exec()
+    ), true);
+});
+
+test('numbering cannot change anything else', async () => {
+    assert.equal(await blockedByHook(
+        Invoice.updateOne({ _id: id, number: provisional }, { $set: { number: 'GB/2627/000001', total: 1 } }).exec()
+    ), true);
+    assert.equal(await blockedByHook(
+        Invoice.updateOne({ _id: id }, { $set: { number: 'GB/2627/000001' } }).exec()
+    ), true);
+});
+
+test('invoices cannot be deleted or bulk-updated', async () => {
+    assert.equal(await blockedByHook(Invoice.deleteOne({ _id: id }).exec()), true);
+    assert.equal(await blockedByHook(Invoice.updateMany({}, { $set: { total: 0 } }).exec()), true);
+});
@@ -0,0 +1,62 @@
+/**
+ * 🧾 Invoice numbering (in-memory store)
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { issueInvoice, listInvoices } from '../src/utils/invoiceStore';
+
+const INVOICE_NUMBER = /^GB\/\d{4}\/(\d{6})$/;
+
+const payment = (id: string, userId = 'demo-buyer-id') => ({
+    _id: id,
+    type: 'payment',
+    status: 'captured',
+    userId,
+    serviceName: 'Featured listing',
+    amount: 11800,
+    currency: 'INR',
+    orderId: `order_${id}`,
+    paymentId: `pay_${id}`,
+});
+
+const sequenceOf = (number: string): number => {
+    const match = INVOICE_NUMBER.exec(number);
+    assert.ok(match, `unexpected invoice number ${number}`);
+    return Number(match[1]);
+};
+
+test('concurrent requests for the same payment get one invoice and one number', async () => {
+    const tx = payment('inv-same');
+    const results = await Promise.all([1, 2, 3].map(() => issueInvoice(tx, { state: '27' })));
+
+    assert.equal(new Set(results.map(r => r.invoice.number)).size, 1);
+    assert.equal(results.filter(r => r.created).length, 1);
+});
+
+test('invoices for different payments are numbered without gaps', async () => {
+    const results = await Promise.all(
+        ['inv-a', 'inv-b', 'inv-c', 'inv-d'].map(id => issueInvoice(payment(id), { state: '06' }))
+    );
+
+    const sequence = results.map(r => sequenceOf(r.invoice.number)).sort((a, b) => a - b);
+    sequence.forEach((value, i) => assert.equal(value, sequence[0] + i));
+});
+
+test('issuing again returns the stored invoice unchanged', async () => {
+    const tx = payment('inv-again');
+    const first = await issueInvoice(tx, { state: '27' });
+    const second = await issueInvoice(tx, { state: '06' });
+
+    assert.equal(second.created, false);
+    assert.equal(second.invoice.number, first.invoice.number);
+    assert.equal(second.invoice.buyer.stateCode, first.invoice.buyer.stateCode);
+});
+
+test('only numbered invoices are listed', async () => {
+    await issueInvoice(payment('inv-listed', 'demo-seller-id'), { state: '27' });
+    const listed = await listInvoices('demo-seller-id');
+
+    assert.equal(listed.length, 1);
+    assert.match(listed[0].number, INVOICE_NUMBER);
+});
@@ -0,0 +1,66 @@
+/**
+ * 🔎 Search cursor paging (in-memory store)
+ */
+
+import { test, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { InvalidCursorError, searchProperties } from '../src/utils/propertySearch';
+import { memoryProperties } from '../src/utils/memoryStore';
+
+// Some listings share a price and some have none, to exercise ties and missing values
+const PRICES = [500, undefined, 300, undefined, 500, 100, undefined, 300];
+
+before(() => {
+    PRICES.forEach((price, i) => {
+        memoryProperties.set(`search-${i}`, {
+            _id: `search-${i}`,
+            title: `Listing ${i}`,
+            status: 'approved',
+            price,
+            createdAt: new Date(Date.UTC(2026, 0, 1 + i)),
+        });
+    });
+    memoryProperties.set('search-draft', { _id: 'search-draft', status: 'draft', price: 1, createdAt: new Date() });
+});
+
+const pageThrough = async (sort: string, limit = 3): Promise<any[]> => {
+    const seen: any[] = [];
+    let cursor: string | undefined;
+    do {
+        const page = await searchProperties({ sort, limit: String(limit), cursor });
+        assert.ok(page.properties.length <= limit);
+        seen.push(...page.properties);
+        cursor = page.nextCursor || undefined;
+    } while (cursor);
+    return seen;
+};
+
+for (const sort of ['newest', 'oldest', 'price_asc', 'price_desc', 'popular']) {
+    test(`paging by ${sort} returns every approved listing exactly once`, async () => {
+        const ids = (await pageThrough(sort)).map(p => p._id);
+
+        assert.equal(ids.length, PRICES.length);
+        assert.equal(new Set(ids).size, PRICES.length);
+        assert.ok(!ids.includes('search-draft'));
+    });
+}
+
+test('listings without a price come first ascending and last descending', async () => {
+    const ascending = (await pageThrough('price_asc')).map(p => p.price ?? null);
+    const descending = (await pageThrough('price_desc')).map(p => p.price ?? null);
+
+    assert.deepEqual(ascending, [null, null, null, 100, 300, 300, 500, 500]);
+    assert.deepEqual(descending, [500, 500, 300, 300, 100, null, null, null]);
+});
+
+test('the total counts every match, not just the page', async () => {
+    const page = await searchProperties({ limit: '2' });
+
+    assert.equal(page.properties.length, 2);
+    assert.equal(page.total, PRICES.length);
+    assert.ok(page.nextCursor);
+});
+
+test('a malformed cursor is rejected', async () => {
+    await assert.rejects(searchProperties({ cursor: 'not-a-cursor' }), InvalidCursorError);
+});
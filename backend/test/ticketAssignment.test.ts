@@ -0,0 +1,72 @@
+/**
+ * 🎫 Conditional ticket assignment (in-memory store)
+ */
+
+import { test, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import config from '../src/config';
+import { assignmentOf, assignTicketIfUnchanged, markTicketClosed, openTicket, unassignTicket } from '../src/utils/ticketStore';
+import { assignTicketManually, TicketAssignmentError } from '../src/utils/ticketRouting';
+
+const defaultCap = config.support.maxConcurrentTickets;
+
+const newTicket = async () => {
+    const { ticket } = await openTicket({
+        userId: 'demo-buyer-id',
+        userRole: 'buyer',
+        categoryTitle: 'General',
+        subCategoryTitle: 'Other',
+        problem: 'Something is wrong',
+        priority: 'medium',
+    });
+    return ticket;
+};
+
+// Agents without an account use the configured ticket cap
+const agent = (id: string) => ({ id, name: `Agent ${id}` });
+
+afterEach(() => {
+    config.support.maxConcurrentTickets = defaultCap;
+});
+
+test('assignment only applies if the ticket is unchanged since it was read', async () => {
+    const ticket = await newTicket();
+    const read = assignmentOf(ticket);
+
+    assert.ok(await assignTicketIfUnchanged(ticket, agent('claimer'), read));
+    assert.equal(await assignTicketIfUnchanged(ticket, agent('router'), read), null);
+    assert.equal(ticket.assignedTo, 'claimer');
+    assert.equal(ticket.status, 'assigned');
+});
+
+test('unassigning skips a ticket that changed hands meanwhile', async () => {
+    const ticket = await newTicket();
+    await assignTicketIfUnchanged(ticket, agent('first'), assignmentOf(ticket));
+    const stale = assignmentOf(ticket);
+    await assignTicketIfUnchanged(ticket, agent('second'), stale);
+
+    assert.equal(await unassignTicket(ticket, stale), null);
+    assert.equal(ticket.assignedTo, 'second');
+});
+
+test('manual assignment respects the agent ticket cap', async () => {
+    config.support.maxConcurrentTickets = 1;
+    const [first, second] = [await newTicket(), await newTicket()];
+
+    await assignTicketManually(first, agent('capped'));
+    await assert.rejects(assignTicketManually(second, agent('capped')), TicketAssignmentError);
+    assert.equal(second.assignedTo, undefined);
+
+    // Re-assigning a ticket the agent already holds doesn't count twice
+    await assignTicketManually(first, agent('capped'));
+});
+
+test('closed tickets cannot be assigned', async () => {
+    const ticket = await newTicket();
+    await markTicketClosed(ticket, 'demo-buyer-id');
+
+    await assert.rejects(assignTicketManually(ticket, agent('late')), {
+        name: 'TicketAssignmentError',
+        message: 'Ticket is closed',
+    });
+});
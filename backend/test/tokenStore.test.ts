@@ -0,0 +1,66 @@
+/**
+ * 🔄 Refresh token rotation and reuse detection (in-memory store)
+ */
+
+import { test, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import config from '../src/config';
+import { DecodedToken } from '../src/utils/jwt';
+import {
+    InvalidRefreshTokenError,
+    issueSession,
+    isTokenRevoked,
+    revokeSession,
+    rotateRefreshToken,
+} from '../src/utils/tokenStore';
+
+const user = { userId: 'demo-buyer-id', email: 'buyer@demo.com', role: 'buyer' };
+const defaultGrace = config.refreshTokenReuseGraceSeconds;
+
+const sessionRevoked = (sessionId: string) => isTokenRevoked({ sid: sessionId } as DecodedToken);
+
+afterEach(() => {
+    config.refreshTokenReuseGraceSeconds = defaultGrace;
+});
+
+test('rotation returns a new refresh token for the same session', async () => {
+    const session = await issueSession(user);
+    const rotated = await rotateRefreshToken(session.refreshToken);
+
+    assert.notEqual(rotated.refreshToken, session.refreshToken);
+    assert.equal(rotated.sessionId, session.sessionId);
+    assert.equal(rotated.userId, user.userId);
+    assert.equal(await sessionRevoked(session.sessionId), false);
+});
+
+test('a rotated token is re-issued once within the grace window, then the session is revoked', async () => {
+    const session = await issueSession(user);
+    const results = await Promise.allSettled([1, 2, 3].map(() => rotateRefreshToken(session.refreshToken)));
+
+    assert.deepEqual(results.map(r => r.status), ['fulfilled', 'fulfilled', 'rejected']);
+    assert.ok((results[2] as PromiseRejectedResult).reason instanceof InvalidRefreshTokenError);
+    assert.equal(await sessionRevoked(session.sessionId), true);
+});
+
+test('reusing a rotated token after the grace window revokes the session', async () => {
+    config.refreshTokenReuseGraceSeconds = 0;
+    const session = await issueSession(user);
+    const rotated = await rotateRefreshToken(session.refreshToken);
+
+    await assert.rejects(rotateRefreshToken(session.refreshToken), InvalidRefreshTokenError);
+    assert.equal(await sessionRevoked(session.sessionId), true);
+    await assert.rejects(rotateRefreshToken(rotated.refreshToken), InvalidRefreshTokenError);
+});
+
+test('the grace window does not outlive a logout', async () => {
+    const session = await issueSession(user);
+    const rotated = await rotateRefreshToken(session.refreshToken);
+    await revokeSession(user.userId, session.sessionId);
+
+    await assert.rejects(rotateRefreshToken(session.refreshToken), InvalidRefreshTokenError);
+    await assert.rejects(rotateRefreshToken(rotated.refreshToken), InvalidRefreshTokenError);
+});
+
+test('unknown refresh tokens are rejected', async () => {
+    await assert.rejects(rotateRefreshToken('not-a-real-token'), InvalidRefreshTokenError);
+});
@@ -27,6 +27,23 @@ interface Property {
     [key: string]: any;
 }
 
+// Backend lifecycle status → moderation tab
+const MODERATION_STATUS: Record<string, Property['status']> = {
+    'pending-review': 'pending',
+    'approved': 'active',
+    'rejected': 'rejected',
+};
+
+const toModerationItem = (listing: any): Property => ({
+    ...listing,
+    id: listing._id,
+    status: MODERATION_STATUS[listing.status],
+    sellerEmail: listing.contact?.email || listing.ownerName || listing.ownerId,
+    beds: listing.bedrooms,
+    baths: listing.bathrooms,
+    area: listing.squareFeet,
+});
+
 export default function AdminPropertiesPage() {
     const { user } = useAuth();
     const [properties, setProperties] = useState<Property[]>([]);
@@ -40,10 +57,15 @@ export default function AdminPropertiesPage() {
     const fetchProperties = async () => {
         try {
             setLoading(true);
-            const response = await backendApi.admin.getAllProperties();
+            const response = await backendApi.admin.getAllProperties('all');
 
             if (response.success) {
-                setProperties(response.data.properties || []);
+                // Drafts haven't been submitted; sold/rented listings are out of moderation
+                setProperties(
+                    (response.data.properties || [])
+                        .filter((listing: any) => MODERATION_STATUS[listing.status])
+                        .map(toModerationItem)
+                );
             } else {
                 console.error('Failed to fetch properties:', response.error);
             }
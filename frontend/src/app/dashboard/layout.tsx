@@ -15,7 +15,6 @@ import {
   LogOut,
   Menu,
   X,
-  Bell,
   Search,
   Plus,
   ShoppingCart,
@@ -33,6 +32,7 @@ import { useAuth } from '@/contexts/AuthContext'
 import { AuthUtils } from '@/lib/firebase'
 import { useLoader } from '@/components/GlobalLoader'
 import ModeChangeToast from '@/components/ModeChangeToast'
+import NotificationDropdown from '@/components/NotificationDropdown'
 import { useSellerSubscription } from '@/contexts/SellerSubscriptionContext'
 import SupportChatbot from '@/components/AI/SupportChatbot'
 import { ChatbotErrorBoundary } from '@/components/AI/ChatbotErrorBoundary'
@@ -381,10 +381,7 @@ export default function DashboardLayout({ children }: { children: React.ReactNod
                 </div>
               </button>
 
-              <button className="relative p-2 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-all">
-                <Bell size={22} />
-                <span className="absolute top-1 right-1 w-2 h-2 bg-red-500 rounded-full"></span>
-              </button>
+              <NotificationDropdown />
             </div>
           </div>
         </header>
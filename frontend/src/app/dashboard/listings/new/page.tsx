@@ -52,6 +52,7 @@ import {
   Eye
 } from 'lucide-react'
 import toast from 'react-hot-toast'
+import { backendApi } from '@/lib/backendApi'
 
 export default function NewListingPage() {
   const router = useRouter()
@@ -81,6 +82,8 @@ export default function NewListingPage() {
     state: '',
     pincode: '',
     landmark: '',
+    latitude: '',
+    longitude: '',
     
     // Property Details
     squareFeet: '',
@@ -246,6 +249,24 @@ export default function NewListingPage() {
     }
   }
 
+  const handleUseCurrentLocation = () => {
+    if (!navigator.geolocation) {
+      toast.error('Location is not supported by your browser')
+      return
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setFormData({
+          ...formData,
+          latitude: position.coords.latitude.toFixed(6),
+          longitude: position.coords.longitude.toFixed(6)
+        })
+      },
+      () => toast.error('Could not get your location')
+    )
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     
@@ -265,15 +286,25 @@ export default function NewListingPage() {
       return
     }
 
-    // Show payment processing
     setLoading(true)
-    
-    // Simulate API call and payment processing
-    setTimeout(() => {
-      setLoading(false)
+
+    try {
+      // New listings go straight into moderation
+      const response = await backendApi.properties.create({ ...formData, submitForReview: true })
+
+      if (!response.success) {
+        toast.error(response.error || 'Failed to create listing')
+        return
+      }
+
       setShowThankYou(true)
-      toast.success(`${formData.listingType === 'rent' ? 'Rental' : 'Sale'} listing created successfully!`)
-    }, 3000)
+      toast.success(`${formData.listingType === 'rent' ? 'Rental' : 'Sale'} listing submitted for review!`)
+    } catch (error) {
+      console.error('Error creating listing:', error)
+      toast.error('Failed to create listing')
+    } finally {
+      setLoading(false)
+    }
   }
 
   const getStepTitle = (stepNum: number) => {
@@ -312,7 +343,7 @@ export default function NewListingPage() {
                 Your {formData.listingType === 'rent' ? 'rental' : 'sale'} listing has been successfully created
               </p>
               <p className="text-lg text-green-600 font-semibold">
-                "{formData.title}" is now live on GharBazaar!
+                "{formData.title}" will go live on GharBazaar once it's approved
               </p>
             </div>
 
@@ -860,6 +891,41 @@ export default function NewListingPage() {
                     onChange={(e) => setFormData({ ...formData, landmark: e.target.value })}
                   />
                 </div>
+
+                <div className="sm:col-span-2">
+                  <label className="block text-sm font-semibold mb-3 text-gray-700 dark:text-gray-300">
+                    Map Location (optional)
+                  </label>
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                    <input
+                      type="number"
+                      step="any"
+                      placeholder="Latitude, e.g., 19.0596"
+                      className="w-full px-4 py-4 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                      value={formData.latitude}
+                      onChange={(e) => setFormData({ ...formData, latitude: e.target.value })}
+                    />
+                    <input
+                      type="number"
+                      step="any"
+                      placeholder="Longitude, e.g., 72.8295"
+                      className="w-full px-4 py-4 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                      value={formData.longitude}
+                      onChange={(e) => setFormData({ ...formData, longitude: e.target.value })}
+                    />
+                    <button
+                      type="button"
+                      onClick={handleUseCurrentLocation}
+                      className="flex items-center justify-center space-x-2 px-4 py-4 border border-green-500 text-green-600 rounded-xl hover:bg-green-50 dark:hover:bg-green-900/20 transition-all"
+                    >
+                      <MapPin size={18} />
+                      <span>Use Current Location</span>
+                    </button>
+                  </div>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+                    Pinned listings appear on the map search
+                  </p>
+                </div>
               </div>
             </div>
 
@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useRef } from 'react'
 import Link from 'next/link'
 import {
   ArrowLeft,
@@ -16,12 +16,14 @@ import {
   Eye,
   Heart,
   Home,
-  X
+  X,
+  Loader2
 } from 'lucide-react'
+import { backendApi } from '@/lib/backendApi'
 
 // Property interface
 interface Property {
-  id: number
+  id: string
   title: string
   location: string
   price: string
@@ -33,119 +35,60 @@ interface Property {
   featured: boolean
   verified: boolean
   views: number
-  rating: number
+  rating?: number
   isFavorite: boolean
+  distanceKm?: number
   coordinates: {
     lat: number
     lng: number
   }
 }
 
-// Sample properties with coordinates
-const properties: Property[] = [
-  {
-    id: 1,
-    title: 'Luxury Penthouse',
-    location: 'Worli, Mumbai',
-    price: '₹8.5 Cr',
-    priceValue: 85000000,
-    type: 'Apartment',
-    beds: 4,
-    baths: 5,
-    area: '3200 sq ft',
-    featured: true,
-    verified: true,
-    views: 1234,
-    rating: 4.8,
-    isFavorite: false,
-    coordinates: { lat: 19.0176, lng: 72.8562 }
-  },
-  {
-    id: 2,
-    title: 'Modern Villa',
-    location: 'Whitefield, Bangalore',
-    price: '₹3.8 Cr',
-    priceValue: 38000000,
-    type: 'Villa',
-    beds: 5,
-    baths: 6,
-    area: '4500 sq ft',
-    featured: true,
-    verified: true,
-    views: 892,
-    rating: 4.9,
-    isFavorite: true,
-    coordinates: { lat: 12.9698, lng: 77.7500 }
-  },
-  {
-    id: 3,
-    title: 'Sea View Apartment',
-    location: 'Marine Drive, Mumbai',
-    price: '₹6.2 Cr',
-    priceValue: 62000000,
-    type: 'Apartment',
-    beds: 3,
-    baths: 4,
-    area: '2800 sq ft',
-    featured: false,
-    verified: true,
-    views: 2156,
-    rating: 4.7,
-    isFavorite: false,
-    coordinates: { lat: 18.9441, lng: 72.8262 }
-  },
-  {
-    id: 4,
-    title: 'Garden Estate',
-    location: 'Gurgaon, Delhi NCR',
-    price: '₹5.2 Cr',
-    priceValue: 52000000,
-    type: 'Villa',
-    beds: 4,
-    baths: 5,
-    area: '5000 sq ft',
-    featured: false,
-    verified: true,
-    views: 678,
-    rating: 4.6,
-    isFavorite: false,
-    coordinates: { lat: 28.4595, lng: 77.0266 }
-  },
-  {
-    id: 5,
-    title: 'Smart Home Apartment',
-    location: 'Koramangala, Bangalore',
-    price: '₹2.5 Cr',
-    priceValue: 25000000,
-    type: 'Apartment',
-    beds: 3,
-    baths: 3,
-    area: '2200 sq ft',
-    featured: false,
-    verified: false,
-    views: 445,
-    rating: 4.5,
-    isFavorite: true,
-    coordinates: { lat: 12.9352, lng: 77.6245 }
-  },
-  {
-    id: 6,
-    title: 'Riverside Villa',
-    location: 'Pune, Maharashtra',
-    price: '₹4.8 Cr',
-    priceValue: 48000000,
-    type: 'Villa',
-    beds: 4,
-    baths: 4,
-    area: '3800 sq ft',
-    featured: true,
-    verified: true,
-    views: 1023,
-    rating: 4.8,
-    isFavorite: false,
-    coordinates: { lat: 18.5204, lng: 73.8567 }
+// Group of nearby listings returned when the map is zoomed out
+interface MapCluster {
+  lat: number
+  lng: number
+  count: number
+  minPrice: number
+  maxPrice: number
+  propertyId?: string
+}
+
+// Default view: all of India
+const INDIA_CENTER: [number, number] = [20.5937, 78.9629]
+const INDIA_ZOOM = 5
+const VIEWPORT_DEBOUNCE_MS = 300
+
+const formatPrice = (value: number) => {
+  if (value >= 10000000) return `₹${(value / 10000000).toFixed(value % 10000000 ? 2 : 0)} Cr`
+  if (value >= 100000) return `₹${(value / 100000).toFixed(value % 100000 ? 1 : 0)} L`
+  return `₹${value.toLocaleString('en-IN')}`
+}
+
+// Convert a backend listing (GeoJSON location is [lng, lat]) into the card shape used here
+const toMapProperty = (listing: any): Property => ({
+  id: listing._id,
+  title: listing.title,
+  location: [listing.locality, listing.city].filter(Boolean).join(', '),
+  price: formatPrice(listing.price),
+  priceValue: listing.price,
+  type: listing.propertyType,
+  beds: listing.bedrooms ?? 0,
+  baths: listing.bathrooms ?? 0,
+  area: listing.squareFeet ? `${listing.squareFeet} sq ft` : '-',
+  featured: !!listing.featured,
+  verified: !!listing.verified,
+  views: listing.views ?? 0,
+  rating: listing.rating,
+  isFavorite: false,
+  distanceKm: listing.distanceKm,
+  coordinates: {
+    lat: listing.location.coordinates[1],
+    lng: listing.location.coordinates[0]
   }
-]
+})
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max)
 
 // Declare Mappls global types
 declare global {
@@ -160,8 +103,47 @@ export default function MapViewPage() {
   const [hoveredProperty, setHoveredProperty] = useState<Property | null>(null)
   const [showSidebar, setShowSidebar] = useState(true)
   const [map, setMap] = useState<any | null>(null)
-  const [markers, setMarkers] = useState<any[]>([])
   const [mapLoaded, setMapLoaded] = useState(false)
+  const [properties, setProperties] = useState<Property[]>([])
+  const [clusters, setClusters] = useState<MapCluster[]>([])
+  const [totalInView, setTotalInView] = useState(0)
+  const [loadingViewport, setLoadingViewport] = useState(false)
+  const markersRef = useRef<any[]>([])
+  const viewportTimer = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  // Fetch listings (or clusters, when zoomed out) inside the visible map area
+  const loadViewport = useCallback(async (mapplsMap: any) => {
+    try {
+      const bounds = mapplsMap.getBounds()
+      const sw = bounds.getSouthWest()
+      const ne = bounds.getNorthEast()
+      const bbox = [
+        clamp(sw.lng, -180, 180),
+        clamp(sw.lat, -90, 90),
+        clamp(ne.lng, -180, 180),
+        clamp(ne.lat, -90, 90)
+      ].map(value => value.toFixed(5)).join(',')
+
+      setLoadingViewport(true)
+      const response = await backendApi.properties.map({ bbox, zoom: Math.round(mapplsMap.getZoom()) })
+
+      if (response.success) {
+        const { mode, total } = response.data
+        setTotalInView(total)
+        if (mode === 'clusters') {
+          setClusters(response.data.clusters)
+          setProperties([])
+        } else {
+          setClusters([])
+          setProperties(response.data.properties.map(toMapProperty))
+        }
+      }
+    } catch (error) {
+      console.error('Error loading map listings:', error)
+    } finally {
+      setLoadingViewport(false)
+    }
+  }, [])
 
   // Initialize Mappls Map
   const initializeMap = useCallback(() => {
@@ -173,8 +155,8 @@ export default function MapViewPage() {
     try {
       // Center map on India
       const mapplsMap = new window.mappls.Map('map', {
-        center: [20.5937, 78.9629],
-        zoom: 5,
+        center: INDIA_CENTER,
+        zoom: INDIA_ZOOM,
         zoomControl: true,
         location: true,
         search: false
@@ -182,51 +164,91 @@ export default function MapViewPage() {
 
       setMap(mapplsMap)
 
-      // Create markers for each property
-      const newMarkers = properties.map((property) => {
-        const markerColor = property.featured ? '#f59e0b' : '#3b82f6'
-
-        // Create custom marker HTML
-        const markerHTML = `
-          <svg width="40" height="50" viewBox="0 0 40 50" xmlns="http://www.w3.org/2000/svg">
-            <path d="M20 0C8.95 0 0 8.95 0 20c0 15 20 30 20 30s20-15 20-30C40 8.95 31.05 0 20 0z" fill="${markerColor}"/>
-            <circle cx="20" cy="20" r="8" fill="white"/>
-            <text x="20" y="25" text-anchor="middle" fill="${markerColor}" font-size="12" font-weight="bold">₹</text>
-          </svg>
-        `
-
-        const marker = new window.mappls.Marker({
-          map: mapplsMap,
-          position: { lat: property.coordinates.lat, lng: property.coordinates.lng },
-          title: property.title,
-          html: markerHTML,
-          width: 40,
-          height: 50
-        })
-
-        // Add hover listeners
-        marker.addListener('mouseover', () => {
-          setHoveredProperty(property)
-        })
-
-        marker.addListener('mouseout', () => {
-          setHoveredProperty(null)
-        })
-
-        marker.addListener('click', () => {
-          setSelectedProperty(property)
-          mapplsMap.panTo([property.coordinates.lat, property.coordinates.lng])
-          mapplsMap.setZoom(15)
-        })
-
-        return marker
-      })
+      // Re-query as the viewport moves (debounced so panning doesn't flood the API)
+      const scheduleLoad = () => {
+        if (viewportTimer.current) clearTimeout(viewportTimer.current)
+        viewportTimer.current = setTimeout(() => loadViewport(mapplsMap), VIEWPORT_DEBOUNCE_MS)
+      }
 
-      setMarkers(newMarkers)
+      mapplsMap.addListener('load', scheduleLoad)
+      mapplsMap.addListener('moveend', scheduleLoad)
     } catch (error) {
       console.error('Error initializing Mappls map:', error)
     }
-  }, [])
+  }, [loadViewport])
+
+  // Draw markers for the current listings / clusters
+  useEffect(() => {
+    if (!map || !window.mappls) return
+
+    markersRef.current.forEach(marker => window.mappls.remove({ map, layer: marker }))
+
+    const propertyMarkers = properties.map((property) => {
+      const markerColor = property.featured ? '#f59e0b' : '#3b82f6'
+
+      // Create custom marker HTML
+      const markerHTML = `
+        <svg width="40" height="50" viewBox="0 0 40 50" xmlns="http://www.w3.org/2000/svg">
+          <path d="M20 0C8.95 0 0 8.95 0 20c0 15 20 30 20 30s20-15 20-30C40 8.95 31.05 0 20 0z" fill="${markerColor}"/>
+          <circle cx="20" cy="20" r="8" fill="white"/>
+          <text x="20" y="25" text-anchor="middle" fill="${markerColor}" font-size="12" font-weight="bold">₹</text>
+        </svg>
+      `
+
+      const marker = new window.mappls.Marker({
+        map,
+        position: { lat: property.coordinates.lat, lng: property.coordinates.lng },
+        title: property.title,
+        html: markerHTML,
+        width: 40,
+        height: 50
+      })
+
+      // Add hover listeners
+      marker.addListener('mouseover', () => {
+        setHoveredProperty(property)
+      })
+
+      marker.addListener('mouseout', () => {
+        setHoveredProperty(null)
+      })
+
+      marker.addListener('click', () => {
+        setSelectedProperty(property)
+        map.panTo([property.coordinates.lat, property.coordinates.lng])
+        map.setZoom(15)
+      })
+
+      return marker
+    })
+
+    const clusterMarkers = clusters.map((cluster) => {
+      const size = Math.min(36 + Math.log10(cluster.count) * 14, 72)
+
+      const marker = new window.mappls.Marker({
+        map,
+        position: { lat: cluster.lat, lng: cluster.lng },
+        title: `${cluster.count} properties · ${formatPrice(cluster.minPrice)} - ${formatPrice(cluster.maxPrice)}`,
+        html: `
+          <div style="width:${size}px;height:${size}px;border-radius:50%;background:rgba(37,99,235,0.85);border:3px solid white;box-shadow:0 2px 6px rgba(0,0,0,0.3);color:white;font-weight:700;font-size:13px;display:flex;align-items:center;justify-content:center;">
+            ${cluster.count}
+          </div>
+        `,
+        width: size,
+        height: size
+      })
+
+      // Zoom into the cluster to break it apart
+      marker.addListener('click', () => {
+        map.setCenter([cluster.lat, cluster.lng])
+        map.setZoom(cluster.count === 1 ? 15 : Math.round(map.getZoom()) + 2)
+      })
+
+      return marker
+    })
+
+    markersRef.current = [...propertyMarkers, ...clusterMarkers]
+  }, [map, properties, clusters])
 
   // Load Mappls script
   useEffect(() => {
@@ -292,10 +314,11 @@ export default function MapViewPage() {
         script.parentNode.removeChild(script)
       }
       delete window.initMap2
+      if (viewportTimer.current) clearTimeout(viewportTimer.current)
     }
   }, [initializeMap])
 
-  const toggleFavorite = (id: number) => {
+  const toggleFavorite = (id: string) => {
     // This would typically update the backend
     console.log('Toggle favorite for property:', id)
   }
@@ -335,10 +358,20 @@ export default function MapViewPage() {
         {showSidebar && (
           <div className="w-80 bg-white dark:bg-gray-900 border-r border-gray-200 dark:border-gray-800 overflow-y-auto">
             <div className="p-4">
-              <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
-                Properties ({properties.length})
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4 flex items-center justify-between">
+                <span>Properties in view ({totalInView})</span>
+                {loadingViewport && <Loader2 size={16} className="animate-spin text-blue-500" />}
               </h2>
 
+              {properties.length === 0 && (
+                <div className="text-center py-8 text-sm text-gray-500 dark:text-gray-400">
+                  <MapPin size={32} className="mx-auto mb-2 text-gray-400" />
+                  {clusters.length > 0
+                    ? 'Zoom in on a cluster to see individual listings'
+                    : 'No listings in this area. Try moving or zooming out the map.'}
+                </div>
+              )}
+
               <div className="space-y-4">
                 {properties.map((property) => (
                   <div
@@ -404,10 +437,12 @@ export default function MapViewPage() {
                             <span>{property.location}</span>
                           </div>
                         </div>
-                        <div className="flex items-center space-x-1 text-yellow-500">
-                          <Star size={12} className="fill-current" />
-                          <span className="text-xs font-semibold">{property.rating}</span>
-                        </div>
+                        {property.rating !== undefined && (
+                          <div className="flex items-center space-x-1 text-yellow-500">
+                            <Star size={12} className="fill-current" />
+                            <span className="text-xs font-semibold">{property.rating}</span>
+                          </div>
+                        )}
                       </div>
 
                       {/* Property Details */}
@@ -453,8 +488,8 @@ export default function MapViewPage() {
             <button
               onClick={() => {
                 if (map) {
-                  map.setCenter([20.5937, 78.9629])
-                  map.setZoom(5)
+                  map.setCenter(INDIA_CENTER)
+                  map.setZoom(INDIA_ZOOM)
                 }
               }}
               className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 rounded-lg p-2 shadow-lg hover:bg-gray-50 dark:hover:bg-gray-800 transition-all"
@@ -474,7 +509,7 @@ export default function MapViewPage() {
                 }
               }}
               className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 rounded-lg p-2 shadow-lg hover:bg-gray-50 dark:hover:bg-gray-800 transition-all"
-              title="Fit All Properties"
+              title="Fit Properties in View"
             >
               <Building2 size={20} className="text-gray-600 dark:text-gray-400" />
             </button>
@@ -508,10 +543,12 @@ export default function MapViewPage() {
                     <span>{hoveredProperty.location}</span>
                   </div>
                 </div>
-                <div className="flex items-center space-x-1 text-yellow-500">
-                  <Star size={12} className="fill-current" />
-                  <span className="text-xs font-semibold">{hoveredProperty.rating}</span>
-                </div>
+                {hoveredProperty.rating !== undefined && (
+                  <div className="flex items-center space-x-1 text-yellow-500">
+                    <Star size={12} className="fill-current" />
+                    <span className="text-xs font-semibold">{hoveredProperty.rating}</span>
+                  </div>
+                )}
               </div>
 
               <div className="flex items-center space-x-3 mb-2 text-xs text-gray-600 dark:text-gray-400">
@@ -575,10 +612,12 @@ export default function MapViewPage() {
                   <Square size={16} className="mr-1" />
                   <span>{selectedProperty.area}</span>
                 </div>
-                <div className="flex items-center space-x-1 text-yellow-500">
-                  <Star size={14} className="fill-current" />
-                  <span className="font-semibold">{selectedProperty.rating}</span>
-                </div>
+                {selectedProperty.rating !== undefined && (
+                  <div className="flex items-center space-x-1 text-yellow-500">
+                    <Star size={14} className="fill-current" />
+                    <span className="font-semibold">{selectedProperty.rating}</span>
+                  </div>
+                )}
               </div>
 
               <div className="flex items-center justify-between">
@@ -367,6 +367,7 @@ export default function DashboardPaymentPage() {
 
             {/* Payment Methods */}
             <PaymentForm
+              serviceId={serviceId}
               amount={currentService.amount}
               serviceName={currentService.name}
               userDetails={userDetails}
@@ -261,6 +261,7 @@ export default function DashboardPricingPage() {
 
           {/* Payment Form */}
           <PaymentForm
+            serviceId={currentPlan?.id || ''}
             amount={currentPlan?.price || 0}
             serviceName={currentPlan?.name || 'Selected Plan'}
             userDetails={userDetails}
@@ -248,6 +248,7 @@ export default function SellerDashboardPricingPage() {
 
           {/* Payment Form */}
           <PaymentForm
+            serviceId={currentPlan?.id || ''}
             amount={currentPlan?.price || 0}
             serviceName={currentPlan?.name || 'Selected Plan'}
             userDetails={userDetails}
@@ -1,8 +1,9 @@
 'use client'
 
-import { useState } from 'react'
+import { useState, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
 import { useLocale } from '@/contexts/LocaleContext'
+import { backendApi } from '@/lib/backendApi'
 import {
   Settings as SettingsIcon,
   Bell,
@@ -27,22 +28,55 @@ import {
   Download
 } from 'lucide-react'
 
+type NotificationChannel = 'inApp' | 'email' | 'sms' | 'whatsapp'
+type NotificationType = 'message' | 'offer' | 'inquiry' | 'payment' | 'system' | 'alert'
+type DigestFrequency = 'off' | 'daily'
+
+interface NotificationPreferences {
+  channels: Record<NotificationChannel, boolean>
+  types: Record<NotificationType, boolean>
+  quietHours: { enabled: boolean; start: string; end: string }
+  timezone: string
+  digest: DigestFrequency
+  digestTime: string
+}
+
+type PreferencesUpdate = Parameters<typeof backendApi.user.updatePreferences>[0]
+
+// Shown until the saved preferences load (same as the backend defaults)
+const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  channels: { inApp: true, email: true, sms: false, whatsapp: false },
+  types: { message: true, offer: true, inquiry: true, payment: true, system: true, alert: true },
+  quietHours: { enabled: false, start: '22:00', end: '08:00' },
+  timezone: 'Asia/Kolkata',
+  digest: 'off',
+  digestTime: '09:00'
+}
+
+const NOTIFICATION_CHANNELS: { key: NotificationChannel; label: string; icon: typeof Bell; description: string }[] = [
+  { key: 'inApp', label: 'In-App Notifications', icon: Bell, description: 'Show notifications in your dashboard' },
+  { key: 'email', label: 'Email Notifications', icon: Mail, description: 'Receive notifications via email' },
+  { key: 'sms', label: 'SMS Notifications', icon: Smartphone, description: 'Receive important updates via SMS' },
+  { key: 'whatsapp', label: 'WhatsApp Notifications', icon: MessageCircle, description: 'Receive updates on WhatsApp' }
+]
+
+const NOTIFICATION_TYPES: { key: NotificationType; label: string; description: string }[] = [
+  { key: 'message', label: 'Messages', description: 'New messages from buyers, sellers and agents' },
+  { key: 'offer', label: 'Offers & Bids', description: 'New offers and updates on your bids' },
+  { key: 'inquiry', label: 'Inquiries', description: 'Questions about your listings' },
+  { key: 'payment', label: 'Payments', description: 'Payment confirmations and receipts' },
+  { key: 'alert', label: 'Property Alerts', description: 'New listings and price changes matching your searches' },
+  { key: 'system', label: 'Account & Support', description: 'Support tickets and account updates' }
+]
+
+const COMMON_TIMEZONES = ['Asia/Kolkata', 'Asia/Dubai', 'Asia/Singapore', 'Europe/London', 'America/New_York', 'UTC']
+
 export default function SettingsPage() {
   const router = useRouter()
   const { language, currency, setLanguage, setCurrency } = useLocale()
   const [activeSection, setActiveSection] = useState('notifications')
 
   const [settings, setSettings] = useState({
-    notifications: {
-      email: true,
-      push: true,
-      sms: false,
-      newProperties: true,
-      priceChanges: true,
-      bidUpdates: true,
-      messages: true,
-      newsletter: false
-    },
     privacy: {
       profileVisibility: 'public',
       showEmail: false,
@@ -50,8 +84,7 @@ export default function SettingsPage() {
       activityStatus: true
     },
     preferences: {
-      theme: 'system',
-      emailFrequency: 'daily'
+      theme: 'system'
     }
   })
 
@@ -63,16 +96,64 @@ export default function SettingsPage() {
     { id: 'help', label: 'Help & Support', icon: HelpCircle }
   ]
 
-  const toggleNotification = (key: string) => {
-    setSettings({
-      ...settings,
-      notifications: {
-        ...settings.notifications,
-        [key]: !settings.notifications[key as keyof typeof settings.notifications]
+  const [notificationPreferences, setNotificationPreferences] = useState<NotificationPreferences>(DEFAULT_NOTIFICATION_PREFERENCES)
+  const [preferencesLoaded, setPreferencesLoaded] = useState(false)
+  const [preferencesError, setPreferencesError] = useState<string | null>(null)
+  // Read after mount so the server render matches the first client render
+  const [browserTimezone, setBrowserTimezone] = useState<string | null>(null)
+
+  useEffect(() => {
+    setBrowserTimezone(Intl.DateTimeFormat().resolvedOptions().timeZone)
+
+    const fetchPreferences = async () => {
+      try {
+        const response = await backendApi.user.getPreferences()
+        if (response.success) {
+          setNotificationPreferences(response.data.preferences)
+        } else {
+          setPreferencesError(response.error || 'Failed to load notification preferences')
+        }
+      } catch (error) {
+        console.error('Error loading notification preferences:', error)
+        setPreferencesError('Failed to load notification preferences')
+      } finally {
+        setPreferencesLoaded(true)
       }
+    }
+
+    fetchPreferences()
+  }, [])
+
+  // Show the change right away, then keep whatever the server saved
+  const savePreferences = async (update: PreferencesUpdate) => {
+    const previous = notificationPreferences
+    setNotificationPreferences({
+      ...previous,
+      ...update,
+      channels: { ...previous.channels, ...update.channels },
+      types: { ...previous.types, ...update.types },
+      quietHours: { ...previous.quietHours, ...update.quietHours }
     })
+    setPreferencesError(null)
+
+    try {
+      const response = await backendApi.user.updatePreferences(update)
+      if (!response.success) throw new Error(response.error)
+      setNotificationPreferences(response.data.preferences)
+    } catch (error: any) {
+      console.error('Error saving notification preferences:', error)
+      setNotificationPreferences(previous)
+      setPreferencesError(error?.message || 'Failed to save notification preferences')
+    }
   }
 
+  // The saved timezone, the browser's and the usual ones for our users
+  const timezoneOptions = Array.from(new Set([
+    notificationPreferences.timezone,
+    ...(browserTimezone ? [browserTimezone] : []),
+    ...COMMON_TIMEZONES
+  ]))
+
   // Open chatbot for support
   const openChatbot = () => {
     // Trigger chatbot - it should be available globally from SupportChatbot component
@@ -215,17 +296,20 @@ For questions, contact privacy@gharbazaar.in`
                   Notification Preferences
                 </h2>
 
+                {preferencesError && (
+                  <div className="mb-6 flex items-center space-x-2 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-sm text-red-700 dark:text-red-300">
+                    <AlertCircle size={16} />
+                    <span>{preferencesError}</span>
+                  </div>
+                )}
+
                 {/* Notification Channels */}
                 <div className="mb-8">
                   <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-4">
                     Notification Channels
                   </h3>
                   <div className="space-y-4">
-                    {[
-                      { key: 'email', label: 'Email Notifications', icon: Mail, description: 'Receive notifications via email' },
-                      { key: 'push', label: 'Push Notifications', icon: Bell, description: 'Receive push notifications in browser' },
-                      { key: 'sms', label: 'SMS Notifications', icon: Smartphone, description: 'Receive important updates via SMS' }
-                    ].map((channel) => (
+                    {NOTIFICATION_CHANNELS.map((channel) => (
                       <div key={channel.key} className="flex items-center justify-between p-4 bg-gray-50 dark:bg-gray-800 rounded-lg">
                         <div className="flex items-center space-x-3">
                           <div className="w-10 h-10 bg-blue-100 dark:bg-blue-900/30 rounded-lg flex items-center justify-center">
@@ -237,13 +321,14 @@ For questions, contact privacy@gharbazaar.in`
                           </div>
                         </div>
                         <button
-                          onClick={() => toggleNotification(channel.key)}
-                          className={`relative w-12 h-6 rounded-full transition-all ${settings.notifications[channel.key as keyof typeof settings.notifications]
+                          onClick={() => savePreferences({ channels: { [channel.key]: !notificationPreferences.channels[channel.key] } })}
+                          disabled={!preferencesLoaded}
+                          className={`relative w-12 h-6 rounded-full transition-all disabled:opacity-50 ${notificationPreferences.channels[channel.key]
                             ? 'bg-blue-600'
                             : 'bg-gray-300 dark:bg-gray-600'
                             }`}
                         >
-                          <div className={`absolute top-1 left-1 w-4 h-4 bg-white rounded-full transition-transform ${settings.notifications[channel.key as keyof typeof settings.notifications]
+                          <div className={`absolute top-1 left-1 w-4 h-4 bg-white rounded-full transition-transform ${notificationPreferences.channels[channel.key]
                             ? 'translate-x-6'
                             : 'translate-x-0'
                             }`} />
@@ -254,31 +339,26 @@ For questions, contact privacy@gharbazaar.in`
                 </div>
 
                 {/* Notification Types */}
-                <div>
+                <div className="mb-8">
                   <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-4">
                     What to Notify
                   </h3>
                   <div className="space-y-3">
-                    {[
-                      { key: 'newProperties', label: 'New Properties', description: 'Get notified about new listings matching your preferences' },
-                      { key: 'priceChanges', label: 'Price Changes', description: 'Alert me when prices change on saved properties' },
-                      { key: 'bidUpdates', label: 'Bid Updates', description: 'Updates on your active bids and auctions' },
-                      { key: 'messages', label: 'Messages', description: 'New messages from sellers and agents' },
-                      { key: 'newsletter', label: 'Newsletter', description: 'Weekly newsletter with market insights' }
-                    ].map((type) => (
+                    {NOTIFICATION_TYPES.map((type) => (
                       <div key={type.key} className="flex items-center justify-between p-4 border border-gray-200 dark:border-gray-700 rounded-lg">
                         <div className="flex-1">
                           <p className="font-medium text-gray-900 dark:text-white">{type.label}</p>
                           <p className="text-sm text-gray-600 dark:text-gray-400">{type.description}</p>
                         </div>
                         <button
-                          onClick={() => toggleNotification(type.key)}
-                          className={`ml-4 relative w-12 h-6 rounded-full transition-all ${settings.notifications[type.key as keyof typeof settings.notifications]
+                          onClick={() => savePreferences({ types: { [type.key]: !notificationPreferences.types[type.key] } })}
+                          disabled={!preferencesLoaded}
+                          className={`ml-4 relative w-12 h-6 rounded-full transition-all disabled:opacity-50 ${notificationPreferences.types[type.key]
                             ? 'bg-green-600'
                             : 'bg-gray-300 dark:bg-gray-600'
                             }`}
                         >
-                          <div className={`absolute top-1 left-1 w-4 h-4 bg-white rounded-full transition-transform ${settings.notifications[type.key as keyof typeof settings.notifications]
+                          <div className={`absolute top-1 left-1 w-4 h-4 bg-white rounded-full transition-transform ${notificationPreferences.types[type.key]
                             ? 'translate-x-6'
                             : 'translate-x-0'
                             }`} />
@@ -287,6 +367,102 @@ For questions, contact privacy@gharbazaar.in`
                     ))}
                   </div>
                 </div>
+
+                {/* Quiet Hours */}
+                <div className="mb-8">
+                  <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-4">
+                    Quiet Hours
+                  </h3>
+                  <div className="p-4 border border-gray-200 dark:border-gray-700 rounded-lg space-y-4">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center space-x-3">
+                        <Moon size={20} className="text-gray-400" />
+                        <div>
+                          <p className="font-medium text-gray-900 dark:text-white">Pause email, SMS and WhatsApp</p>
+                          <p className="text-sm text-gray-600 dark:text-gray-400">Held notifications are sent when quiet hours end</p>
+                        </div>
+                      </div>
+                      <button
+                        onClick={() => savePreferences({ quietHours: { enabled: !notificationPreferences.quietHours.enabled } })}
+                        disabled={!preferencesLoaded}
+                        className={`ml-4 relative w-12 h-6 rounded-full transition-all disabled:opacity-50 ${notificationPreferences.quietHours.enabled
+                          ? 'bg-blue-600'
+                          : 'bg-gray-300 dark:bg-gray-600'
+                          }`}
+                      >
+                        <div className={`absolute top-1 left-1 w-4 h-4 bg-white rounded-full transition-transform ${notificationPreferences.quietHours.enabled
+                          ? 'translate-x-6'
+                          : 'translate-x-0'
+                          }`} />
+                      </button>
+                    </div>
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                      <label className="text-sm text-gray-700 dark:text-gray-300">
+                        From
+                        <input
+                          type="time"
+                          value={notificationPreferences.quietHours.start}
+                          onChange={(e) => e.target.value && savePreferences({ quietHours: { start: e.target.value } })}
+                          disabled={!preferencesLoaded}
+                          className="mt-1 w-full px-3 py-2 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500"
+                        />
+                      </label>
+                      <label className="text-sm text-gray-700 dark:text-gray-300">
+                        To
+                        <input
+                          type="time"
+                          value={notificationPreferences.quietHours.end}
+                          onChange={(e) => e.target.value && savePreferences({ quietHours: { end: e.target.value } })}
+                          disabled={!preferencesLoaded}
+                          className="mt-1 w-full px-3 py-2 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500"
+                        />
+                      </label>
+                      <label className="text-sm text-gray-700 dark:text-gray-300">
+                        Timezone
+                        <select
+                          value={notificationPreferences.timezone}
+                          onChange={(e) => savePreferences({ timezone: e.target.value })}
+                          disabled={!preferencesLoaded}
+                          className="mt-1 w-full px-3 py-2 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500"
+                        >
+                          {timezoneOptions.map((timezone) => (
+                            <option key={timezone} value={timezone}>{timezone}</option>
+                          ))}
+                        </select>
+                      </label>
+                    </div>
+                  </div>
+                </div>
+
+                {/* Digest */}
+                <div>
+                  <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-4">
+                    Delivery
+                  </h3>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    <select
+                      value={notificationPreferences.digest}
+                      onChange={(e) => savePreferences({ digest: e.target.value as DigestFrequency })}
+                      disabled={!preferencesLoaded}
+                      className="w-full px-4 py-3 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="off">Real-time</option>
+                      <option value="daily">Daily Digest</option>
+                    </select>
+                    {notificationPreferences.digest === 'daily' && (
+                      <input
+                        type="time"
+                        value={notificationPreferences.digestTime}
+                        onChange={(e) => e.target.value && savePreferences({ digestTime: e.target.value })}
+                        disabled={!preferencesLoaded}
+                        className="w-full px-4 py-3 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500"
+                      />
+                    )}
+                  </div>
+                  <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">
+                    A daily digest sends one email, SMS or WhatsApp message a day; in-app notifications still arrive right away
+                  </p>
+                </div>
               </div>
             </div>
           )}
@@ -490,24 +666,6 @@ For questions, contact privacy@gharbazaar.in`
                   </div>
                 </div>
 
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                    Email Frequency
-                  </label>
-                  <select
-                    value={settings.preferences.emailFrequency}
-                    onChange={(e) => setSettings({
-                      ...settings,
-                      preferences: { ...settings.preferences, emailFrequency: e.target.value }
-                    })}
-                    className="w-full px-4 py-3 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500"
-                  >
-                    <option value="realtime">Real-time</option>
-                    <option value="daily">Daily Digest</option>
-                    <option value="weekly">Weekly Summary</option>
-                    <option value="never">Never</option>
-                  </select>
-                </div>
               </div>
             </div>
           )}
@@ -4,6 +4,7 @@ import React, { useState, useEffect } from 'react';
 import { MessageSquare, Clock, CheckCircle, X, Send, Paperclip, Star } from 'lucide-react';
 import { useSocket } from '@/contexts/SocketContext';
 import { useAuth } from '@/contexts/AuthContext';
+import type { TicketCreatedEvent, TicketMessageEvent, TicketStatusChangedEvent } from '@shared/ticketEvents';
 
 interface Ticket {
     id: string;
@@ -53,21 +54,33 @@ export default function EmployeeTicketsPage() {
         socket.emit('join_employee_room');
 
         // Listen for new ticket notifications
-        socket.on('ticket:created', (data: any) => {
-            console.log('New ticket created:', data);
+        const handleTicketCreated = (data: TicketCreatedEvent) => {
+            console.log('New ticket created:', data.ticketId);
             fetchTickets();
-        });
+        };
 
-        socket.on('ticket:customer-message', (data: any) => {
+        const handleTicketMessage = (data: TicketMessageEvent) => {
             if (selectedTicket && data.ticketId === selectedTicket.id) {
                 fetchMessages(selectedTicket.id);
             }
             fetchTickets(); // Update last message  time
-        });
+        };
+
+        const handleStatusChanged = (data: TicketStatusChangedEvent) => {
+            if (selectedTicket && data.ticketId === selectedTicket.id) {
+                setSelectedTicket({ ...selectedTicket, status: data.status, assignedTo: data.assignedTo });
+            }
+            fetchTickets();
+        };
+
+        socket.on('ticket:created', handleTicketCreated);
+        socket.on('ticket:message', handleTicketMessage);
+        socket.on('ticket:status-changed', handleStatusChanged);
 
         return () => {
-            socket.off('ticket:created');
-            socket.off('ticket:customer-message');
+            socket.off('ticket:created', handleTicketCreated);
+            socket.off('ticket:message', handleTicketMessage);
+            socket.off('ticket:status-changed', handleStatusChanged);
         };
     }, [socket, connected, selectedTicket]);
 
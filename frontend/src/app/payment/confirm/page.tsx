@@ -2,7 +2,7 @@
 
 import { useState, useEffect } from 'react'
 import { useSearchParams, useRouter } from 'next/navigation'
-import { backendApi } from '@/lib/backendApi'
+import { processPaymentAPI } from '@/lib/payment-api'
 import {
   Shield,
   ArrowLeft,
@@ -100,55 +100,32 @@ export default function PaymentConfirmPage() {
     setIsProcessing(true)
 
     try {
-      // Create order using backendApi
-      const orderData = await backendApi.payments.createOrder(
-        (serviceDetails.price + serviceDetails.tax) * 100, // amount in paise
-        'service_payment',
-        {
-          service: serviceDetails.name,
-          customer: customerDetails.fullName,
+      // Order (priced by the server), checkout and signature verification
+      const result = await processPaymentAPI({
+        serviceId,
+        serviceName: serviceDetails.name,
+        // This flow's method ids are plural; checkout's aren't
+        paymentMethod: ({ cards: 'card', wallets: 'wallet' } as Record<string, string>)[paymentMethod] || paymentMethod,
+        userDetails: {
+          name: customerDetails.fullName,
           email: customerDetails.email,
-          phone: customerDetails.mobile,
-          method: paymentMethod,
-          serviceType: customerDetails.serviceType,
-          propertyLocation: customerDetails.propertyLocation
+          phone: customerDetails.mobile
         }
-      )
-
-      if (!orderData.success) {
-        throw new Error('Failed to create order')
-      }
-
-      // Simulate payment processing
-      await new Promise(resolve => setTimeout(resolve, 3000))
-
-      // Generate payment ID and signature
-      const paymentId = 'pay_' + Date.now() + Math.random().toString(36).substring(2, 8)
-      const signature = 'sig_' + btoa(orderData.order.id + '|' + paymentId).substring(0, 20)
-
-      // Verify payment using backendApi
-      const verifyData = await backendApi.payments.verify({
-        razorpay_order_id: orderData.order.id,
-        razorpay_payment_id: paymentId,
-        razorpay_signature: signature
       })
 
-      if (verifyData.success) {
-        // Store payment details for success page
-        localStorage.setItem('paymentResult', JSON.stringify({
-          success: true,
-          transactionId: paymentId,
-          orderId: orderData.order.id,
-          amount: serviceDetails.price + serviceDetails.tax,
-          service: serviceDetails.name,
-          customer: customerDetails,
-          timestamp: new Date().toISOString()
-        }))
+      // Store payment details for success page
+      localStorage.setItem('paymentResult', JSON.stringify({
+        success: true,
+        transactionId: result.transactionId,
+        ledgerTransactionId: result.ledgerTransactionId,
+        orderId: result.orderId,
+        amount: result.amount,
+        service: serviceDetails.name,
+        customer: customerDetails,
+        timestamp: result.timestamp
+      }))
 
-        router.push('/payment/success')
-      } else {
-        throw new Error('Payment verification failed')
-      }
+      router.push('/payment/success')
     } catch (error) {
       console.error('Payment error:', error)
       localStorage.setItem('paymentResult', JSON.stringify({
@@ -18,6 +18,8 @@ import {
   Check,
   Smartphone
 } from 'lucide-react'
+import { backendApi } from '@/lib/backendApi'
+import { GST_STATES, Invoice, isValidGstin } from '@/lib/gst'
 
 // Payment Success Page Component
 export default function PaymentSuccessPage() {
@@ -25,6 +27,11 @@ export default function PaymentSuccessPage() {
   const [paymentResult, setPaymentResult] = useState<any>(null)
   const [copied, setCopied] = useState(false)
   const [showTimeline, setShowTimeline] = useState(false)
+  const [invoice, setInvoice] = useState<Invoice | null>(null)
+  const [buyerState, setBuyerState] = useState('')
+  const [buyerGstin, setBuyerGstin] = useState('')
+  const [invoiceError, setInvoiceError] = useState('')
+  const [invoiceLoading, setInvoiceLoading] = useState(false)
 
   useEffect(() => {
     const result = localStorage.getItem('paymentResult')
@@ -50,9 +57,53 @@ export default function PaymentSuccessPage() {
     }
   }
 
-  const downloadInvoice = () => {
-    // In a real implementation, this would generate and download a PDF invoice
-    alert('Invoice download will be available shortly. You will receive it via email.')
+  // Issue the GST invoice (once; the same invoice comes back after that) and download its PDF
+  const downloadInvoice = async () => {
+    setInvoiceError('')
+
+    if (!paymentResult?.ledgerTransactionId) {
+      setInvoiceError('An invoice is not available for this payment. Please contact support.')
+      return
+    }
+
+    const gstin = buyerGstin.trim().toUpperCase()
+    if (!invoice && gstin && !isValidGstin(gstin)) {
+      setInvoiceError('Please enter a valid 15-character GSTIN')
+      return
+    }
+    if (!invoice && !gstin && !buyerState) {
+      setInvoiceError('Please select your state so we can apply the right GST')
+      return
+    }
+
+    setInvoiceLoading(true)
+    try {
+      let issued = invoice
+      if (!issued) {
+        const result = await backendApi.payments.generateInvoice(paymentResult.ledgerTransactionId, {
+          name: paymentResult.customer?.fullName,
+          ...(gstin ? { gstin } : { state: buyerState })
+        })
+        if (!result.success) {
+          setInvoiceError(result.error || 'Failed to generate invoice')
+          return
+        }
+        issued = result.data.invoice as Invoice
+        setInvoice(issued)
+      }
+
+      const pdf = await backendApi.payments.downloadInvoicePdf(issued.id)
+      const url = URL.createObjectURL(pdf)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `${issued.number.replace(/\//g, '-')}.pdf`
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (error) {
+      setInvoiceError(error instanceof Error ? error.message : 'Failed to download invoice')
+    } finally {
+      setInvoiceLoading(false)
+    }
   }
 
   const goToDashboard = () => {
@@ -266,14 +317,54 @@ export default function PaymentSuccessPage() {
               <h3 className="text-lg font-bold text-gray-900 dark:text-white mb-6">Quick Actions</h3>
               
               <div className="space-y-4">
-                {/* Download Invoice */}
-                <button
-                  onClick={downloadInvoice}
-                  className="w-full flex items-center justify-center space-x-3 bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 text-white py-3 px-4 rounded-xl font-semibold transition-all duration-300 transform hover:scale-105"
-                >
-                  <Download className="w-5 h-5" />
-                  <span>Download Invoice</span>
-                </button>
+                {/* GST Invoice */}
+                <div className="p-4 bg-gray-50 dark:bg-gray-700 rounded-xl space-y-3">
+                  <div className="flex items-center space-x-2">
+                    <FileText className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+                    <h4 className="font-semibold text-gray-900 dark:text-white">GST Invoice</h4>
+                  </div>
+                  {invoice ? (
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                      Invoice <span className="font-mono font-semibold">{invoice.number}</span> issued
+                    </p>
+                  ) : (
+                    <>
+                      <select
+                        value={buyerState}
+                        onChange={(e) => setBuyerState(e.target.value)}
+                        disabled={!!buyerGstin.trim()}
+                        className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white disabled:opacity-50"
+                      >
+                        <option value="">Select your state</option>
+                        {Object.entries(GST_STATES).map(([code, name]) => (
+                          <option key={code} value={code}>{name}</option>
+                        ))}
+                      </select>
+                      <input
+                        type="text"
+                        value={buyerGstin}
+                        onChange={(e) => setBuyerGstin(e.target.value.toUpperCase())}
+                        maxLength={15}
+                        placeholder="GSTIN (optional, for business purchases)"
+                        className="w-full px-3 py-2 text-sm font-mono border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                      />
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        Invoice details can't be changed once issued.
+                      </p>
+                    </>
+                  )}
+                  {invoiceError && (
+                    <p className="text-sm text-red-600 dark:text-red-400">{invoiceError}</p>
+                  )}
+                  <button
+                    onClick={downloadInvoice}
+                    disabled={invoiceLoading}
+                    className="w-full flex items-center justify-center space-x-3 bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 text-white py-3 px-4 rounded-xl font-semibold transition-all duration-300 transform hover:scale-105 disabled:opacity-60 disabled:hover:scale-100"
+                  >
+                    <Download className="w-5 h-5" />
+                    <span>{invoiceLoading ? 'Preparing Invoice...' : 'Download Invoice'}</span>
+                  </button>
+                </div>
 
                 {/* WhatsApp Confirmation */}
                 <button
@@ -0,0 +1,218 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useRouter, useSearchParams } from 'next/navigation'
+import {
+    ArrowLeft,
+    Loader2,
+    CheckCircle,
+    Shield,
+    Lock,
+    Eye,
+    EyeOff,
+    AlertTriangle
+} from 'lucide-react'
+import { useAuth } from '@/contexts/AuthContext'
+
+const MIN_PASSWORD_LENGTH = 8
+
+export default function ResetPasswordPage() {
+    const router = useRouter()
+    const searchParams = useSearchParams()
+    const { confirmPasswordReset } = useAuth()
+
+    const token = searchParams.get('token') || ''
+
+    const [password, setPassword] = useState('')
+    const [confirmPassword, setConfirmPassword] = useState('')
+    const [showPassword, setShowPassword] = useState(false)
+    const [loading, setLoading] = useState(false)
+    const [success, setSuccess] = useState(false)
+    const [error, setError] = useState('')
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault()
+        setError('')
+
+        if (password.length < MIN_PASSWORD_LENGTH) {
+            setError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`)
+            return
+        }
+
+        if (password !== confirmPassword) {
+            setError('Passwords do not match')
+            return
+        }
+
+        setLoading(true)
+
+        try {
+            await confirmPasswordReset(token, password)
+            setSuccess(true)
+        } catch (err: any) {
+            setError(err.message || 'Failed to reset password. Please request a new link.')
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    return (
+        <div className="min-h-screen w-screen flex items-center justify-center relative bg-gradient-to-br from-teal-50 via-emerald-50 to-blue-50 dark:from-gray-950 dark:via-gray-900 dark:to-gray-950">
+            {/* Background Pattern */}
+            <div className="absolute inset-0 bg-grid-pattern opacity-5"></div>
+
+            {/* Go Back Button */}
+            <Link
+                href="/login"
+                className="absolute top-6 left-6 z-50 flex items-center space-x-2 px-4 py-2 bg-white/80 dark:bg-gray-800/80 backdrop-blur-sm rounded-xl text-gray-700 dark:text-gray-200 hover:bg-white dark:hover:bg-gray-800 transition-all duration-200 shadow-lg group"
+            >
+                <ArrowLeft size={20} className="group-hover:-translate-x-1 transition-transform" />
+                <span className="font-medium">Back to Login</span>
+            </Link>
+
+            {/* Main Card */}
+            <div className="relative z-10 w-full max-w-md mx-4">
+                <div className="bg-white dark:bg-gray-900 rounded-3xl p-8 lg:p-10 shadow-2xl">
+                    {!token ? (
+                        <>
+                            {/* Missing Token */}
+                            <div className="text-center">
+                                <div className="w-16 h-16 bg-gradient-to-br from-amber-100 to-orange-100 dark:from-amber-900/30 dark:to-orange-900/30 rounded-2xl flex items-center justify-center mx-auto mb-6">
+                                    <AlertTriangle className="text-amber-600 dark:text-amber-400" size={32} />
+                                </div>
+                                <h2 className="text-3xl font-bold text-gray-900 dark:text-white mb-3">
+                                    Invalid Reset Link
+                                </h2>
+                                <p className="text-gray-600 dark:text-gray-400 text-base mb-8">
+                                    This link is missing its reset token. Please request a new password reset email.
+                                </p>
+                                <button
+                                    onClick={() => router.push('/forgot-password')}
+                                    className="w-full bg-gradient-to-r from-teal-600 to-emerald-600 hover:from-teal-700 hover:to-emerald-700 text-white py-4 rounded-xl font-semibold text-lg transition-all duration-200 shadow-lg hover:shadow-xl"
+                                >
+                                    Request New Link
+                                </button>
+                            </div>
+                        </>
+                    ) : success ? (
+                        <>
+                            {/* Success State */}
+                            <div className="text-center">
+                                <div className="w-16 h-16 bg-gradient-to-br from-green-100 to-emerald-100 dark:from-green-900/30 dark:to-emerald-900/30 rounded-2xl flex items-center justify-center mx-auto mb-6">
+                                    <CheckCircle className="text-green-600 dark:text-green-400" size={32} />
+                                </div>
+                                <h2 className="text-3xl font-bold text-gray-900 dark:text-white mb-3">
+                                    Password Updated
+                                </h2>
+                                <p className="text-gray-600 dark:text-gray-400 text-base mb-8">
+                                    Your password has been changed and all other devices have been signed out.
+                                </p>
+                                <button
+                                    onClick={() => router.push('/login')}
+                                    className="w-full bg-gradient-to-r from-teal-600 to-emerald-600 hover:from-teal-700 hover:to-emerald-700 text-white py-4 rounded-xl font-semibold text-lg transition-all duration-200 shadow-lg hover:shadow-xl"
+                                >
+                                    Sign In
+                                </button>
+                            </div>
+                        </>
+                    ) : (
+                        <>
+                            {/* Header */}
+                            <div className="text-center mb-8">
+                                <div className="w-16 h-16 bg-gradient-to-br from-teal-100 to-emerald-100 dark:from-teal-900/30 dark:to-emerald-900/30 rounded-2xl flex items-center justify-center mx-auto mb-6">
+                                    <Lock className="text-teal-600 dark:text-teal-400" size={32} />
+                                </div>
+                                <h2 className="text-3xl font-bold text-gray-900 dark:text-white mb-3">
+                                    Choose a New Password
+                                </h2>
+                                <p className="text-gray-600 dark:text-gray-400 text-base">
+                                    Enter a new password for your GharBazaar account.
+                                </p>
+                            </div>
+
+                            {/* Form */}
+                            <form onSubmit={handleSubmit} className="space-y-6">
+                                {/* New Password */}
+                                <div>
+                                    <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
+                                        New Password
+                                    </label>
+                                    <div className="relative">
+                                        <Lock className="absolute left-4 top-1/2 -translate-y-1/2 text-gray-400" size={20} />
+                                        <input
+                                            type={showPassword ? 'text' : 'password'}
+                                            value={password}
+                                            onChange={(e) => setPassword(e.target.value)}
+                                            className="w-full pl-12 pr-12 py-4 bg-gray-50 dark:bg-gray-800 border-2 border-gray-200 dark:border-gray-700 rounded-xl focus:ring-2 focus:ring-teal-500 focus:border-teal-500 transition-all text-gray-900 dark:text-white placeholder:text-gray-400 text-base"
+                                            placeholder={`At least ${MIN_PASSWORD_LENGTH} characters`}
+                                            required
+                                            disabled={loading}
+                                        />
+                                        <button
+                                            type="button"
+                                            onClick={() => setShowPassword(!showPassword)}
+                                            className="absolute right-4 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600"
+                                        >
+                                            {showPassword ? <EyeOff size={20} /> : <Eye size={20} />}
+                                        </button>
+                                    </div>
+                                </div>
+
+                                {/* Confirm Password */}
+                                <div>
+                                    <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
+                                        Confirm Password
+                                    </label>
+                                    <div className="relative">
+                                        <Lock className="absolute left-4 top-1/2 -translate-y-1/2 text-gray-400" size={20} />
+                                        <input
+                                            type={showPassword ? 'text' : 'password'}
+                                            value={confirmPassword}
+                                            onChange={(e) => setConfirmPassword(e.target.value)}
+                                            className="w-full pl-12 pr-4 py-4 bg-gray-50 dark:bg-gray-800 border-2 border-gray-200 dark:border-gray-700 rounded-xl focus:ring-2 focus:ring-teal-500 focus:border-teal-500 transition-all text-gray-900 dark:text-white placeholder:text-gray-400 text-base"
+                                            placeholder="Re-enter your new password"
+                                            required
+                                            disabled={loading}
+                                        />
+                                    </div>
+                                </div>
+
+                                {/* Error Message */}
+                                {error && (
+                                    <div className="bg-red-50 dark:bg-red-900/20 border-2 border-red-200 dark:border-red-800 rounded-xl p-4">
+                                        <p className="text-sm text-red-600 dark:text-red-400 font-medium">{error}</p>
+                                    </div>
+                                )}
+
+                                {/* Submit Button */}
+                                <button
+                                    type="submit"
+                                    disabled={loading}
+                                    className="w-full bg-gradient-to-r from-teal-600 to-emerald-600 hover:from-teal-700 hover:to-emerald-700 text-white py-4 rounded-xl font-semibold text-lg transition-all duration-200 shadow-lg hover:shadow-xl disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
+                                >
+                                    {loading ? (
+                                        <>
+                                            <Loader2 className="animate-spin" size={20} />
+                                            <span>Updating Password...</span>
+                                        </>
+                                    ) : (
+                                        <span>Reset Password</span>
+                                    )}
+                                </button>
+                            </form>
+
+                            {/* Security Info */}
+                            <div className="mt-8">
+                                <div className="flex items-start space-x-3 text-sm text-gray-600 dark:text-gray-400">
+                                    <Shield className="text-teal-600 dark:text-teal-400 flex-shrink-0 mt-0.5" size={18} />
+                                    <p>Reset links work only once. After resetting, you'll be signed out on all devices.</p>
+                                </div>
+                            </div>
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    )
+}
@@ -7,6 +7,7 @@ import { useSocket } from '@/contexts/SocketContext';
 import { useToast } from '@/components/Toast/ToastProvider';
 import { backendApi } from '@/lib/backendApi';
 import { faqKnowledgeBase, getCategoriesByRole, getCategory, getSubCategory, type FAQCategory, type FAQSubCategory } from '@/lib/faqKnowledgeBase';
+import type { TicketAssignedEvent, TicketClosedEvent, TicketMessageEvent, TicketUnassignedEvent } from '@shared/ticketEvents';
 
 type ChatMode = 'categories' | 'subcategories' | 'resolution' | 'agent-request' | 'agent-chat';
 
@@ -58,6 +59,7 @@ export default function SupportChatbot({ userRole = 'buyer' }: SupportChatbotPro
     // Feedback State
     const [showFeedback, setShowFeedback] = useState(false);
     const [feedbackRating, setFeedbackRating] = useState(0);
+    const [feedbackComment, setFeedbackComment] = useState('');
 
     const messagesEndRef = useRef<HTMLDivElement>(null);
     const inputRef = useRef<HTMLInputElement>(null);
@@ -86,17 +88,18 @@ export default function SupportChatbot({ userRole = 'buyer' }: SupportChatbotPro
     useEffect(() => {
         if (!socket || !connected) return;
 
-        const handleTicketAssigned = (data: any) => {
-            if (data.userId === user?.uid) {
+        const handleTicketAssigned = (data: TicketAssignedEvent) => {
+            if (data.userId === user?.uid && data.ticketId === ticketData?.id) {
                 setIsAgentConnected(true);
-                setAgentName(data.agentName || 'Support Agent');
+                setAgentName(data.assignedToName || 'Support Agent');
                 setChatMode('agent-chat');
-                addBotMessage(`${data.agentName || 'A support agent'} has joined the conversation and will assist you shortly.`, 'agent');
+                addBotMessage(`${data.assignedToName || 'A support agent'} has joined the conversation and will assist you shortly.`, 'agent');
             }
         };
 
-        const handleAgentMessage = (data: any) => {
-            if (data.ticketId === ticketData?.id) {
+        // Our own messages come back too; only show the agent's
+        const handleAgentMessage = (data: TicketMessageEvent) => {
+            if (data.ticketId === ticketData?.id && data.senderType === 'employee') {
                 addBotMessage(data.message, 'agent');
 
                 // Show notification if chatbot is closed
@@ -107,7 +110,15 @@ export default function SupportChatbot({ userRole = 'buyer' }: SupportChatbotPro
             }
         };
 
-        const handleTicketClosed = (data: any) => {
+        // Our agent went offline and nobody could take over yet
+        const handleTicketUnassigned = (data: TicketUnassignedEvent) => {
+            if (data.ticketId === ticketData?.id) {
+                setIsAgentConnected(false);
+                addBotMessage('Your agent is no longer available. The next free agent will pick up your ticket.');
+            }
+        };
+
+        const handleTicketClosed = (data: TicketClosedEvent) => {
             if (data.ticketId === ticketData?.id) {
                 setShowFeedback(true);
                 setIsAgentConnected(false);
@@ -115,11 +126,13 @@ export default function SupportChatbot({ userRole = 'buyer' }: SupportChatbotPro
         };
 
         socket.on('ticket:assigned', handleTicketAssigned);
+        socket.on('ticket:unassigned', handleTicketUnassigned);
         socket.on('ticket:message', handleAgentMessage);
         socket.on('ticket:closed', handleTicketClosed);
 
         return () => {
             socket.off('ticket:assigned', handleTicketAssigned);
+            socket.off('ticket:unassigned', handleTicketUnassigned);
             socket.off('ticket:message', handleAgentMessage);
             socket.off('ticket:closed', handleTicketClosed);
         };
@@ -257,7 +270,7 @@ export default function SupportChatbot({ userRole = 'buyer' }: SupportChatbotPro
         if (!ticketData?.id || feedbackRating === 0) return;
 
         try {
-            await backendApi.tickets.submitFeedback(ticketData.id, feedbackRating);
+            await backendApi.tickets.submitFeedback(ticketData.id, feedbackRating, feedbackComment.trim() || undefined);
 
             toast.success('Thank you for your feedback!');
             setShowFeedback(false);
@@ -324,7 +337,7 @@ export default function SupportChatbot({ userRole = 'buyer' }: SupportChatbotPro
                     Please rate your experience with our support agent
                 </p>
 
-                <div className="flex justify-center gap-2 mb-6">
+                <div className="flex justify-center gap-2 mb-4">
                     {[1, 2, 3, 4, 5].map((star) => (
                         <button
                             key={star}
@@ -336,6 +349,15 @@ export default function SupportChatbot({ userRole = 'buyer' }: SupportChatbotPro
                     ))}
                 </div>
 
+                <textarea
+                    value={feedbackComment}
+                    onChange={(e) => setFeedbackComment(e.target.value)}
+                    maxLength={1000}
+                    rows={3}
+                    placeholder="Anything we could do better? (optional)"
+                    className="w-full mb-6 px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-transparent resize-none focus:outline-none focus:ring-2 focus:ring-purple-500"
+                />
+
                 <div className="flex gap-2">
                     <button
                         onClick={() => { setShowFeedback(false); resetChat(); }}
@@ -31,7 +31,7 @@ export default function AdvancedFilters({ onFilterChange, initialFilters = {} }:
         { label: '1 BHK', value: '1' },
         { label: '2 BHK', value: '2' },
         { label: '3 BHK', value: '3' },
-        { label: '4+ BHK', value: '4' },
+        { label: '4+ BHK', value: '4+' },
     ]
 
     const furnishedOptions: FilterOption[] = [
@@ -1,15 +1,16 @@
 'use client';
 
-import React, { useState, useEffect, useRef } from 'react';
-import { useSocket } from '@/contexts/SocketContext';
+import React, { useState, useEffect, useLayoutEffect, useRef } from 'react';
+import { useSocket, ReadReceipt, ReactionSummary } from '@/contexts/SocketContext';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/components/Toast/ToastProvider';
-import { Send, Paperclip, Image as ImageIcon, Smile, MoreVertical, Phone, Video, Download, FileText, Check } from 'lucide-react';
+import { Send, Paperclip, Image as ImageIcon, Smile, MoreVertical, Phone, Video, Download, FileText, Check, Reply, Forward, X } from 'lucide-react';
 import { backendApi } from '@/lib/backendApi';
 import EmojiPicker from './EmojiPicker';
 import FileUpload from './FileUpload';
 import MessageActions from './MessageActions';
 import ImagePreview from './ImagePreview';
+import ForwardMessageDialog from './ForwardMessageDialog';
 
 interface Message {
     id: string;
@@ -18,13 +19,23 @@ interface Message {
     senderEmail: string;
     content: string;
     type: 'text' | 'image' | 'file';
-    read: boolean;
     edited?: boolean;
     deleted?: boolean;
     fileUrl?: string;
     thumbnailUrl?: string;
     fileName?: string;
     fileSize?: number;
+    reactions?: ReactionSummary[];
+    // Snapshot of the message this one replies to
+    replyTo?: {
+        messageId: string;
+        senderId: string;
+        senderEmail: string;
+        content: string;
+        type: 'text' | 'image' | 'file';
+        fileName?: string;
+    };
+    forwarded?: boolean;
     createdAt: string;
 }
 
@@ -38,23 +49,34 @@ interface ChatWindowProps {
         onlineStatus?: string;
     };
     onClose?: () => void;
+    // Open the conversation at this message (e.g. a chat search hit's anchor)
+    focusMessageId?: string;
 }
 
-export default function ChatWindow({ conversationId, otherUser, onClose }: ChatWindowProps) {
+const PAGE_SIZE = 30;
+// Distance from the top/bottom edge (px) at which the next page is loaded
+const LOAD_MORE_THRESHOLD = 80;
+
+export default function ChatWindow({ conversationId, otherUser, onClose, focusMessageId }: ChatWindowProps) {
     const { user } = useAuth();
     const toast = useToast();
     const {
         sendMessage,
+        sendAttachment,
         sendTyping,
         markAsRead,
         editMessage,
         deleteMessage,
+        toggleReaction,
+        forwardMessage,
         joinConversation,
         leaveConversation,
         onNewMessage,
         onTyping,
         onMessageEdited,
-        onMessageDeleted
+        onMessageDeleted,
+        onMessagesRead,
+        onReactionsUpdated
     } = useSocket();
 
     const [messages, setMessages] = useState<Message[]>([]);
@@ -68,18 +90,45 @@ export default function ChatWindow({ conversationId, otherUser, onClose }: ChatW
     const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
     const [editingContent, setEditingContent] = useState('');
     const [previewImage, setPreviewImage] = useState<string | null>(null);
+    const [hasMoreBefore, setHasMoreBefore] = useState(false);
+    const [loadingMore, setLoadingMore] = useState(false);
+    const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+    const [readReceipts, setReadReceipts] = useState<ReadReceipt[]>([]);
+    const [replyingTo, setReplyingTo] = useState<Message | null>(null);
+    const [forwardingMessageId, setForwardingMessageId] = useState<string | null>(null);
 
     const messagesEndRef = useRef<HTMLDivElement>(null);
+    const messagesContainerRef = useRef<HTMLDivElement>(null);
     const typingTimeoutRef = useRef<NodeJS.Timeout>();
+    // False while the loaded window ends before the latest message (after jumping to a search hit)
+    const reachedLatestRef = useRef(true);
+    // Scroll position to restore after older messages are prepended
+    const scrollRestoreRef = useRef<{ height: number; top: number } | null>(null);
+    const skipAutoScrollRef = useRef(false);
 
-    // Fetch existing messages
+    // Fetch the latest page, or the page around the focused message
     useEffect(() => {
         const fetchMessages = async () => {
             try {
-                const response = await backendApi.chat.getMessages(conversationId);
+                const response = await backendApi.chat.getMessages(
+                    conversationId,
+                    PAGE_SIZE,
+                    focusMessageId ? { around: focusMessageId } : undefined
+                );
 
                 if (response.success) {
-                    setMessages(response.data.messages || []);
+                    const loaded: Message[] = response.data.messages || [];
+                    setMessages(loaded);
+                    setReadReceipts(response.data.readReceipts || []);
+                    setHasMoreBefore(!!response.data.hasMoreBefore);
+                    reachedLatestRef.current = !response.data.hasMoreAfter;
+                    if (focusMessageId) {
+                        skipAutoScrollRef.current = true;
+                        setHighlightedMessageId(focusMessageId);
+                    }
+                    if (loaded.length > 0) {
+                        markAsRead(conversationId, loaded[loaded.length - 1].id);
+                    }
                 } else {
                     toast.error('Failed to load messages');
                 }
@@ -92,20 +141,30 @@ export default function ChatWindow({ conversationId, otherUser, onClose }: ChatW
         };
 
         fetchMessages();
-    }, [conversationId, user]);
+    }, [conversationId, user, focusMessageId]);
+
+    // Bring the focused message into view and fade the highlight out
+    useEffect(() => {
+        if (loading || !highlightedMessageId) return;
+
+        document.getElementById(`message-${highlightedMessageId}`)?.scrollIntoView({ block: 'center' });
+        const timeout = setTimeout(() => setHighlightedMessageId(null), 2000);
+        return () => clearTimeout(timeout);
+    }, [loading, highlightedMessageId]);
 
     // Join conversation and listen for events
     useEffect(() => {
         joinConversation(conversationId);
 
         const handleNewMessage = (message: Message) => {
-            if (message.conversationId === conversationId) {
+            // Newer messages load on scroll until the window reaches the latest one
+            if (message.conversationId === conversationId && reachedLatestRef.current) {
                 setMessages(prev => [...prev, message]);
                 scrollToBottom();
 
                 // Mark as read if from other user
                 if (message.senderId !== user?.uid) {
-                    markAsRead(conversationId);
+                    markAsRead(conversationId, message.id);
                 }
             }
         };
@@ -128,10 +187,25 @@ export default function ChatWindow({ conversationId, otherUser, onClose }: ChatW
             ));
         };
 
+        // Move the reader's cursor (drives ✓✓ and "Seen by")
+        const handleMessagesRead = (receipt: ReadReceipt & { conversationId: string }) => {
+            if (receipt.conversationId !== conversationId) return;
+            setReadReceipts(prev => [...prev.filter(r => r.userId !== receipt.userId), receipt]);
+        };
+
+        const handleReactionsUpdated = (data: { id: string; conversationId: string; reactions: ReactionSummary[] }) => {
+            if (data.conversationId !== conversationId) return;
+            setMessages(prev => prev.map(msg =>
+                msg.id === data.id ? { ...msg, reactions: data.reactions } : msg
+            ));
+        };
+
         const unsubMessage = onNewMessage(handleNewMessage);
         const unsubTyping = onTyping(handleTyping);
         const unsubEdited = onMessageEdited?.(handleMessageEdited);
         const unsubDeleted = onMessageDeleted?.(handleMessageDeleted);
+        const unsubRead = onMessagesRead(handleMessagesRead);
+        const unsubReactions = onReactionsUpdated(handleReactionsUpdated);
 
         return () => {
             leaveConversation(conversationId);
@@ -139,24 +213,98 @@ export default function ChatWindow({ conversationId, otherUser, onClose }: ChatW
             if (unsubTyping) unsubTyping();
             if (unsubEdited) unsubEdited();
             if (unsubDeleted) unsubDeleted();
+            if (unsubRead) unsubRead();
+            if (unsubReactions) unsubReactions();
         };
-    }, [conversationId, user, joinConversation, leaveConversation, onNewMessage, onTyping, onMessageEdited, onMessageDeleted, markAsRead]);
-
-    // Auto-scroll to bottom
-    useEffect(() => {
-        scrollToBottom();
+    }, [conversationId, user, joinConversation, leaveConversation, onNewMessage, onTyping, onMessageEdited, onMessageDeleted, onMessagesRead, onReactionsUpdated, markAsRead]);
+
+    // Auto-scroll to bottom, except when a page was loaded above or below
+    useLayoutEffect(() => {
+        const container = messagesContainerRef.current;
+        if (scrollRestoreRef.current && container) {
+            const { height, top } = scrollRestoreRef.current;
+            container.scrollTop = container.scrollHeight - height + top;
+            scrollRestoreRef.current = null;
+        } else if (skipAutoScrollRef.current) {
+            skipAutoScrollRef.current = false;
+        } else {
+            scrollToBottom();
+        }
     }, [messages]);
 
     const scrollToBottom = () => {
         messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
     };
 
+    const loadOlderMessages = async () => {
+        if (loadingMore || !hasMoreBefore || messages.length === 0) return;
+        setLoadingMore(true);
+
+        try {
+            const response = await backendApi.chat.getMessages(conversationId, PAGE_SIZE, { before: messages[0].id });
+
+            if (response.success) {
+                const container = messagesContainerRef.current;
+                if (container) {
+                    scrollRestoreRef.current = { height: container.scrollHeight, top: container.scrollTop };
+                }
+                setMessages(prev => [...response.data.messages, ...prev]);
+                setHasMoreBefore(!!response.data.hasMoreBefore);
+            }
+        } catch (error) {
+            console.error('Error loading older messages:', error);
+            toast.error('Failed to load older messages');
+        } finally {
+            setLoadingMore(false);
+        }
+    };
+
+    const loadNewerMessages = async () => {
+        if (loadingMore || reachedLatestRef.current || messages.length === 0) return;
+        setLoadingMore(true);
+
+        try {
+            const response = await backendApi.chat.getMessages(conversationId, PAGE_SIZE, {
+                after: messages[messages.length - 1].id,
+            });
+
+            if (response.success) {
+                skipAutoScrollRef.current = true;
+                const newer: Message[] = response.data.messages;
+                setMessages(prev => {
+                    const loaded = new Set(prev.map(msg => msg.id));
+                    return [...prev, ...newer.filter(msg => !loaded.has(msg.id))];
+                });
+                reachedLatestRef.current = !response.data.hasMoreAfter;
+                if (newer.length > 0) {
+                    markAsRead(conversationId, newer[newer.length - 1].id);
+                }
+            }
+        } catch (error) {
+            console.error('Error loading newer messages:', error);
+            toast.error('Failed to load newer messages');
+        } finally {
+            setLoadingMore(false);
+        }
+    };
+
+    const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+        const { scrollTop, scrollHeight, clientHeight } = e.currentTarget;
+
+        if (scrollTop < LOAD_MORE_THRESHOLD) {
+            loadOlderMessages();
+        } else if (scrollHeight - scrollTop - clientHeight < LOAD_MORE_THRESHOLD) {
+            loadNewerMessages();
+        }
+    };
+
     const handleSend = () => {
         if (!newMessage.trim()) return;
 
         try {
-            sendMessage(conversationId, newMessage);
+            sendMessage(conversationId, newMessage, replyingTo?.id);
             setNewMessage('');
+            setReplyingTo(null);
             sendTyping(conversationId, false);
             setShowEmojiPicker(false);
         } catch (error) {
@@ -210,31 +358,46 @@ export default function ChatWindow({ conversationId, otherUser, onClose }: ChatW
             ) as any;
 
             if (response.success) {
-                // Send message with file attachment
-                const fileMessage = {
+                // Send message with file attachment (broadcast to the conversation like any message)
+                sendAttachment(
                     conversationId,
-                    content: `📎 ${response.data.metadata.fileName}`,
-                    type: response.data.metadata.fileType === 'image' ? 'image' : 'file',
-                    fileUrl: response.data.url,
-                    thumbnailUrl: response.data.thumbnailUrl,
-                    fileName: response.data.metadata.fileName,
-                    fileSize: response.data.metadata.fileSize,
-                };
-
-                // Use REST API for file messages
-                await backendApi.chat.sendMessage(conversationId, JSON.stringify(fileMessage));
+                    response.data.attachmentId,
+                    `📎 ${response.data.metadata.fileName}`,
+                    replyingTo?.id
+                );
+                setReplyingTo(null);
                 toast.success('File uploaded successfully');
             }
         } catch (error) {
             console.error('Error uploading file:', error);
-            toast.error('Failed to upload file');
+            toast.error(error instanceof Error ? error.message : 'Failed to upload file');
         } finally {
             setIsUploading(false);
             setUploadProgress(0);
         }
     };
 
+    const handleReply = (msg: Message) => {
+        setEditingMessageId(null);
+        setEditingContent('');
+        setReplyingTo(msg);
+    };
+
+    const handleForward = (targetConversationId: string) => {
+        if (!forwardingMessageId) return;
+        forwardMessage(forwardingMessageId, targetConversationId);
+        setForwardingMessageId(null);
+        toast.success('Message forwarded');
+    };
+
+    // Jump to the quoted message if it's loaded
+    const scrollToMessage = (messageId: string) => {
+        if (!document.getElementById(`message-${messageId}`)) return;
+        setHighlightedMessageId(messageId);
+    };
+
     const handleEditMessage = (messageId: string, content: string) => {
+        setReplyingTo(null);
         setEditingMessageId(messageId);
         setEditingContent(content);
         setNewMessage(content);
@@ -273,6 +436,25 @@ export default function ChatWindow({ conversationId, otherUser, onClose }: ChatW
         }
     };
 
+    // Other participants whose read cursor is at or past this message
+    const readersOf = (msg: Message) =>
+        readReceipts.filter(r =>
+            r.userId !== user?.uid &&
+            new Date(r.lastReadAt).getTime() >= new Date(msg.createdAt).getTime()
+        );
+
+    const formatSeenBy = (readers: ReadReceipt[]) => {
+        const named = readers.some(r => r.userId === otherUser.id) ? [otherUser.name] : [];
+        const others = readers.length - named.length;
+        if (others > 0) named.push(`${others} ${others === 1 ? 'other' : 'others'}`);
+        return `Seen by ${named.join(' and ')}`;
+    };
+
+    const senderName = (senderId: string, senderEmail: string) =>
+        senderId === user?.uid ? 'You' : senderId === otherUser.id ? otherUser.name : senderEmail;
+
+    const lastOwnMessageId = [...messages].reverse().find(msg => msg.senderId === user?.uid && !msg.deleted)?.id;
+
     const formatTime = (dateString: string) => {
         const date = new Date(dateString);
         return date.toLocaleTimeString('en-US', {
@@ -338,7 +520,11 @@ export default function ChatWindow({ conversationId, otherUser, onClose }: ChatW
             </div>
 
             {/* Messages */}
-            <div className="flex-1 overflow-y-auto p-6 space-y-4 bg-gray-50 dark:bg-gray-900">
+            <div
+                ref={messagesContainerRef}
+                onScroll={handleScroll}
+                className="flex-1 overflow-y-auto p-6 space-y-4 bg-gray-50 dark:bg-gray-900"
+            >
                 {loading ? (
                     <div className="flex items-center justify-center h-full">
                         <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-500"></div>
@@ -353,12 +539,18 @@ export default function ChatWindow({ conversationId, otherUser, onClose }: ChatW
                     </div>
                 ) : (
                     <>
+                        {loadingMore && hasMoreBefore && (
+                            <div className="flex justify-center">
+                                <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-green-500"></div>
+                            </div>
+                        )}
                         {messages.map((msg, index) => {
                             const isOwnMessage = msg.senderId === user?.uid;
+                            const readers = isOwnMessage ? readersOf(msg) : [];
                             const showDate = index === 0 || formatDate(messages[index - 1].createdAt) !== formatDate(msg.createdAt);
 
                             return (
-                                <div key={msg.id}>
+                                <div key={msg.id} id={`message-${msg.id}`}>
                                     {showDate && (
                                         <div className="flex justify-center my-4">
                                             <span className="px-3 py-1 bg-gray-200 dark:bg-gray-700 rounded-full text-xs text-gray-600 dark:text-gray-400">
@@ -369,11 +561,37 @@ export default function ChatWindow({ conversationId, otherUser, onClose }: ChatW
                                     <div className={`flex ${isOwnMessage ? 'justify-end' : 'justify-start'} group`}>
                                         <div className="flex items-start gap-2 max-w-xl">
                                             <div
-                                                className={`px-4 py-2 rounded-2xl ${isOwnMessage
+                                                className={`px-4 py-2 rounded-2xl transition-shadow ${isOwnMessage
                                                     ? 'bg-green-500 text-white rounded-br-none'
                                                     : 'bg-white dark:bg-gray-800 text-gray-900 dark:text-white border border-gray-200 dark:border-gray-700 rounded-bl-none'
-                                                    }`}
+                                                    } ${highlightedMessageId === msg.id ? 'ring-2 ring-yellow-400' : ''}`}
                                             >
+                                                {msg.forwarded && !msg.deleted && (
+                                                    <p className={`flex items-center gap-1 text-xs italic mb-1 ${isOwnMessage ? 'text-green-100' : 'text-gray-500 dark:text-gray-400'}`}>
+                                                        <Forward size={12} />
+                                                        Forwarded
+                                                    </p>
+                                                )}
+
+                                                {msg.replyTo && !msg.deleted && (
+                                                    <button
+                                                        onClick={() => scrollToMessage(msg.replyTo!.messageId)}
+                                                        className={`block w-full text-left mb-2 px-3 py-1 rounded-lg border-l-4 text-xs ${isOwnMessage
+                                                            ? 'bg-green-600/50 border-green-200 text-green-50'
+                                                            : 'bg-gray-100 dark:bg-gray-700 border-green-500 text-gray-600 dark:text-gray-300'
+                                                            }`}
+                                                    >
+                                                        <span className="block font-semibold">
+                                                            {senderName(msg.replyTo.senderId, msg.replyTo.senderEmail)}
+                                                        </span>
+                                                        <span className="block truncate">
+                                                            {msg.replyTo.type !== 'text' && msg.replyTo.fileName
+                                                                ? `📎 ${msg.replyTo.fileName}`
+                                                                : msg.replyTo.content}
+                                                        </span>
+                                                    </button>
+                                                )}
+
                                                 {msg.type === 'image' && msg.thumbnailUrl ? (
                                                     <div className="mb-2">
                                                         <img
@@ -413,22 +631,52 @@ export default function ChatWindow({ conversationId, otherUser, onClose }: ChatW
                                                     <span className="text-xs">{formatTime(msg.createdAt)}</span>
                                                     {isOwnMessage && (
                                                         <span className="text-xs">
-                                                            {msg.read ? '✓✓' : '✓'}
+                                                            {readers.length > 0 ? '✓✓' : '✓'}
                                                         </span>
                                                     )}
                                                 </div>
                                             </div>
 
-                                            {isOwnMessage && !msg.deleted && (
+                                            {!msg.deleted && (
                                                 <MessageActions
                                                     messageId={msg.id}
                                                     content={msg.content}
+                                                    isOwnMessage={isOwnMessage}
+                                                    onReply={() => handleReply(msg)}
+                                                    onReact={(emoji) => toggleReaction(msg.id, emoji)}
+                                                    onForward={() => setForwardingMessageId(msg.id)}
                                                     onEdit={() => handleEditMessage(msg.id, msg.content)}
                                                     onDelete={() => handleDeleteMessage(msg.id)}
                                                 />
                                             )}
                                         </div>
                                     </div>
+                                    {!msg.deleted && msg.reactions && msg.reactions.length > 0 && (
+                                        <div className={`flex flex-wrap gap-1 mt-1 ${isOwnMessage ? 'justify-end' : 'justify-start'}`}>
+                                            {msg.reactions.map(reaction => {
+                                                const mine = !!user?.uid && reaction.userIds.includes(user.uid);
+                                                return (
+                                                    <button
+                                                        key={reaction.emoji}
+                                                        onClick={() => toggleReaction(msg.id, reaction.emoji)}
+                                                        className={`px-2 py-0.5 rounded-full border text-xs flex items-center gap-1 transition-colors ${mine
+                                                            ? 'bg-green-100 dark:bg-green-900/30 border-green-400 text-green-700 dark:text-green-300'
+                                                            : 'bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+                                                            }`}
+                                                        title={mine ? 'Remove your reaction' : 'Add this reaction'}
+                                                    >
+                                                        <span>{reaction.emoji}</span>
+                                                        <span>{reaction.count}</span>
+                                                    </button>
+                                                );
+                                            })}
+                                        </div>
+                                    )}
+                                    {msg.id === lastOwnMessageId && readers.length > 0 && (
+                                        <p className="mt-1 text-right text-xs text-gray-500 dark:text-gray-400">
+                                            {formatSeenBy(readers)}
+                                        </p>
+                                    )}
                                 </div>
                             );
                         })}
@@ -464,6 +712,24 @@ export default function ChatWindow({ conversationId, otherUser, onClose }: ChatW
                 </div>
             )}
 
+            {/* Reply Banner */}
+            {replyingTo && (
+                <div className="px-6 py-2 bg-green-50 dark:bg-green-900/20 border-t border-green-200 dark:border-green-800 flex items-center justify-between gap-4">
+                    <div className="flex items-center gap-2 min-w-0 text-sm text-green-800 dark:text-green-200">
+                        <Reply size={16} className="flex-shrink-0" />
+                        <span className="truncate">
+                            Replying to {senderName(replyingTo.senderId, replyingTo.senderEmail)}: {replyingTo.content}
+                        </span>
+                    </div>
+                    <button
+                        onClick={() => setReplyingTo(null)}
+                        className="p-1 text-green-600 dark:text-green-400 hover:bg-green-100 dark:hover:bg-green-900/40 rounded"
+                    >
+                        <X size={16} />
+                    </button>
+                </div>
+            )}
+
             {/* Edit Mode Banner */}
             {editingMessageId && (
                 <div className="px-6 py-2 bg-yellow-50 dark:bg-yellow-900/20 border-t border-yellow-200 dark:border-yellow-800 flex items-center justify-between">
@@ -531,6 +797,15 @@ export default function ChatWindow({ conversationId, otherUser, onClose }: ChatW
                 </div>
             </div>
 
+            {/* Forward Picker */}
+            {forwardingMessageId && (
+                <ForwardMessageDialog
+                    conversationId={conversationId}
+                    onForward={handleForward}
+                    onClose={() => setForwardingMessageId(null)}
+                />
+            )}
+
             {/* Image Preview Modal */}
             {previewImage && (
                 <ImagePreview
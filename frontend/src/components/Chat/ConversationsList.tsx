@@ -3,7 +3,7 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useSocket } from '@/contexts/SocketContext';
-import { MessageCircle, Search, User, Clock } from 'lucide-react';
+import { MessageCircle, Search, User, Clock, BellOff } from 'lucide-react';
 
 interface Conversation {
     id: string;
@@ -19,8 +19,19 @@ interface Conversation {
         onlineStatus?: string;
     };
     unreadCount: number;
+    archived?: boolean;
+    muted?: boolean;
+    mutedUntil?: string | null;
 }
 
+type ConversationFilter = 'inbox' | 'archived' | 'muted';
+
+const FILTER_TABS: { value: ConversationFilter; label: string }[] = [
+    { value: 'inbox', label: 'Inbox' },
+    { value: 'archived', label: 'Archived' },
+    { value: 'muted', label: 'Muted' },
+];
+
 interface ConversationsListProps {
     onSelect: (conversation: Conversation) => void;
     selectedId?: string;
@@ -32,18 +43,20 @@ export default function ConversationsList({ onSelect, selectedId }: Conversation
     const [conversations, setConversations] = useState<Conversation[]>([]);
     const [loading, setLoading] = useState(true);
     const [searchQuery, setSearchQuery] = useState('');
+    const [filter, setFilter] = useState<ConversationFilter>('inbox');
 
     useEffect(() => {
         fetchConversations();
-    }, [user]);
+    }, [user, filter]);
 
     const fetchConversations = async () => {
         if (!user) return;
 
+        setLoading(true);
         try {
             const token = localStorage.getItem('auth_token');
             const response = await fetch(
-                `${process.env.NEXT_PUBLIC_API_URL}/chat/conversations`,
+                `${process.env.NEXT_PUBLIC_API_URL}/chat/conversations?filter=${filter}`,
                 {
                     headers: {
                         'Authorization': `Bearer ${token}`,
@@ -91,12 +104,22 @@ export default function ConversationsList({ onSelect, selectedId }: Conversation
             });
         };
 
+        // Reading a conversation here or in another tab clears its badge
+        const handleMessagesRead = (data: { conversationId: string; userId: string }) => {
+            if (data.userId !== user?.uid) return;
+            setConversations(prev => prev.map(conv =>
+                conv.id === data.conversationId ? { ...conv, unreadCount: 0 } : conv
+            ));
+        };
+
         socket.on('message_notification', handleMessageNotification);
+        socket.on('messages_read', handleMessagesRead);
 
         return () => {
             socket.off('message_notification', handleMessageNotification);
+            socket.off('messages_read', handleMessagesRead);
         };
-    }, [socket, connected, selectedId]);
+    }, [socket, connected, selectedId, user]);
 
     const filteredConversations = conversations.filter(conv =>
         conv.otherUser.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -148,6 +171,22 @@ export default function ConversationsList({ onSelect, selectedId }: Conversation
                         className="w-full pl-10 pr-4 py-2 bg-gray-100 dark:bg-gray-800 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 text-gray-900 dark:text-white placeholder-gray-500"
                     />
                 </div>
+
+                {/* Filters */}
+                <div className="flex gap-2 mt-3">
+                    {FILTER_TABS.map(tab => (
+                        <button
+                            key={tab.value}
+                            onClick={() => setFilter(tab.value)}
+                            className={`px-3 py-1 rounded-full text-sm transition-colors ${filter === tab.value
+                                ? 'bg-green-500 text-white'
+                                : 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700'
+                                }`}
+                        >
+                            {tab.label}
+                        </button>
+                    ))}
+                </div>
             </div>
 
             {/* Conversations */}
@@ -157,10 +196,14 @@ export default function ConversationsList({ onSelect, selectedId }: Conversation
                         <div className="w-16 h-16 bg-gray-200 dark:bg-gray-700 rounded-full flex items-center justify-center mb-4">
                             <MessageCircle size={32} className="text-gray-400" />
                         </div>
-                        <p className="text-gray-600 dark:text-gray-400 font-medium">No conversations yet</p>
-                        <p className="text-sm text-gray-500 dark:text-gray-500 mt-1">
-                            Start chatting with sellers or support
+                        <p className="text-gray-600 dark:text-gray-400 font-medium">
+                            {filter === 'inbox' ? 'No conversations yet' : `No ${filter} conversations`}
                         </p>
+                        {filter === 'inbox' && (
+                            <p className="text-sm text-gray-500 dark:text-gray-500 mt-1">
+                                Start chatting with sellers or support
+                            </p>
+                        )}
                     </div>
                 ) : (
                     <div className="divide-y divide-gray-200 dark:divide-gray-700">
@@ -195,6 +238,9 @@ export default function ConversationsList({ onSelect, selectedId }: Conversation
                                                 : 'text-gray-700 dark:text-gray-300'
                                                 }`}>
                                                 {conv.otherUser.name}
+                                                {conv.muted && (
+                                                    <BellOff size={14} className="inline ml-1.5 text-gray-400" aria-label="Muted" />
+                                                )}
                                             </h3>
                                             <span className="text-xs text-gray-500 dark:text-gray-400 flex-shrink-0 ml-2">
                                                 {formatTime(conv.lastMessageAt)}
@@ -0,0 +1,99 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Forward, X } from 'lucide-react';
+import { backendApi } from '@/lib/backendApi';
+
+interface ForwardTarget {
+    _id?: string;
+    id?: string;
+    propertyTitle?: string;
+    lastMessage?: string;
+    otherUser?: { name: string };
+}
+
+interface ForwardMessageDialogProps {
+    // The conversation the message is in (not offered as a target)
+    conversationId: string;
+    onForward: (targetConversationId: string) => void;
+    onClose: () => void;
+}
+
+export default function ForwardMessageDialog({ conversationId, onForward, onClose }: ForwardMessageDialogProps) {
+    const [conversations, setConversations] = useState<ForwardTarget[]>([]);
+    const [loading, setLoading] = useState(true);
+
+    // Any conversation the user is in, including archived and muted ones
+    useEffect(() => {
+        const fetchConversations = async () => {
+            try {
+                const response = await backendApi.chat.getConversations('all');
+                if (response.success) {
+                    setConversations(
+                        (response.data.conversations || []).filter(
+                            (c: ForwardTarget) => (c._id || c.id) !== conversationId
+                        )
+                    );
+                }
+            } catch (error) {
+                console.error('Error fetching conversations:', error);
+            } finally {
+                setLoading(false);
+            }
+        };
+
+        fetchConversations();
+    }, [conversationId]);
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50" onClick={onClose}>
+            <div
+                className="w-full max-w-sm bg-white dark:bg-gray-800 rounded-xl shadow-2xl overflow-hidden"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+                    <h3 className="text-sm font-semibold text-gray-900 dark:text-white">Forward to...</h3>
+                    <button
+                        onClick={onClose}
+                        className="p-1 hover:bg-gray-100 dark:hover:bg-gray-700 rounded transition-colors"
+                    >
+                        <X size={16} className="text-gray-600 dark:text-gray-400" />
+                    </button>
+                </div>
+
+                <div className="max-h-80 overflow-y-auto">
+                    {loading ? (
+                        <div className="flex justify-center p-6">
+                            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-green-500"></div>
+                        </div>
+                    ) : conversations.length === 0 ? (
+                        <p className="p-6 text-center text-sm text-gray-500 dark:text-gray-400">
+                            No other conversations to forward to
+                        </p>
+                    ) : (
+                        conversations.map((c) => {
+                            const id = (c._id || c.id) as string;
+                            return (
+                                <button
+                                    key={id}
+                                    onClick={() => onForward(id)}
+                                    className="w-full px-4 py-3 text-left hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center gap-3 transition-colors"
+                                >
+                                    <Forward size={16} className="text-green-500 flex-shrink-0" />
+                                    <div className="min-w-0">
+                                        <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                                            {c.otherUser?.name || c.propertyTitle || 'Conversation'}
+                                        </p>
+                                        {c.lastMessage && (
+                                            <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{c.lastMessage}</p>
+                                        )}
+                                    </div>
+                                </button>
+                            );
+                        })
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -1,17 +1,33 @@
 'use client';
 
 import React, { useState, useRef, useEffect } from 'react';
-import { Edit2, Trash2, Copy, MoreVertical } from 'lucide-react';
+import { Edit2, Trash2, Copy, MoreVertical, Reply, Forward, SmilePlus } from 'lucide-react';
+import EmojiPicker from './EmojiPicker';
 
 interface MessageActionsProps {
     messageId: string;
     content: string;
+    // Edit and delete are only offered on the user's own messages
+    isOwnMessage: boolean;
+    onReply: () => void;
+    onReact: (emoji: string) => void;
+    onForward: () => void;
     onEdit: () => void;
     onDelete: () => void;
 }
 
-export default function MessageActions({ messageId, content, onEdit, onDelete }: MessageActionsProps) {
+export default function MessageActions({
+    messageId,
+    content,
+    isOwnMessage,
+    onReply,
+    onReact,
+    onForward,
+    onEdit,
+    onDelete,
+}: MessageActionsProps) {
     const [showMenu, setShowMenu] = useState(false);
+    const [showReactionPicker, setShowReactionPicker] = useState(false);
     const menuRef = useRef<HTMLDivElement>(null);
 
     useEffect(() => {
@@ -33,6 +49,21 @@ export default function MessageActions({ messageId, content, onEdit, onDelete }:
         setShowMenu(false);
     };
 
+    const handleReply = () => {
+        onReply();
+        setShowMenu(false);
+    };
+
+    const handleReact = () => {
+        setShowReactionPicker(true);
+        setShowMenu(false);
+    };
+
+    const handleForward = () => {
+        onForward();
+        setShowMenu(false);
+    };
+
     const handleEdit = () => {
         onEdit();
         setShowMenu(false);
@@ -56,28 +87,63 @@ export default function MessageActions({ messageId, content, onEdit, onDelete }:
             {showMenu && (
                 <div className="absolute right-0 top-full mt-1 w-40 bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 py-1 z-50">
                     <button
-                        onClick={handleCopy}
+                        onClick={handleReply}
                         className="w-full px-4 py-2 text-left text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center gap-2"
                     >
-                        <Copy size={16} />
-                        Copy text
+                        <Reply size={16} />
+                        Reply
                     </button>
                     <button
-                        onClick={handleEdit}
+                        onClick={handleReact}
                         className="w-full px-4 py-2 text-left text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center gap-2"
                     >
-                        <Edit2 size={16} />
-                        Edit
+                        <SmilePlus size={16} />
+                        React
                     </button>
                     <button
-                        onClick={handleDelete}
-                        className="w-full px-4 py-2 text-left text-sm text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 flex items-center gap-2"
+                        onClick={handleForward}
+                        className="w-full px-4 py-2 text-left text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center gap-2"
                     >
-                        <Trash2 size={16} />
-                        Delete
+                        <Forward size={16} />
+                        Forward
                     </button>
+                    <button
+                        onClick={handleCopy}
+                        className="w-full px-4 py-2 text-left text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center gap-2"
+                    >
+                        <Copy size={16} />
+                        Copy text
+                    </button>
+                    {isOwnMessage && (
+                        <>
+                            <button
+                                onClick={handleEdit}
+                                className="w-full px-4 py-2 text-left text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center gap-2"
+                            >
+                                <Edit2 size={16} />
+                                Edit
+                            </button>
+                            <button
+                                onClick={handleDelete}
+                                className="w-full px-4 py-2 text-left text-sm text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 flex items-center gap-2"
+                            >
+                                <Trash2 size={16} />
+                                Delete
+                            </button>
+                        </>
+                    )}
                 </div>
             )}
+
+            {showReactionPicker && (
+                <EmojiPicker
+                    onEmojiSelect={(emoji) => {
+                        onReact(emoji);
+                        setShowReactionPicker(false);
+                    }}
+                    onClose={() => setShowReactionPicker(false)}
+                />
+            )}
         </div>
     );
 }
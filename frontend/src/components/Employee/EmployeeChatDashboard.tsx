@@ -4,7 +4,8 @@
  * 👔 EMPLOYEE CHAT DASHBOARD
  * 
  * Comprehensive employee interface for managing support tickets.
- * Features ticket queue, active conversations, user history, and quick responses.
+ * Features ticket queue filters, bulk assignment, per-agent workload,
+ * active conversations, user history, and quick responses.
  * 
  * @author GharBazaar Frontend Team
  */
@@ -25,6 +26,8 @@ import {
     Search,
     Mail,
     Phone,
+    UserCheck,
+    X,
 } from 'lucide-react';
 import PresenceIndicator from '@/components/Chat/PresenceIndicator';
 
@@ -36,17 +39,50 @@ interface Ticket {
     subCategoryTitle: string;
     problem: string;
     status: 'open' | 'assigned' | 'in_progress' | 'resolved' | 'closed';
+    priority?: 'low' | 'medium' | 'high' | 'urgent';
     assignedTo?: string;
     assignedToName?: string;
     createdAt: string;
     updatedAt: string;
 }
 
+interface AgentWorkload {
+    agentId: string;
+    agentName: string;
+    email?: string;
+    activeTickets: number;
+    assigned: number;
+    inProgress: number;
+    resolvedToday: number;
+    byPriority: Record<string, number>;
+}
+
+interface SlaTargetMetrics {
+    count: number;
+    averageMinutes: number;
+    metPercent: number | null;
+}
+
 interface EmployeeStats {
     activeTickets: number;
     resolvedToday: number;
+    // Average first response, in working minutes
     averageResponseTime: number;
     totalAssigned: number;
+    sla?: {
+        periodDays: number;
+        firstResponse: SlaTargetMetrics;
+        resolution: SlaTargetMetrics;
+        breachedActive: number;
+        atRiskActive: number;
+    };
+    // Customer ratings of your tickets over the same period
+    csat?: {
+        ratings: number;
+        averageRating: number | null;
+        satisfiedPercent: number | null;
+        reopened: number;
+    };
 }
 
 export default function EmployeeChatDashboard() {
@@ -63,39 +99,73 @@ export default function EmployeeChatDashboard() {
         totalAssigned: 0,
     });
     const [statusFilter, setStatusFilter] = useState<string>('all');
+    const [categoryFilter, setCategoryFilter] = useState<string>('all');
+    const [priorityFilter, setPriorityFilter] = useState<string>('all');
+    const [knownCategories, setKnownCategories] = useState<string[]>([]);
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+    const [bulkAssignee, setBulkAssignee] = useState<string>('');
+    const [agents, setAgents] = useState<AgentWorkload[]>([]);
+    const [unassignedCount, setUnassignedCount] = useState(0);
     const [searchQuery, setSearchQuery] = useState('');
     const [loading, setLoading] = useState(true);
 
-    // Fetch tickets and stats
+    // Fetch tickets, stats and team workload
     useEffect(() => {
         fetchTickets();
         fetchStats();
-    }, [statusFilter]);
+        fetchWorkload();
+    }, [statusFilter, categoryFilter, priorityFilter]);
 
     // Socket.io listeners for real-time updates
     useEffect(() => {
         if (!socket || !connected) return;
 
-        socket.on('ticket:new-message', () => {
+        // Ticket events reach the employees room
+        socket.emit('join_employee_room');
+
+        const refreshQueue = () => {
             fetchTickets();
-        });
+        };
 
-        socket.on('ticket:status-changed', () => {
+        const refreshAll = () => {
             fetchTickets();
             fetchStats();
-        });
+            fetchWorkload();
+        };
+
+        socket.on('ticket:created', refreshAll);
+        socket.on('ticket:message', refreshQueue);
+        // Reassignments keep the status, so they only come as ticket:assigned
+        socket.on('ticket:assigned', refreshAll);
+        socket.on('ticket:unassigned', refreshAll);
+        socket.on('ticket:status-changed', refreshAll);
+        // Sent to the assigned agent when one of their tickets misses its SLA
+        socket.on('ticket:sla-breached', refreshAll);
 
         return () => {
-            socket.off('ticket:new-message');
-            socket.off('ticket:status-changed');
+            socket.off('ticket:created', refreshAll);
+            socket.off('ticket:message', refreshQueue);
+            socket.off('ticket:assigned', refreshAll);
+            socket.off('ticket:unassigned', refreshAll);
+            socket.off('ticket:status-changed', refreshAll);
+            socket.off('ticket:sla-breached', refreshAll);
         };
     }, [socket, connected]);
 
     const fetchTickets = async () => {
         try {
-            const response = await backendApi.employee.getTickets(statusFilter);
+            const response = await backendApi.employee.getTickets({
+                status: statusFilter,
+                category: categoryFilter,
+                priority: priorityFilter,
+            });
             if (response.success) {
-                setTickets(response.data.tickets || []);
+                const loaded: Ticket[] = response.data.tickets || [];
+                setTickets(loaded);
+                setSelectedIds(prev => new Set(Array.from(prev).filter(id => loaded.some(t => t._id === id))));
+                setKnownCategories(prev =>
+                    Array.from(new Set([...prev, ...loaded.map(t => t.categoryTitle)])).sort()
+                );
             }
         } catch (error) {
             console.error('Error fetching tickets:', error);
@@ -116,6 +186,60 @@ export default function EmployeeChatDashboard() {
         }
     };
 
+    const fetchWorkload = async () => {
+        try {
+            const response = await backendApi.employee.getWorkload();
+            if (response.success) {
+                setAgents(response.data.agents || []);
+                setUnassignedCount(response.data.unassigned || 0);
+            }
+        } catch (error) {
+            console.error('Error fetching workload:', error);
+        }
+    };
+
+    const toggleSelected = (ticketId: string) => {
+        setSelectedIds(prev => {
+            const next = new Set(prev);
+            if (next.has(ticketId)) {
+                next.delete(ticketId);
+            } else {
+                next.add(ticketId);
+            }
+            return next;
+        });
+    };
+
+    const handleBulkAssign = async () => {
+        if (selectedIds.size === 0) return;
+
+        try {
+            const response = await backendApi.employee.bulkAssign(
+                Array.from(selectedIds),
+                bulkAssignee || undefined
+            );
+
+            if (!response.success) {
+                toast.error(response.error || 'Failed to assign tickets');
+                return;
+            }
+
+            const { tickets: assigned, skipped } = response.data;
+            toast.success(`${assigned.length} ticket(s) assigned`);
+            if (skipped.length > 0) {
+                toast.error(`${skipped.length} ticket(s) skipped`);
+            }
+
+            setSelectedIds(new Set());
+            fetchTickets();
+            fetchStats();
+            fetchWorkload();
+        } catch (error) {
+            console.error('Error assigning tickets:', error);
+            toast.error('Failed to assign tickets');
+        }
+    };
+
     const handleAssignTicket = async (ticketId: string) => {
         if (!socket || !connected) {
             toast.error('Not connected to server');
@@ -157,6 +281,19 @@ export default function EmployeeChatDashboard() {
         }
     };
 
+    const getPriorityBadge = (priority: string = 'medium') => {
+        switch (priority) {
+            case 'urgent':
+                return 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200';
+            case 'high':
+                return 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200';
+            case 'low':
+                return 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300';
+            default:
+                return 'bg-sky-100 text-sky-800 dark:bg-sky-900 dark:text-sky-200';
+        }
+    };
+
     const filteredTickets = tickets.filter(ticket =>
         ticket.problem.toLowerCase().includes(searchQuery.toLowerCase()) ||
         ticket.categoryTitle.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -223,6 +360,11 @@ export default function EmployeeChatDashboard() {
                                     {stats.totalAssigned}
                                 </p>
                                 <p className="text-xs text-purple-700 dark:text-purple-300">Total Assigned</p>
+                                {stats.csat?.averageRating != null && (
+                                    <p className="text-xs font-medium text-purple-700 dark:text-purple-300">
+                                        ⭐ {stats.csat.averageRating} CSAT ({stats.csat.ratings})
+                                    </p>
+                                )}
                             </div>
                         </div>
                     </div>
@@ -236,13 +378,51 @@ export default function EmployeeChatDashboard() {
                                 <p className="text-2xl font-bold text-orange-900 dark:text-orange-100">
                                     {stats.averageResponseTime}m
                                 </p>
-                                <p className="text-xs text-orange-700 dark:text-orange-300">Avg Response</p>
+                                <p className="text-xs text-orange-700 dark:text-orange-300">
+                                    Avg First Response
+                                    {stats.sla?.firstResponse.metPercent != null && ` · ${stats.sla.firstResponse.metPercent}% in SLA`}
+                                </p>
+                                {!!stats.sla?.breachedActive && (
+                                    <p className="text-xs font-medium text-red-600 dark:text-red-400">
+                                        {stats.sla.breachedActive} past SLA
+                                    </p>
+                                )}
                             </div>
                         </div>
                     </div>
                 </div>
             </div>
 
+            {/* Team Workload */}
+            {agents.length > 0 && (
+                <div className="bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700 px-6 py-3">
+                    <div className="flex items-center gap-3 overflow-x-auto">
+                        <span className="text-xs font-semibold text-gray-500 uppercase whitespace-nowrap">
+                            Team Workload
+                        </span>
+                        <span className="px-2 py-1 bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 rounded text-xs whitespace-nowrap">
+                            {unassignedCount} unassigned
+                        </span>
+                        {agents.map(agent => (
+                            <div
+                                key={agent.agentId}
+                                className="flex items-center gap-2 px-3 py-1 bg-gray-50 dark:bg-gray-700 rounded-lg text-xs whitespace-nowrap"
+                                title={`${agent.assigned} assigned · ${agent.inProgress} in progress · ${agent.resolvedToday} resolved today`}
+                            >
+                                <PresenceIndicator userId={agent.agentId} size="sm" />
+                                <span className="font-medium text-gray-900 dark:text-white">
+                                    {agent.agentId === user?.uid ? 'You' : agent.agentName}
+                                </span>
+                                <span className="text-gray-500">{agent.activeTickets} active</span>
+                                {agent.byPriority.urgent > 0 && (
+                                    <span className="text-red-600 dark:text-red-400">{agent.byPriority.urgent} urgent</span>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
             {/* Filters and Search */}
             <div className="bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700 px-6 py-3">
                 <div className="flex items-center gap-4">
@@ -263,6 +443,31 @@ export default function EmployeeChatDashboard() {
                         </select>
                     </div>
 
+                    {/* Category Filter */}
+                    <select
+                        value={categoryFilter}
+                        onChange={(e) => setCategoryFilter(e.target.value)}
+                        className="px-3 py-2 bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                        <option value="all">All Categories</option>
+                        {knownCategories.map(category => (
+                            <option key={category} value={category}>{category}</option>
+                        ))}
+                    </select>
+
+                    {/* Priority Filter */}
+                    <select
+                        value={priorityFilter}
+                        onChange={(e) => setPriorityFilter(e.target.value)}
+                        className="px-3 py-2 bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                        <option value="all">All Priorities</option>
+                        <option value="urgent">Urgent</option>
+                        <option value="high">High</option>
+                        <option value="medium">Medium</option>
+                        <option value="low">Low</option>
+                    </select>
+
                     {/* Search */}
                     <div className="flex-1 relative">
                         <Search size={18} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
@@ -275,6 +480,43 @@ export default function EmployeeChatDashboard() {
                         />
                     </div>
                 </div>
+
+                {/* Bulk Actions */}
+                {selectedIds.size > 0 && (
+                    <div className="flex items-center gap-3 mt-3 px-3 py-2 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg">
+                        <span className="text-sm font-medium text-blue-900 dark:text-blue-100">
+                            {selectedIds.size} selected
+                        </span>
+                        <select
+                            value={bulkAssignee}
+                            onChange={(e) => setBulkAssignee(e.target.value)}
+                            className="px-3 py-1 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                            <option value="">Assign to me</option>
+                            {agents
+                                .filter(agent => agent.agentId !== user?.uid)
+                                .map(agent => (
+                                    <option key={agent.agentId} value={agent.agentId}>
+                                        {agent.agentName} ({agent.activeTickets} active)
+                                    </option>
+                                ))}
+                        </select>
+                        <button
+                            onClick={handleBulkAssign}
+                            className="flex items-center gap-1 px-3 py-1 bg-blue-500 hover:bg-blue-600 text-white text-sm rounded transition-colors"
+                        >
+                            <UserCheck size={16} />
+                            Assign
+                        </button>
+                        <button
+                            onClick={() => setSelectedIds(new Set())}
+                            className="ml-auto p-1 text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+                            title="Clear selection"
+                        >
+                            <X size={16} />
+                        </button>
+                    </div>
+                )}
             </div>
 
             {/* Ticket List */}
@@ -303,6 +545,15 @@ export default function EmployeeChatDashboard() {
                             >
                                 <div className="flex items-start justify-between mb-3">
                                     <div className="flex items-center gap-2">
+                                        {!['resolved', 'closed'].includes(ticket.status) && (
+                                            <input
+                                                type="checkbox"
+                                                checked={selectedIds.has(ticket._id)}
+                                                onClick={(e) => e.stopPropagation()}
+                                                onChange={() => toggleSelected(ticket._id)}
+                                                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                                            />
+                                        )}
                                         <span
                                             className={`px-2 py-1 rounded-full text-xs font-medium ${getPriorityColor(
                                                 ticket.status
@@ -310,6 +561,13 @@ export default function EmployeeChatDashboard() {
                                         >
                                             {ticket.status.replace('_', ' ')}
                                         </span>
+                                        <span
+                                            className={`px-2 py-1 rounded-full text-xs font-medium capitalize ${getPriorityBadge(
+                                                ticket.priority
+                                            )}`}
+                                        >
+                                            {ticket.priority || 'medium'}
+                                        </span>
                                         <PresenceIndicator userId={ticket.userId} size="sm" />
                                     </div>
                                     <span className="text-xs text-gray-500">
@@ -11,6 +11,18 @@ interface MapViewProps {
     searchBounds?: boolean
 }
 
+// Listings may carry flat latitude/longitude or a GeoJSON location ([lng, lat])
+const getCoordinates = (property: any): { lat: number; lng: number } | null => {
+    if (property.latitude && property.longitude) {
+        return { lat: property.latitude, lng: property.longitude }
+    }
+    const coordinates = property.location?.coordinates
+    if (Array.isArray(coordinates) && coordinates.length === 2) {
+        return { lat: coordinates[1], lng: coordinates[0] }
+    }
+    return null
+}
+
 // Declare Mappls global types
 declare global {
     interface Window {
@@ -111,7 +123,8 @@ export default function MapView({
         const newMarkers: any[] = []
 
         properties.forEach(property => {
-            if (!property.latitude || !property.longitude) return
+            const position = getCoordinates(property)
+            if (!position) return
 
             try {
                 // Create custom marker HTML
@@ -128,7 +141,7 @@ export default function MapView({
                 // Create marker
                 const marker = new window.mappls.Marker({
                     map: map,
-                    position: { lat: property.latitude, lng: property.longitude },
+                    position,
                     title: property.title,
                     html: markerElement.innerHTML,
                     width: 40,
@@ -154,7 +167,7 @@ export default function MapView({
                         closeOnClick: true,
                         maxWidth: '300px'
                     })
-                        .setLngLat([property.longitude, property.latitude])
+                        .setLngLat([position.lng, position.lat])
                         .setHTML(popupContent)
                         .addTo(map)
 
@@ -182,8 +195,9 @@ export default function MapView({
             const bounds = new window.mappls.LatLngBounds()
 
             properties.forEach(property => {
-                if (property.latitude && property.longitude) {
-                    bounds.extend([property.latitude, property.longitude])
+                const position = getCoordinates(property)
+                if (position) {
+                    bounds.extend([position.lat, position.lng])
                 }
             })
 
@@ -24,7 +24,7 @@ function formatDistanceToNow(date: Date): string {
 
 export default function NotificationDropdown() {
     const [isOpen, setIsOpen] = useState(false)
-    const { notifications, unreadCount, loading, markAsRead, markAllAsRead } = useNotifications()
+    const { notifications, unreadCount, loading, markAsRead, markAllAsRead, deleteNotification } = useNotifications()
     const dropdownRef = useRef<HTMLDivElement>(null)
 
     // Close dropdown when clicking outside
@@ -181,6 +181,17 @@ export default function NotificationDropdown() {
                                                     {formatDistanceToNow(new Date(notification.createdAt))}
                                                 </p>
                                             </div>
+
+                                            <button
+                                                onClick={(e) => {
+                                                    e.stopPropagation()
+                                                    deleteNotification(notification.id)
+                                                }}
+                                                className="flex-shrink-0 p-1 text-gray-400 hover:text-red-500 rounded transition-colors"
+                                                title="Delete notification"
+                                            >
+                                                <Trash2 size={14} />
+                                            </button>
                                         </div>
                                     </div>
                                 ))}
@@ -25,12 +25,12 @@ import {
   Info,
   Tag
 } from 'lucide-react'
-import { initiateRazorpayPayment, PaymentData } from '@/lib/razorpay'
 import QRCodeGenerator from '@/components/ui/QRCodeGenerator'
 import { processPaymentAPI, sendPaymentConfirmationAPI } from '@/lib/payment-api'
-import { backendApi } from '@/lib/backendApi'
 
 interface PaymentFormProps {
+  // Id in PAYMENT_SERVICES; the backend charges that service's price
+  serviceId: string
   amount: number
   serviceName: string
   userDetails: {
@@ -44,6 +44,7 @@ interface PaymentFormProps {
 }
 
 export default function PaymentForm({
+  serviceId,
   amount,
   serviceName,
   userDetails,
@@ -337,82 +338,28 @@ export default function PaymentForm({
         user: userDetails.name
       })
 
-      // Create payment order first
-      console.log('📝 Creating payment order...')
-      const orderData = await backendApi.payments.createOrder(
-        amount * 100, // Convert to paise
-        selectedMethod,
-        {
-          service: serviceName,
-          customer: userDetails.name,
-          email: userDetails.email,
-          phone: userDetails.phone,
-          method: selectedMethod
-        }
-      )
-
-      if (!orderData.success) {
-        throw new Error(orderData.error || 'Failed to create payment order')
-      }
-
-      console.log('✅ Order created successfully:', orderData.order.id)
-
-      // Process payment based on selected method
-      console.log(`💳 Processing ${selectedMethod.toUpperCase()} payment...`)
-      let paymentResult
-
-      switch (selectedMethod) {
-        case 'upi':
-          paymentResult = await processUPIPayment(orderData.order, upiId)
-          break
-        case 'card':
-          paymentResult = await processCardPayment(orderData.order, cardData)
-          break
-        case 'netbanking':
-          paymentResult = await processNetBankingPayment(orderData.order, selectedBank)
-          break
-        case 'wallet':
-          paymentResult = await processWalletPayment(orderData.order, selectedWallet)
-          break
-        case 'qr':
-          paymentResult = await processQRPayment(orderData.order)
-          break
-        default:
-          throw new Error('Invalid payment method selected')
-      }
-
-      console.log('💰 Payment processed:', paymentResult.paymentId)
-
-      // Verify payment on backend
-      console.log('🔍 Verifying payment...')
-      const verificationData = await backendApi.payments.verify({
-        razorpay_order_id: paymentResult.orderId,
-        razorpay_payment_id: paymentResult.paymentId,
-        razorpay_signature: paymentResult.signature
+      // Order (priced by the server), checkout and signature verification
+      console.log('📝 Creating payment order and opening checkout...')
+      const paymentResult = await processPaymentAPI({
+        serviceId,
+        serviceName,
+        // Scan-to-pay is a UPI payment in checkout
+        paymentMethod: selectedMethod === 'qr' ? 'upi' : selectedMethod,
+        userDetails
       })
 
-      if (!verificationData.success) {
-        throw new Error(verificationData.error || 'Payment verification failed')
-      }
-
-      console.log('✅ Payment verified:', verificationData)
-
-      if (verificationData.success) {
-        // Payment successful
-        console.log('🎉 Payment completed successfully!')
-        onPaymentSuccess({
-          transactionId: paymentResult.paymentId,
-          orderId: paymentResult.orderId,
-          signature: paymentResult.signature,
-          method: selectedMethod,
-          amount: amount,
-          status: 'success',
-          timestamp: new Date().toISOString(),
-          userDetails: userDetails
-        })
-      } else {
-        throw new Error('Payment verification failed')
-      }
+      console.log('🎉 Payment completed successfully!')
+      onPaymentSuccess({
+        transactionId: paymentResult.transactionId,
+        ledgerTransactionId: paymentResult.ledgerTransactionId,
+        orderId: paymentResult.orderId,
+        signature: paymentResult.signature,
+        method: selectedMethod,
+        amount: paymentResult.amount,
+        status: 'success',
+        timestamp: paymentResult.timestamp,
+        userDetails: userDetails
+      })
 
     } catch (error) {
       console.error('❌ Payment processing error:', error)
@@ -423,113 +370,6 @@ export default function PaymentForm({
     }
   }
 
-  // Custom payment processing functions for each method
-  const processUPIPayment = async (orderData: any, upiId: string) => {
-    console.log('🔄 Processing UPI payment for:', upiId)
-
-    // Simulate UPI payment processing with realistic delay
-    await new Promise(resolve => setTimeout(resolve, 2000))
-
-    // In real implementation, this would integrate with UPI APIs
-    const paymentId = 'pay_upi_' + Date.now() + Math.random().toString(36).substring(2, 8)
-    const signature = generateSignature(orderData.id, paymentId)
-
-    console.log('✅ UPI payment processed successfully')
-
-    return {
-      paymentId,
-      orderId: orderData.id,
-      signature,
-      method: 'upi',
-      upiId
-    }
-  }
-
-  const processCardPayment = async (orderData: any, cardData: any) => {
-    console.log('💳 Processing card payment for:', cardData.number.slice(-4))
-
-    // Simulate card payment processing with realistic delay
-    await new Promise(resolve => setTimeout(resolve, 3000))
-
-    // In real implementation, this would integrate with card processing APIs
-    const paymentId = 'pay_card_' + Date.now() + Math.random().toString(36).substring(2, 8)
-    const signature = generateSignature(orderData.id, paymentId)
-
-    console.log('✅ Card payment processed successfully')
-
-    return {
-      paymentId,
-      orderId: orderData.id,
-      signature,
-      method: 'card',
-      cardLast4: cardData.number.slice(-4)
-    }
-  }
-
-  const processNetBankingPayment = async (orderData: any, bankName: string) => {
-    console.log('🏦 Processing net banking payment for:', bankName)
-
-    // Simulate net banking payment processing with realistic delay
-    await new Promise(resolve => setTimeout(resolve, 4000))
-
-    const paymentId = 'pay_nb_' + Date.now() + Math.random().toString(36).substring(2, 8)
-    const signature = generateSignature(orderData.id, paymentId)
-
-    console.log('✅ Net banking payment processed successfully')
-
-    return {
-      paymentId,
-      orderId: orderData.id,
-      signature,
-      method: 'netbanking',
-      bank: bankName
-    }
-  }
-
-  const processWalletPayment = async (orderData: any, walletName: string) => {
-    console.log('📱 Processing wallet payment for:', walletName)
-
-    // Simulate wallet payment processing with realistic delay
-    await new Promise(resolve => setTimeout(resolve, 2000))
-
-    const paymentId = 'pay_wallet_' + Date.now() + Math.random().toString(36).substring(2, 8)
-    const signature = generateSignature(orderData.id, paymentId)
-
-    console.log('✅ Wallet payment processed successfully')
-
-    return {
-      paymentId,
-      orderId: orderData.id,
-      signature,
-      method: 'wallet',
-      wallet: walletName
-    }
-  }
-
-  const processQRPayment = async (orderData: any) => {
-    console.log('📱 Processing QR payment...')
-
-    // Simulate QR payment processing with realistic delay
-    await new Promise(resolve => setTimeout(resolve, 2500))
-
-    const paymentId = 'pay_qr_' + Date.now() + Math.random().toString(36).substring(2, 8)
-    const signature = generateSignature(orderData.id, paymentId)
-
-    console.log('✅ QR payment processed successfully')
-
-    return {
-      paymentId,
-      orderId: orderData.id,
-      signature,
-      method: 'qr'
-    }
-  }
-
-  const generateSignature = (orderId: string, paymentId: string) => {
-    // In real implementation, this would be done on backend with your Razorpay secret
-    return 'sig_' + btoa(orderId + '|' + paymentId).substring(0, 20)
-  }
-
   const isFormValid = () => {
     // Check user details first
     if (!userDetails.name.trim() || !userDetails.email.trim() || !userDetails.phone.trim()) {
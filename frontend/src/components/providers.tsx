@@ -10,6 +10,7 @@ import { FavoritesProvider } from '@/contexts/FavoritesContext'
 import { PaymentProvider } from '@/contexts/PaymentContext'
 import { SellerSubscriptionProvider } from '@/contexts/SellerSubscriptionContext'
 import { SocketProvider } from '@/contexts/SocketContext'
+import { NotificationProvider } from '@/contexts/NotificationContext'
 import { LocaleProvider } from '@/contexts/LocaleContext'
 import { ToastProvider } from '@/components/Toast/ToastProvider'
 import LoadingScreen from './LoadingScreen'
@@ -34,9 +35,11 @@ export function Providers({ children }: { children: React.ReactNode }) {
                 <PaymentProvider>
                   <SellerSubscriptionProvider>
                     <SocketProvider>
-                      <ToastProvider>
-                        {children}
-                      </ToastProvider>
+                      <NotificationProvider>
+                        <ToastProvider>
+                          {children}
+                        </ToastProvider>
+                      </NotificationProvider>
                     </SocketProvider>
                   </SellerSubscriptionProvider>
                 </PaymentProvider>
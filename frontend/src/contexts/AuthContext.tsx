@@ -27,6 +27,7 @@ interface AuthContextType {
   loginWithPhone: (phoneNumber: string) => Promise<any>
   logout: () => Promise<void>
   resetPassword: (email: string) => Promise<void>
+  confirmPasswordReset: (token: string, newPassword: string) => Promise<void>
   updateUserProfile: (displayName: string, photoURL?: string) => Promise<void>
   sendVerificationEmail: () => Promise<void>
 }
@@ -119,7 +120,19 @@ export const AuthProvider = ({
   // Verify token with backend
   const verifyTokenWithBackend = async (token: string) => {
     try {
-      const response = await backendApi.auth.verifyToken(token)
+      let response = await backendApi.auth.verifyToken(token)
+
+      // Access tokens are short-lived; try the refresh token before giving up
+      const refreshToken = localStorage.getItem('refresh_token')
+      if (!response.success && refreshToken) {
+        const refreshed = await backendApi.auth.refreshToken(refreshToken)
+        if (refreshed.success) {
+          localStorage.setItem('auth_token', refreshed.data.token)
+          localStorage.setItem('refresh_token', refreshed.data.refreshToken)
+          response = await backendApi.auth.verifyToken(refreshed.data.token)
+        }
+      }
+
       if (response.success && response.data) {
         const userData = response.data.user
         setUser(userData)
@@ -127,11 +140,13 @@ export const AuthProvider = ({
       } else {
         // Invalid token, clear it
         localStorage.removeItem('auth_token')
+        localStorage.removeItem('refresh_token')
         AuthUtils.clearCache()
       }
     } catch (error) {
       console.error('Token verification error:', error)
       localStorage.removeItem('auth_token')
+      localStorage.removeItem('refresh_token')
       AuthUtils.clearCache()
     } finally {
       setLoading(false)
@@ -149,8 +164,9 @@ export const AuthProvider = ({
       }
 
       // Store token and user data
-      const { token, user: userData } = response.data
+      const { token, refreshToken, user: userData } = response.data
       localStorage.setItem('auth_token', token)
+      localStorage.setItem('refresh_token', refreshToken)
 
       // Cache user data
       AuthUtils.cacheUser(userData)
@@ -186,8 +202,9 @@ export const AuthProvider = ({
       }
 
       // Store token and user data
-      const { token, user: userData } = response.data
+      const { token, refreshToken, user: userData } = response.data
       localStorage.setItem('auth_token', token)
+      localStorage.setItem('refresh_token', refreshToken)
 
       // Cache user data
       AuthUtils.cacheUser(userData)
@@ -232,6 +249,7 @@ export const AuthProvider = ({
     } finally {
       // Clear local data regardless of backend response
       localStorage.removeItem('auth_token')
+      localStorage.removeItem('refresh_token')
       AuthUtils.clearCache()
       setUser(null)
 
@@ -256,6 +274,22 @@ export const AuthProvider = ({
     }
   }
 
+  // Complete password reset with the token from the email link
+  const confirmPasswordReset = async (token: string, newPassword: string) => {
+    try {
+      const response = await backendApi.auth.resetPassword(token, newPassword)
+
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to reset password')
+      }
+
+      toast.success('Password updated! Please sign in.')
+    } catch (error: any) {
+      console.error('Confirm password reset error:', error)
+      throw new Error(error.message || 'Failed to reset password')
+    }
+  }
+
   // Update User Profile
   const updateUserProfile = async (displayName: string, photoURL?: string) => {
     try {
@@ -300,6 +334,7 @@ export const AuthProvider = ({
     loginWithPhone,
     logout,
     resetPassword,
+    confirmPasswordReset,
     updateUserProfile,
     sendVerificationEmail,
   }
@@ -1,8 +1,10 @@
 'use client'
 
-import { createContext, useContext, useState, useEffect, ReactNode, useCallback } from 'react'
+import { createContext, useContext, useState, useEffect, useRef, ReactNode, useCallback } from 'react'
 import toast from 'react-hot-toast'
 import { backendApi } from '@/lib/backendApi'
+import { useAuth } from './AuthContext'
+import { useSocket } from './SocketContext'
 
 interface Notification {
     id: string
@@ -23,8 +25,12 @@ interface NotificationContextType {
     markAsRead: (notificationId: string) => Promise<void>
     markAllAsRead: () => Promise<void>
     createNotification: (notification: Partial<Notification>) => Promise<void>
+    deleteNotification: (notificationId: string) => Promise<void>
 }
 
+// Polling interval while the socket is disconnected
+const POLL_INTERVAL_MS = 30000
+
 const NotificationContext = createContext<NotificationContextType>({} as NotificationContextType)
 
 export const useNotifications = () => {
@@ -36,12 +42,30 @@ export const useNotifications = () => {
 }
 
 export const NotificationProvider = ({ children }: { children: ReactNode }) => {
+    const { user } = useAuth()
+    const { socket, connected } = useSocket()
     const [notifications, setNotifications] = useState<Notification[]>([])
     const [unreadCount, setUnreadCount] = useState(0)
     const [loading, setLoading] = useState(false)
+    // Latest list for socket handlers; its first entry is the ?after= cursor for polling
+    const notificationsRef = useRef<Notification[]>([])
+
+    useEffect(() => {
+        notificationsRef.current = notifications
+    }, [notifications])
+
+    // Add notifications we don't have yet, keeping newest first
+    const mergeNew = useCallback((incoming: Notification[]) => {
+        setNotifications(prev => {
+            const known = new Set(prev.map(n => n.id))
+            return [...incoming.filter(n => !known.has(n.id)), ...prev]
+        })
+    }, [])
 
     // Fetch notifications from API
     const fetchNotifications = useCallback(async () => {
+        if (!user) return
+
         try {
             setLoading(true)
 
@@ -56,7 +80,27 @@ export const NotificationProvider = ({ children }: { children: ReactNode }) => {
         } finally {
             setLoading(false)
         }
-    }, [])
+    }, [user])
+
+    // Fetch only what arrived since the newest notification we have
+    const pollNotifications = useCallback(async () => {
+        const newestId = notificationsRef.current[0]?.id
+        if (!newestId) return fetchNotifications()
+
+        try {
+            const response = await backendApi.notifications.getAll({ after: newestId })
+
+            if (response.success) {
+                mergeNew(response.data.notifications || [])
+                setUnreadCount(response.data.unreadCount || 0)
+            } else {
+                // Our newest notification was deleted; start over
+                await fetchNotifications()
+            }
+        } catch (error) {
+            console.error('Error polling notifications:', error)
+        }
+    }, [fetchNotifications, mergeNew])
 
     // Mark notification as read
     const markAsRead = useCallback(async (notificationId: string) => {
@@ -70,7 +114,7 @@ export const NotificationProvider = ({ children }: { children: ReactNode }) => {
                         notif.id === notificationId ? { ...notif, read: true } : notif
                     )
                 )
-                setUnreadCount(prev => Math.max(0, prev - 1))
+                setUnreadCount(response.data.unreadCount ?? 0)
             }
         } catch (error) {
             console.error('Error marking notification as read:', error)
@@ -108,28 +152,91 @@ export const NotificationProvider = ({ children }: { children: ReactNode }) => {
                 metadata: notification.metadata,
             })
 
-            if (response.success) {
-                // Refresh notifications
-                await fetchNotifications()
+            // Delivered by the socket when connected; otherwise fetch it now
+            if (response.success && !connected) {
+                await pollNotifications()
             }
         } catch (error) {
             console.error('Error creating notification:', error)
         }
-    }, [fetchNotifications])
+    }, [connected, pollNotifications])
 
-    // Fetch notifications on mount
-    useEffect(() => {
-        fetchNotifications()
-    }, [fetchNotifications])
+    // Delete notification
+    const deleteNotification = useCallback(async (notificationId: string) => {
+        try {
+            const response = await backendApi.notifications.delete(notificationId)
+
+            if (response.success) {
+                setNotifications(prev => prev.filter(notif => notif.id !== notificationId))
+                setUnreadCount(response.data.unreadCount ?? 0)
+            }
+        } catch (error) {
+            console.error('Error deleting notification:', error)
+        }
+    }, [])
 
-    // Poll for new notifications every 30 seconds
+    // Fetch notifications on login, clear them on logout
     useEffect(() => {
-        const interval = setInterval(() => {
+        if (user) {
             fetchNotifications()
-        }, 30000) // 30 seconds
+        } else {
+            setNotifications([])
+            setUnreadCount(0)
+        }
+    }, [user, fetchNotifications])
+
+    // Real-time delivery to this user's sessions
+    useEffect(() => {
+        if (!socket) return
+
+        const isUnread = (id?: string) => notificationsRef.current.some(n => n.id === id && !n.read)
+
+        const handleNew = ({ notification }: { notification: Notification }) => {
+            if (notificationsRef.current.some(n => n.id === notification.id)) return
+            mergeNew([notification])
+            setUnreadCount(count => count + 1)
+        }
+
+        // Read or deleted in another tab (or echoed back to this one)
+        const handleRead = (data: { id?: string; all?: boolean }) => {
+            const wasUnread = isUnread(data.id)
+            setNotifications(prev => prev.map(n => (data.all || n.id === data.id) ? { ...n, read: true } : n))
+            if (data.all) {
+                setUnreadCount(0)
+            } else if (wasUnread) {
+                setUnreadCount(count => Math.max(0, count - 1))
+            }
+        }
+
+        const handleDeleted = ({ id }: { id: string }) => {
+            const wasUnread = isUnread(id)
+            setNotifications(prev => prev.filter(n => n.id !== id))
+            if (wasUnread) setUnreadCount(count => Math.max(0, count - 1))
+        }
+
+        socket.on('notification:new', handleNew)
+        socket.on('notification:read', handleRead)
+        socket.on('notification:deleted', handleDeleted)
+
+        return () => {
+            socket.off('notification:new', handleNew)
+            socket.off('notification:read', handleRead)
+            socket.off('notification:deleted', handleDeleted)
+        }
+    }, [socket, mergeNew])
+
+    // Catch up after (re)connecting, and poll while the socket is down
+    useEffect(() => {
+        if (!user) return
+
+        if (connected) {
+            pollNotifications()
+            return
+        }
 
+        const interval = setInterval(pollNotifications, POLL_INTERVAL_MS)
         return () => clearInterval(interval)
-    }, [fetchNotifications])
+    }, [user, connected, pollNotifications])
 
     const value = {
         notifications,
@@ -139,6 +246,7 @@ export const NotificationProvider = ({ children }: { children: ReactNode }) => {
         markAsRead,
         markAllAsRead,
         createNotification,
+        deleteNotification,
     }
 
     return (
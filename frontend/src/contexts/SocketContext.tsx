@@ -12,25 +12,43 @@ interface Message {
     senderEmail: string;
     content: string;
     type: 'text' | 'image' | 'file';
-    read: boolean;
     createdAt: string;
 }
 
+// Reactions on a message, grouped by emoji (sent with messages and message_reactions_updated)
+export interface ReactionSummary {
+    emoji: string;
+    count: number;
+    userIds: string[];
+}
+
+// A participant's read cursor (sent with messages_read and GET .../messages)
+export interface ReadReceipt {
+    userId: string;
+    lastReadMessageId: string;
+    lastReadAt: string;
+    readAt: string;
+}
+
 interface SocketContextType {
     socket: Socket | null;
     connected: boolean;
     joinConversation: (conversationId: string) => void;
     leaveConversation: (conversationId: string) => void;
-    sendMessage: (conversationId: string, content: string) => void;
+    sendMessage: (conversationId: string, content: string, replyToId?: string) => void;
+    sendAttachment: (conversationId: string, attachmentId: string, content: string, replyToId?: string) => void;
     sendTyping: (conversationId: string, isTyping: boolean) => void;
-    markAsRead: (conversationId: string) => void;
+    markAsRead: (conversationId: string, messageId?: string) => void;
     editMessage: (messageId: string, content: string) => void;
     deleteMessage: (messageId: string) => void;
+    toggleReaction: (messageId: string, emoji: string) => void;
+    forwardMessage: (messageId: string, conversationId: string) => void;
     onNewMessage: (callback: (message: Message) => void) => (() => void) | undefined;
     onTyping: (callback: (data: { userId: string; isTyping: boolean }) => void) => (() => void) | undefined;
-    onMessagesRead: (callback: (data: { conversationId: string; userId: string }) => void) => (() => void) | undefined;
+    onMessagesRead: (callback: (data: ReadReceipt & { conversationId: string }) => void) => (() => void) | undefined;
     onMessageEdited: (callback: (message: Message) => void) => (() => void) | undefined;
     onMessageDeleted: (callback: (data: { id: string; conversationId: string }) => void) => (() => void) | undefined;
+    onReactionsUpdated: (callback: (data: { id: string; conversationId: string; reactions: ReactionSummary[] }) => void) => (() => void) | undefined;
 }
 
 const SocketContext = createContext<SocketContextType | null>(null);
@@ -112,12 +130,25 @@ export function SocketProvider({ children }: { children: React.ReactNode }) {
         }
     }, [socket, connected]);
 
-    const sendMessage = useCallback((conversationId: string, content: string) => {
+    const sendMessage = useCallback((conversationId: string, content: string, replyToId?: string) => {
         if (socket && connected) {
             socket.emit('send_message', {
                 conversationId,
                 content,
                 type: 'text',
+                replyToId,
+            });
+        }
+    }, [socket, connected]);
+
+    // Type and file details are filled in by the server from the upload
+    const sendAttachment = useCallback((conversationId: string, attachmentId: string, content: string, replyToId?: string) => {
+        if (socket && connected) {
+            socket.emit('send_message', {
+                conversationId,
+                content,
+                attachmentId,
+                replyToId,
             });
         }
     }, [socket, connected]);
@@ -128,9 +159,9 @@ export function SocketProvider({ children }: { children: React.ReactNode }) {
         }
     }, [socket, connected]);
 
-    const markAsRead = useCallback((conversationId: string) => {
+    const markAsRead = useCallback((conversationId: string, messageId?: string) => {
         if (socket && connected) {
-            socket.emit('mark_as_read', { conversationId });
+            socket.emit('mark_as_read', { conversationId, messageId });
         }
     }, [socket, connected]);
 
@@ -154,7 +185,7 @@ export function SocketProvider({ children }: { children: React.ReactNode }) {
         return undefined;
     }, [socket]);
 
-    const onMessagesRead = useCallback((callback: (data: { conversationId: string; userId: string }) => void) => {
+    const onMessagesRead = useCallback((callback: (data: ReadReceipt & { conversationId: string }) => void) => {
         if (socket) {
             socket.on('messages_read', callback);
             return () => {
@@ -176,6 +207,19 @@ export function SocketProvider({ children }: { children: React.ReactNode }) {
         }
     }, [socket, connected]);
 
+    // Adds the emoji, or removes it if this user already reacted with it
+    const toggleReaction = useCallback((messageId: string, emoji: string) => {
+        if (socket && connected) {
+            socket.emit('toggle_reaction', { messageId, emoji });
+        }
+    }, [socket, connected]);
+
+    const forwardMessage = useCallback((messageId: string, conversationId: string) => {
+        if (socket && connected) {
+            socket.emit('forward_message', { messageId, conversationId });
+        }
+    }, [socket, connected]);
+
     const onMessageEdited = useCallback((callback: (message: Message) => void) => {
         if (socket) {
             socket.on('message_edited', callback);
@@ -196,21 +240,35 @@ export function SocketProvider({ children }: { children: React.ReactNode }) {
         return undefined;
     }, [socket]);
 
+    const onReactionsUpdated = useCallback((callback: (data: { id: string; conversationId: string; reactions: ReactionSummary[] }) => void) => {
+        if (socket) {
+            socket.on('message_reactions_updated', callback);
+            return () => {
+                socket.off('message_reactions_updated', callback);
+            };
+        }
+        return undefined;
+    }, [socket]);
+
     const value: SocketContextType = {
         socket,
         connected,
         joinConversation,
         leaveConversation,
         sendMessage,
+        sendAttachment,
         sendTyping,
         markAsRead,
         editMessage,
         deleteMessage,
+        toggleReaction,
+        forwardMessage,
         onNewMessage,
         onTyping,
         onMessagesRead,
         onMessageEdited,
         onMessageDeleted,
+        onReactionsUpdated,
     };
 
     return (
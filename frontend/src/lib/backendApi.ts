@@ -20,10 +20,54 @@ async function getAuthToken(): Promise<string | null> {
     }
 }
 
+let refreshInFlight: Promise<boolean> | null = null;
+
+/**
+ * Exchange the stored refresh token for a new token pair.
+ * Concurrent callers share one request so the refresh token is only rotated once.
+ */
+async function refreshAccessToken(): Promise<boolean> {
+    if (typeof window === 'undefined') return false;
+
+    const refreshToken = localStorage.getItem('refresh_token');
+    if (!refreshToken) return false;
+
+    if (!refreshInFlight) {
+        refreshInFlight = (async () => {
+            try {
+                const response = await fetch(`${API_BASE_URL}/auth/refresh-token`, {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ refreshToken }),
+                });
+                const result = await response.json();
+
+                if (!response.ok || !result.success) {
+                    localStorage.removeItem('auth_token');
+                    localStorage.removeItem('refresh_token');
+                    return false;
+                }
+
+                localStorage.setItem('auth_token', result.data.token);
+                localStorage.setItem('refresh_token', result.data.refreshToken);
+                return true;
+            } catch (error) {
+                console.error('Error refreshing auth token:', error);
+                return false;
+            } finally {
+                refreshInFlight = null;
+            }
+        })();
+    }
+
+    return refreshInFlight;
+}
+
 /**
- * Make authenticated API call to backend
+ * Make authenticated API call to backend.
+ * On a 401 the access token is refreshed once and the request retried.
  */
-async function backendApiCall(endpoint: string, options: RequestInit = {}) {
+async function backendApiCall(endpoint: string, options: RequestInit = {}, retryOnUnauthorized = true): Promise<any> {
     const token = await getAuthToken();
 
     const headers: Record<string, string> = {
@@ -40,6 +84,10 @@ async function backendApiCall(endpoint: string, options: RequestInit = {}) {
         headers,
     });
 
+    if (response.status === 401 && token && retryOnUnauthorized && await refreshAccessToken()) {
+        return backendApiCall(endpoint, options, false);
+    }
+
     return await response.json();
 }
 
@@ -65,26 +113,34 @@ export const backendApi = {
             return backendApiCall('/auth/login', {
                 method: 'POST',
                 body: JSON.stringify({ email, password }),
-            });
+            }, false);
         },
 
         verifyToken: async (token: string) => {
             return backendApiCall('/auth/verify-token', {
                 method: 'POST',
                 body: JSON.stringify({ token }),
-            });
+            }, false);
         },
 
         refreshToken: async (refreshToken: string) => {
             return backendApiCall('/auth/refresh-token', {
                 method: 'POST',
                 body: JSON.stringify({ refreshToken }),
-            });
+            }, false);
         },
 
         logout: async () => {
+            const refreshToken = typeof window !== 'undefined' ? localStorage.getItem('refresh_token') : null;
             return backendApiCall('/auth/logout', {
                 method: 'POST',
+                body: JSON.stringify({ refreshToken }),
+            }, false);
+        },
+
+        logoutAll: async () => {
+            return backendApiCall('/auth/logout-all', {
+                method: 'POST',
             });
         },
 
@@ -94,6 +150,13 @@ export const backendApi = {
                 body: JSON.stringify({ email }),
             });
         },
+
+        resetPassword: async (token: string, password: string) => {
+            return backendApiCall('/auth/reset-password', {
+                method: 'POST',
+                body: JSON.stringify({ token, password }),
+            }, false);
+        },
     },
 
     // User endpoints
@@ -135,10 +198,18 @@ export const backendApi = {
             return backendApiCall('/users/stats');
         },
 
+        getPreferences: async () => {
+            return backendApiCall('/users/preferences');
+        },
+
+        // Partial update; the backend enforces these for every notification
         updatePreferences: async (preferences: {
-            emailNotifications?: boolean;
-            smsNotifications?: boolean;
-            pushNotifications?: boolean;
+            channels?: Partial<Record<'inApp' | 'email' | 'sms' | 'whatsapp', boolean>>;
+            types?: Partial<Record<'message' | 'offer' | 'inquiry' | 'payment' | 'system' | 'alert', boolean>>;
+            quietHours?: { enabled?: boolean; start?: string; end?: string };
+            timezone?: string;
+            digest?: 'off' | 'daily';
+            digestTime?: string;
         }) => {
             return backendApiCall('/users/preferences', {
                 method: 'PUT',
@@ -156,9 +227,27 @@ export const backendApi = {
             });
         },
 
-        search: async (filters: any = {}) => {
-            const params = new URLSearchParams(filters).toString();
-            return backendApiCall(`/properties/search?${params}`);
+        // Returns { properties, facets, total, nextCursor }; pass nextCursor back as `cursor` for the next page
+        search: async (filters: Record<string, any> = {}) => {
+            const params = new URLSearchParams();
+            Object.entries(filters).forEach(([key, value]) => {
+                if (value === undefined || value === null || value === '' || value === false) return;
+                if (Array.isArray(value)) {
+                    if (value.length) params.set(key, value.join(','));
+                } else {
+                    params.set(key, String(value));
+                }
+            });
+            return backendApiCall(`/properties/search?${params.toString()}`);
+        },
+
+        // Area: { bbox: 'minLng,minLat,maxLng,maxLat' } | { lat, lng, radiusKm } | { polygon: 'lng,lat;lng,lat;...' }
+        // plus optional zoom (clusters below zoom 13) and any search filter
+        map: async (params: Record<string, string | number>) => {
+            const query = new URLSearchParams(
+                Object.entries(params).map(([key, value]) => [key, String(value)])
+            ).toString();
+            return backendApiCall(`/properties/map?${query}`);
         },
 
         getById: async (id: string) => {
@@ -194,6 +283,18 @@ export const backendApi = {
             });
         },
 
+        submitForReview: async (propertyId: string) => {
+            return backendApiCall(`/properties/${propertyId}/submit`, {
+                method: 'POST',
+            });
+        },
+
+        markClosed: async (propertyId: string) => {
+            return backendApiCall(`/properties/${propertyId}/close`, {
+                method: 'POST',
+            });
+        },
+
         update: async (propertyId: string, updates: any) => {
             return backendApiCall(`/properties/${propertyId}`, {
                 method: 'PUT',
@@ -210,8 +311,8 @@ export const backendApi = {
 
     // Admin endpoints
     admin: {
-        getAllProperties: async () => {
-            return backendApiCall('/admin/properties');
+        getAllProperties: async (status: string = 'pending-review') => {
+            return backendApiCall(`/admin/properties?status=${encodeURIComponent(status)}`);
         },
 
         approveProperty: async (propertyId: string) => {
@@ -291,27 +392,90 @@ export const backendApi = {
             });
         },
 
-        getConversations: async () => {
-            return backendApiCall('/chat/conversations');
+        getConversations: async (filter: 'inbox' | 'archived' | 'muted' | 'all' = 'inbox') => {
+            return backendApiCall(`/chat/conversations?filter=${filter}`);
         },
 
-        getMessages: async (conversationId: string, limit = 50) => {
-            return backendApiCall(`/chat/conversations/${conversationId}/messages?limit=${limit}`);
+        // Pass one cursor: before/after a loaded message id, or around a search hit
+        getMessages: async (
+            conversationId: string,
+            limit = 50,
+            cursor?: { before?: string; after?: string; around?: string }
+        ) => {
+            const params = new URLSearchParams({ limit: String(limit) });
+            Object.entries(cursor || {}).forEach(([key, value]) => {
+                if (value) params.append(key, value);
+            });
+            return backendApiCall(`/chat/conversations/${conversationId}/messages?${params}`);
+        },
+
+        searchMessages: async (
+            q: string,
+            options?: { conversationId?: string; limit?: number; context?: number; cursor?: string }
+        ) => {
+            const params = new URLSearchParams({ q });
+            Object.entries(options || {}).forEach(([key, value]) => {
+                if (value !== undefined && value !== '') params.append(key, String(value));
+            });
+            return backendApiCall(`/chat/search?${params}`);
         },
 
-        sendMessage: async (conversationId: string, content: string) => {
+        sendMessage: async (conversationId: string, content: string, replyToId?: string) => {
             return backendApiCall(`/chat/conversations/${conversationId}/messages`, {
                 method: 'POST',
-                body: JSON.stringify({ content }),
+                body: JSON.stringify({ content, replyToId }),
+            });
+        },
+
+        // Adds the emoji, or removes it if the user already reacted with it
+        toggleReaction: async (messageId: string, emoji: string) => {
+            return backendApiCall(`/chat/messages/${messageId}/reactions`, {
+                method: 'POST',
+                body: JSON.stringify({ emoji }),
+            });
+        },
+
+        forwardMessage: async (messageId: string, conversationId: string) => {
+            return backendApiCall(`/chat/messages/${messageId}/forward`, {
+                method: 'POST',
+                body: JSON.stringify({ conversationId }),
             });
         },
 
+        // Hides the thread for the current user only
         deleteConversation: async (conversationId: string) => {
             return backendApiCall(`/chat/conversations/${conversationId}`, {
                 method: 'DELETE',
             });
         },
 
+        setArchived: async (conversationId: string, archived: boolean) => {
+            return backendApiCall(`/chat/conversations/${conversationId}/archive`, {
+                method: archived ? 'POST' : 'DELETE',
+            });
+        },
+
+        // Omit durationMinutes to mute until unmuted
+        mute: async (conversationId: string, durationMinutes?: number) => {
+            return backendApiCall(`/chat/conversations/${conversationId}/mute`, {
+                method: 'POST',
+                body: JSON.stringify({ durationMinutes }),
+            });
+        },
+
+        unmute: async (conversationId: string) => {
+            return backendApiCall(`/chat/conversations/${conversationId}/mute`, {
+                method: 'DELETE',
+            });
+        },
+
+        setBlocked: async (conversationId: string, blocked: boolean, userId?: string) => {
+            return backendApiCall(`/chat/conversations/${conversationId}/block`, {
+                method: blocked ? 'POST' : 'DELETE',
+                body: JSON.stringify({ userId }),
+            });
+        },
+
         uploadFile: async (
             file: File,
             conversationId: string,
@@ -342,7 +506,14 @@ export const backendApi = {
                             reject(new Error('Invalid response'));
                         }
                     } else {
-                        reject(new Error(`Upload failed: ${xhr.statusText}`));
+                        // Surface the server's reason (file type, size limit, ...)
+                        let message = `Upload failed: ${xhr.statusText}`;
+                        try {
+                            message = JSON.parse(xhr.responseText).error || message;
+                        } catch {
+                            // Not JSON - keep the status text
+                        }
+                        reject(new Error(message));
                     }
                 });
 
@@ -426,6 +597,32 @@ export const backendApi = {
         },
     },
 
+    // Site visits endpoints
+    siteVisits: {
+        create: async (propertyId: string, scheduledAt: string, note?: string) => {
+            return backendApiCall('/site-visits', {
+                method: 'POST',
+                body: JSON.stringify({ propertyId, scheduledAt, note }),
+            });
+        },
+
+        complete: async (visitId: string) => {
+            return backendApiCall(`/site-visits/${visitId}/complete`, {
+                method: 'POST',
+            });
+        },
+
+        cancel: async (visitId: string) => {
+            return backendApiCall(`/site-visits/${visitId}/cancel`, {
+                method: 'POST',
+            });
+        },
+
+        getMyVisits: async () => {
+            return backendApiCall('/site-visits/my-visits');
+        },
+    },
+
     // Reviews endpoints
     reviews: {
         create: async (propertyId: string, rating: number, comment: string) => {
@@ -493,10 +690,11 @@ export const backendApi = {
 
     // Payments endpoints
     payments: {
-        createOrder: async (amount: number, planType: string, metadata?: any) => {
-            return backendApiCall('/payment/create-order', {
+        // Priced by the server from PAYMENT_SERVICES; notes are stored on the order
+        createOrder: async (serviceId: string, notes?: Record<string, string>) => {
+            return backendApiCall('/payments/create-order', {
                 method: 'POST',
-                body: JSON.stringify({ amount, planType, metadata }),
+                body: JSON.stringify({ serviceId, notes }),
             });
         },
 
@@ -505,26 +703,67 @@ export const backendApi = {
             razorpay_payment_id: string;
             razorpay_signature: string;
         }) => {
-            return backendApiCall('/payment/verify', {
+            return backendApiCall('/payments/verify', {
                 method: 'POST',
                 body: JSON.stringify(paymentData),
             });
         },
 
+        // Completes an order when the backend runs the stub gateway (no Razorpay)
+        stubCheckout: async (orderId: string) => {
+            return backendApiCall('/payments/stub/checkout', {
+                method: 'POST',
+                body: JSON.stringify({ orderId }),
+            });
+        },
+
+        // Ledger of captured / failed payments and refunds (amounts in paise)
         getTransactionHistory: async () => {
-            return backendApiCall('/payment/transactions');
+            return backendApiCall('/payments/transactions');
         },
 
         getTransaction: async (transactionId: string) => {
-            return backendApiCall(`/payment/transactions/${transactionId}`);
+            return backendApiCall(`/payments/transactions/${transactionId}`);
         },
 
         getPaymentStats: async () => {
-            return backendApiCall('/payment/stats');
+            return backendApiCall('/payments/stats');
+        },
+
+        // Issues the GST invoice (payment) or credit note (refund) once; later calls return it unchanged.
+        // state is a GST state code or name; it comes from the GSTIN when one is given.
+        generateInvoice: async (transactionId: string, buyer: {
+            name?: string;
+            address?: string;
+            state?: string;
+            gstin?: string;
+        } = {}) => {
+            return backendApiCall(`/payments/transactions/${transactionId}/invoice`, {
+                method: 'POST',
+                body: JSON.stringify(buyer),
+            });
         },
 
-        generateInvoice: async (transactionId: string) => {
-            return backendApiCall(`/payment/invoice/${transactionId}`);
+        getInvoices: async () => {
+            return backendApiCall('/payments/invoices');
+        },
+
+        getInvoice: async (invoiceId: string) => {
+            return backendApiCall(`/payments/invoices/${invoiceId}`);
+        },
+
+        downloadInvoicePdf: async (invoiceId: string): Promise<Blob> => {
+            const token = await getAuthToken();
+            const response = await fetch(`${API_BASE_URL}/payments/invoices/${invoiceId}?format=pdf`, {
+                headers: token ? { 'Authorization': `Bearer ${token}` } : {},
+            });
+
+            if (!response.ok) {
+                const result = await response.json().catch(() => null);
+                throw new Error(result?.error || 'Failed to download invoice');
+            }
+
+            return await response.blob();
         },
     },
 
@@ -609,8 +848,36 @@ export const backendApi = {
 
     // Employee endpoints
     employee: {
-        getTickets: async (status: string = 'all') => {
-            return backendApiCall(`/employee/tickets?status=${status}`);
+        getTickets: async (filters: {
+            status?: string;
+            category?: string;
+            priority?: string;
+            assignedTo?: string;
+            limit?: number;
+            skip?: number;
+        } = {}) => {
+            const params = new URLSearchParams();
+            Object.entries(filters).forEach(([key, value]) => {
+                if (value !== undefined && value !== '' && value !== 'all') {
+                    params.append(key, String(value));
+                }
+            });
+            return backendApiCall(`/employee/tickets?${params.toString()}`);
+        },
+
+        bulkAssign: async (ticketIds: string[], assigneeId?: string) => {
+            return backendApiCall('/employee/tickets/bulk-assign', {
+                method: 'POST',
+                body: JSON.stringify({ ticketIds, assigneeId }),
+            });
+        },
+
+        getWorkload: async () => {
+            return backendApiCall('/employee/workload');
+        },
+
+        getAgentWorkload: async (agentId: string = 'me') => {
+            return backendApiCall(`/employee/workload/${agentId}`);
         },
 
         getActiveConversations: async () => {
@@ -624,6 +891,50 @@ export const backendApi = {
             });
         },
 
+        getCannedResponses: async (filters: { scope?: 'team' | 'personal'; search?: string } = {}) => {
+            const params = new URLSearchParams(filters as Record<string, string>);
+            return backendApiCall(`/employee/canned-responses?${params}`);
+        },
+
+        createCannedResponse: async (data: {
+            title: string;
+            body: string;
+            shortcut?: string;
+            scope?: 'team' | 'personal';
+        }) => {
+            return backendApiCall('/employee/canned-responses', {
+                method: 'POST',
+                body: JSON.stringify(data),
+            });
+        },
+
+        updateCannedResponse: async (id: string, data: { title?: string; body?: string; shortcut?: string }) => {
+            return backendApiCall(`/employee/canned-responses/${id}`, {
+                method: 'PUT',
+                body: JSON.stringify(data),
+            });
+        },
+
+        deleteCannedResponse: async (id: string) => {
+            return backendApiCall(`/employee/canned-responses/${id}`, {
+                method: 'DELETE',
+            });
+        },
+
+        previewCannedResponse: async (id: string, ticketId: string, propertyId?: string) => {
+            return backendApiCall(`/employee/canned-responses/${id}/preview`, {
+                method: 'POST',
+                body: JSON.stringify({ ticketId, propertyId }),
+            });
+        },
+
+        sendCannedResponse: async (id: string, ticketId: string, propertyId?: string) => {
+            return backendApiCall(`/employee/canned-responses/${id}/send`, {
+                method: 'POST',
+                body: JSON.stringify({ ticketId, propertyId }),
+            });
+        },
+
         getUserHistory: async (userId: string) => {
             return backendApiCall(`/employee/user-history/${userId}`);
         },
@@ -696,10 +1007,18 @@ export const backendApi = {
             return await response.json();
         },
 
-        submitFeedback: async (id: string, rating: number) => {
+        submitFeedback: async (id: string, rating: number, comment?: string) => {
             return backendApiCall(`/tickets/${id}/feedback`, {
                 method: 'POST',
-                body: JSON.stringify({ rating }),
+                body: JSON.stringify({ rating, comment }),
+            });
+        },
+
+        // Closed tickets can be reopened for a while after closing
+        reopen: async (id: string, message?: string) => {
+            return backendApiCall(`/tickets/${id}/reopen`, {
+                method: 'POST',
+                body: JSON.stringify({ message }),
             });
         },
     },
@@ -0,0 +1,65 @@
+// GST details for tax invoices
+//
+// States and union territories by GST code; keep in step with GST_STATES in
+// the backend (backend/src/config/gstStates.ts). The buyer's state decides
+// whether an invoice carries CGST + SGST or IGST.
+
+export const GST_STATES: Record<string, string> = {
+  '01': 'Jammu and Kashmir',
+  '02': 'Himachal Pradesh',
+  '03': 'Punjab',
+  '04': 'Chandigarh',
+  '05': 'Uttarakhand',
+  '06': 'Haryana',
+  '07': 'Delhi',
+  '08': 'Rajasthan',
+  '09': 'Uttar Pradesh',
+  '10': 'Bihar',
+  '11': 'Sikkim',
+  '12': 'Arunachal Pradesh',
+  '13': 'Nagaland',
+  '14': 'Manipur',
+  '15': 'Mizoram',
+  '16': 'Tripura',
+  '17': 'Meghalaya',
+  '18': 'Assam',
+  '19': 'West Bengal',
+  '20': 'Jharkhand',
+  '21': 'Odisha',
+  '22': 'Chhattisgarh',
+  '23': 'Madhya Pradesh',
+  '24': 'Gujarat',
+  '26': 'Dadra and Nagar Haveli and Daman and Diu',
+  '27': 'Maharashtra',
+  '29': 'Karnataka',
+  '30': 'Goa',
+  '31': 'Lakshadweep',
+  '32': 'Kerala',
+  '33': 'Tamil Nadu',
+  '34': 'Puducherry',
+  '35': 'Andaman and Nicobar Islands',
+  '36': 'Telangana',
+  '37': 'Andhra Pradesh',
+  '38': 'Ladakh'
+}
+
+// Issued invoice or credit note (amounts in paise)
+export interface Invoice {
+  id: string
+  number: string
+  kind: 'invoice' | 'credit-note'
+  transactionId: string
+  originalInvoiceNumber?: string
+  placeOfSupply: string
+  interState: boolean
+  taxableValue: number
+  cgst: number
+  sgst: number
+  igst: number
+  totalTax: number
+  total: number
+  issuedAt: string
+}
+
+export const isValidGstin = (gstin: string): boolean =>
+  /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/.test(gstin) && gstin.substring(0, 2) in GST_STATES
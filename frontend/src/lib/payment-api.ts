@@ -1,7 +1,11 @@
-// Payment API simulation - In production, this will call your backend
+// Payment API - orders, checkout and verification go through the backend
+
+import { backendApi } from '@/lib/backendApi'
+import { initiateRazorpayPayment, verifyPayment, PaymentOrder, RazorpayResponse } from '@/lib/razorpay'
 
 export interface PaymentRequest {
-  amount: number
+  // The server prices the order from PAYMENT_SERVICES; there's no client amount
+  serviceId: string
   serviceName: string
   paymentMethod: string
   userDetails: {
@@ -14,60 +18,75 @@ export interface PaymentRequest {
 
 export interface PaymentResponse {
   success: boolean
+  // Gateway payment id
   transactionId: string
+  // Ledger entry id, for backendApi.payments.generateInvoice
+  ledgerTransactionId?: string
   orderId: string
   signature: string
+  amount: number
   message: string
   timestamp: string
 }
 
-// Simulate payment processing API call
+// Create an order, take the customer through checkout and verify the payment
 export const processPaymentAPI = async (paymentData: PaymentRequest): Promise<PaymentResponse> => {
-  // Simulate API delay
-  await new Promise(resolve => setTimeout(resolve, 2000))
-  
-  // Generate transaction details
-  const transactionId = 'ghb_' + Date.now() + '_' + Math.random().toString(36).substring(2, 8).toUpperCase()
-  const orderId = 'order_' + Date.now()
-  const signature = 'sig_' + Math.random().toString(36).substring(2, 15)
-  
-  // Simulate 95% success rate
-  const isSuccess = Math.random() > 0.05
-  
-  if (isSuccess) {
-    return {
-      success: true,
-      transactionId,
-      orderId,
-      signature,
-      message: 'Payment processed successfully',
-      timestamp: new Date().toISOString()
-    }
-  } else {
-    throw new Error('Payment failed due to insufficient funds or network error')
+  const { order, keyId } = await createOrderAPI(paymentData.serviceId, {
+    method: paymentData.paymentMethod,
+    customer: paymentData.userDetails.name,
+    email: paymentData.userDetails.email,
+    phone: paymentData.userDetails.phone,
+    ...(paymentData.promoCode ? { promoCode: paymentData.promoCode } : {})
+  })
+
+  const response = await new Promise<RazorpayResponse>((resolve, reject) => {
+    initiateRazorpayPayment(
+      order,
+      keyId,
+      {
+        serviceId: paymentData.serviceId,
+        serviceName: paymentData.serviceName,
+        userDetails: paymentData.userDetails,
+        method: paymentData.paymentMethod
+      },
+      resolve,
+      (error) => reject(new Error(error?.error || error?.message || 'Payment failed'))
+    )
+  })
+
+  const verification = await verifyPayment(response)
+  if (!verification.success) {
+    throw new Error(verification.message)
+  }
+
+  return {
+    success: true,
+    transactionId: response.razorpay_payment_id,
+    ledgerTransactionId: verification.transactionId,
+    orderId: response.razorpay_order_id,
+    signature: response.razorpay_signature,
+    amount: order.amount / 100,
+    message: 'Payment processed successfully',
+    timestamp: new Date().toISOString()
   }
 }
 
-// Simulate payment verification
-export const verifyPaymentAPI = async (transactionId: string): Promise<boolean> => {
-  // Simulate verification delay
-  await new Promise(resolve => setTimeout(resolve, 1000))
-  
-  // In production, this would verify with Razorpay/payment gateway
-  return true
+// Verify a checkout response on the backend
+export const verifyPaymentAPI = async (response: RazorpayResponse): Promise<boolean> => {
+  const verification = await verifyPayment(response)
+  return verification.success
 }
 
-// Create order API simulation
-export const createOrderAPI = async (amount: number, currency: string = 'INR') => {
-  // Simulate order creation
-  await new Promise(resolve => setTimeout(resolve, 500))
-  
-  return {
-    orderId: 'order_' + Date.now(),
-    amount: amount * 100, // Convert to paise
-    currency,
-    status: 'created'
+// Create an order for a service (priced by the backend)
+export const createOrderAPI = async (
+  serviceId: string,
+  notes?: Record<string, string>
+): Promise<{ order: PaymentOrder; keyId: string }> => {
+  const result = await backendApi.payments.createOrder(serviceId, notes)
+  if (!result.success) {
+    throw new Error(result.error || 'Failed to create payment order')
   }
+  return result.data
 }
 
 // Send payment confirmation email
@@ -1,4 +1,9 @@
 // Enhanced Razorpay integration for GharBazaar
+//
+// Orders are created and priced by the backend (/payments/create-order) and
+// payments are only trusted once the backend has verified their signature.
+
+import { backendApi } from '@/lib/backendApi';
 
 declare global {
   interface Window {
@@ -18,6 +23,7 @@ export interface RazorpayOptions {
     name: string;
     email: string;
     contact: string;
+    method?: string;
   };
   theme: {
     color: string;
@@ -46,19 +52,33 @@ export interface RazorpayOptions {
 
 export interface RazorpayResponse {
   razorpay_payment_id: string;
-  razorpay_order_id?: string;
-  razorpay_signature?: string;
+  razorpay_order_id: string;
+  razorpay_signature: string;
 }
 
 export interface PaymentData {
   serviceId: string;
   serviceName: string;
-  amount: number;
   userDetails: {
     name: string;
     email: string;
     phone: string;
   };
+  // Preferred method to open checkout on (upi, card, netbanking, wallet)
+  method?: string;
+}
+
+// Order as returned by backendApi.payments.createOrder
+export interface PaymentOrder {
+  id: string;
+  serviceId: string;
+  serviceName: string;
+  amount: number; // paise
+  currency: string;
+  receipt: string;
+  gateway: 'razorpay' | 'stub';
+  status: 'created' | 'paid' | 'failed';
+  paymentId?: string;
 }
 
 // Load Razorpay script dynamically
@@ -78,40 +98,47 @@ export const loadRazorpayScript = (): Promise<boolean> => {
   });
 };
 
-// Initialize Razorpay payment with enhanced features
+// Open checkout for an order created by the backend
 export const initiateRazorpayPayment = async (
+  order: PaymentOrder,
+  keyId: string,
   paymentData: PaymentData,
   onSuccess: (response: RazorpayResponse) => void,
   onFailure: (error: any) => void
 ): Promise<void> => {
+  const amount = order.amount / 100;
+
   try {
+    // Local development: the backend's stub gateway completes the payment
+    if (order.gateway === 'stub') {
+      const result = await backendApi.payments.stubCheckout(order.id);
+      if (!result.success) {
+        throw new Error(result.error || 'Stub checkout failed');
+      }
+      onSuccess(result.data);
+      return;
+    }
+
     // Load Razorpay script
     const isLoaded = await loadRazorpayScript();
     if (!isLoaded) {
       throw new Error('Failed to load Razorpay SDK. Please check your internet connection.');
     }
 
-    // Get Razorpay key from environment
-    const razorpayKey = process.env.NEXT_PUBLIC_RAZORPAY_KEY_ID;
-    if (!razorpayKey) {
-      throw new Error('Payment gateway not configured. Please contact support.');
-    }
-
-    // Generate unique order reference
-    const orderRef = generateTransactionRef();
-
     // Prepare enhanced Razorpay options
     const options: RazorpayOptions = {
-      key: razorpayKey,
-      amount: paymentData.amount * 100, // Convert to paise
-      currency: 'INR',
+      key: keyId,
+      amount: order.amount,
+      currency: order.currency,
       name: 'GharBazaar',
-      description: paymentData.serviceName,
+      description: order.serviceName,
       image: '/images/gharbazar-logo.jpeg',
+      order_id: order.id,
       prefill: {
         name: paymentData.userDetails.name,
         email: paymentData.userDetails.email,
         contact: paymentData.userDetails.phone,
+        method: paymentData.method,
       },
       theme: {
         color: '#14b8a6', // Teal color matching GharBazaar theme
@@ -128,9 +155,9 @@ export const initiateRazorpayPayment = async (
         }
       },
       notes: {
-        service_id: paymentData.serviceId,
-        service_name: paymentData.serviceName,
-        order_ref: orderRef,
+        service_id: order.serviceId,
+        service_name: order.serviceName,
+        order_ref: order.receipt,
         customer_name: paymentData.userDetails.name,
         customer_email: paymentData.userDetails.email,
       },
@@ -139,8 +166,8 @@ export const initiateRazorpayPayment = async (
         trackRazorpayEvent('payment_success', {
           payment_id: response.razorpay_payment_id,
           order_id: response.razorpay_order_id,
-          amount: paymentData.amount,
-          service: paymentData.serviceName
+          amount,
+          service: order.serviceName
         });
         onSuccess(response);
       },
@@ -148,8 +175,8 @@ export const initiateRazorpayPayment = async (
         ondismiss: () => {
           console.log('Payment modal dismissed');
           trackRazorpayEvent('payment_dismissed', {
-            amount: paymentData.amount,
-            service: paymentData.serviceName
+            amount,
+            service: order.serviceName
           });
           onFailure({ error: 'Payment cancelled by user' });
         },
@@ -160,8 +187,8 @@ export const initiateRazorpayPayment = async (
 
     // Track payment initiation
     trackRazorpayEvent('payment_initiated', {
-      amount: paymentData.amount,
-      service: paymentData.serviceName,
+      amount,
+      service: order.serviceName,
       customer: paymentData.userDetails.email
     });
 
@@ -174,8 +201,8 @@ export const initiateRazorpayPayment = async (
       trackRazorpayEvent('payment_failed', {
         error_code: response.error.code,
         error_description: response.error.description,
-        amount: paymentData.amount,
-        service: paymentData.serviceName
+        amount,
+        service: order.serviceName
       });
       onFailure({
         error: response.error.description || 'Payment failed',
@@ -190,29 +217,32 @@ export const initiateRazorpayPayment = async (
     console.error('Razorpay initialization error:', error);
     trackRazorpayEvent('payment_error', {
       error: error instanceof Error ? error.message : 'Unknown error',
-      amount: paymentData.amount,
-      service: paymentData.serviceName
+      amount,
+      service: order.serviceName
     });
     onFailure(error);
   }
 };
 
-// Verify payment on server (mock implementation)
+// Verify payment on the server (checks razorpay_signature and marks the order paid)
 export const verifyPayment = async (
-  paymentId: string,
-  orderId?: string,
-  signature?: string
-): Promise<{ success: boolean; message: string }> => {
+  response: RazorpayResponse
+): Promise<{ success: boolean; message: string; order?: PaymentOrder; transactionId?: string }> => {
   try {
-    // In production, this should call your backend API
-    // to verify the payment with Razorpay
-
-    // Mock verification - always return success for demo
-    await new Promise(resolve => setTimeout(resolve, 1000));
+    const result = await backendApi.payments.verify(response);
+    if (!result.success) {
+      return {
+        success: false,
+        message: result.error || 'Payment verification failed'
+      };
+    }
 
     return {
       success: true,
-      message: 'Payment verified successfully'
+      message: 'Payment verified successfully',
+      order: result.data.order,
+      // Ledger entry, used to issue the invoice
+      transactionId: result.data.transaction?.id
     };
   } catch (error) {
     return {
@@ -250,10 +280,6 @@ export const validatePaymentData = (data: PaymentData): string[] => {
     errors.push('Service name is required');
   }
 
-  if (!data.amount || data.amount <= 0) {
-    errors.push('Valid amount is required');
-  }
-
   if (!data.userDetails.name?.trim()) {
     errors.push('Name is required');
   }